@@ -0,0 +1,91 @@
+/**
+ * Re-encrypt stored bank credentials with the current master key.
+ *
+ *   npm run secrets:rotate -w @otter-money/api
+ *
+ * To rotate: put the new key first in ENCRYPTION_KEYS, keeping the old one
+ * after it, and run this. Each row's data key is re-wrapped with the new key
+ * (the credential itself isn't re-encrypted). Rows stored before encryption
+ * was added are encrypted. Once it reports nothing left on old keys, the old
+ * key can be removed from ENCRYPTION_KEYS.
+ *
+ * Pass --dry-run to only count what would change.
+ */
+
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { isEncrypted, rewrapSecret } from '../src/utils/encryption';
+
+const dryRun = process.argv.includes('--dry-run');
+
+// The plain client, so values are read and written exactly as stored
+const prisma = new PrismaClient();
+
+interface RotationResult {
+  total: number;
+  rewrapped: number;
+  encrypted: number;
+}
+
+async function rotate(
+  label: string,
+  rows: { id: string; value: string }[],
+  save: (id: string, current: string, next: string) => Promise<number>
+): Promise<RotationResult> {
+  const result: RotationResult = { total: rows.length, rewrapped: 0, encrypted: 0 };
+
+  for (const row of rows) {
+    const next = rewrapSecret(row.value);
+    if (!next) continue;
+
+    if (isEncrypted(row.value)) result.rewrapped++;
+    else result.encrypted++;
+
+    if (!dryRun) {
+      // Only overwrite the value we read, in case the row changed meanwhile
+      const updated = await save(row.id, row.value, next);
+      if (updated === 0) console.warn(`  ${label} ${row.id} changed during rotation, skipped`);
+    }
+  }
+
+  console.log(
+    `${label}: ${result.total} rows, ${result.rewrapped} re-wrapped, ${result.encrypted} encrypted` +
+      (dryRun ? ' (dry run)' : '')
+  );
+  return result;
+}
+
+async function main() {
+  const plaidItems = await prisma.plaidItem.findMany({ select: { id: true, accessToken: true } });
+  await rotate(
+    'Plaid items',
+    plaidItems.map((item) => ({ id: item.id, value: item.accessToken })),
+    async (id, current, next) =>
+      (
+        await prisma.plaidItem.updateMany({
+          where: { id, accessToken: current },
+          data: { accessToken: next },
+        })
+      ).count
+  );
+
+  const connections = await prisma.simplefinConnection.findMany({ select: { id: true, accessUrl: true } });
+  await rotate(
+    'SimpleFin connections',
+    connections.map((connection) => ({ id: connection.id, value: connection.accessUrl })),
+    async (id, current, next) =>
+      (
+        await prisma.simplefinConnection.updateMany({
+          where: { id, accessUrl: current },
+          data: { accessUrl: next },
+        })
+      ).count
+  );
+}
+
+main()
+  .catch((err) => {
+    console.error('Rotation failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
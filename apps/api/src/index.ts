@@ -15,9 +15,16 @@ import { dashboardRouter } from './routes/dashboard';
 import { analyticsRouter } from './routes/analytics';
 import { healthRouter } from './routes/health';
 import plaidRouter from './routes/plaid';
+import { simplefinRouter } from './routes/simplefin';
 import { recurringRouter } from './routes/recurring';
 import { goalsRouter } from './routes/goals';
 import { vehiclesRouter } from './routes/vehicles';
+import { wallyRouter } from './routes/wally';
+import { collegePlansRouter } from './routes/collegePlans';
+import { tagsRouter } from './routes/tags';
+import { scheduleDailyBalanceSnapshots } from './jobs/dailyBalanceSnapshots';
+import { scheduleSimplefinSync } from './jobs/simplefinSync';
+import { scheduleBudgetTemplates } from './jobs/budgetTemplates';
 
 const app = express();
 const PORT = process.env.PORT || 4000;
@@ -43,14 +50,18 @@ app.use('/api/household', householdRouter);
 app.use('/api/accounts', accountsRouter);
 app.use('/api/transactions', transactionsRouter);
 app.use('/api/categories', categoriesRouter);
+app.use('/api/tags', tagsRouter);
 app.use('/api/rules', rulesRouter);
 app.use('/api/budgets', budgetsRouter);
 app.use('/api/dashboard', dashboardRouter);
 app.use('/api/analytics', analyticsRouter);
 app.use('/api/plaid', plaidRouter);
+app.use('/api/simplefin', simplefinRouter);
 app.use('/api/recurring', recurringRouter);
 app.use('/api/goals', goalsRouter);
 app.use('/api/vehicles', vehiclesRouter);
+app.use('/api/wally', wallyRouter);
+app.use('/api/college-plans', collegePlansRouter);
 
 // Error handler
 app.use(errorHandler);
@@ -58,4 +69,7 @@ app.use(errorHandler);
 // Start server
 app.listen(PORT, () => {
   console.log(`🦦 Otter Money API running on port ${PORT}`);
+  scheduleDailyBalanceSnapshots();
+  scheduleSimplefinSync();
+  scheduleBudgetTemplates();
 });
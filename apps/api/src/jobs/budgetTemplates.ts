@@ -0,0 +1,26 @@
+import { applyBudgetTemplatesForCurrentPeriod } from '../services/budgetTemplate';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function runBudgetTemplateJob() {
+  try {
+    const count = await applyBudgetTemplatesForCurrentPeriod();
+    if (count > 0) {
+      console.log(`[BUDGET TEMPLATE JOB] Created ${count} budgets from templates`);
+    }
+  } catch (err) {
+    console.error('[BUDGET TEMPLATE JOB] Failed to apply budget templates:', err);
+  }
+}
+
+/**
+ * Create each household's template budgets once its next budget period
+ * starts (a week, two weeks, half month, month, quarter or year, depending on
+ * its cadence). Checking hourly (and at startup) keeps a new period from
+ * waiting long whatever time zone the server runs in; each period is applied
+ * only once.
+ */
+export function scheduleBudgetTemplates() {
+  void runBudgetTemplateJob();
+  setInterval(() => void runBudgetTemplateJob(), HOUR_MS);
+}
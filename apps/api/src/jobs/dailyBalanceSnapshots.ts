@@ -0,0 +1,40 @@
+import { snapshotAllAccounts } from '../services/balanceSnapshots';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Run shortly after midnight UTC. The balance at that moment is stored as the new UTC day's snapshot
+// (and overwritten by later syncs that day), not as the previous day's close.
+const RUN_AT_UTC_MINUTES = 5;
+
+async function runSnapshotJob() {
+  try {
+    const count = await snapshotAllAccounts();
+    console.log(`[SNAPSHOT JOB] Recorded balance snapshots for ${count} accounts`);
+  } catch (err) {
+    console.error('[SNAPSHOT JOB] Failed to snapshot account balances:', err);
+  }
+}
+
+function msUntilNextRun(now: Date = new Date()): number {
+  const next = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), 0, RUN_AT_UTC_MINUTES)
+  );
+  if (next <= now) {
+    next.setTime(next.getTime() + DAY_MS);
+  }
+  return next.getTime() - now.getTime();
+}
+
+/**
+ * Snapshot every account balance once a day.
+ * Also runs once at startup so a restart never leaves a gap in the history
+ * (snapshots are upserted per account per day, so re-running is harmless).
+ */
+export function scheduleDailyBalanceSnapshots() {
+  void runSnapshotJob();
+
+  setTimeout(() => {
+    void runSnapshotJob();
+    setInterval(() => void runSnapshotJob(), DAY_MS);
+  }, msUntilNextRun());
+}
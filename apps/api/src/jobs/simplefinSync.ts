@@ -0,0 +1,25 @@
+import { syncAllSimplefinConnections } from '../services/simplefinSync';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// SimpleFin Bridge refreshes about once a day and asks clients to stay under
+// 24 requests per day, so a few syncs a day is plenty
+const SYNC_INTERVAL_MS = 6 * HOUR_MS;
+
+async function runSimplefinSyncJob() {
+  try {
+    const count = await syncAllSimplefinConnections();
+    if (count > 0) {
+      console.log(`[SIMPLEFIN JOB] Synced ${count} SimpleFin connections`);
+    }
+  } catch (err) {
+    console.error('[SIMPLEFIN JOB] Failed to sync SimpleFin connections:', err);
+  }
+}
+
+/**
+ * SimpleFin has no webhooks, so poll every connected household.
+ */
+export function scheduleSimplefinSync() {
+  setInterval(() => void runSimplefinSyncJob(), SYNC_INTERVAL_MS);
+}
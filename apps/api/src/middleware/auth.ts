@@ -3,11 +3,17 @@ import jwt from 'jsonwebtoken';
 import { ERROR_CODES } from '@otter-money/shared';
 import { AppError } from './error';
 import { prisma } from '../utils/prisma';
+import { verifyAccessToken } from '../services/sessions';
 
 export interface AuthUser {
   id: string;
   email: string;
   householdId: string | null;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  // The household requires 2FA and this user hasn't set it up
+  needsTwoFactor: boolean;
+  sessionId: string;
 }
 
 declare global {
@@ -26,23 +32,46 @@ export async function authenticate(req: Request, _res: Response, next: NextFunct
     }
 
     const token = authHeader.slice(7);
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-      throw new AppError(ERROR_CODES.INTERNAL_ERROR, 'JWT secret not configured', 500);
-    }
+    const payload = verifyAccessToken(token);
 
-    const payload = jwt.verify(token, secret) as { userId: string };
+    // Tokens issued before sessions existed have no session to check
+    if (!payload.sid) {
+      throw new AppError(ERROR_CODES.UNAUTHORIZED, 'Invalid token', 401);
+    }
 
-    const user = await prisma.user.findUnique({
-      where: { id: payload.userId },
-      select: { id: true, email: true, householdId: true },
+    // Checked on every request so a revoked device is signed out right away
+    const session = await prisma.session.findUnique({
+      where: { id: payload.sid },
+      select: {
+        revokedAt: true,
+        user: {
+          select: {
+            id: true,
+            email: true,
+            householdId: true,
+            emailVerified: true,
+            totpEnabledAt: true,
+            household: { select: { requireTwoFactor: true } },
+          },
+        },
+      },
     });
 
-    if (!user) {
-      throw new AppError(ERROR_CODES.UNAUTHORIZED, 'User not found', 401);
+    if (!session || session.user.id !== payload.userId) {
+      throw new AppError(ERROR_CODES.UNAUTHORIZED, 'Session has expired', 401);
     }
 
-    req.user = user;
+    if (session.revokedAt) {
+      throw new AppError(ERROR_CODES.UNAUTHORIZED, 'Session has been revoked', 401);
+    }
+
+    const { totpEnabledAt, household, ...user } = session.user;
+    req.user = {
+      ...user,
+      twoFactorEnabled: !!totpEnabledAt,
+      needsTwoFactor: !!household?.requireTwoFactor && !totpEnabledAt,
+      sessionId: payload.sid,
+    };
     next();
   } catch (err) {
     if (err instanceof jwt.JsonWebTokenError) {
@@ -53,10 +82,30 @@ export async function authenticate(req: Request, _res: Response, next: NextFunct
   }
 }
 
-// Middleware to require household membership
+// Middleware to require household membership. Members of a household that
+// requires 2FA are kept out of its data until they set it up.
 export function requireHousehold(req: Request, _res: Response, next: NextFunction) {
   if (!req.user?.householdId) {
     return next(new AppError(ERROR_CODES.FORBIDDEN, 'No household associated', 403));
   }
+  if (req.user.needsTwoFactor) {
+    return next(
+      new AppError(
+        ERROR_CODES.TWO_FACTOR_REQUIRED,
+        'Your household requires two-factor authentication. Set it up to continue.',
+        403
+      )
+    );
+  }
+  next();
+}
+
+// Middleware to require a verified email address
+export function requireVerifiedEmail(req: Request, _res: Response, next: NextFunction) {
+  if (!req.user?.emailVerified) {
+    return next(
+      new AppError(ERROR_CODES.EMAIL_NOT_VERIFIED, 'Verify your email address to do this', 403)
+    );
+  }
   next();
 }
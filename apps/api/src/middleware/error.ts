@@ -44,6 +44,16 @@ export function errorHandler(
     });
   }
 
+  // Bodies over a parser's size limit (JSON imports, attachment uploads)
+  if ((err as { type?: string }).type === 'entity.too.large') {
+    return res.status(413).json({
+      error: {
+        code: ERROR_CODES.VALIDATION_ERROR,
+        message: 'Request is too large',
+      },
+    });
+  }
+
   // Unknown errors
   return res.status(500).json({
     error: {
@@ -5,6 +5,9 @@ import { authenticate, requireHousehold } from '../middleware/auth';
 import { AppError } from '../middleware/error';
 import { prisma } from '../utils/prisma';
 import { ERROR_CODES } from '@otter-money/shared';
+import { recordBalanceSnapshot } from '../services/balanceSnapshots';
+import { recordAuditEvent } from '../services/auditLog';
+import { deleteAttachmentFiles, findAttachmentStorageKeys } from '../services/attachments';
 
 export const accountsRouter = Router();
 
@@ -213,6 +216,9 @@ accountsRouter.post('/', async (req, res, next) => {
       },
     });
 
+    await recordBalanceSnapshot(account.id, account.currentBalance, 'MANUAL');
+    await recordAuditEvent(req.user!, { entityType: 'ACCOUNT', action: 'CREATE', after: account });
+
     res.status(201).json({
       data: {
         ...account,
@@ -267,6 +273,13 @@ accountsRouter.patch('/:id', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'ACCOUNT',
+      action: 'UPDATE',
+      before: existing,
+      after: account,
+    });
+
     res.json({
       data: {
         ...account,
@@ -291,11 +304,18 @@ accountsRouter.delete('/:id', async (req, res, next) => {
         where: { id: req.params.id },
         data: { connectionStatus: 'DISCONNECTED' },
       });
+      await recordAuditEvent(req.user!, {
+        entityType: 'ACCOUNT',
+        action: 'UPDATE',
+        after: account,
+        summary: 'Disconnected',
+      });
       res.json({ data: { message: 'Account disconnected' } });
       return;
     }
 
     // For manual accounts, delete account and all transactions
+    const attachmentKeys = await findAttachmentStorageKeys({ accountId: req.params.id });
     await prisma.$transaction([
       prisma.transaction.deleteMany({
         where: { accountId: req.params.id },
@@ -304,6 +324,9 @@ accountsRouter.delete('/:id', async (req, res, next) => {
         where: { id: req.params.id },
       }),
     ]);
+    await deleteAttachmentFiles(attachmentKeys);
+
+    await recordAuditEvent(req.user!, { entityType: 'ACCOUNT', action: 'DELETE', before: account });
 
     res.json({ data: { message: 'Account deleted' } });
   } catch (err) {
@@ -367,6 +390,14 @@ accountsRouter.post('/:id/balance', async (req, res, next) => {
       }),
     ]);
 
+    await recordBalanceSnapshot(updatedAccount.id, updatedAccount.currentBalance, 'MANUAL');
+    await recordAuditEvent(req.user!, {
+      entityType: 'ACCOUNT',
+      action: 'UPDATE',
+      before: account,
+      after: updatedAccount,
+    });
+
     res.json({
       data: {
         ...updatedAccount,
@@ -1,19 +1,34 @@
 import { Router } from 'express';
+import {
+  ERROR_CODES,
+  getCurrentPeriod,
+  getPeriodDateRange,
+  getPrevPeriod,
+  isValidPeriod,
+  shiftPeriod,
+} from '@otter-money/shared';
 import { authenticate, requireHousehold } from '../middleware/auth';
+import { AppError } from '../middleware/error';
 import { prisma } from '../utils/prisma';
+import {
+  attributedOwnerWhere,
+  excludeSplitParents,
+  getAttributedOwnerId,
+} from '../services/transactionSplits';
+import { excludeConfirmedTransfers } from '../services/transferMatcher';
+import { getSpendingBreakdown } from '../services/spendingBreakdown';
 
 export const analyticsRouter = Router();
 
 analyticsRouter.use(authenticate);
 analyticsRouter.use(requireHousehold);
 
-// Helper to parse period into date range
-function getPeriodDateRange(period: string): { start: Date; end: Date } {
-  const [year, month] = period.split('-').map(Number);
-  // Use UTC to avoid timezone issues with date-only fields
-  const start = new Date(Date.UTC(year, month - 1, 1, 0, 0, 0, 0));
-  const end = new Date(Date.UTC(year, month, 0, 23, 59, 59, 999));
-  return { start, end };
+// Helper to parse a period query parameter (a month, or any budget period) into a date range
+function getPeriodParamRange(period: string): { start: Date; end: Date } {
+  if (!isValidPeriod(period)) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, `Invalid period "${period}"`, 400);
+  }
+  return getPeriodDateRange(period);
 }
 
 // Helper to get date range from startDate and endDate
@@ -30,12 +45,6 @@ function getDateRange(startDate?: string, endDate?: string): { start: Date; end:
   return { start, end };
 }
 
-// Helper to get current period
-function getCurrentPeriod(): string {
-  const now = new Date();
-  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-}
-
 // GET /analytics/spending/breakdown
 // Get spending breakdown by category for a period or date range
 analyticsRouter.get('/spending/breakdown', async (req, res, next) => {
@@ -48,140 +57,18 @@ analyticsRouter.get('/spending/breakdown', async (req, res, next) => {
 
     // Get date range from period or custom dates
     const { start, end } = period
-      ? getPeriodDateRange(period)
+      ? getPeriodParamRange(period)
       : getDateRange(startDate, endDate);
 
-    // Get household members
-    const members = await prisma.user.findMany({
-      where: { householdId },
-      select: { id: true, name: true },
-    });
-
-    // Build where clause for transactions
-    const whereClause: any = {
-      account: {
-        householdId,
-        excludeFromBudget: false,
-      },
-      date: {
-        gte: start,
-        lte: end,
-      },
-      categoryId: {
-        not: null,
-      },
-      isAdjustment: false,
-    };
-
-    // Add partner filter if specified
-    if (ownerId) {
-      whereClause.account.ownerId = ownerId;
-    }
-
-    // Get all expense transactions in this period
-    const transactions = await prisma.transaction.findMany({
-      where: whereClause,
-      include: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            type: true,
-            icon: true,
-            color: true,
-          },
-        },
-        account: {
-          select: {
-            ownerId: true,
-          },
-        },
-      },
+    const { breakdown, totalSpending, members } = await getSpendingBreakdown(householdId, {
+      start,
+      end,
+      ownerId,
     });
 
-    // Group by category
-    const spendingByCategory = new Map<
-      string,
-      {
-        categoryId: string;
-        categoryName: string;
-        categoryType: string;
-        categoryIcon: string | null;
-        categoryColor: string | null;
-        totalAmount: number;
-        transactionCount: number;
-        byPartner: Record<string, { amount: number; count: number }>;
-      }
-    >();
-
-    // Process transactions
-    transactions.forEach((transaction) => {
-      if (!transaction.categoryId || !transaction.category) return;
-
-      const categoryId = transaction.categoryId;
-      const accountOwnerId = transaction.account.ownerId;
-      const amount = Math.abs(Number(transaction.amount));
-      const isExpense = transaction.category.type === 'EXPENSE';
-
-      // Only count expenses in breakdown (or negative amounts for income/transfer)
-      const amountToAdd = isExpense ? amount : 0;
-
-      if (!spendingByCategory.has(categoryId)) {
-        const partnersMap: Record<string, { amount: number; count: number }> = {};
-        members.forEach((member) => {
-          partnersMap[member.id] = { amount: 0, count: 0 };
-        });
-
-        spendingByCategory.set(categoryId, {
-          categoryId,
-          categoryName: transaction.category.name,
-          categoryType: transaction.category.type,
-          categoryIcon: transaction.category.icon,
-          categoryColor: transaction.category.color,
-          totalAmount: 0,
-          transactionCount: 0,
-          byPartner: partnersMap,
-        });
-      }
-
-      const categoryData = spendingByCategory.get(categoryId)!;
-      categoryData.totalAmount += amountToAdd;
-      categoryData.transactionCount += 1;
-
-      if (accountOwnerId && categoryData.byPartner[accountOwnerId]) {
-        categoryData.byPartner[accountOwnerId].amount += amountToAdd;
-        categoryData.byPartner[accountOwnerId].count += 1;
-      }
-    });
-
-    // Calculate total spending for percentages
-    const totalSpending = Array.from(spendingByCategory.values())
-      .reduce((sum, cat) => sum + cat.totalAmount, 0);
-
-    // Convert to array with partner details and percentages
-    const result = Array.from(spendingByCategory.values())
-      .map((data) => ({
-        categoryId: data.categoryId,
-        categoryName: data.categoryName,
-        categoryType: data.categoryType,
-        categoryIcon: data.categoryIcon,
-        categoryColor: data.categoryColor,
-        totalAmount: data.totalAmount,
-        percentage: totalSpending > 0 ? (data.totalAmount / totalSpending) * 100 : 0,
-        transactionCount: data.transactionCount,
-        byPartner: members.map((member) => ({
-          userId: member.id,
-          userName: member.name,
-          amount: data.byPartner[member.id]?.amount || 0,
-          count: data.byPartner[member.id]?.count || 0,
-        })),
-      }))
-      .filter((data) => data.totalAmount > 0) // Only include categories with spending
-      .sort((a, b) => b.totalAmount - a.totalAmount); // Sort by amount descending
-
     res.json({
       data: {
-        breakdown: result,
+        breakdown,
         totalSpending,
         startDate: start.toISOString(),
         endDate: end.toISOString(),
@@ -210,11 +97,10 @@ analyticsRouter.get('/spending/trends', async (req, res, next) => {
     });
 
     // Generate period strings for the last N months
+    const currentPeriod = getCurrentPeriod();
     const periods: string[] = [];
-    const now = new Date();
     for (let i = months - 1; i >= 0; i--) {
-      const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
-      periods.push(`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`);
+      periods.push(shiftPeriod(currentPeriod, -i));
     }
 
     // Fetch data for each period
@@ -236,6 +122,9 @@ analyticsRouter.get('/spending/trends', async (req, res, next) => {
             not: null,
           },
           isAdjustment: false,
+          excludeFromBudget: false,
+          ...excludeSplitParents,
+          ...excludeConfirmedTransfers,
         };
 
         // Add filters
@@ -243,7 +132,7 @@ analyticsRouter.get('/spending/trends', async (req, res, next) => {
           whereClause.categoryId = categoryId;
         }
         if (ownerId) {
-          whereClause.account.ownerId = ownerId;
+          whereClause.AND = [attributedOwnerWhere(ownerId)];
         }
 
         const transactions = await prisma.transaction.findMany({
@@ -273,7 +162,7 @@ analyticsRouter.get('/spending/trends', async (req, res, next) => {
 
         transactions.forEach((tx) => {
           const amount = Math.abs(Number(tx.amount));
-          const accountOwnerId = tx.account.ownerId;
+          const accountOwnerId = getAttributedOwnerId(tx);
 
           if (tx.category?.type === 'EXPENSE') {
             totalExpense += amount;
@@ -324,11 +213,11 @@ analyticsRouter.get('/spending/comparison', async (req, res, next) => {
     const period2 = req.query.period2 as string;
 
     if (!period2) {
-      // Default to previous month
-      const [year, month] = period1.split('-').map(Number);
-      const prevDate = new Date(year, month - 2, 1);
-      const prevPeriod = `${prevDate.getFullYear()}-${String(prevDate.getMonth() + 1).padStart(2, '0')}`;
-      return res.redirect(`/api/analytics/spending/comparison?period1=${period1}&period2=${prevPeriod}`);
+      // Default to the period before
+      if (!isValidPeriod(period1)) {
+        throw new AppError(ERROR_CODES.VALIDATION_ERROR, `Invalid period "${period1}"`, 400);
+      }
+      return res.redirect(`/api/analytics/spending/comparison?period1=${period1}&period2=${getPrevPeriod(period1)}`);
     }
 
     // Get members
@@ -339,7 +228,7 @@ analyticsRouter.get('/spending/comparison', async (req, res, next) => {
 
     // Helper to get spending for a period
     const getPeriodSpending = async (period: string) => {
-      const { start, end } = getPeriodDateRange(period);
+      const { start, end } = getPeriodParamRange(period);
 
       const transactions = await prisma.transaction.findMany({
         where: {
@@ -355,6 +244,9 @@ analyticsRouter.get('/spending/comparison', async (req, res, next) => {
             not: null,
           },
           isAdjustment: false,
+          excludeFromBudget: false,
+          ...excludeSplitParents,
+          ...excludeConfirmedTransfers,
         },
         include: {
           category: {
@@ -384,7 +276,7 @@ analyticsRouter.get('/spending/comparison', async (req, res, next) => {
 
         const categoryId = tx.category.id;
         const amount = Math.abs(Number(tx.amount));
-        const accountOwnerId = tx.account.ownerId;
+        const accountOwnerId = getAttributedOwnerId(tx);
 
         if (tx.category.type === 'EXPENSE') {
           totalExpense += amount;
@@ -487,7 +379,7 @@ analyticsRouter.get('/spending/by-partner', async (req, res, next) => {
   try {
     const householdId = req.user!.householdId!;
     const period = (req.query.period as string) || getCurrentPeriod();
-    const { start, end } = getPeriodDateRange(period);
+    const { start, end } = getPeriodParamRange(period);
 
     // Get household members
     const members = await prisma.user.findMany({
@@ -510,6 +402,9 @@ analyticsRouter.get('/spending/by-partner', async (req, res, next) => {
           not: null,
         },
         isAdjustment: false,
+        excludeFromBudget: false,
+        ...excludeSplitParents,
+        ...excludeConfirmedTransfers,
       },
       include: {
         category: {
@@ -532,7 +427,7 @@ analyticsRouter.get('/spending/by-partner', async (req, res, next) => {
       let transactionCount = 0;
 
       transactions.forEach((tx) => {
-        if (tx.account.ownerId === member.id) {
+        if (getAttributedOwnerId(tx) === member.id) {
           const amount = Math.abs(Number(tx.amount));
 
           if (tx.category?.type === 'EXPENSE') {
@@ -574,3 +469,78 @@ analyticsRouter.get('/spending/by-partner', async (req, res, next) => {
     next(err);
   }
 });
+
+// GET /analytics/spending/by-tag
+// Get spending and income per tag for a period or date range. Tags cut across
+// categories, so transactions hidden from budgets still count; transfers and
+// balance adjustments don't.
+analyticsRouter.get('/spending/by-tag', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+    const period = req.query.period as string;
+    const startDate = req.query.startDate as string;
+    const endDate = req.query.endDate as string;
+    const ownerId = req.query.ownerId as string | undefined; // Optional partner filter
+
+    const { start, end } = period
+      ? getPeriodParamRange(period)
+      : getDateRange(startDate, endDate);
+
+    const tags = await prisma.tag.findMany({
+      where: { householdId },
+      select: {
+        id: true,
+        name: true,
+        color: true,
+        transactions: {
+          where: {
+            date: { gte: start, lte: end },
+            isAdjustment: false,
+            ...excludeConfirmedTransfers,
+            ...(ownerId && attributedOwnerWhere(ownerId)),
+          },
+          select: { amount: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    const byTag = tags
+      .filter((tag) => tag.transactions.length > 0)
+      .map((tag) => {
+        let expense = 0;
+        let income = 0;
+
+        tag.transactions.forEach((tx) => {
+          const amount = Number(tx.amount);
+          if (amount < 0) {
+            expense += -amount;
+          } else {
+            income += amount;
+          }
+        });
+
+        return {
+          tagId: tag.id,
+          tagName: tag.name,
+          tagColor: tag.color,
+          expense,
+          income,
+          netCashFlow: income - expense,
+          transactionCount: tag.transactions.length,
+        };
+      })
+      .sort((a, b) => b.expense - a.expense);
+
+    res.json({
+      data: {
+        byTag,
+        startDate: start.toISOString(),
+        endDate: end.toISOString(),
+        period: period || null,
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
@@ -1,12 +1,35 @@
 import { Router } from 'express';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
+import type { Request } from 'express';
+import type { Household, User } from '@prisma/client';
 import { z } from 'zod';
 import { ERROR_CODES } from '@otter-money/shared';
 import { prisma } from '../utils/prisma';
 import { AppError } from '../middleware/error';
+import { authenticate } from '../middleware/auth';
 import { sendPasswordResetEmail } from '../services/email';
+import {
+  confirmEmailToken,
+  requestEmailChange,
+  sendEmailVerification,
+} from '../services/emailVerification';
+import {
+  createSession,
+  revokeSessionByToken,
+  revokeUserSessions,
+  rotateSession,
+} from '../services/sessions';
+import {
+  beginTwoFactorSetup,
+  completeTwoFactorChallenge,
+  createTwoFactorChallenge,
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+} from '../services/twoFactor';
 
 export const authRouter = Router();
 
@@ -15,6 +38,7 @@ const registerSchema = z.object({
   password: z.string().min(8),
   name: z.string().min(1),
   householdName: z.string().optional(),
+  deviceName: z.string().max(100).optional(),
 });
 
 const joinSchema = z.object({
@@ -22,11 +46,13 @@ const joinSchema = z.object({
   password: z.string().min(8),
   name: z.string().min(1),
   inviteCode: z.string().min(1),
+  deviceName: z.string().max(100).optional(),
 });
 
 const loginSchema = z.object({
   email: z.string().email(),
   password: z.string().min(1),
+  deviceName: z.string().max(100).optional(),
 });
 
 const forgotPasswordSchema = z.object({
@@ -38,10 +64,100 @@ const resetPasswordSchema = z.object({
   password: z.string().min(8),
 });
 
-function generateToken(userId: string): string {
-  const secret = process.env.JWT_SECRET;
-  if (!secret) throw new AppError(ERROR_CODES.INTERNAL_ERROR, 'JWT secret not configured', 500);
-  return jwt.sign({ userId }, secret, { expiresIn: '15m' });
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const logoutSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+const changeEmailSchema = z.object({
+  newEmail: z.string().email(),
+  password: z.string().min(1),
+});
+
+// One of an authenticator code or a recovery code
+const secondFactorFields = {
+  code: z.string().min(1).optional(),
+  recoveryCode: z.string().min(1).optional(),
+};
+
+function requireOneFactor(data: { code?: string; recoveryCode?: string }) {
+  return !!data.code !== !!data.recoveryCode;
+}
+
+const twoFactorLoginSchema = z
+  .object({
+    challengeToken: z.string().min(1),
+    ...secondFactorFields,
+  })
+  .refine(requireOneFactor, { message: 'Provide either code or recoveryCode' });
+
+const enableTwoFactorSchema = z.object({
+  code: z.string().min(1),
+});
+
+const disableTwoFactorSchema = z
+  .object({
+    password: z.string().min(1),
+    ...secondFactorFields,
+  })
+  .refine(requireOneFactor, { message: 'Provide either code or recoveryCode' });
+
+const recoveryCodesSchema = z.object({
+  code: z.string().min(1),
+});
+
+function serializeUser(user: User) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    avatarUrl: user.avatarUrl,
+    emailVerified: user.emailVerified,
+    twoFactorEnabled: !!user.totpEnabledAt,
+    householdId: user.householdId,
+    householdRole: user.householdRole,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+}
+
+function serializeHousehold(household: Household) {
+  return {
+    id: household.id,
+    name: household.name,
+    inviteCode: household.inviteCode,
+    requireTwoFactor: household.requireTwoFactor,
+    budgetCadence: household.budgetCadence,
+    budgetPaydayAnchor: household.budgetPaydayAnchor,
+    budgetMode: household.budgetMode,
+    createdAt: household.createdAt,
+    updatedAt: household.updatedAt,
+  };
+}
+
+// Email failures shouldn't fail registration; the user can resend from the app
+async function sendWelcomeVerification(user: User) {
+  try {
+    await sendEmailVerification(user, { throttle: false });
+  } catch (err) {
+    console.error('Failed to send verification email:', err);
+  }
+}
+
+// Start a session for the device making the request
+function startSession(req: Request, userId: string, deviceName?: string) {
+  return createSession(userId, {
+    deviceName,
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip,
+  });
 }
 
 // Register new user and create household
@@ -81,29 +197,15 @@ authRouter.post('/register', async (req, res, next) => {
       return { user, household };
     });
 
-    const token = generateToken(result.user.id);
+    await sendWelcomeVerification(result.user);
+    const session = await startSession(req, result.user.id, data.deviceName);
 
     res.status(201).json({
       data: {
-        user: {
-          id: result.user.id,
-          email: result.user.email,
-          name: result.user.name,
-          avatarUrl: result.user.avatarUrl,
-          emailVerified: result.user.emailVerified,
-          householdId: result.user.householdId,
-          householdRole: result.user.householdRole,
-          createdAt: result.user.createdAt,
-          updatedAt: result.user.updatedAt,
-        },
-        household: {
-          id: result.household.id,
-          name: result.household.name,
-          inviteCode: result.household.inviteCode,
-          createdAt: result.household.createdAt,
-          updatedAt: result.household.updatedAt,
-        },
-        accessToken: token,
+        user: serializeUser(result.user),
+        household: serializeHousehold(result.household),
+        accessToken: session.accessToken,
+        refreshToken: session.refreshToken,
       },
     });
   } catch (err) {
@@ -131,6 +233,15 @@ authRouter.post('/register/join', async (req, res, next) => {
       throw new AppError(ERROR_CODES.FORBIDDEN, 'Household already has 2 members', 403);
     }
 
+    // Invites only work once the organizer has verified their email
+    if (!household.members.some((m) => m.householdRole === 'ORGANIZER' && m.emailVerified)) {
+      throw new AppError(
+        ERROR_CODES.EMAIL_NOT_VERIFIED,
+        "This household's organizer needs to verify their email before anyone can join",
+        403
+      );
+    }
+
     // Check if email exists
     const existing = await prisma.user.findUnique({ where: { email: data.email } });
     if (existing) {
@@ -151,29 +262,15 @@ authRouter.post('/register/join', async (req, res, next) => {
       },
     });
 
-    const token = generateToken(user.id);
+    await sendWelcomeVerification(user);
+    const session = await startSession(req, user.id, data.deviceName);
 
     res.status(201).json({
       data: {
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          avatarUrl: user.avatarUrl,
-          emailVerified: user.emailVerified,
-          householdId: user.householdId,
-          householdRole: user.householdRole,
-          createdAt: user.createdAt,
-          updatedAt: user.updatedAt,
-        },
-        household: {
-          id: household.id,
-          name: household.name,
-          inviteCode: household.inviteCode,
-          createdAt: household.createdAt,
-          updatedAt: household.updatedAt,
-        },
-        accessToken: token,
+        user: serializeUser(user),
+        household: serializeHousehold(household),
+        accessToken: session.accessToken,
+        refreshToken: session.refreshToken,
       },
     });
   } catch (err) {
@@ -200,31 +297,189 @@ authRouter.post('/login', async (req, res, next) => {
       throw new AppError(ERROR_CODES.UNAUTHORIZED, 'Invalid email or password', 401);
     }
 
-    const token = generateToken(user.id);
+    // With 2FA on, the password only earns a challenge for the second step
+    if (user.totpEnabledAt) {
+      const challengeToken = await createTwoFactorChallenge(user.id, data.deviceName);
+      res.json({ data: { twoFactorRequired: true, challengeToken } });
+      return;
+    }
+
+    const session = await startSession(req, user.id, data.deviceName);
 
     res.json({
       data: {
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          avatarUrl: user.avatarUrl,
-          emailVerified: user.emailVerified,
-          householdId: user.householdId,
-          householdRole: user.householdRole,
-          createdAt: user.createdAt,
-          updatedAt: user.updatedAt,
-        },
-        household: user.household
-          ? {
-              id: user.household.id,
-              name: user.household.name,
-              inviteCode: user.household.inviteCode,
-              createdAt: user.household.createdAt,
-              updatedAt: user.household.updatedAt,
-            }
-          : null,
-        accessToken: token,
+        user: serializeUser(user),
+        household: user.household ? serializeHousehold(user.household) : null,
+        accessToken: session.accessToken,
+        refreshToken: session.refreshToken,
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Second sign-in step for users with 2FA: an authenticator or recovery code
+authRouter.post('/login/two-factor', async (req, res, next) => {
+  try {
+    const data = twoFactorLoginSchema.parse(req.body);
+    const result = await completeTwoFactorChallenge(data.challengeToken, data);
+
+    const user = await prisma.user.findUnique({
+      where: { id: result.userId },
+      include: { household: true },
+    });
+
+    if (!user) {
+      throw new AppError(ERROR_CODES.UNAUTHORIZED, 'Sign-in expired. Please sign in again.', 401);
+    }
+
+    const session = await startSession(req, user.id, result.deviceName);
+
+    res.json({
+      data: {
+        user: serializeUser(user),
+        household: user.household ? serializeHousehold(user.household) : null,
+        accessToken: session.accessToken,
+        refreshToken: session.refreshToken,
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Exchange a refresh token for new tokens. The refresh token rotates on every use.
+authRouter.post('/refresh', async (req, res, next) => {
+  try {
+    const data = refreshSchema.parse(req.body);
+    const session = await rotateSession(data.refreshToken, { ipAddress: req.ip });
+
+    res.json({
+      data: {
+        accessToken: session.accessToken,
+        refreshToken: session.refreshToken,
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Logout: revoke the session the refresh token belongs to
+authRouter.post('/logout', async (req, res, next) => {
+  try {
+    const data = logoutSchema.parse(req.body ?? {});
+
+    if (data.refreshToken) {
+      await revokeSessionByToken(data.refreshToken);
+    }
+
+    res.json({ data: { success: true } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// List the current user's signed-in devices
+authRouter.get('/sessions', authenticate, async (req, res, next) => {
+  try {
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId: req.user!.id,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    res.json({
+      data: sessions.map((s) => ({
+        id: s.id,
+        deviceName: s.deviceName,
+        ipAddress: s.ipAddress,
+        lastUsedAt: s.lastUsedAt,
+        createdAt: s.createdAt,
+        expiresAt: s.expiresAt,
+        isCurrent: s.id === req.user!.sessionId,
+      })),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Sign out every device except this one
+authRouter.delete('/sessions', authenticate, async (req, res, next) => {
+  try {
+    const revoked = await revokeUserSessions(req.user!.id, req.user!.sessionId);
+
+    res.json({ data: { revoked } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Sign out one device
+authRouter.delete('/sessions/:id', authenticate, async (req, res, next) => {
+  try {
+    const session = await prisma.session.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!session || session.revokedAt) {
+      throw new AppError(ERROR_CODES.NOT_FOUND, 'Session not found', 404);
+    }
+
+    if (session.userId !== req.user!.id) {
+      throw new AppError(ERROR_CODES.FORBIDDEN, 'Access denied', 403);
+    }
+
+    await prisma.session.update({
+      where: { id: session.id },
+      data: { revokedAt: new Date() },
+    });
+
+    res.json({ data: { message: 'Session revoked' } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Verify an email address, or confirm a change of email, from an emailed link
+authRouter.post('/verify-email', async (req, res, next) => {
+  try {
+    const data = verifyEmailSchema.parse(req.body);
+    const user = await confirmEmailToken(data.token);
+
+    res.json({ data: { user: serializeUser(user) } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Send another verification email
+authRouter.post('/resend-verification', authenticate, async (req, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+
+    if (!user) {
+      throw new AppError(ERROR_CODES.NOT_FOUND, 'User not found', 404);
+    }
+
+    if (user.emailVerified) {
+      throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Your email is already verified', 400);
+    }
+
+    const token = await sendEmailVerification(user);
+
+    // In dev, also return token for testing without email
+    const isDev = process.env.NODE_ENV !== 'production';
+
+    res.json({
+      data: {
+        success: true,
+        ...(isDev && { verificationToken: token }),
       },
     });
   } catch (err) {
@@ -232,9 +487,140 @@ authRouter.post('/login', async (req, res, next) => {
   }
 });
 
-// Logout (client-side token removal, server could blacklist token here)
-authRouter.post('/logout', (_req, res) => {
-  res.json({ data: { success: true } });
+// Change email address. The new address must be confirmed before it takes effect.
+authRouter.post('/change-email', authenticate, async (req, res, next) => {
+  try {
+    const data = changeEmailSchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+
+    if (!user) {
+      throw new AppError(ERROR_CODES.NOT_FOUND, 'User not found', 404);
+    }
+
+    const validPassword = await bcrypt.compare(data.password, user.passwordHash);
+    if (!validPassword) {
+      // Not a 401: that would read as an expired session to the client
+      throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Incorrect password', 400);
+    }
+
+    const token = await requestEmailChange(user, data.newEmail);
+
+    // In dev, also return token for testing without email
+    const isDev = process.env.NODE_ENV !== 'production';
+
+    res.json({
+      data: {
+        success: true,
+        ...(isDev && { verificationToken: token }),
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ============================================
+// TWO-FACTOR AUTHENTICATION
+// ============================================
+
+// 2FA status for the current user
+authRouter.get('/two-factor', authenticate, async (req, res, next) => {
+  try {
+    const status = await getTwoFactorStatus(req.user!.id);
+    res.json({ data: status });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Start enrolling: returns the secret and a QR code for the authenticator app
+authRouter.post('/two-factor/setup', authenticate, async (req, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+
+    if (!user) {
+      throw new AppError(ERROR_CODES.NOT_FOUND, 'User not found', 404);
+    }
+
+    const setup = await beginTwoFactorSetup(user);
+    res.json({ data: setup });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Confirm a code from the app to turn 2FA on. Returns the recovery codes once.
+authRouter.post('/two-factor/enable', authenticate, async (req, res, next) => {
+  try {
+    const data = enableTwoFactorSchema.parse(req.body);
+    const recoveryCodes = await enableTwoFactor(req.user!.id, data.code);
+
+    res.json({ data: { recoveryCodes } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Turn 2FA off. Needs the password and a current code.
+authRouter.post('/two-factor/disable', authenticate, async (req, res, next) => {
+  try {
+    const data = disableTwoFactorSchema.parse(req.body);
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      include: { household: true },
+    });
+
+    if (!user) {
+      throw new AppError(ERROR_CODES.NOT_FOUND, 'User not found', 404);
+    }
+
+    if (!user.totpEnabledAt) {
+      throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Two-factor authentication is not on', 400);
+    }
+
+    if (user.household?.requireTwoFactor) {
+      throw new AppError(
+        ERROR_CODES.FORBIDDEN,
+        'Your household requires two-factor authentication',
+        403
+      );
+    }
+
+    // Not a 401: that would read as an expired session to the client
+    const validPassword = await bcrypt.compare(data.password, user.passwordHash);
+    if (!validPassword) {
+      throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Incorrect password', 400);
+    }
+
+    if (!(await verifySecondFactor(user.id, data))) {
+      throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Invalid code', 400);
+    }
+
+    await disableTwoFactor(user.id);
+    res.json({ data: { success: true } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Replace the recovery codes, e.g. after using some. Needs a current code.
+authRouter.post('/two-factor/recovery-codes', authenticate, async (req, res, next) => {
+  try {
+    const data = recoveryCodesSchema.parse(req.body);
+
+    if (!req.user!.twoFactorEnabled) {
+      throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Two-factor authentication is not on', 400);
+    }
+
+    if (!(await verifySecondFactor(req.user!.id, { code: data.code }))) {
+      throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Invalid code', 400);
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(req.user!.id);
+    res.json({ data: { recoveryCodes } });
+  } catch (err) {
+    next(err);
+  }
 });
 
 // Request password reset
@@ -329,6 +715,9 @@ authRouter.post('/reset-password', async (req, res, next) => {
       }),
     ]);
 
+    // Sign out every device that used the old password
+    await revokeUserSessions(resetToken.userId);
+
     res.json({ data: { success: true } });
   } catch (err) {
     next(err);
@@ -3,8 +3,33 @@ import { z } from 'zod';
 import { authenticate, requireHousehold } from '../middleware/auth';
 import { AppError } from '../middleware/error';
 import { prisma } from '../utils/prisma';
-import { ERROR_CODES } from '@otter-money/shared';
+import {
+  BUDGET_CADENCE_CONFIG,
+  ERROR_CODES,
+  getPeriodDateRange,
+  isPeriodOfCadence,
+  isValidPeriod,
+} from '@otter-money/shared';
 import { Decimal } from '@prisma/client/runtime/library';
+import { getBudgetSpending, getCurrentBudgetPeriod } from '../services/budgetSpending';
+import { listAuditEvents, recordAuditEvent } from '../services/auditLog';
+import {
+  applyDueBudgetTemplate,
+  formatTemplateItem,
+  removeTemplateBudgets,
+  syncTemplateItem,
+  templateItemInclude,
+} from '../services/budgetTemplate';
+import {
+  assignToEnvelope,
+  checkBudgetAmountChange,
+  formatAssignment,
+  getEnvelopeSummary,
+  isEnvelopeMode,
+  listAssignments,
+  moveBetweenEnvelopes,
+  withAssignmentLock,
+} from '../services/envelopes';
 
 export const budgetsRouter = Router();
 
@@ -12,77 +37,169 @@ budgetsRouter.use(authenticate);
 budgetsRouter.use(requireHousehold);
 
 // Validation schemas
+// A month (YYYY-MM) or a period of another cadence; see periods.ts in the shared package.
+// Routes also check it against the household's cadence with checkBudgetPeriods.
+const periodSchema = z.string().refine(isValidPeriod, 'Invalid budget period');
+
 const createBudgetSchema = z.object({
   categoryId: z.string(),
+  ownerId: z.string().nullable().optional(), // A partner's personal budget; omit for a joint one
   amount: z.number().positive(),
-  period: z.string().regex(/^\d{4}-\d{2}$/), // YYYY-MM format
+  period: periodSchema,
   rollover: z.boolean().optional().default(false),
+  rolloverCap: z.number().nonnegative().nullable().optional(),
+  rolloverReset: z.boolean().optional(),
 });
 
 const updateBudgetSchema = z.object({
   amount: z.number().positive().optional(),
   rollover: z.boolean().optional(),
+  rolloverCap: z.number().nonnegative().nullable().optional(),
+  rolloverReset: z.boolean().optional(),
 });
 
 const copyBudgetSchema = z.object({
-  fromPeriod: z.string().regex(/^\d{4}-\d{2}$/),
-  toPeriod: z.string().regex(/^\d{4}-\d{2}$/),
+  fromPeriod: periodSchema,
+  toPeriod: periodSchema,
+  // replace: delete the target period's budgets first; merge: keep them and only add missing categories
+  mode: z.enum(['replace', 'merge']).optional().default('replace'),
 });
 
-// Helper to get current period (YYYY-MM)
-function getCurrentPeriod(): string {
-  const now = new Date();
-  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-}
+const templateItemSchema = z.object({
+  categoryId: z.string(),
+  amount: z.number().positive(),
+  rollover: z.boolean().optional().default(false),
+  rolloverCap: z.number().nonnegative().nullable().optional(),
+});
 
-// Helper to parse period into date range
-function getPeriodDateRange(period: string): { start: Date; end: Date } {
-  const [year, month] = period.split('-').map(Number);
-  // Use UTC to avoid timezone issues with date-only fields
-  const start = new Date(Date.UTC(year, month - 1, 1, 0, 0, 0, 0));
-  const end = new Date(Date.UTC(year, month, 0, 23, 59, 59, 999));
-  return { start, end };
-}
+// Without an owner, every budget: joint ones and both partners' personal budgets
+const budgetOwnerQuerySchema = z.object({
+  ownerId: z.string().optional(),
+});
+
+const templateFromPeriodSchema = z.object({
+  period: periodSchema,
+});
 
-// Helper to get all descendant category IDs for a given category
-async function getCategoryDescendants(categoryId: string): Promise<string[]> {
-  const descendants: string[] = [];
+const templateHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
 
-  const getChildren = async (parentId: string) => {
-    const children = await prisma.category.findMany({
-      where: { parentId },
-      select: { id: true },
-    });
+// Positive assigns to the envelope, negative takes money back out to "to be assigned"
+const envelopeAssignSchema = z.object({
+  period: periodSchema,
+  categoryId: z.string(),
+  amount: z.number().refine((amount) => amount !== 0, 'Amount cannot be zero'),
+  note: z.string().max(200).optional(),
+});
+
+const envelopeMoveSchema = z.object({
+  period: periodSchema,
+  fromCategoryId: z.string(),
+  toCategoryId: z.string(),
+  amount: z.number().positive(),
+  note: z.string().max(200).optional(),
+});
+
+// Budgets (and template items) can only be set on expense categories the household can see
+async function getBudgetCategory(categoryId: string, householdId: string) {
+  const category = await prisma.category.findUnique({
+    where: { id: categoryId },
+    select: { householdId: true, isSystem: true, type: true, name: true },
+  });
 
-    for (const child of children) {
-      descendants.push(child.id);
-      await getChildren(child.id);
+  if (!category) {
+    throw new AppError(ERROR_CODES.NOT_FOUND, 'Category not found', 404);
+  }
+
+  if (!category.isSystem && category.householdId !== householdId) {
+    throw new AppError(ERROR_CODES.FORBIDDEN, 'Category access denied', 403);
+  }
+
+  // Only allow budgets for expense categories
+  if (category.type !== 'EXPENSE') {
+    throw new AppError(
+      ERROR_CODES.VALIDATION_ERROR,
+      'Budgets can only be created for expense categories',
+      400
+    );
+  }
+
+  return category;
+}
+
+/**
+ * Periods have to be in the household's cadence (and biweekly ones start on a
+ * payday); budgets in any other period would never be shown or rolled over.
+ */
+async function checkBudgetPeriods(householdId: string, ...periods: string[]) {
+  const household = await prisma.household.findUnique({
+    where: { id: householdId },
+    select: { budgetCadence: true, budgetPaydayAnchor: true },
+  });
+  const cadence = household?.budgetCadence ?? 'MONTHLY';
+
+  for (const period of periods) {
+    if (!isPeriodOfCadence(period, cadence, household?.budgetPaydayAnchor)) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        `${period} is not a budget period for this household, which budgets by ${BUDGET_CADENCE_CONFIG[cadence].noun}`,
+        400
+      );
     }
-  };
+  }
+}
+
+// The period asked for in the query string, or the household's current one
+async function getRequestedPeriod(householdId: string, requested: unknown): Promise<string> {
+  if (!requested) return getCurrentBudgetPeriod(householdId);
 
-  await getChildren(categoryId);
-  return descendants;
+  const period = periodSchema.parse(requested);
+  await checkBudgetPeriods(householdId, period);
+  return period;
 }
 
-// Helper to build a map of budget category -> all descendant IDs
-async function buildCategoryDescendantsMap(
-  budgetCategoryIds: string[]
-): Promise<Map<string, string[]>> {
-  const map = new Map<string, string[]>();
+// Personal budgets belong to a member of the household
+async function checkBudgetOwner(ownerId: string, householdId: string) {
+  const owner = await prisma.user.findFirst({
+    where: { id: ownerId, householdId },
+    select: { id: true },
+  });
 
-  for (const categoryId of budgetCategoryIds) {
-    const descendants = await getCategoryDescendants(categoryId);
-    map.set(categoryId, descendants);
+  if (!owner) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Budget owner must be a household member', 400);
   }
+}
+
+// "Groceries (2026-10)", "Fun money, Sam (2026-10)"
+function budgetEntityName(budget: {
+  period: string;
+  category: { name: string };
+  owner?: { name: string } | null;
+}): string {
+  return `${budget.category.name}${budget.owner ? `, ${budget.owner.name}` : ''} (${budget.period})`;
+}
 
-  return map;
+/**
+ * Run a budget write. In envelope mode it holds the household's assignment
+ * lock, and write checks amounts with checkBudgetAmountChange.
+ */
+async function writeBudgets<T>(
+  householdId: string,
+  write: (client: Pick<typeof prisma, 'budget'>, envelopeMode: boolean) => Promise<T>
+): Promise<T> {
+  if (await isEnvelopeMode(householdId)) {
+    return withAssignmentLock(householdId, (tx) => write(tx, true));
+  }
+  return write(prisma, false);
 }
 
 // Debug endpoint to check why transactions aren't counting
 budgetsRouter.get('/debug/:period', async (req, res, next) => {
   try {
     const householdId = req.user!.householdId!;
-    const period = req.params.period;
+    const period = await getRequestedPeriod(householdId, req.params.period);
     const { start, end } = getPeriodDateRange(period);
 
     // Get all transactions (no filters)
@@ -127,7 +244,7 @@ budgetsRouter.get('/debug/:period', async (req, res, next) => {
         isPending: t.isPending,
         isAdjustment: t.isAdjustment,
         accountName: t.account.name,
-        excludeFromBudget: t.account.excludeFromBudget,
+        excludeFromBudget: t.excludeFromBudget || t.account.excludeFromBudget,
       })),
     });
   } catch (err) {
@@ -139,12 +256,14 @@ budgetsRouter.get('/debug/:period', async (req, res, next) => {
 budgetsRouter.get('/', async (req, res, next) => {
   try {
     const householdId = req.user!.householdId!;
-    const period = (req.query.period as string) || getCurrentPeriod();
+    const period = await getRequestedPeriod(householdId, req.query.period);
+    const { ownerId } = budgetOwnerQuerySchema.parse(req.query);
 
     const budgets = await prisma.budget.findMany({
       where: {
         householdId,
         period,
+        ...(ownerId && { ownerId }),
       },
       include: {
         category: {
@@ -172,9 +291,13 @@ budgetsRouter.get('/', async (req, res, next) => {
       householdId: budget.householdId,
       categoryId: budget.categoryId,
       category: budget.category,
+      ownerId: budget.ownerId,
       amount: Number(budget.amount),
       period: budget.period,
       rollover: budget.rollover,
+      rolloverCap: budget.rolloverCap !== null ? Number(budget.rolloverCap) : null,
+      rolloverReset: budget.rolloverReset,
+      fromTemplate: budget.fromTemplate,
       createdAt: budget.createdAt,
       updatedAt: budget.updatedAt,
     }));
@@ -190,211 +313,264 @@ budgetsRouter.get('/', async (req, res, next) => {
 budgetsRouter.get('/spending', async (req, res, next) => {
   try {
     const householdId = req.user!.householdId!;
-    const period = (req.query.period as string) || getCurrentPeriod();
-    const { start, end } = getPeriodDateRange(period);
+    const period = await getRequestedPeriod(householdId, req.query.period);
+    const { ownerId } = budgetOwnerQuerySchema.parse(req.query);
+    const { budgets, members } = await getBudgetSpending(householdId, period);
+
+    // Wrap in nested data object to work with api.get auto-unwrap
+    res.json({
+      data: {
+        data: ownerId ? budgets.filter((budget) => budget.ownerId === ownerId) : budgets,
+        period,
+        members
+      }
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Envelope budgeting: the period's income, what's left to assign and each envelope
+budgetsRouter.get('/envelopes', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+    const period = await getRequestedPeriod(householdId, req.query.period);
+
+    res.json({ data: await getEnvelopeSummary(householdId, period) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Ledger of assignments and moves for a period, newest first
+budgetsRouter.get('/envelopes/ledger', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+    const period = await getRequestedPeriod(householdId, req.query.period);
+
+    res.json({ data: await listAssignments(householdId, period) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Assign income to an envelope, or take it back out
+budgetsRouter.post('/envelopes/assign', async (req, res, next) => {
+  try {
+    const data = envelopeAssignSchema.parse(req.body);
+    const householdId = req.user!.householdId!;
+
+    await checkBudgetPeriods(householdId, data.period);
+    await getBudgetCategory(data.categoryId, householdId);
 
-    // Get all household members
-    const members = await prisma.user.findMany({
+    const assignment = await assignToEnvelope({ id: req.user!.id, householdId }, data);
+
+    res.status(201).json({ data: formatAssignment(assignment) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Move money between two envelopes
+budgetsRouter.post('/envelopes/move', async (req, res, next) => {
+  try {
+    const data = envelopeMoveSchema.parse(req.body);
+    const householdId = req.user!.householdId!;
+
+    await checkBudgetPeriods(householdId, data.period);
+    await getBudgetCategory(data.fromCategoryId, householdId);
+    await getBudgetCategory(data.toCategoryId, householdId);
+
+    const assignment = await moveBetweenEnvelopes({ id: req.user!.id, householdId }, data);
+
+    res.status(201).json({ data: formatAssignment(assignment) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Get the household's budget template
+budgetsRouter.get('/template', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+
+    const items = await prisma.budgetTemplateItem.findMany({
       where: { householdId },
-      select: { id: true, name: true },
+      include: templateItemInclude,
+      orderBy: { category: { name: 'asc' } },
     });
 
-    // Get all budgets for this period
-    const budgets = await prisma.budget.findMany({
-      where: {
-        householdId,
-        period,
-      },
-      include: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            type: true,
-            icon: true,
-            color: true,
-            depth: true,
-          },
-        },
+    res.json({ data: items.map(formatTemplateItem) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Changes to the budget template, newest first
+budgetsRouter.get('/template/history', async (req, res, next) => {
+  try {
+    const query = templateHistoryQuerySchema.parse(req.query);
+
+    const { events, total } = await listAuditEvents(req.user!.householdId!, {
+      entityType: 'BUDGET_TEMPLATE',
+      limit: query.limit,
+      offset: query.offset,
+    });
+
+    res.json({
+      data: events,
+      meta: {
+        total,
+        limit: query.limit,
+        offset: query.offset,
       },
     });
+  } catch (err) {
+    next(err);
+  }
+});
 
-    // Build map of budget category -> all descendant category IDs
-    const budgetCategoryIds = budgets.map((b) => b.categoryId);
-    const categoryDescendantsMap = await buildCategoryDescendantsMap(budgetCategoryIds);
+// Replace the template with a period's budgets
+budgetsRouter.post('/template/from-period', async (req, res, next) => {
+  try {
+    const data = templateFromPeriodSchema.parse(req.body);
+    const householdId = req.user!.householdId!;
 
-    // Get all transactions in this period, grouped by category and account owner
-    // NOTE: Including both pending and posted transactions for budget calculations
-    const transactions = await prisma.transaction.findMany({
-      where: {
-        account: {
-          householdId,
-          excludeFromBudget: false,
-        },
-        date: {
-          gte: start,
-          lte: end,
-        },
-        categoryId: {
-          not: null,
-        },
-        isAdjustment: false,
-        // Removed isPending filter to include pending transactions in budget
-      },
-      include: {
-        category: {
-          select: {
-            id: true,
-            type: true,
-            name: true,
-            parentId: true,
-          },
-        },
-        account: {
-          select: {
-            ownerId: true,
+    await checkBudgetPeriods(householdId, data.period);
+
+    // Personal budgets aren't part of the template
+    const budgets = await prisma.budget.findMany({
+      where: { householdId, period: data.period, ownerId: null },
+    });
+
+    if (budgets.length === 0) {
+      throw new AppError(ERROR_CODES.NOT_FOUND, `No budgets found for period ${data.period}`, 404);
+    }
+
+    const categoryIds = budgets.map((budget) => budget.categoryId);
+    const removed = await prisma.budgetTemplateItem.findMany({
+      where: { householdId, categoryId: { notIn: categoryIds } },
+      select: { categoryId: true },
+    });
+
+    await prisma.$transaction([
+      prisma.budgetTemplateItem.deleteMany({
+        where: { householdId, categoryId: { notIn: categoryIds } },
+      }),
+      ...budgets.map((budget) =>
+        prisma.budgetTemplateItem.upsert({
+          where: { householdId_categoryId: { householdId, categoryId: budget.categoryId } },
+          update: { amount: budget.amount, rollover: budget.rollover, rolloverCap: budget.rolloverCap },
+          create: {
+            householdId,
+            categoryId: budget.categoryId,
+            amount: budget.amount,
+            rollover: budget.rollover,
+            rolloverCap: budget.rolloverCap,
           },
+        })
+      ),
+      // Budgets for categories no longer in the template are left as they are
+      prisma.budget.updateMany({
+        where: {
+          householdId,
+          categoryId: { in: removed.map((item) => item.categoryId) },
+          ownerId: null,
+          fromTemplate: true,
         },
-      },
+        data: { fromTemplate: false },
+      }),
+    ]);
+
+    for (const budget of budgets) {
+      await syncTemplateItem(householdId, budget, false);
+    }
+    await applyDueBudgetTemplate(householdId);
+
+    await recordAuditEvent(req.user!, {
+      entityType: 'BUDGET_TEMPLATE',
+      action: 'UPDATE',
+      summary: `Replaced the budget template with the ${budgets.length} budgets from ${data.period}`,
     });
 
-    console.log(`[Budget Spending] Period: ${period}`);
-    console.log(`[Budget Spending] Date range: ${start.toISOString()} to ${end.toISOString()}`);
-    console.log(`[Budget Spending] Found ${transactions.length} transactions`);
-
-    // Calculate spending by category and partner
-    // Now tracks child category breakdown too
-    const spendingByCategory = new Map<
-      string,
-      {
-        categoryId: string;
-        categoryName: string;
-        categoryType: string;
-        categoryIcon: string | null;
-        categoryColor: string | null;
-        categoryDepth: number;
-        budgetAmount: number;
-        totalSpent: number;
-        byPartner: Record<string, number>;
-        byChild: Record<string, { name: string; amount: number }>; // Track child spending
-      }
-    >();
+    const items = await prisma.budgetTemplateItem.findMany({
+      where: { householdId },
+      include: templateItemInclude,
+      orderBy: { category: { name: 'asc' } },
+    });
 
-    // Initialize from budgets
-    budgets.forEach((budget) => {
-      const partnersMap: Record<string, number> = {};
-      members.forEach((member) => {
-        partnersMap[member.id] = 0;
-      });
+    res.json({ data: items.map(formatTemplateItem) });
+  } catch (err) {
+    next(err);
+  }
+});
 
-      spendingByCategory.set(budget.categoryId, {
-        categoryId: budget.categoryId,
-        categoryName: budget.category.name,
-        categoryType: budget.category.type,
-        categoryIcon: budget.category.icon,
-        categoryColor: budget.category.color,
-        categoryDepth: budget.category.depth,
-        budgetAmount: Number(budget.amount),
-        totalSpent: 0,
-        byPartner: partnersMap,
-        byChild: {},
-      });
-      console.log(`[Budget Init] Category: ${budget.category.name}, ID: ${budget.categoryId}`);
+// Create or update a category's template budget
+budgetsRouter.post('/template', async (req, res, next) => {
+  try {
+    const data = templateItemSchema.parse(req.body);
+    const householdId = req.user!.householdId!;
+    const categoryId = data.categoryId;
+
+    const category = await getBudgetCategory(categoryId, householdId);
+
+    const itemKey = { householdId_categoryId: { householdId, categoryId } };
+    const existingItem = await prisma.budgetTemplateItem.findUnique({ where: itemKey });
+
+    const values = {
+      amount: new Decimal(data.amount),
+      rollover: data.rollover,
+      rolloverCap: data.rollover && data.rolloverCap != null ? new Decimal(data.rolloverCap) : null,
+    };
+    const item = await prisma.budgetTemplateItem.upsert({
+      where: itemKey,
+      update: values,
+      create: { householdId, categoryId, ...values },
+      include: templateItemInclude,
     });
 
-    // Aggregate spending from transactions
-    // Now includes child category spending in parent budgets
-    transactions.forEach((transaction) => {
-      if (!transaction.categoryId || !transaction.category) {
-        console.log(`[Budget] Skipping transaction - no category:`, transaction.description);
-        return;
-      }
+    await syncTemplateItem(householdId, item, !existingItem);
+    await applyDueBudgetTemplate(householdId);
 
-      // Only count expenses for budgets
-      if (transaction.category.type !== 'EXPENSE') {
-        return;
-      }
+    await recordAuditEvent(req.user!, {
+      entityType: 'BUDGET_TEMPLATE',
+      action: existingItem ? 'UPDATE' : 'CREATE',
+      entityName: category.name,
+      before: existingItem,
+      after: item,
+    });
 
-      const txCategoryId = transaction.categoryId;
-      const ownerId = transaction.account.ownerId;
-      const amount = Math.abs(Number(transaction.amount));
-
-      // Check if this transaction's category matches a budget category directly
-      // OR if it's a descendant of a budget category
-      for (const [budgetCatId, descendants] of categoryDescendantsMap) {
-        const categoryData = spendingByCategory.get(budgetCatId);
-        if (!categoryData) continue;
-
-        // Check if transaction category is the budget category or a descendant
-        if (txCategoryId === budgetCatId || descendants.includes(txCategoryId)) {
-          console.log(`[Budget] Adding ${amount} to ${categoryData.categoryName} from ${transaction.description} (category: ${transaction.category.name})`);
-
-          categoryData.totalSpent += amount;
-
-          // Track partner spending
-          if (ownerId && categoryData.byPartner[ownerId] !== undefined) {
-            categoryData.byPartner[ownerId] += amount;
-          }
-
-          // Track child category breakdown (if it's from a child, not the budget category itself)
-          if (txCategoryId !== budgetCatId) {
-            if (!categoryData.byChild[txCategoryId]) {
-              categoryData.byChild[txCategoryId] = {
-                name: transaction.category.name,
-                amount: 0,
-              };
-            }
-            categoryData.byChild[txCategoryId].amount += amount;
-          }
-
-          // Only count toward the most specific matching budget (first match wins)
-          break;
-        }
-      }
+    res.json({ data: formatTemplateItem(item) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Remove a category from the template
+budgetsRouter.delete('/template/:categoryId', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+
+    const item = await prisma.budgetTemplateItem.findUnique({
+      where: { householdId_categoryId: { householdId, categoryId: req.params.categoryId } },
+      include: templateItemInclude,
     });
 
-    // Convert to array with partner details
-    const result = Array.from(spendingByCategory.values()).map((data) => ({
-      categoryId: data.categoryId,
-      categoryName: data.categoryName,
-      categoryType: data.categoryType,
-      categoryIcon: data.categoryIcon,
-      categoryColor: data.categoryColor,
-      categoryDepth: data.categoryDepth,
-      budgetAmount: data.budgetAmount,
-      totalSpent: data.totalSpent,
-      byPartner: members.map((member) => ({
-        userId: member.id,
-        userName: member.name,
-        spent: data.byPartner[member.id] || 0,
-      })),
-      // Include child breakdown sorted by amount
-      byChild: Object.entries(data.byChild)
-        .map(([id, info]) => ({
-          categoryId: id,
-          categoryName: info.name,
-          amount: info.amount,
-        }))
-        .sort((a, b) => b.amount - a.amount),
-      percentUsed: data.budgetAmount > 0 ? (data.totalSpent / data.budgetAmount) * 100 : 0,
-      remaining: Math.max(0, data.budgetAmount - data.totalSpent),
-      status:
-        data.totalSpent > data.budgetAmount
-          ? 'exceeded'
-          : data.totalSpent >= data.budgetAmount * 0.9
-          ? 'warning'
-          : 'on-track',
-    }));
+    if (!item) {
+      throw new AppError(ERROR_CODES.NOT_FOUND, 'Template budget not found', 404);
+    }
 
-    console.log('[Budget] Final result:', JSON.stringify(result, null, 2));
-    // Wrap in nested data object to work with api.get auto-unwrap
-    res.json({
-      data: {
-        data: result,
-        period,
-        members
-      }
+    await prisma.budgetTemplateItem.delete({ where: { id: item.id } });
+    await removeTemplateBudgets(householdId, item.categoryId);
+
+    await recordAuditEvent(req.user!, {
+      entityType: 'BUDGET_TEMPLATE',
+      action: 'DELETE',
+      entityName: item.category.name,
+      before: item,
     });
+
+    res.json({ data: { message: 'Template budget removed' } });
   } catch (err) {
     next(err);
   }
@@ -406,60 +582,76 @@ budgetsRouter.post('/', async (req, res, next) => {
     const data = createBudgetSchema.parse(req.body);
     const householdId = req.user!.householdId!;
 
-    // Verify category exists and is accessible
-    const category = await prisma.category.findUnique({
-      where: { id: data.categoryId },
-      select: { householdId: true, isSystem: true, type: true },
-    });
+    await checkBudgetPeriods(householdId, data.period);
 
-    if (!category) {
-      throw new AppError(ERROR_CODES.NOT_FOUND, 'Category not found', 404);
-    }
-
-    if (!category.isSystem && category.householdId !== householdId) {
-      throw new AppError(ERROR_CODES.FORBIDDEN, 'Category access denied', 403);
-    }
-
-    // Only allow budgets for expense categories
-    if (category.type !== 'EXPENSE') {
-      throw new AppError(
-        ERROR_CODES.VALIDATION_ERROR,
-        'Budgets can only be created for expense categories',
-        400
-      );
+    // Verify category exists and is accessible
+    await getBudgetCategory(data.categoryId, householdId);
+    const ownerId = data.ownerId ?? null;
+    if (ownerId) {
+      await checkBudgetOwner(ownerId, householdId);
     }
 
-    // Upsert budget (create or update if exists)
-    const budget = await prisma.budget.upsert({
-      where: {
-        householdId_categoryId_period: {
-          householdId,
-          categoryId: data.categoryId,
-          period: data.period,
-        },
-      },
-      update: {
-        amount: new Decimal(data.amount),
-        rollover: data.rollover,
-      },
-      create: {
-        householdId,
-        categoryId: data.categoryId,
-        amount: new Decimal(data.amount),
-        period: data.period,
-        rollover: data.rollover,
-      },
-      include: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            type: true,
-            icon: true,
-            color: true,
-          },
+    const budgetInclude = {
+      category: {
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          icon: true,
+          color: true,
         },
       },
+      owner: { select: { name: true } },
+    };
+
+    const { existingBudget, budget } = await writeBudgets(householdId, async (client, envelopeMode) => {
+      // Joint budgets have no owner, so there's no compound key to upsert on
+      const existingBudget = await client.budget.findFirst({
+        where: { householdId, categoryId: data.categoryId, period: data.period, ownerId },
+      });
+      if (envelopeMode) {
+        const current = { ownerId, period: data.period, amount: Number(existingBudget?.amount ?? 0) };
+        await checkBudgetAmountChange(client, householdId, current, data.amount);
+      }
+
+      // Create the budget, or update it if one exists
+      const budget = existingBudget
+        ? await client.budget.update({
+            where: { id: existingBudget.id },
+            data: {
+              amount: new Decimal(data.amount),
+              rollover: data.rollover,
+              ...(data.rolloverCap !== undefined && {
+                rolloverCap: data.rolloverCap !== null ? new Decimal(data.rolloverCap) : null,
+              }),
+              ...(data.rolloverReset !== undefined && { rolloverReset: data.rolloverReset }),
+              // Set by hand now, so template changes no longer apply
+              fromTemplate: false,
+            },
+            include: budgetInclude,
+          })
+        : await client.budget.create({
+            data: {
+              householdId,
+              categoryId: data.categoryId,
+              ownerId,
+              amount: new Decimal(data.amount),
+              period: data.period,
+              rollover: data.rollover,
+              rolloverCap: data.rolloverCap != null ? new Decimal(data.rolloverCap) : null,
+              rolloverReset: data.rolloverReset ?? false,
+            },
+            include: budgetInclude,
+          });
+      return { existingBudget, budget };
+    });
+
+    await recordAuditEvent(req.user!, {
+      entityType: 'BUDGET',
+      action: existingBudget ? 'UPDATE' : 'CREATE',
+      entityName: budgetEntityName(budget),
+      before: existingBudget,
+      after: budget,
     });
 
     res.status(201).json({
@@ -468,9 +660,13 @@ budgetsRouter.post('/', async (req, res, next) => {
         householdId: budget.householdId,
         categoryId: budget.categoryId,
         category: budget.category,
+        ownerId: budget.ownerId,
         amount: Number(budget.amount),
         period: budget.period,
         rollover: budget.rollover,
+        rolloverCap: budget.rolloverCap !== null ? Number(budget.rolloverCap) : null,
+        rolloverReset: budget.rolloverReset,
+        fromTemplate: budget.fromTemplate,
         createdAt: budget.createdAt,
         updatedAt: budget.updatedAt,
       },
@@ -486,41 +682,65 @@ budgetsRouter.patch('/:id', async (req, res, next) => {
     const data = updateBudgetSchema.parse(req.body);
     const householdId = req.user!.householdId!;
 
-    // Verify budget exists and belongs to household
-    const existingBudget = await prisma.budget.findUnique({
-      where: { id: req.params.id },
-    });
+    const { existingBudget, budget } = await writeBudgets(householdId, async (client, envelopeMode) => {
+      // Verify budget exists and belongs to household
+      const existingBudget = await client.budget.findUnique({
+        where: { id: req.params.id },
+      });
 
-    if (!existingBudget) {
-      throw new AppError(ERROR_CODES.NOT_FOUND, 'Budget not found', 404);
-    }
+      if (!existingBudget) {
+        throw new AppError(ERROR_CODES.NOT_FOUND, 'Budget not found', 404);
+      }
 
-    if (existingBudget.householdId !== householdId) {
-      throw new AppError(ERROR_CODES.FORBIDDEN, 'Access denied', 403);
-    }
+      if (existingBudget.householdId !== householdId) {
+        throw new AppError(ERROR_CODES.FORBIDDEN, 'Access denied', 403);
+      }
 
-    const updateData: any = {};
-    if (data.amount !== undefined) {
-      updateData.amount = new Decimal(data.amount);
-    }
-    if (data.rollover !== undefined) {
-      updateData.rollover = data.rollover;
-    }
+      if (envelopeMode && data.amount !== undefined) {
+        const current = { ...existingBudget, amount: Number(existingBudget.amount) };
+        await checkBudgetAmountChange(client, householdId, current, data.amount);
+      }
 
-    const budget = await prisma.budget.update({
-      where: { id: req.params.id },
-      data: updateData,
-      include: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            type: true,
-            icon: true,
-            color: true,
+      const updateData: any = {};
+      if (data.amount !== undefined) {
+        updateData.amount = new Decimal(data.amount);
+      }
+      if (data.rollover !== undefined) {
+        updateData.rollover = data.rollover;
+      }
+      if (data.rolloverCap !== undefined) {
+        updateData.rolloverCap = data.rolloverCap !== null ? new Decimal(data.rolloverCap) : null;
+      }
+      if (data.rolloverReset !== undefined) {
+        updateData.rolloverReset = data.rolloverReset;
+      }
+      updateData.fromTemplate = false;
+
+      const budget = await client.budget.update({
+        where: { id: req.params.id },
+        data: updateData,
+        include: {
+          category: {
+            select: {
+              id: true,
+              name: true,
+              type: true,
+              icon: true,
+              color: true,
+            },
           },
+          owner: { select: { name: true } },
         },
-      },
+      });
+      return { existingBudget, budget };
+    });
+
+    await recordAuditEvent(req.user!, {
+      entityType: 'BUDGET',
+      action: 'UPDATE',
+      entityName: budgetEntityName(budget),
+      before: existingBudget,
+      after: budget,
     });
 
     res.json({
@@ -529,9 +749,13 @@ budgetsRouter.patch('/:id', async (req, res, next) => {
         householdId: budget.householdId,
         categoryId: budget.categoryId,
         category: budget.category,
+        ownerId: budget.ownerId,
         amount: Number(budget.amount),
         period: budget.period,
         rollover: budget.rollover,
+        rolloverCap: budget.rolloverCap !== null ? Number(budget.rolloverCap) : null,
+        rolloverReset: budget.rolloverReset,
+        fromTemplate: budget.fromTemplate,
         createdAt: budget.createdAt,
         updatedAt: budget.updatedAt,
       },
@@ -546,21 +770,41 @@ budgetsRouter.delete('/:id', async (req, res, next) => {
   try {
     const householdId = req.user!.householdId!;
 
-    // Verify budget exists and belongs to household
-    const existingBudget = await prisma.budget.findUnique({
-      where: { id: req.params.id },
-    });
+    const existingBudget = await writeBudgets(householdId, async (client, envelopeMode) => {
+      // Verify budget exists and belongs to household
+      const existingBudget = await client.budget.findUnique({
+        where: { id: req.params.id },
+        include: { category: { select: { name: true } }, owner: { select: { name: true } } },
+      });
 
-    if (!existingBudget) {
-      throw new AppError(ERROR_CODES.NOT_FOUND, 'Budget not found', 404);
-    }
+      if (!existingBudget) {
+        throw new AppError(ERROR_CODES.NOT_FOUND, 'Budget not found', 404);
+      }
 
-    if (existingBudget.householdId !== householdId) {
-      throw new AppError(ERROR_CODES.FORBIDDEN, 'Access denied', 403);
-    }
+      if (existingBudget.householdId !== householdId) {
+        throw new AppError(ERROR_CODES.FORBIDDEN, 'Access denied', 403);
+      }
+
+      // Emptying an envelope goes through the ledger, so its money is accounted for
+      if (envelopeMode && !existingBudget.ownerId && !existingBudget.amount.isZero()) {
+        throw new AppError(
+          ERROR_CODES.VALIDATION_ERROR,
+          "Move this envelope's money out before deleting it",
+          400
+        );
+      }
+
+      await client.budget.delete({
+        where: { id: req.params.id },
+      });
+      return existingBudget;
+    });
 
-    await prisma.budget.delete({
-      where: { id: req.params.id },
+    await recordAuditEvent(req.user!, {
+      entityType: 'BUDGET',
+      action: 'DELETE',
+      entityName: budgetEntityName(existingBudget),
+      before: existingBudget,
     });
 
     res.json({ data: { message: 'Budget deleted' } });
@@ -575,6 +819,17 @@ budgetsRouter.post('/copy', async (req, res, next) => {
     const data = copyBudgetSchema.parse(req.body);
     const householdId = req.user!.householdId!;
 
+    await checkBudgetPeriods(householdId, data.fromPeriod, data.toPeriod);
+
+    // Envelopes are filled from each period's income, not copied
+    if (await isEnvelopeMode(householdId)) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Budgets can't be copied in envelope mode; assign this period's income instead",
+        400
+      );
+    }
+
     if (data.fromPeriod === data.toPeriod) {
       throw new AppError(
         ERROR_CODES.VALIDATION_ERROR,
@@ -600,27 +855,45 @@ budgetsRouter.post('/copy', async (req, res, next) => {
     }
 
     // Delete existing budgets in target period (if any)
-    await prisma.budget.deleteMany({
-      where: {
-        householdId,
-        period: data.toPeriod,
-      },
-    });
+    if (data.mode === 'replace') {
+      await prisma.budget.deleteMany({
+        where: {
+          householdId,
+          period: data.toPeriod,
+        },
+      });
+    }
 
     // Create new budgets for target period
     const newBudgets = await prisma.budget.createMany({
       data: sourceBudgets.map((budget) => ({
         householdId,
         categoryId: budget.categoryId,
+        ownerId: budget.ownerId,
         amount: budget.amount,
         period: data.toPeriod,
         rollover: budget.rollover,
+        // A reset marks the budget period it was set on, so it isn't copied
+        rolloverCap: budget.rolloverCap,
       })),
+      // Merging: categories already budgeted in the target period keep their budget
+      skipDuplicates: data.mode === 'merge',
+    });
+
+    const message =
+      data.mode === 'merge'
+        ? `Added ${newBudgets.count} budgets from ${data.fromPeriod} to ${data.toPeriod}`
+        : `Copied ${newBudgets.count} budgets from ${data.fromPeriod} to ${data.toPeriod}`;
+
+    await recordAuditEvent(req.user!, {
+      entityType: 'BUDGET',
+      action: 'CREATE',
+      summary: message,
     });
 
     res.json({
       data: {
-        message: `Copied ${newBudgets.count} budgets from ${data.fromPeriod} to ${data.toPeriod}`,
+        message,
         count: newBudgets.count,
       },
     });
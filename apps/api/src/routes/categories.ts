@@ -4,6 +4,7 @@ import { CategoryType } from '@prisma/client';
 import { authenticate, requireHousehold } from '../middleware/auth';
 import { AppError } from '../middleware/error';
 import { prisma } from '../utils/prisma';
+import { recordAuditEvent } from '../services/auditLog';
 import { ERROR_CODES, DEFAULT_CATEGORIES_HIERARCHICAL, HierarchicalCategory } from '@otter-money/shared';
 
 export const categoriesRouter = Router();
@@ -356,6 +357,8 @@ categoriesRouter.post('/', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, { entityType: 'CATEGORY', action: 'CREATE', after: category });
+
     res.status(201).json({ data: category });
   } catch (err) {
     next(err);
@@ -368,11 +371,11 @@ categoriesRouter.patch('/:id', async (req, res, next) => {
     const data = updateCategorySchema.parse(req.body);
     const householdId = req.user!.householdId!;
 
-    await getAccessibleCategory(req.params.id, householdId);
+    const existing = await getAccessibleCategory(req.params.id, householdId);
 
     // Check for duplicate name if changing
     if (data.name) {
-      const existing = await prisma.category.findFirst({
+      const duplicate = await prisma.category.findFirst({
         where: {
           id: { not: req.params.id },
           OR: [
@@ -382,7 +385,7 @@ categoriesRouter.patch('/:id', async (req, res, next) => {
         },
       });
 
-      if (existing) {
+      if (duplicate) {
         throw new AppError(
           ERROR_CODES.CONFLICT,
           'A category with this name already exists',
@@ -400,6 +403,13 @@ categoriesRouter.patch('/:id', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'CATEGORY',
+      action: 'UPDATE',
+      before: existing,
+      after: category,
+    });
+
     res.json({ data: category });
   } catch (err) {
     next(err);
@@ -438,7 +448,7 @@ categoriesRouter.get('/:id/deletion-impact', async (req, res, next) => {
 categoriesRouter.delete('/:id', async (req, res, next) => {
   try {
     const householdId = req.user!.householdId!;
-    await getAccessibleCategory(req.params.id, householdId);
+    const category = await getAccessibleCategory(req.params.id, householdId);
 
     // Parse action from query params
     const action = req.query.action as string | undefined; // 'unassign' | 'reassign'
@@ -531,7 +541,7 @@ categoriesRouter.delete('/:id', async (req, res, next) => {
       where: { categoryId: req.params.id },
     });
 
-    // Delete any budgets for this category
+    // Delete any budgets for this category (template items and envelope ledger entries cascade)
     await prisma.budget.deleteMany({
       where: { categoryId: req.params.id },
     });
@@ -541,6 +551,16 @@ categoriesRouter.delete('/:id', async (req, res, next) => {
       where: { id: req.params.id },
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'CATEGORY',
+      action: 'DELETE',
+      before: category,
+      summary:
+        direct > 0
+          ? `${direct} transaction${direct !== 1 ? 's' : ''} ${action === 'reassign' ? 'reassigned' : 'unassigned'}`
+          : undefined,
+    });
+
     res.json({ data: { message: 'Category deleted', transactionsAffected: direct } });
   } catch (err) {
     next(err);
@@ -572,7 +592,7 @@ categoriesRouter.post('/merge', async (req, res, next) => {
     // Verify target exists and is accessible
     const target = await prisma.category.findUnique({
       where: { id: data.targetId },
-      select: { householdId: true, isSystem: true, type: true },
+      select: { householdId: true, isSystem: true, type: true, name: true },
     });
 
     if (!target) {
@@ -616,6 +636,13 @@ categoriesRouter.post('/merge', async (req, res, next) => {
       }),
     ]);
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'CATEGORY',
+      action: 'DELETE',
+      before: source,
+      summary: `Merged into ${target.name}`,
+    });
+
     res.json({ data: { message: 'Categories merged successfully' } });
   } catch (err) {
     next(err);
@@ -690,6 +717,14 @@ categoriesRouter.post('/restore-defaults', async (req, res, next) => {
       }
     }
 
+    if (restored.length > 0) {
+      await recordAuditEvent(req.user!, {
+        entityType: 'CATEGORY',
+        action: 'CREATE',
+        summary: `Restored ${restored.length} default categories: ${restored.join(', ')}`,
+      });
+    }
+
     res.json({
       data: {
         message: restored.length > 0
@@ -0,0 +1,291 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { authenticate, requireHousehold } from '../middleware/auth';
+import { AppError } from '../middleware/error';
+import { prisma } from '../utils/prisma';
+import { ERROR_CODES } from '@otter-money/shared';
+import { Decimal } from '@prisma/client/runtime/library';
+import { getCollegePlanProgress, projectCollegePlan } from '../services/collegePlanner';
+
+export const collegePlansRouter = Router();
+
+collegePlansRouter.use(authenticate);
+collegePlansRouter.use(requireHousehold);
+
+// Liabilities can't fund a college plan
+const FUNDING_ACCOUNT_TYPES = ['CHECKING', 'SAVINGS', 'INVESTMENT', 'OTHER'];
+
+const currentYear = new Date().getFullYear();
+
+// Validation schemas
+const createPlanSchema = z.object({
+  childName: z.string().min(1).max(100),
+  birthYear: z.number().int().min(currentYear - 30).max(currentYear + 5),
+  enrollmentAge: z.number().int().min(14).max(30).optional().default(18),
+  yearsOfSchool: z.number().int().min(1).max(10).optional().default(4),
+  annualCost: z.number().positive(),
+  educationInflation: z.number().min(0).max(20).optional().default(5),
+  expectedReturn: z.number().min(0).max(20).optional().default(6),
+  accountIds: z.array(z.string()).optional().default([]),
+});
+
+const updatePlanSchema = z.object({
+  childName: z.string().min(1).max(100).optional(),
+  birthYear: z.number().int().min(currentYear - 30).max(currentYear + 5).optional(),
+  enrollmentAge: z.number().int().min(14).max(30).optional(),
+  yearsOfSchool: z.number().int().min(1).max(10).optional(),
+  annualCost: z.number().positive().optional(),
+  educationInflation: z.number().min(0).max(20).optional(),
+  expectedReturn: z.number().min(0).max(20).optional(),
+  accountIds: z.array(z.string()).optional(), // Replaces the linked accounts
+});
+
+const planInclude = {
+  accounts: {
+    include: {
+      account: {
+        select: { id: true, name: true, type: true, currentBalance: true, ownerId: true },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+  goal: {
+    select: { id: true, name: true, isCompleted: true },
+  },
+} satisfies Prisma.CollegePlanInclude;
+
+type PlanWithDetails = Prisma.CollegePlanGetPayload<{ include: typeof planInclude }>;
+
+// Helper to transform plan for response
+function transformPlan(plan: PlanWithDetails) {
+  const accounts = plan.accounts.map((link) => link.account);
+  const currentSavings = accounts.reduce((sum, a) => sum + Number(a.currentBalance), 0);
+  const projection = projectCollegePlan(plan, currentSavings);
+
+  return {
+    id: plan.id,
+    householdId: plan.householdId,
+    childName: plan.childName,
+    birthYear: plan.birthYear,
+    enrollmentAge: plan.enrollmentAge,
+    yearsOfSchool: plan.yearsOfSchool,
+    annualCost: Number(plan.annualCost),
+    educationInflation: Number(plan.educationInflation),
+    expectedReturn: Number(plan.expectedReturn),
+    goalId: plan.goalId,
+    goal: plan.goal,
+    accounts: accounts.map((a) => ({
+      id: a.id,
+      name: a.name,
+      type: a.type,
+      ownerId: a.ownerId,
+      currentBalance: Number(a.currentBalance),
+    })),
+    createdAt: plan.createdAt.toISOString(),
+    updatedAt: plan.updatedAt.toISOString(),
+    projection: {
+      ...projection,
+      enrollmentDate: projection.enrollmentDate.toISOString().split('T')[0],
+    },
+  };
+}
+
+// Helper to get a plan and verify household access
+async function getHouseholdPlan(planId: string, householdId: string) {
+  const plan = await prisma.collegePlan.findUnique({
+    where: { id: planId },
+    include: planInclude,
+  });
+
+  if (!plan) {
+    throw new AppError(ERROR_CODES.NOT_FOUND, 'College plan not found', 404);
+  }
+
+  if (plan.householdId !== householdId) {
+    throw new AppError(ERROR_CODES.FORBIDDEN, 'Access denied', 403);
+  }
+
+  return plan;
+}
+
+// Helper to verify accounts can fund a plan
+async function validateFundingAccounts(accountIds: string[], householdId: string) {
+  if (accountIds.length === 0) return;
+
+  const accounts = await prisma.account.findMany({
+    where: { id: { in: accountIds }, householdId },
+    select: { id: true, name: true, type: true },
+  });
+
+  if (accounts.length !== new Set(accountIds).size) {
+    throw new AppError(ERROR_CODES.NOT_FOUND, 'Account not found', 404);
+  }
+
+  const liability = accounts.find((a) => !FUNDING_ACCOUNT_TYPES.includes(a.type));
+  if (liability) {
+    throw new AppError(
+      ERROR_CODES.VALIDATION_ERROR,
+      `${liability.name} can't fund a college plan`,
+      400
+    );
+  }
+}
+
+// Create or refresh the plan's household goal from its projection
+async function syncPlanGoal(plan: PlanWithDetails) {
+  const { projection } = transformPlan(plan);
+  const goalData = {
+    targetAmount: new Decimal(projection.targetAtEnrollment),
+    currentAmount: new Decimal(Math.max(0, projection.currentSavings)),
+    targetDate: new Date(projection.enrollmentDate),
+  };
+
+  if (plan.goalId) {
+    await prisma.goal.update({
+      where: { id: plan.goalId },
+      data: goalData,
+    });
+    return;
+  }
+
+  await prisma.collegePlan.update({
+    where: { id: plan.id },
+    data: {
+      goal: {
+        create: {
+          householdId: plan.householdId,
+          name: `${plan.childName}'s College Fund`,
+          icon: '🎓',
+          ...goalData,
+        },
+      },
+    },
+  });
+}
+
+// List college plans with their projections
+collegePlansRouter.get('/', async (req, res, next) => {
+  try {
+    const plans = await prisma.collegePlan.findMany({
+      where: { householdId: req.user!.householdId! },
+      include: planInclude,
+      orderBy: [{ birthYear: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    res.json({ data: plans.map(transformPlan) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Get a plan with progress against its projection curve
+collegePlansRouter.get('/:id', async (req, res, next) => {
+  try {
+    const plan = await getHouseholdPlan(req.params.id, req.user!.householdId!);
+    const progress = await getCollegePlanProgress(
+      plan,
+      plan.accounts.map((link) => link.account)
+    );
+
+    res.json({ data: { ...transformPlan(plan), progress } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Create a plan
+collegePlansRouter.post('/', async (req, res, next) => {
+  try {
+    const { accountIds, ...data } = createPlanSchema.parse(req.body);
+    const householdId = req.user!.householdId!;
+
+    await validateFundingAccounts(accountIds, householdId);
+
+    const plan = await prisma.collegePlan.create({
+      data: {
+        householdId,
+        ...data,
+        annualCost: new Decimal(data.annualCost),
+        educationInflation: new Decimal(data.educationInflation),
+        expectedReturn: new Decimal(data.expectedReturn),
+        accounts: {
+          create: [...new Set(accountIds)].map((accountId) => ({ accountId })),
+        },
+      },
+      include: planInclude,
+    });
+
+    res.status(201).json({ data: transformPlan(plan) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Update a plan. A linked goal is refreshed to match.
+collegePlansRouter.patch('/:id', async (req, res, next) => {
+  try {
+    const { accountIds, ...data } = updatePlanSchema.parse(req.body);
+    const householdId = req.user!.householdId!;
+    const existing = await getHouseholdPlan(req.params.id, householdId);
+
+    if (accountIds) {
+      await validateFundingAccounts(accountIds, householdId);
+    }
+
+    const plan = await prisma.collegePlan.update({
+      where: { id: existing.id },
+      data: {
+        ...data,
+        annualCost: data.annualCost !== undefined ? new Decimal(data.annualCost) : undefined,
+        educationInflation:
+          data.educationInflation !== undefined ? new Decimal(data.educationInflation) : undefined,
+        expectedReturn:
+          data.expectedReturn !== undefined ? new Decimal(data.expectedReturn) : undefined,
+        accounts: accountIds
+          ? {
+              deleteMany: {},
+              create: [...new Set(accountIds)].map((accountId) => ({ accountId })),
+            }
+          : undefined,
+      },
+      include: planInclude,
+    });
+
+    if (plan.goalId) {
+      await syncPlanGoal(plan);
+    }
+
+    res.json({ data: transformPlan(plan) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Delete a plan. Its goal, if any, is kept.
+collegePlansRouter.delete('/:id', async (req, res, next) => {
+  try {
+    const plan = await getHouseholdPlan(req.params.id, req.user!.householdId!);
+
+    await prisma.collegePlan.delete({
+      where: { id: plan.id },
+    });
+
+    res.json({ data: { message: 'College plan deleted' } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Turn the plan into a household goal, or refresh the existing one
+collegePlansRouter.post('/:id/goal', async (req, res, next) => {
+  try {
+    const plan = await getHouseholdPlan(req.params.id, req.user!.householdId!);
+    await syncPlanGoal(plan);
+
+    const updated = await getHouseholdPlan(plan.id, plan.householdId);
+    res.json({ data: transformPlan(updated) });
+  } catch (err) {
+    next(err);
+  }
+});
@@ -1,12 +1,20 @@
 import { Router } from 'express';
+import { z } from 'zod';
 import { authenticate, requireHousehold } from '../middleware/auth';
 import { prisma } from '../utils/prisma';
+import { getNetWorthHistory } from '../services/balanceSnapshots';
 
 export const dashboardRouter = Router();
 
 dashboardRouter.use(authenticate);
 dashboardRouter.use(requireHousehold);
 
+// Validation schemas
+const networthHistoryQuerySchema = z.object({
+  range: z.enum(['1M', '3M', '6M', '1Y', 'ALL']).default('6M'),
+  interval: z.enum(['day', 'week', 'month']).optional(),
+});
+
 // Get dashboard summary
 dashboardRouter.get('/summary', async (req, res, next) => {
   try {
@@ -74,6 +82,7 @@ dashboardRouter.get('/summary', async (req, res, next) => {
       where: {
         account: { householdId },
         isAdjustment: false,
+        parentId: null,
       },
       include: {
         account: {
@@ -117,54 +126,13 @@ dashboardRouter.get('/summary', async (req, res, next) => {
 });
 
 // Get net worth history (for chart)
+// Built from daily account balance snapshots; balances carry forward between snapshots
 dashboardRouter.get('/networth/history', async (req, res, next) => {
   try {
     const householdId = req.user!.householdId!;
+    const { range, interval } = networthHistoryQuerySchema.parse(req.query);
 
-    // For now, we'll just return the current net worth
-    // In a real implementation, we'd store historical snapshots
-    const accounts = await prisma.account.findMany({
-      where: {
-        householdId,
-        isHidden: false,
-        excludeFromNetWorth: false,
-      },
-      select: {
-        type: true,
-        currentBalance: true,
-        ownerId: true,
-      },
-    });
-
-    let totalAssets = 0;
-    let totalLiabilities = 0;
-
-    for (const account of accounts) {
-      const balance = Number(account.currentBalance);
-      const isLiability = ['CREDIT', 'LOAN', 'MORTGAGE'].includes(account.type);
-
-      if (isLiability) {
-        totalLiabilities += Math.abs(balance);
-      } else {
-        totalAssets += balance;
-      }
-    }
-
-    // For now, just return current values
-    // In production, we'd store daily/weekly snapshots and return real history
-    const today = new Date();
-    const netWorth = totalAssets - totalLiabilities;
-
-    // Return just the current month - chart won't render with only 1 point
-    // Once we have real historical data, we'll populate this properly
-    const history = [
-      {
-        date: today.toISOString().slice(0, 7),
-        total: netWorth,
-        assets: totalAssets,
-        liabilities: totalLiabilities,
-      },
-    ];
+    const history = await getNetWorthHistory(householdId, range, interval);
 
     res.json({ data: history });
   } catch (err) {
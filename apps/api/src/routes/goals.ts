@@ -5,6 +5,7 @@ import { AppError } from '../middleware/error';
 import { prisma } from '../utils/prisma';
 import { ERROR_CODES } from '@otter-money/shared';
 import { Decimal } from '@prisma/client/runtime/library';
+import { recordAuditEvent } from '../services/auditLog';
 
 export const goalsRouter = Router();
 
@@ -169,6 +170,8 @@ goalsRouter.post('/', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, { entityType: 'GOAL', action: 'CREATE', after: goal });
+
     res.status(201).json({ data: transformGoal(goal) });
   } catch (err) {
     next(err);
@@ -220,6 +223,13 @@ goalsRouter.patch('/:id', async (req, res, next) => {
       data: updateData,
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'GOAL',
+      action: 'UPDATE',
+      before: existingGoal,
+      after: goal,
+    });
+
     res.json({ data: transformGoal(goal) });
   } catch (err) {
     next(err);
@@ -248,6 +258,8 @@ goalsRouter.delete('/:id', async (req, res, next) => {
       where: { id: req.params.id },
     });
 
+    await recordAuditEvent(req.user!, { entityType: 'GOAL', action: 'DELETE', before: existingGoal });
+
     res.json({ data: { message: 'Goal deleted' } });
   } catch (err) {
     next(err);
@@ -286,6 +298,13 @@ goalsRouter.post('/:id/add', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'GOAL',
+      action: 'UPDATE',
+      before: existingGoal,
+      after: goal,
+    });
+
     res.json({
       data: {
         ...transformGoal(goal),
@@ -330,6 +349,13 @@ goalsRouter.post('/:id/withdraw', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'GOAL',
+      action: 'UPDATE',
+      before: existingGoal,
+      after: goal,
+    });
+
     res.json({
       data: {
         ...transformGoal(goal),
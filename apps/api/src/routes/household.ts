@@ -1,10 +1,13 @@
 import { Router, RequestHandler } from 'express';
 import crypto from 'crypto';
 import { z } from 'zod';
-import { authenticate, requireHousehold } from '../middleware/auth';
+import { authenticate, requireHousehold, requireVerifiedEmail } from '../middleware/auth';
 import { prisma } from '../utils/prisma';
 import { AppError } from '../middleware/error';
-import { ERROR_CODES } from '@otter-money/shared';
+import { ERROR_CODES, isValidPeriod } from '@otter-money/shared';
+import { listAuditEvents, recordAuditEvent } from '../services/auditLog';
+import { deleteAttachmentFiles, findAttachmentStorageKeys } from '../services/attachments';
+import { applyDueBudgetTemplate } from '../services/budgetTemplate';
 
 export const householdRouter = Router();
 
@@ -19,6 +22,43 @@ const joinHouseholdSchema = z.object({
   inviteCode: z.string().min(1),
 });
 
+const updateHouseholdSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  requireTwoFactor: z.boolean().optional(),
+  budgetCadence: z.enum(['WEEKLY', 'BIWEEKLY', 'SEMIMONTHLY', 'MONTHLY', 'QUARTERLY', 'ANNUAL']).optional(),
+  budgetPaydayAnchor: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .refine(isValidPeriod, 'Invalid date')
+    .nullable()
+    .optional(), // YYYY-MM-DD, any payday
+  budgetMode: z.enum(['STANDARD', 'ENVELOPE']).optional(),
+});
+
+const activityQuerySchema = z.object({
+  entityType: z
+    .enum([
+      'TRANSACTION',
+      'CATEGORY',
+      'RULE',
+      'BUDGET',
+      'BUDGET_TEMPLATE',
+      'GOAL',
+      'ACCOUNT',
+      'RECURRING',
+      'HOUSEHOLD',
+      'TAG',
+    ])
+    .optional(),
+  entityId: z.string().optional(),
+  actorId: z.string().optional(),
+  action: z.enum(['CREATE', 'UPDATE', 'DELETE']).optional(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // YYYY-MM-DD
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // YYYY-MM-DD, inclusive
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
 // Create a new household (for existing users without one)
 householdRouter.post('/create', async (req, res, next) => {
   try {
@@ -53,6 +93,12 @@ householdRouter.post('/create', async (req, res, next) => {
       return household;
     });
 
+    await recordAuditEvent({ id: user.id, householdId: result.id }, {
+      entityType: 'HOUSEHOLD',
+      action: 'CREATE',
+      after: result,
+    });
+
     res.status(201).json({
       data: {
         household: {
@@ -101,6 +147,15 @@ householdRouter.post('/join', async (req, res, next) => {
       throw new AppError(ERROR_CODES.FORBIDDEN, 'Household already has 2 members', 403);
     }
 
+    // Invites only work once the organizer has verified their email
+    if (!household.members.some((m) => m.householdRole === 'ORGANIZER' && m.emailVerified)) {
+      throw new AppError(
+        ERROR_CODES.EMAIL_NOT_VERIFIED,
+        "This household's organizer needs to verify their email before anyone can join",
+        403
+      );
+    }
+
     // Update user to join household
     await prisma.user.update({
       where: { id: user.id },
@@ -110,6 +165,13 @@ householdRouter.post('/join', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent({ id: user.id, householdId: household.id }, {
+      entityType: 'HOUSEHOLD',
+      action: 'UPDATE',
+      after: household,
+      summary: 'Joined the household',
+    });
+
     res.json({
       data: {
         household: {
@@ -166,6 +228,58 @@ householdRouter.get('/', async (req, res, next) => {
   }
 });
 
+// Update household settings (organizer only)
+householdRouter.patch('/', requireOrganizer, async (req, res, next) => {
+  try {
+    const data = updateHouseholdSchema.parse(req.body);
+
+    // The organizer has to be enrolled first, or they'd lock themselves out
+    if (data.requireTwoFactor && !req.user!.twoFactorEnabled) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Turn on two-factor authentication for yourself before requiring it',
+        400
+      );
+    }
+
+    const existing = await prisma.household.findUnique({
+      where: { id: req.user!.householdId! },
+    });
+
+    // Biweekly periods are counted from a payday
+    const budgetCadence = data.budgetCadence ?? existing?.budgetCadence;
+    const budgetPaydayAnchor =
+      data.budgetPaydayAnchor !== undefined ? data.budgetPaydayAnchor : existing?.budgetPaydayAnchor;
+    if (budgetCadence === 'BIWEEKLY' && !budgetPaydayAnchor) {
+      throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Choose a payday to budget every two weeks', 400);
+    }
+
+    const household = await prisma.household.update({
+      where: { id: req.user!.householdId! },
+      data,
+    });
+
+    // A new cadence starts a new period, which gets the template straight away
+    if (
+      household.budgetCadence !== existing?.budgetCadence ||
+      household.budgetPaydayAnchor !== existing?.budgetPaydayAnchor
+    ) {
+      await applyDueBudgetTemplate(household.id);
+    }
+
+    await recordAuditEvent(req.user!, {
+      entityType: 'HOUSEHOLD',
+      action: 'UPDATE',
+      before: existing,
+      after: household,
+    });
+
+    res.json({ data: household });
+  } catch (err) {
+    next(err);
+  }
+});
+
 // Get household members
 householdRouter.get('/members', async (req, res, next) => {
   try {
@@ -177,13 +291,15 @@ householdRouter.get('/members', async (req, res, next) => {
         name: true,
         avatarUrl: true,
         householdRole: true,
+        totpEnabledAt: true,
         createdAt: true,
       },
     });
 
     res.json({
-      data: members.map((m) => ({
+      data: members.map(({ totpEnabledAt, ...m }) => ({
         ...m,
+        twoFactorEnabled: !!totpEnabledAt,
         isCurrentUser: m.id === req.user!.id,
       })),
     });
@@ -192,8 +308,37 @@ householdRouter.get('/members', async (req, res, next) => {
   }
 });
 
+// Get the activity feed: who changed what, newest first
+householdRouter.get('/activity', async (req, res, next) => {
+  try {
+    const query = activityQuerySchema.parse(req.query);
+
+    const { events, total } = await listAuditEvents(req.user!.householdId!, {
+      entityType: query.entityType,
+      entityId: query.entityId,
+      actorId: query.actorId,
+      action: query.action,
+      startDate: query.startDate ? new Date(`${query.startDate}T00:00:00.000Z`) : undefined,
+      endDate: query.endDate ? new Date(`${query.endDate}T23:59:59.999Z`) : undefined,
+      limit: query.limit,
+      offset: query.offset,
+    });
+
+    res.json({
+      data: events,
+      meta: {
+        total,
+        limit: query.limit,
+        offset: query.offset,
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
 // Get invite code
-householdRouter.get('/invite', async (req, res, next) => {
+householdRouter.get('/invite', requireVerifiedEmail, async (req, res, next) => {
   try {
     const household = await prisma.household.findUnique({
       where: { id: req.user!.householdId! },
@@ -216,7 +361,7 @@ householdRouter.get('/invite', async (req, res, next) => {
 });
 
 // Regenerate invite code (organizer only)
-householdRouter.post('/invite/regenerate', requireOrganizer, async (req, res, next) => {
+householdRouter.post('/invite/regenerate', requireVerifiedEmail, requireOrganizer, async (req, res, next) => {
   try {
     // Generate new invite code
     const newInviteCode = crypto.randomBytes(16).toString('hex');
@@ -226,6 +371,13 @@ householdRouter.post('/invite/regenerate', requireOrganizer, async (req, res, ne
       data: { inviteCode: newInviteCode },
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'HOUSEHOLD',
+      action: 'UPDATE',
+      after: household,
+      summary: 'Created a new invite link',
+    });
+
     res.json({
       data: {
         inviteCode: household.inviteCode,
@@ -268,6 +420,10 @@ householdRouter.post('/leave', async (req, res, next) => {
           ownerId: null, // Joint account
         },
       }),
+      // Personal budgets don't outlive the household
+      prisma.budget.deleteMany({
+        where: { householdId: user.householdId, ownerId: req.user!.id },
+      }),
       prisma.user.update({
         where: { id: req.user!.id },
         data: {
@@ -277,6 +433,13 @@ householdRouter.post('/leave', async (req, res, next) => {
       }),
     ]);
 
+    await recordAuditEvent({ id: req.user!.id, householdId: user.householdId }, {
+      entityType: 'HOUSEHOLD',
+      action: 'UPDATE',
+      entityId: user.householdId,
+      summary: 'Left the household',
+    });
+
     res.json({
       data: {
         success: true,
@@ -299,20 +462,32 @@ householdRouter.post('/dissolve', requireOrganizer, async (req, res, next) => {
       select: { id: true },
     });
 
+    const attachmentKeys = await findAttachmentStorageKeys({ account: { householdId } });
+
     // Delete everything in a transaction
     await prisma.$transaction([
       // Delete all transactions for this household's accounts
       prisma.transaction.deleteMany({
         where: { account: { householdId } },
       }),
+      // Delete college plans (account links cascade)
+      prisma.collegePlan.deleteMany({
+        where: { householdId },
+      }),
       // Delete all accounts
       prisma.account.deleteMany({
         where: { householdId },
       }),
-      // Delete all budgets
+      // Delete all budgets and the budget template
       prisma.budget.deleteMany({
         where: { householdId },
       }),
+      prisma.budgetTemplateItem.deleteMany({
+        where: { householdId },
+      }),
+      prisma.budgetAssignment.deleteMany({
+        where: { householdId },
+      }),
       // Delete all goals
       prisma.goal.deleteMany({
         where: { householdId },
@@ -325,6 +500,26 @@ householdRouter.post('/dissolve', requireOrganizer, async (req, res, next) => {
       prisma.categorizationRule.deleteMany({
         where: { householdId },
       }),
+      // Delete rule suggestions
+      prisma.ruleSuggestion.deleteMany({
+        where: { householdId },
+      }),
+      // Delete tags (their links to transactions cascade)
+      prisma.tag.deleteMany({
+        where: { householdId },
+      }),
+      // Delete the SimpleFin connection
+      prisma.simplefinConnection.deleteMany({
+        where: { householdId },
+      }),
+      // Delete Wally conversations (messages cascade)
+      prisma.conversation.deleteMany({
+        where: { householdId },
+      }),
+      // Delete the activity log
+      prisma.auditEvent.deleteMany({
+        where: { householdId },
+      }),
       // Remove all members from household
       prisma.user.updateMany({
         where: { householdId },
@@ -338,6 +533,7 @@ householdRouter.post('/dissolve', requireOrganizer, async (req, res, next) => {
         where: { id: householdId },
       }),
     ]);
+    await deleteAttachmentFiles(attachmentKeys);
 
     res.json({
       data: {
@@ -465,6 +661,10 @@ householdRouter.delete('/members/:memberId', requireOrganizer, async (req, res,
           ownerId: null, // Joint account
         },
       }),
+      // Delete the partner's personal budgets
+      prisma.budget.deleteMany({
+        where: { householdId: req.user!.householdId!, ownerId: memberId },
+      }),
       // Remove user from household (but don't delete the user)
       prisma.user.update({
         where: { id: memberId },
@@ -475,6 +675,13 @@ householdRouter.delete('/members/:memberId', requireOrganizer, async (req, res,
       }),
     ]);
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'HOUSEHOLD',
+      action: 'UPDATE',
+      entityId: req.user!.householdId,
+      summary: `Removed ${member.name} from the household`,
+    });
+
     res.json({
       data: {
         success: true,
@@ -5,8 +5,13 @@ import { plaidClient, mapPlaidAccountType, normalizeTransactionAmount } from '..
 import { mapPlaidCategory, getCategoryIdByName } from '../utils/categoryMapping';
 import { CountryCode, Products } from 'plaid';
 import { authenticate, requireHousehold } from '../middleware/auth';
-import { applyRulesToTransaction } from '../services/ruleEngine';
+import { applyRulesToTransaction, saveRuleActions } from '../services/ruleEngine';
 import { buildPlaidTransactionPreview } from '../services/plaidMatcher';
+import { snapshotAccountBalances } from '../services/balanceSnapshots';
+import { backfillBalancesForAccounts } from '../services/balanceBackfill';
+import { reconcileSplitsWithParent } from '../services/transactionSplits';
+import { detectTransfersSafely } from '../services/transferMatcher';
+import { deleteAttachmentFiles, findAttachmentStorageKeys } from '../services/attachments';
 
 const router = express.Router();
 
@@ -522,6 +527,7 @@ router.post('/exchange-token-execute', async (req, res, next) => {
     let accountsCreated = 0;
     let transactionsAdded = 0;
     let transactionsSkipped = 0;
+    const mappedAccountIds: string[] = [];
 
     const skipExternalIds = new Set(mappings.flatMap((m) => m.skipTransactionIds));
 
@@ -577,6 +583,7 @@ router.post('/exchange-token-execute', async (req, res, next) => {
         accountId = newAccount.id;
         accountsCreated++;
       }
+      mappedAccountIds.push(accountId);
 
       // Sync transactions for this account
       const accountTransactions = allTransactions.filter(
@@ -682,15 +689,10 @@ router.post('/exchange-token-execute', async (req, res, next) => {
               },
             });
 
-            // Apply rules if no category
-            if (!categoryId) {
-              const ruleCategoryId = await applyRulesToTransaction(transaction, householdId);
-              if (ruleCategoryId) {
-                await prisma.transaction.update({
-                  where: { id: transaction.id },
-                  data: { categoryId: ruleCategoryId },
-                });
-              }
+            // Apply rules (their category only fills in when Plaid didn't assign one)
+            const ruleActions = await applyRulesToTransaction(transaction, householdId);
+            if (ruleActions) {
+              await saveRuleActions(transaction, ruleActions);
             }
 
             transactionsAdded++;
@@ -754,15 +756,10 @@ router.post('/exchange-token-execute', async (req, res, next) => {
             },
           });
 
-          // Apply rules if no category
-          if (!categoryId) {
-            const ruleCategoryId = await applyRulesToTransaction(transaction, householdId);
-            if (ruleCategoryId) {
-              await prisma.transaction.update({
-                where: { id: transaction.id },
-                data: { categoryId: ruleCategoryId },
-              });
-            }
+          // Apply rules (their category only fills in when Plaid didn't assign one)
+          const ruleActions = await applyRulesToTransaction(transaction, householdId);
+          if (ruleActions) {
+            await saveRuleActions(transaction, ruleActions);
           }
 
           transactionsAdded++;
@@ -770,6 +767,12 @@ router.post('/exchange-token-execute', async (req, res, next) => {
       }
     }
 
+    // Record the balances Plaid just reported for linked and created accounts,
+    // then reconstruct earlier balances from the transaction history we just pulled
+    await snapshotAccountBalances({ plaidItemId: plaidItem.itemId }, 'PLAID');
+    await backfillBalancesForAccounts(mappedAccountIds);
+    await detectTransfersSafely(householdId);
+
     res.json({
       data: {
         success: true,
@@ -901,15 +904,10 @@ router.post('/sync-transactions', async (req, res, next) => {
           },
         });
 
-        // If no category was assigned from Plaid, try applying rules
-        if (!categoryId) {
-          const ruleCategoryId = await applyRulesToTransaction(transaction, householdId);
-          if (ruleCategoryId) {
-            await prisma.transaction.update({
-              where: { id: transaction.id },
-              data: { categoryId: ruleCategoryId },
-            });
-          }
+        // Apply rules (their category only fills in when Plaid didn't assign one)
+        const ruleActions = await applyRulesToTransaction(transaction, householdId);
+        if (ruleActions) {
+          await saveRuleActions(transaction, ruleActions);
         }
 
         addedCount++;
@@ -938,16 +936,19 @@ router.post('/sync-transactions', async (req, res, next) => {
             isPending: tx.pending,
           },
         });
+        await reconcileSplitsWithParent(tx.transaction_id);
         modifiedCount++;
       }
 
       // Process removed transactions
       for (const removedTx of removed) {
+        const attachmentKeys = await findAttachmentStorageKeys({ externalId: removedTx.transaction_id });
         await prisma.transaction.deleteMany({
           where: {
             externalId: removedTx.transaction_id,
           },
         });
+        await deleteAttachmentFiles(attachmentKeys);
         removedCount++;
       }
 
@@ -980,6 +981,8 @@ router.post('/sync-transactions', async (req, res, next) => {
           },
         });
       }
+
+      await snapshotAccountBalances({ plaidItemId: itemId }, 'PLAID');
     } catch (balanceError) {
       console.error(`Failed to refresh balances for item ${itemId}:`, balanceError);
       // Still update lastSyncedAt even if balance refresh fails
@@ -989,6 +992,8 @@ router.post('/sync-transactions', async (req, res, next) => {
       });
     }
 
+    await detectTransfersSafely(householdId);
+
     res.json({
       data: {
         success: true,
@@ -1241,9 +1246,11 @@ router.delete('/items/:itemId', async (req, res, next) => {
     });
 
     // Delete transactions first (before accounts due to foreign key)
+    const attachmentKeys = await findAttachmentStorageKeys({ accountId: { in: accountIds } });
     await prisma.transaction.deleteMany({
       where: { accountId: { in: accountIds } },
     });
+    await deleteAttachmentFiles(attachmentKeys);
 
     // Delete associated accounts
     await prisma.account.deleteMany({
@@ -1445,15 +1452,10 @@ async function syncPlaidTransactions(plaidItem: {
           },
         });
 
-        // If no category was assigned from Plaid, try applying rules
-        if (!categoryId) {
-          const ruleCategoryId = await applyRulesToTransaction(transaction, householdId);
-          if (ruleCategoryId) {
-            await prisma.transaction.update({
-              where: { id: transaction.id },
-              data: { categoryId: ruleCategoryId },
-            });
-          }
+        // Apply rules (their category only fills in when Plaid didn't assign one)
+        const ruleActions = await applyRulesToTransaction(transaction, householdId);
+        if (ruleActions) {
+          await saveRuleActions(transaction, ruleActions);
         }
 
         totalAdded++;
@@ -1480,14 +1482,17 @@ async function syncPlaidTransactions(plaidItem: {
             isPending: tx.pending,
           },
         });
+        await reconcileSplitsWithParent(tx.transaction_id);
         totalModified++;
       }
 
       // Process removed transactions
       for (const removedTx of removed) {
+        const attachmentKeys = await findAttachmentStorageKeys({ externalId: removedTx.transaction_id });
         await prisma.transaction.deleteMany({
           where: { externalId: removedTx.transaction_id },
         });
+        await deleteAttachmentFiles(attachmentKeys);
         totalRemoved++;
       }
 
@@ -1520,6 +1525,8 @@ async function syncPlaidTransactions(plaidItem: {
           },
         });
       }
+
+      await snapshotAccountBalances({ plaidItemId: plaidItem.itemId }, 'PLAID');
     } catch (balanceError) {
       console.error(`Failed to refresh balances for item ${plaidItem.itemId}:`, balanceError);
       // Still update lastSyncedAt even if balance refresh fails
@@ -1529,6 +1536,8 @@ async function syncPlaidTransactions(plaidItem: {
       });
     }
 
+    await detectTransfersSafely(householdId);
+
     console.log(
       `Synced ${totalAdded} added, ${totalModified} modified, ${totalRemoved} removed transactions for item ${plaidItem.itemId}` +
       (totalSkipped > 0 ? ` (${totalSkipped} skipped - account not found)` : '')
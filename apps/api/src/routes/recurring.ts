@@ -5,7 +5,12 @@ import { AppError } from '../middleware/error';
 import { prisma } from '../utils/prisma';
 import { ERROR_CODES } from '@otter-money/shared';
 import { Decimal } from '@prisma/client/runtime/library';
-import { detectRecurringTransactions, linkTransactionToRecurring } from '../services/recurringDetection';
+import {
+  detectRecurringTransactions,
+  getUpcomingBills,
+  linkTransactionToRecurring,
+} from '../services/recurringDetection';
+import { recordAuditEvent } from '../services/auditLog';
 
 export const recurringRouter = Router();
 
@@ -136,53 +141,7 @@ recurringRouter.get('/upcoming', async (req, res, next) => {
     const days = parseInt(req.query.days as string) || 30;
     const limit = parseInt(req.query.limit as string) || 5;
 
-    const endDate = new Date();
-    endDate.setDate(endDate.getDate() + days);
-
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const upcoming = await prisma.recurringTransaction.findMany({
-      where: {
-        householdId,
-        status: { in: ['DETECTED', 'CONFIRMED'] },
-        isPaused: false,
-        nextExpectedDate: {
-          lte: endDate,
-        },
-      },
-      include: {
-        account: {
-          select: { id: true, name: true },
-        },
-        category: {
-          select: { id: true, name: true, color: true },
-        },
-      },
-      orderBy: { nextExpectedDate: 'asc' },
-      take: limit,
-    });
-
-    const bills = upcoming.map((r) => {
-      const nextDate = new Date(r.nextExpectedDate);
-      const daysUntilDue = Math.ceil((nextDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-
-      return {
-        id: r.id,
-        merchantName: r.merchantName,
-        expectedAmount: Number(r.expectedAmount),
-        nextExpectedDate: r.nextExpectedDate,
-        frequency: r.frequency,
-        status: r.status,
-        categoryId: r.categoryId,
-        categoryName: r.category?.name || null,
-        categoryColor: r.category?.color || null,
-        accountId: r.accountId,
-        accountName: r.account?.name || null,
-        isPaused: r.isPaused,
-        daysUntilDue,
-      };
-    });
+    const bills = await getUpcomingBills(householdId, days, limit);
 
     res.json({ data: bills });
   } catch (err) {
@@ -307,6 +266,8 @@ recurringRouter.post('/', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, { entityType: 'RECURRING', action: 'CREATE', after: recurring });
+
     res.status(201).json({ data: formatRecurring(recurring) });
   } catch (err) {
     next(err);
@@ -381,6 +342,13 @@ recurringRouter.patch('/:id', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'RECURRING',
+      action: 'UPDATE',
+      before: existing,
+      after: recurring,
+    });
+
     res.json({ data: formatRecurring(recurring) });
   } catch (err) {
     next(err);
@@ -413,6 +381,8 @@ recurringRouter.delete('/:id', async (req, res, next) => {
       where: { id: req.params.id },
     });
 
+    await recordAuditEvent(req.user!, { entityType: 'RECURRING', action: 'DELETE', before: existing });
+
     res.json({ data: { message: 'Recurring transaction deleted' } });
   } catch (err) {
     next(err);
@@ -449,6 +419,13 @@ recurringRouter.post('/:id/confirm', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'RECURRING',
+      action: 'UPDATE',
+      before: existing,
+      after: recurring,
+    });
+
     res.json({ data: formatRecurring(recurring) });
   } catch (err) {
     next(err);
@@ -485,6 +462,13 @@ recurringRouter.post('/:id/dismiss', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'RECURRING',
+      action: 'UPDATE',
+      before: existing,
+      after: recurring,
+    });
+
     res.json({ data: formatRecurring(recurring) });
   } catch (err) {
     next(err);
@@ -521,6 +505,13 @@ recurringRouter.post('/:id/pause', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'RECURRING',
+      action: 'UPDATE',
+      before: existing,
+      after: recurring,
+    });
+
     res.json({ data: formatRecurring(recurring) });
   } catch (err) {
     next(err);
@@ -557,6 +548,13 @@ recurringRouter.post('/:id/resume', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'RECURRING',
+      action: 'UPDATE',
+      before: existing,
+      after: recurring,
+    });
+
     res.json({ data: formatRecurring(recurring) });
   } catch (err) {
     next(err);
@@ -593,6 +591,13 @@ recurringRouter.post('/:id/end', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'RECURRING',
+      action: 'UPDATE',
+      before: existing,
+      after: recurring,
+    });
+
     res.json({ data: formatRecurring(recurring) });
   } catch (err) {
     next(err);
@@ -606,6 +611,14 @@ recurringRouter.post('/detect', async (req, res, next) => {
 
     const result = await detectRecurringTransactions(householdId);
 
+    if (result.detected > 0) {
+      await recordAuditEvent(req.user!, {
+        entityType: 'RECURRING',
+        action: 'CREATE',
+        summary: `Detected ${result.detected} new recurring pattern${result.detected !== 1 ? 's' : ''}`,
+      });
+    }
+
     res.json({
       data: {
         detected: result.detected,
@@ -669,14 +682,17 @@ recurringRouter.post('/from-transaction/:transactionId', async (req, res, next)
     }
 
     // Create or update recurring pattern
-    const recurring = await prisma.recurringTransaction.upsert({
-      where: {
-        householdId_merchantName_frequency: {
-          householdId,
-          merchantName,
-          frequency: data.frequency,
-        },
+    const patternKey = {
+      householdId_merchantName_frequency: {
+        householdId,
+        merchantName,
+        frequency: data.frequency,
       },
+    };
+    const existing = await prisma.recurringTransaction.findUnique({ where: patternKey });
+
+    const recurring = await prisma.recurringTransaction.upsert({
+      where: patternKey,
       update: {
         expectedAmount: new Decimal(expectedAmount),
         dayOfMonth: data.dayOfMonth,
@@ -724,6 +740,13 @@ recurringRouter.post('/from-transaction/:transactionId', async (req, res, next)
       // Transaction might already be linked
     }
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'RECURRING',
+      action: existing ? 'UPDATE' : 'CREATE',
+      before: existing,
+      after: recurring,
+    });
+
     res.status(201).json({ data: formatRecurring(recurring) });
   } catch (err) {
     next(err);
@@ -3,9 +3,19 @@ import { z } from 'zod';
 import { authenticate, requireHousehold } from '../middleware/auth';
 import { AppError } from '../middleware/error';
 import { prisma } from '../utils/prisma';
-import { ERROR_CODES } from '@otter-money/shared';
-import type { RuleConditions, AccountType } from '@otter-money/shared';
-import { applyRulesToTransaction } from '../services/ruleEngine';
+import { ERROR_CODES, MAX_RULE_GROUP_DEPTH } from '@otter-money/shared';
+import type { RuleActions, RuleConditions } from '@otter-money/shared';
+import { Prisma } from '@prisma/client';
+import {
+  applyRulesToTransactions,
+  checkRegexSafety,
+  findMatchingTransactionIds,
+  getRuleActionSet,
+  saveRuleActions,
+} from '../services/ruleEngine';
+import { recordAuditEvent } from '../services/auditLog';
+import { listRuleSuggestions, suggestionConditions } from '../services/ruleSuggestions';
+import { dryRunRules } from '../services/ruleDryRun';
 
 export const rulesRouter = Router();
 
@@ -13,39 +23,114 @@ rulesRouter.use(authenticate);
 rulesRouter.use(requireHousehold);
 
 // Validation schemas
-const conditionsSchema = z.object({
+const conditionFields = [
+  'merchantContains',
+  'descriptionContains',
+  'merchantExactly',
+  'descriptionExactly',
+  'descriptionStartsWith',
+  'descriptionEndsWith',
+  'merchantMatchesRegex',
+  'amountMin',
+  'amountMax',
+  'amountExactly',
+  'daysOfMonth',
+  'daysOfWeek',
+  'dateFrom',
+  'dateTo',
+  'categoryIs',
+  'isUncategorized',
+  'accountIds',
+  'accountTypes',
+  'ownerIds',
+] as const;
+
+// Most transactions a dry run lists, and so the most that can be applied from one at once
+const MAX_RULE_APPLY_BATCH = 500;
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+const conditionFieldsSchema = z.object({
   merchantContains: z.string().min(1).max(200).optional(),
   descriptionContains: z.string().min(1).max(200).optional(),
   merchantExactly: z.string().min(1).max(200).optional(),
   descriptionExactly: z.string().min(1).max(200).optional(),
+  descriptionStartsWith: z.string().min(1).max(200).optional(),
+  descriptionEndsWith: z.string().min(1).max(200).optional(),
+  merchantMatchesRegex: z.string().min(1).max(200).optional(),
   amountMin: z.number().optional(),
   amountMax: z.number().optional(),
   amountExactly: z.number().optional(),
+  daysOfMonth: z.array(z.number().int().min(1).max(31)).optional(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
+  dateFrom: dateString.optional(),
+  dateTo: dateString.optional(),
+  categoryIs: z.string().optional(),
+  isUncategorized: z.boolean().optional(),
   accountIds: z.array(z.string()).optional(),
   accountTypes: z.array(z.enum(['CHECKING', 'SAVINGS', 'CREDIT', 'INVESTMENT', 'LOAN', 'MORTGAGE', 'ASSET', 'OTHER'])).optional(),
   ownerIds: z.array(z.string()).optional(),
+  negate: z.array(z.enum(conditionFields)).optional(),
   operator: z.enum(['AND', 'OR']).optional(),
+});
+
+const conditionGroupSchema: z.ZodType<RuleConditions> = conditionFieldsSchema.extend({
+  groups: z.lazy(() => z.array(conditionGroupSchema).max(20)).optional(),
 }).refine((data) => {
-  // At least one condition must be specified
-  return Object.keys(data).filter(k => k !== 'operator').length > 0;
+  // Every group needs at least one condition or nested group
+  return (
+    conditionFields.some((field) => data[field] !== undefined) ||
+    (data.groups !== undefined && data.groups.length > 0)
+  );
 }, {
   message: 'At least one condition must be specified',
 });
 
+function groupDepth(conditions: RuleConditions): number {
+  return 1 + Math.max(0, ...(conditions.groups ?? []).map(groupDepth));
+}
+
+const conditionsSchema = conditionGroupSchema.refine(
+  (data) => groupDepth(data) <= MAX_RULE_GROUP_DEPTH,
+  { message: `Condition groups can be nested at most ${MAX_RULE_GROUP_DEPTH} levels deep` }
+);
+
+const actionsSchema = z.object({
+  renameMerchant: z.string().trim().min(1).max(200).optional(),
+  appendNote: z.string().trim().min(1).max(500).optional(),
+  markAsTransfer: z.boolean().optional(),
+  recurringTransactionId: z.string().optional(),
+  excludeFromBudget: z.boolean().optional(),
+  attributedToId: z.string().optional(),
+});
+
+function hasRuleActions(actions: RuleActions | null | undefined): boolean {
+  return !!actions && Object.values(actions).some(Boolean);
+}
+
 const createRuleSchema = z.object({
-  categoryId: z.string(),
+  categoryId: z.string().nullable().optional(),
   conditions: conditionsSchema,
+  actions: actionsSchema.optional(),
   priority: z.number().int().min(-1000).max(1000).optional().default(0),
   isEnabled: z.boolean().optional().default(true),
+}).refine((data) => !!data.categoryId || hasRuleActions(data.actions), {
+  message: 'A rule must set a category or have at least one action',
 });
 
 const updateRuleSchema = z.object({
-  categoryId: z.string().optional(),
+  categoryId: z.string().nullable().optional(),
   conditions: conditionsSchema.optional(),
+  actions: actionsSchema.optional(),
   priority: z.number().int().min(-1000).max(1000).optional(),
   isEnabled: z.boolean().optional(),
 });
 
+// Name shown for a rule in the activity feed
+function ruleName(rule: { category: { name: string } | null; actions: Prisma.JsonValue }) {
+  return rule.category?.name ?? (rule.actions as RuleActions | null)?.renameMerchant ?? 'Rule';
+}
+
 // Helper to verify rule belongs to household
 async function getHouseholdRule(ruleId: string, householdId: string) {
   const rule = await prisma.categorizationRule.findUnique({
@@ -68,6 +153,60 @@ async function getHouseholdRule(ruleId: string, householdId: string) {
   return rule;
 }
 
+// Helper to count the transactions a set of conditions matches, with the newest few as a sample
+async function previewRuleMatches(householdId: string, conditions: RuleConditions, limit: number) {
+  const matchingIds = await findMatchingTransactionIds(householdId, conditions);
+
+  // Matches come newest first, so the first few are the sample
+  const matchingTransactions = await prisma.transaction.findMany({
+    where: { id: { in: matchingIds.slice(0, limit) } },
+    include: {
+      account: {
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          ownerId: true,
+          owner: { select: { id: true, name: true } },
+        },
+      },
+      category: {
+        select: { id: true, name: true, type: true, icon: true, color: true },
+      },
+    },
+    orderBy: { date: 'desc' },
+  });
+
+  return {
+    matchCount: matchingIds.length,
+    sampleMatches: matchingTransactions.map((tx) => ({
+      ...tx,
+      amount: Number(tx.amount),
+    })),
+  };
+}
+
+// Helper to verify a rule suggestion belongs to household and is still open
+async function getPendingSuggestion(suggestionId: string, householdId: string) {
+  const suggestion = await prisma.ruleSuggestion.findUnique({
+    where: { id: suggestionId },
+  });
+
+  if (!suggestion) {
+    throw new AppError(ERROR_CODES.NOT_FOUND, 'Suggestion not found', 404);
+  }
+
+  if (suggestion.householdId !== householdId) {
+    throw new AppError(ERROR_CODES.FORBIDDEN, 'Access denied', 403);
+  }
+
+  if (suggestion.status !== 'PENDING') {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Suggestion has already been handled', 400);
+  }
+
+  return suggestion;
+}
+
 // Helper to verify category access
 async function verifyCategoryAccess(categoryId: string, householdId: string) {
   const category = await prisma.category.findUnique({
@@ -84,7 +223,32 @@ async function verifyCategoryAccess(categoryId: string, householdId: string) {
   }
 }
 
-// Helper to validate account and owner IDs
+// Helper to validate the recurring bill and partner an action set refers to
+async function validateActionReferences(actions: RuleActions, householdId: string) {
+  if (actions.recurringTransactionId) {
+    const recurring = await prisma.recurringTransaction.findFirst({
+      where: { id: actions.recurringTransactionId, householdId },
+      select: { id: true },
+    });
+
+    if (!recurring) {
+      throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Recurring transaction not found', 400);
+    }
+  }
+
+  if (actions.attributedToId) {
+    const member = await prisma.user.findFirst({
+      where: { id: actions.attributedToId, householdId },
+      select: { id: true },
+    });
+
+    if (!member) {
+      throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Partner is not in household', 400);
+    }
+  }
+}
+
+// Helper to validate the references and ranges in a condition group and its nested groups
 async function validateConditionReferences(
   conditions: RuleConditions,
   householdId: string
@@ -127,6 +291,28 @@ async function validateConditionReferences(
     }
   }
 
+  // Validate the current-category condition
+  if (conditions.categoryIs) {
+    await verifyCategoryAccess(conditions.categoryIs, householdId);
+  }
+
+  // Reject patterns that are invalid or could run too long
+  if (conditions.merchantMatchesRegex) {
+    const problem = checkRegexSafety(conditions.merchantMatchesRegex);
+    if (problem) {
+      throw new AppError(ERROR_CODES.VALIDATION_ERROR, problem, 400);
+    }
+  }
+
+  // Validate date range
+  if (conditions.dateFrom && conditions.dateTo && conditions.dateFrom > conditions.dateTo) {
+    throw new AppError(
+      ERROR_CODES.VALIDATION_ERROR,
+      'dateFrom must be on or before dateTo',
+      400
+    );
+  }
+
   // Validate amount range
   if (
     conditions.amountMin !== undefined &&
@@ -139,6 +325,10 @@ async function validateConditionReferences(
       400
     );
   }
+
+  for (const group of conditions.groups ?? []) {
+    await validateConditionReferences(group, householdId);
+  }
 }
 
 // List all rules
@@ -162,6 +352,95 @@ rulesRouter.get('/', async (req, res, next) => {
   }
 });
 
+// List rules suggested by repeated manual categorizations
+rulesRouter.get('/suggestions', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+    const suggestions = await listRuleSuggestions(householdId);
+
+    const data = await Promise.all(
+      suggestions.map(async (suggestion) => {
+        const conditions = suggestionConditions(suggestion);
+        // Past transactions from the merchant that aren't in the category yet
+        const preview = await previewRuleMatches(
+          householdId,
+          { ...conditions, categoryIs: suggestion.categoryId, negate: ['categoryIs'] },
+          3
+        );
+
+        return {
+          id: suggestion.id,
+          merchantName: suggestion.merchantName,
+          categoryId: suggestion.categoryId,
+          category: suggestion.category,
+          count: suggestion.count,
+          conditions,
+          message: `You've put ${suggestion.merchantName} in ${suggestion.category.name} ${suggestion.count} times`,
+          ...preview,
+        };
+      })
+    );
+
+    res.json({ data });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Accept a suggestion: create its rule
+rulesRouter.post('/suggestions/:id/accept', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+    const suggestion = await getPendingSuggestion(req.params.id, householdId);
+
+    const rule = await prisma.categorizationRule.create({
+      data: {
+        householdId,
+        categoryId: suggestion.categoryId,
+        conditions: suggestionConditions(suggestion) as any,
+      },
+      include: {
+        category: {
+          select: { id: true, name: true, type: true, icon: true, color: true },
+        },
+      },
+    });
+
+    await prisma.ruleSuggestion.update({
+      where: { id: suggestion.id },
+      data: { status: 'ACCEPTED' },
+    });
+
+    await recordAuditEvent(req.user!, {
+      entityType: 'RULE',
+      action: 'CREATE',
+      entityName: ruleName(rule),
+      after: rule,
+    });
+
+    res.status(201).json({ data: rule });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Dismiss a suggestion so it isn't offered again
+rulesRouter.post('/suggestions/:id/dismiss', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+    const suggestion = await getPendingSuggestion(req.params.id, householdId);
+
+    await prisma.ruleSuggestion.update({
+      where: { id: suggestion.id },
+      data: { status: 'DISMISSED' },
+    });
+
+    res.json({ data: { message: 'Suggestion dismissed' } });
+  } catch (err) {
+    next(err);
+  }
+});
+
 // Get single rule
 rulesRouter.get('/:id', async (req, res, next) => {
   try {
@@ -179,16 +458,22 @@ rulesRouter.post('/', async (req, res, next) => {
     const householdId = req.user!.householdId!;
 
     // Verify category access
-    await verifyCategoryAccess(data.categoryId, householdId);
+    if (data.categoryId) {
+      await verifyCategoryAccess(data.categoryId, householdId);
+    }
 
-    // Validate condition references
+    // Validate condition and action references
     await validateConditionReferences(data.conditions, householdId);
+    if (data.actions) {
+      await validateActionReferences(data.actions, householdId);
+    }
 
     const rule = await prisma.categorizationRule.create({
       data: {
         householdId,
-        categoryId: data.categoryId,
+        categoryId: data.categoryId ?? null,
         conditions: data.conditions as any,
+        actions: hasRuleActions(data.actions) ? (data.actions as any) : undefined,
         priority: data.priority,
         isEnabled: data.isEnabled,
       },
@@ -199,6 +484,13 @@ rulesRouter.post('/', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'RULE',
+      action: 'CREATE',
+      entityName: ruleName(rule),
+      after: rule,
+    });
+
     res.status(201).json({ data: rule });
   } catch (err) {
     next(err);
@@ -211,23 +503,43 @@ rulesRouter.patch('/:id', async (req, res, next) => {
     const data = updateRuleSchema.parse(req.body);
     const householdId = req.user!.householdId!;
 
-    await getHouseholdRule(req.params.id, householdId);
+    const existing = await getHouseholdRule(req.params.id, householdId);
 
     // Verify category access if changing
     if (data.categoryId) {
       await verifyCategoryAccess(data.categoryId, householdId);
     }
 
-    // Validate condition references if changing
+    // Validate condition and action references if changing
     if (data.conditions) {
       await validateConditionReferences(data.conditions, householdId);
     }
+    if (data.actions) {
+      await validateActionReferences(data.actions, householdId);
+    }
+
+    // The rule must still do something
+    const categoryId = data.categoryId !== undefined ? data.categoryId : existing.categoryId;
+    const actions = data.actions !== undefined ? data.actions : (existing.actions as RuleActions | null);
+    if (!categoryId && !hasRuleActions(actions)) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        'A rule must set a category or have at least one action',
+        400
+      );
+    }
 
     const rule = await prisma.categorizationRule.update({
       where: { id: req.params.id },
       data: {
         categoryId: data.categoryId,
         conditions: data.conditions as any,
+        actions:
+          data.actions === undefined
+            ? undefined
+            : hasRuleActions(data.actions)
+              ? (data.actions as any)
+              : Prisma.DbNull,
         priority: data.priority,
         isEnabled: data.isEnabled,
       },
@@ -238,6 +550,14 @@ rulesRouter.patch('/:id', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'RULE',
+      action: 'UPDATE',
+      entityName: ruleName(rule),
+      before: existing,
+      after: rule,
+    });
+
     res.json({ data: rule });
   } catch (err) {
     next(err);
@@ -248,12 +568,19 @@ rulesRouter.patch('/:id', async (req, res, next) => {
 rulesRouter.delete('/:id', async (req, res, next) => {
   try {
     const householdId = req.user!.householdId!;
-    await getHouseholdRule(req.params.id, householdId);
+    const rule = await getHouseholdRule(req.params.id, householdId);
 
     await prisma.categorizationRule.delete({
       where: { id: req.params.id },
     });
 
+    await recordAuditEvent(req.user!, {
+      entityType: 'RULE',
+      action: 'DELETE',
+      entityName: ruleName(rule),
+      before: rule,
+    });
+
     res.json({ data: { message: 'Rule deleted' } });
   } catch (err) {
     next(err);
@@ -274,41 +601,33 @@ rulesRouter.post('/test', async (req, res, next) => {
     // Validate condition references
     await validateConditionReferences(data.conditions, householdId);
 
-    // Build where clause based on conditions
-    const where = buildWhereClause(data.conditions, householdId);
-
-    const [matchingTransactions, totalMatches] = await Promise.all([
-      prisma.transaction.findMany({
-        where,
-        include: {
-          account: {
-            select: {
-              id: true,
-              name: true,
-              type: true,
-              ownerId: true,
-              owner: { select: { id: true, name: true } },
-            },
-          },
-          category: {
-            select: { id: true, name: true, type: true, icon: true, color: true },
-          },
-        },
-        orderBy: { date: 'desc' },
-        take: data.limit,
-      }),
-      prisma.transaction.count({ where }),
-    ]);
+    res.json({ data: await previewRuleMatches(householdId, data.conditions, data.limit) });
+  } catch (err) {
+    next(err);
+  }
+});
 
-    res.json({
-      data: {
-        matchCount: totalMatches,
-        sampleMatches: matchingTransactions.map((tx) => ({
-          ...tx,
-          amount: Number(tx.amount),
-        })),
-      },
+// Dry run all enabled rules over existing transactions: what would change, and how rules interact
+rulesRouter.post('/dry-run', async (req, res, next) => {
+  try {
+    const schema = z.object({
+      startDate: dateString.optional(),
+      endDate: dateString.optional(),
+      uncategorizedOnly: z.boolean().optional().default(false),
+      limit: z.number().int().min(1).max(MAX_RULE_APPLY_BATCH).optional().default(200),
+    });
+
+    const data = schema.parse(req.body);
+    const householdId = req.user!.householdId!;
+
+    const result = await dryRunRules(householdId, {
+      startDate: data.startDate ? new Date(data.startDate) : undefined,
+      endDate: data.endDate ? new Date(data.endDate) : undefined,
+      uncategorizedOnly: data.uncategorizedOnly,
+      limit: data.limit,
     });
+
+    res.json({ data: result });
   } catch (err) {
     next(err);
   }
@@ -329,22 +648,46 @@ rulesRouter.post('/:id/apply', async (req, res, next) => {
       );
     }
 
-    // Build where clause
-    const where = buildWhereClause(
+    // Only apply to uncategorized transactions unless force=true (rules
+    // without a category apply to every match)
+    const overwriteCategory = force === 'true';
+    const matchingIds = await findMatchingTransactionIds(
+      householdId,
       rule.conditions as RuleConditions,
-      householdId
+      { uncategorizedOnly: !overwriteCategory && !!rule.categoryId }
     );
 
-    // Only apply to uncategorized transactions unless force=true
-    if (force !== 'true') {
-      where.categoryId = null;
-    }
+    const transactions = await prisma.transaction.findMany({
+      where: { id: { in: matchingIds } },
+      select: {
+        id: true,
+        categoryId: true,
+        merchantName: true,
+        notes: true,
+        transferStatus: true,
+        excludeFromBudget: true,
+        attributedToId: true,
+      },
+    });
 
     // Update matching transactions
-    const result = await prisma.transaction.updateMany({
-      where,
-      data: { categoryId: rule.categoryId },
-    });
+    const actions = getRuleActionSet(rule);
+    const result = { count: 0 };
+    for (const transaction of transactions) {
+      if (await saveRuleActions(transaction, actions, { overwriteCategory })) {
+        result.count++;
+      }
+    }
+
+    if (result.count > 0) {
+      await recordAuditEvent(req.user!, {
+        entityType: 'RULE',
+        action: 'UPDATE',
+        entityId: rule.id,
+        entityName: ruleName(rule),
+        summary: `Applied to ${result.count} transaction${result.count !== 1 ? 's' : ''}`,
+      });
+    }
 
     res.json({
       data: {
@@ -361,7 +704,7 @@ rulesRouter.post('/:id/apply', async (req, res, next) => {
 rulesRouter.post('/apply-to-transactions', async (req, res, next) => {
   try {
     const schema = z.object({
-      transactionIds: z.array(z.string()).min(1).max(100),
+      transactionIds: z.array(z.string()).min(1).max(MAX_RULE_APPLY_BATCH),
     });
 
     const data = schema.parse(req.body);
@@ -388,22 +731,27 @@ rulesRouter.post('/apply-to-transactions', async (req, res, next) => {
       );
     }
 
-    // Apply rules to each transaction
+    // Apply rules to each transaction (the matching rule's category replaces the current one)
+    const actionMap = await applyRulesToTransactions(transactions, householdId);
     let categorizedCount = 0;
     for (const transaction of transactions) {
-      const categoryId = await applyRulesToTransaction(transaction, householdId);
-      if (categoryId && categoryId !== transaction.categoryId) {
-        await prisma.transaction.update({
-          where: { id: transaction.id },
-          data: { categoryId },
-        });
+      const actions = actionMap.get(transaction.id);
+      if (actions && (await saveRuleActions(transaction, actions, { overwriteCategory: true }))) {
         categorizedCount++;
       }
     }
 
+    if (categorizedCount > 0) {
+      await recordAuditEvent(req.user!, {
+        entityType: 'TRANSACTION',
+        action: 'UPDATE',
+        summary: `Applied rules to ${categorizedCount} transaction${categorizedCount !== 1 ? 's' : ''}`,
+      });
+    }
+
     res.json({
       data: {
-        message: `Categorized ${categorizedCount} of ${transactions.length} transaction${transactions.length !== 1 ? 's' : ''}`,
+        message: `Updated ${categorizedCount} of ${transactions.length} transaction${transactions.length !== 1 ? 's' : ''}`,
         categorizedCount,
         totalCount: transactions.length,
       },
@@ -412,106 +760,3 @@ rulesRouter.post('/apply-to-transactions', async (req, res, next) => {
     next(err);
   }
 });
-
-// Helper function to build Prisma where clause from rule conditions
-function buildWhereClause(conditions: RuleConditions, householdId: string): any {
-  const where: any = {
-    account: { householdId },
-  };
-
-  const operator = conditions.operator || 'AND';
-  const criteriaList: any[] = [];
-
-  // Text matching
-  if (conditions.merchantContains) {
-    criteriaList.push({
-      merchantName: { contains: conditions.merchantContains, mode: 'insensitive' },
-    });
-  }
-
-  if (conditions.descriptionContains) {
-    criteriaList.push({
-      description: { contains: conditions.descriptionContains, mode: 'insensitive' },
-    });
-  }
-
-  if (conditions.merchantExactly) {
-    criteriaList.push({
-      merchantName: { equals: conditions.merchantExactly, mode: 'insensitive' },
-    });
-  }
-
-  if (conditions.descriptionExactly) {
-    criteriaList.push({
-      description: { equals: conditions.descriptionExactly, mode: 'insensitive' },
-    });
-  }
-
-  // Amount matching (uses absolute values so users think in dollar amounts)
-  if (conditions.amountMin !== undefined || conditions.amountMax !== undefined) {
-    const absMin = conditions.amountMin !== undefined ? Math.abs(conditions.amountMin) : undefined;
-    const absMax = conditions.amountMax !== undefined ? Math.abs(conditions.amountMax) : undefined;
-
-    // Match absolute value: |amount| >= min AND |amount| <= max
-    // For max: |amount| <= max means amount is between -max and +max
-    // For min: |amount| >= min means amount <= -min OR amount >= min
-    if (absMax !== undefined && absMin !== undefined) {
-      // Both min and max: amount in [-max, -min] OR [min, max]
-      criteriaList.push({
-        OR: [
-          { amount: { gte: -absMax, lte: -absMin } },
-          { amount: { gte: absMin, lte: absMax } },
-        ],
-      });
-    } else if (absMax !== undefined) {
-      // Only max: |amount| <= max means amount in [-max, max]
-      criteriaList.push({ amount: { gte: -absMax, lte: absMax } });
-    } else if (absMin !== undefined) {
-      // Only min: |amount| >= min means amount <= -min OR amount >= min
-      criteriaList.push({
-        OR: [
-          { amount: { lte: -absMin } },
-          { amount: { gte: absMin } },
-        ],
-      });
-    }
-  }
-
-  if (conditions.amountExactly !== undefined) {
-    const absExact = Math.abs(conditions.amountExactly);
-    criteriaList.push({
-      OR: [
-        { amount: absExact },
-        { amount: -absExact },
-      ],
-    });
-  }
-
-  // Account filtering
-  if (conditions.accountIds && conditions.accountIds.length > 0) {
-    criteriaList.push({ accountId: { in: conditions.accountIds } });
-  }
-
-  if (conditions.accountTypes && conditions.accountTypes.length > 0) {
-    criteriaList.push({ account: { type: { in: conditions.accountTypes } } });
-  }
-
-  // Owner filtering
-  if (conditions.ownerIds && conditions.ownerIds.length > 0) {
-    criteriaList.push({ account: { ownerId: { in: conditions.ownerIds } } });
-  }
-
-  // Apply operator
-  if (criteriaList.length > 0) {
-    if (operator === 'OR') {
-      where.OR = criteriaList;
-    } else {
-      // AND - merge all criteria into where
-      criteriaList.forEach((criteria) => {
-        Object.assign(where, criteria);
-      });
-    }
-  }
-
-  return where;
-}
@@ -0,0 +1,374 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { Decimal } from '@prisma/client/runtime/library';
+import { authenticate, requireHousehold } from '../middleware/auth';
+import { AppError } from '../middleware/error';
+import { prisma } from '../utils/prisma';
+import { ERROR_CODES } from '@otter-money/shared';
+import { claimSetupToken, fetchAccounts, guessSimplefinAccountType } from '../utils/simplefin';
+import { syncSimplefinConnection } from '../services/simplefinSync';
+import { recordBalanceSnapshot } from '../services/balanceSnapshots';
+import { backfillBalancesForAccounts } from '../services/balanceBackfill';
+
+export const simplefinRouter = Router();
+
+simplefinRouter.use(authenticate);
+simplefinRouter.use(requireHousehold);
+
+// Validation schemas
+const connectSchema = z.object({
+  setupToken: z.string().min(1),
+});
+
+const mapAccountsSchema = z.object({
+  mappings: z
+    .array(
+      z.object({
+        simplefinAccountId: z.string(),
+        existingAccountId: z.string().nullable().optional(), // null = create a new account
+        name: z.string().min(1).max(100).optional(),
+        type: z
+          .enum(['CHECKING', 'SAVINGS', 'CREDIT', 'INVESTMENT', 'LOAN', 'MORTGAGE', 'ASSET', 'OTHER'])
+          .optional(),
+        ownerId: z.string().nullable().optional(), // null = joint
+      })
+    )
+    .min(1),
+});
+
+async function getHouseholdConnection(householdId: string) {
+  const connection = await prisma.simplefinConnection.findUnique({
+    where: { householdId },
+  });
+
+  if (!connection) {
+    throw new AppError(ERROR_CODES.NOT_FOUND, 'SimpleFin is not connected', 404);
+  }
+
+  return connection;
+}
+
+// Accounts available on the bridge, with the Otter Money account each is linked to
+async function listBridgeAccounts(householdId: string, accessUrl: string) {
+  const [accountSet, linkedAccounts] = await Promise.all([
+    fetchAccounts(accessUrl, { balancesOnly: true }),
+    prisma.account.findMany({
+      where: { householdId, connectionType: 'SIMPLEFIN' },
+      select: { id: true, name: true, simplefinAccountId: true },
+    }),
+  ]);
+
+  return {
+    errors: accountSet.errors,
+    accounts: accountSet.accounts.map((account) => {
+      const linked = linkedAccounts.find((a) => a.simplefinAccountId === account.id);
+      return {
+        id: account.id,
+        name: account.name,
+        institutionName: account.org.name || account.org.domain || null,
+        currency: account.currency,
+        balance: Number(account.balance),
+        availableBalance:
+          account['available-balance'] !== undefined ? Number(account['available-balance']) : null,
+        suggestedType: guessSimplefinAccountType(account),
+        linkedAccountId: linked?.id || null,
+        linkedAccountName: linked?.name || null,
+      };
+    }),
+  };
+}
+
+// Get connection status
+simplefinRouter.get('/status', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+
+    const connection = await prisma.simplefinConnection.findUnique({
+      where: { householdId },
+      select: { createdAt: true, lastSyncedAt: true },
+    });
+
+    const accounts = connection
+      ? await prisma.account.findMany({
+          where: { householdId, connectionType: 'SIMPLEFIN' },
+          select: {
+            id: true,
+            name: true,
+            type: true,
+            connectionStatus: true,
+            lastSyncedAt: true,
+            currentBalance: true,
+          },
+          orderBy: { name: 'asc' },
+        })
+      : [];
+
+    res.json({
+      data: {
+        connected: !!connection,
+        createdAt: connection?.createdAt || null,
+        lastSyncedAt: connection?.lastSyncedAt || null,
+        accounts: accounts.map((a) => ({
+          ...a,
+          currentBalance: Number(a.currentBalance),
+        })),
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Claim a setup token (one connection per household)
+simplefinRouter.post('/connect', async (req, res, next) => {
+  try {
+    const data = connectSchema.parse(req.body);
+    const householdId = req.user!.householdId!;
+
+    const existing = await prisma.simplefinConnection.findUnique({
+      where: { householdId },
+    });
+
+    if (existing) {
+      throw new AppError(
+        ERROR_CODES.CONFLICT,
+        'SimpleFin is already connected for this household',
+        409
+      );
+    }
+
+    const accessUrl = await claimSetupToken(data.setupToken);
+
+    // Make sure the access URL works before saving it
+    const bridgeAccounts = await listBridgeAccounts(householdId, accessUrl);
+
+    await prisma.simplefinConnection.create({
+      data: { householdId, accessUrl },
+    });
+
+    res.status(201).json({ data: bridgeAccounts });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// List accounts on the bridge for mapping
+simplefinRouter.get('/accounts', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+    const connection = await getHouseholdConnection(householdId);
+
+    res.json({ data: await listBridgeAccounts(householdId, connection.accessUrl) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Map bridge accounts to new or existing accounts, then pull their history.
+// Every mapping is checked before any account changes, so a bad one leaves
+// nothing half linked.
+simplefinRouter.post('/accounts/map', async (req, res, next) => {
+  try {
+    const { mappings } = mapAccountsSchema.parse(req.body);
+    const householdId = req.user!.householdId!;
+    const connection = await getHouseholdConnection(householdId);
+
+    const { accounts: bridgeAccounts } = await fetchAccounts(connection.accessUrl, {
+      balancesOnly: true,
+    });
+
+    const simplefinAccountIds = mappings.map((m) => m.simplefinAccountId);
+    const existingAccountIds = mappings.flatMap((m) => (m.existingAccountId ? [m.existingAccountId] : []));
+    if (new Set(simplefinAccountIds).size !== simplefinAccountIds.length) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Each SimpleFin account can only be mapped once',
+        400
+      );
+    }
+    if (new Set(existingAccountIds).size !== existingAccountIds.length) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Each account can only be linked to one SimpleFin account',
+        400
+      );
+    }
+
+    const [members, alreadyLinked, existingAccounts] = await Promise.all([
+      prisma.user.findMany({
+        where: { householdId },
+        select: { id: true },
+      }),
+      prisma.account.findMany({
+        where: {
+          householdId,
+          simplefinAccountId: { in: simplefinAccountIds },
+          connectionType: 'SIMPLEFIN',
+        },
+        select: { simplefinAccountId: true },
+      }),
+      prisma.account.findMany({
+        where: { id: { in: existingAccountIds } },
+        select: { id: true, householdId: true, connectionType: true },
+      }),
+    ]);
+
+    const writes = mappings.map((mapping) => {
+      const bridgeAccount = bridgeAccounts.find((a) => a.id === mapping.simplefinAccountId);
+      if (!bridgeAccount) {
+        throw new AppError(
+          ERROR_CODES.NOT_FOUND,
+          `SimpleFin account ${mapping.simplefinAccountId} not found`,
+          404
+        );
+      }
+
+      if (alreadyLinked.some((a) => a.simplefinAccountId === bridgeAccount.id)) {
+        throw new AppError(
+          ERROR_CODES.CONFLICT,
+          `${bridgeAccount.name} is already linked`,
+          409
+        );
+      }
+
+      const availableBalance = bridgeAccount['available-balance'];
+
+      if (mapping.existingAccountId) {
+        const existing = existingAccounts.find((a) => a.id === mapping.existingAccountId);
+
+        if (!existing) {
+          throw new AppError(ERROR_CODES.NOT_FOUND, 'Account not found', 404);
+        }
+
+        if (existing.householdId !== householdId) {
+          throw new AppError(ERROR_CODES.FORBIDDEN, 'Access denied', 403);
+        }
+
+        if (existing.connectionType !== 'MANUAL') {
+          throw new AppError(
+            ERROR_CODES.VALIDATION_ERROR,
+            'Only manual accounts can be linked to SimpleFin',
+            400
+          );
+        }
+
+        // lastSyncedAt is cleared so the first sync pulls full history
+        return {
+          bridgeAccount,
+          linked: true,
+          write: prisma.account.update({
+            where: { id: existing.id },
+            data: {
+              connectionType: 'SIMPLEFIN',
+              connectionStatus: 'ACTIVE',
+              simplefinAccountId: bridgeAccount.id,
+              officialName: bridgeAccount.name,
+              currentBalance: new Decimal(bridgeAccount.balance),
+              availableBalance: availableBalance !== undefined ? new Decimal(availableBalance) : undefined,
+              lastSyncedAt: null,
+            },
+          }),
+        };
+      }
+
+      if (mapping.ownerId && !members.some((m) => m.id === mapping.ownerId)) {
+        throw new AppError(
+          ERROR_CODES.VALIDATION_ERROR,
+          'Owner must be a household member',
+          400
+        );
+      }
+
+      return {
+        bridgeAccount,
+        linked: false,
+        write: prisma.account.create({
+          data: {
+            householdId,
+            ownerId: mapping.ownerId ?? null,
+            name: mapping.name || bridgeAccount.name,
+            officialName: bridgeAccount.name,
+            type: (mapping.type || guessSimplefinAccountType(bridgeAccount)) as any,
+            connectionType: 'SIMPLEFIN',
+            simplefinAccountId: bridgeAccount.id,
+            currentBalance: new Decimal(bridgeAccount.balance),
+            availableBalance: availableBalance !== undefined ? new Decimal(availableBalance) : undefined,
+            currency: bridgeAccount.currency.length === 3 ? bridgeAccount.currency : 'USD',
+          },
+        }),
+      };
+    });
+
+    const accounts = await prisma.$transaction(writes.map((w) => w.write));
+    const accountsLinked = writes.filter((w) => w.linked).length;
+    const accountsCreated = writes.length - accountsLinked;
+    const mappedAccountIds = accounts.map((account) => account.id);
+
+    for (let i = 0; i < accounts.length; i++) {
+      await recordBalanceSnapshot(accounts[i].id, Number(writes[i].bridgeAccount.balance), 'SIMPLEFIN');
+    }
+
+    const sync = await syncSimplefinConnection(householdId);
+    await backfillBalancesForAccounts(mappedAccountIds);
+
+    res.json({
+      data: {
+        accountsLinked,
+        accountsCreated,
+        sync,
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Manual sync
+simplefinRouter.post('/sync', async (req, res, next) => {
+  try {
+    const result = await syncSimplefinConnection(req.user!.householdId!);
+    res.json({ data: result });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Remove the connection. Linked accounts become manual and keep their history.
+simplefinRouter.delete('/', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+    const connection = await getHouseholdConnection(householdId);
+
+    const accounts = await prisma.account.findMany({
+      where: { householdId, connectionType: 'SIMPLEFIN' },
+      select: { id: true },
+    });
+
+    const transactionCount = await prisma.transaction.count({
+      where: { accountId: { in: accounts.map((a) => a.id) } },
+    });
+
+    await prisma.$transaction([
+      prisma.account.updateMany({
+        where: { householdId, connectionType: 'SIMPLEFIN' },
+        data: {
+          connectionType: 'MANUAL',
+          connectionStatus: 'ACTIVE',
+          simplefinAccountId: null,
+        },
+      }),
+      prisma.simplefinConnection.delete({
+        where: { id: connection.id },
+      }),
+    ]);
+
+    res.json({
+      data: {
+        accountsDisconnected: accounts.length,
+        transactionsPreserved: transactionCount,
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
@@ -0,0 +1,166 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticate, requireHousehold } from '../middleware/auth';
+import { AppError } from '../middleware/error';
+import { prisma } from '../utils/prisma';
+import { recordAuditEvent } from '../services/auditLog';
+import { ERROR_CODES } from '@otter-money/shared';
+
+export const tagsRouter = Router();
+
+tagsRouter.use(authenticate);
+tagsRouter.use(requireHousehold);
+
+// Validation schemas
+const tagNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(50)
+  .refine((name) => !name.includes(','), { message: 'Tag names cannot contain commas' });
+
+const createTagSchema = z.object({
+  name: tagNameSchema,
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
+});
+
+const updateTagSchema = z.object({
+  name: tagNameSchema.optional(),
+  color: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional().nullable(),
+});
+
+// Helper to verify tag belongs to household
+async function getHouseholdTag(tagId: string, householdId: string) {
+  const tag = await prisma.tag.findUnique({
+    where: { id: tagId },
+  });
+
+  if (!tag) {
+    throw new AppError(ERROR_CODES.NOT_FOUND, 'Tag not found', 404);
+  }
+
+  if (tag.householdId !== householdId) {
+    throw new AppError(ERROR_CODES.FORBIDDEN, 'Access denied', 403);
+  }
+
+  return tag;
+}
+
+// Helper to reject a name another tag in the household already has (ignoring case)
+async function verifyNameAvailable(name: string, householdId: string, excludeId?: string) {
+  const existing = await prisma.tag.findFirst({
+    where: {
+      householdId,
+      name: { equals: name, mode: 'insensitive' },
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new AppError(ERROR_CODES.CONFLICT, 'A tag with this name already exists', 409);
+  }
+}
+
+// List tags
+tagsRouter.get('/', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+
+    const tags = await prisma.tag.findMany({
+      where: { householdId },
+      include: {
+        _count: { select: { transactions: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    res.json({
+      data: tags.map(({ _count, ...tag }) => ({
+        ...tag,
+        transactionCount: _count.transactions,
+      })),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Create tag
+tagsRouter.post('/', async (req, res, next) => {
+  try {
+    const data = createTagSchema.parse(req.body);
+    const householdId = req.user!.householdId!;
+
+    await verifyNameAvailable(data.name, householdId);
+
+    const tag = await prisma.tag.create({
+      data: {
+        householdId,
+        name: data.name,
+        color: data.color,
+      },
+    });
+
+    await recordAuditEvent(req.user!, { entityType: 'TAG', action: 'CREATE', after: tag });
+
+    res.status(201).json({ data: tag });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Update tag
+tagsRouter.patch('/:id', async (req, res, next) => {
+  try {
+    const data = updateTagSchema.parse(req.body);
+    const householdId = req.user!.householdId!;
+
+    const existing = await getHouseholdTag(req.params.id, householdId);
+
+    if (data.name) {
+      await verifyNameAvailable(data.name, householdId, existing.id);
+    }
+
+    const tag = await prisma.tag.update({
+      where: { id: existing.id },
+      data: {
+        name: data.name,
+        color: data.color,
+      },
+    });
+
+    await recordAuditEvent(req.user!, {
+      entityType: 'TAG',
+      action: 'UPDATE',
+      before: existing,
+      after: tag,
+    });
+
+    res.json({ data: tag });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Delete tag (it's removed from its transactions; the transactions are kept)
+tagsRouter.delete('/:id', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+    const tag = await getHouseholdTag(req.params.id, householdId);
+
+    const transactionsAffected = await prisma.transaction.count({
+      where: { tags: { some: { id: tag.id } } },
+    });
+
+    await prisma.tag.delete({
+      where: { id: tag.id },
+    });
+
+    await recordAuditEvent(req.user!, { entityType: 'TAG', action: 'DELETE', before: tag });
+
+    res.json({ data: { message: 'Tag deleted', transactionsAffected } });
+  } catch (err) {
+    next(err);
+  }
+});
@@ -1,13 +1,38 @@
-import { Router, json } from 'express';
+import { Router, json, raw } from 'express';
 import { z } from 'zod';
 import { Decimal } from '@prisma/client/runtime/library';
 import { authenticate, requireHousehold } from '../middleware/auth';
 import { AppError } from '../middleware/error';
 import { prisma } from '../utils/prisma';
-import { ERROR_CODES } from '@otter-money/shared';
-import { applyRulesToTransaction, applyRulesToTransactions } from '../services/ruleEngine';
+import {
+  ERROR_CODES,
+  ATTACHMENT_CONTENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_TRANSACTION,
+} from '@otter-money/shared';
+import { applyRulesToTransaction, saveRuleActions } from '../services/ruleEngine';
 import { csvRow, parseCSV, normalizeColumnName, parseDate as parseDateCSV, parseAmount, resolveAmountSign } from '../utils/csvParser';
 import { processImport } from '../services/importMatcher';
+import { removeSplits, replaceSplits, splitsInclude } from '../services/transactionSplits';
+import { recordAuditEvent } from '../services/auditLog';
+import { recordManualCategorizations } from '../services/ruleSuggestions';
+import { tagsInclude, verifyTagAccess } from '../services/tags';
+import {
+  attachmentSelect,
+  buildStorageKey,
+  deleteAttachmentFiles,
+  detectContentType,
+  findAttachmentStorageKeys,
+  sanitizeFileName,
+} from '../services/attachments';
+import { getAttachmentStorage } from '../services/attachmentStorage';
+import {
+  confirmTransfer,
+  detectTransfers,
+  linkTransfer,
+  transferPairInclude,
+  unlinkTransfer,
+} from '../services/transferMatcher';
 
 export const transactionsRouter = Router();
 
@@ -23,6 +48,7 @@ const createTransactionSchema = z.object({
   merchantName: z.string().max(200).optional(),
   categoryId: z.string().optional().nullable(),
   notes: z.string().max(1000).optional(),
+  tagIds: z.array(z.string()).max(20).optional(),
 });
 
 const updateTransactionSchema = z.object({
@@ -32,6 +58,30 @@ const updateTransactionSchema = z.object({
   merchantName: z.string().max(200).optional().nullable(),
   categoryId: z.string().optional().nullable(),
   notes: z.string().max(1000).optional().nullable(),
+  excludeFromBudget: z.boolean().optional(),
+  tagIds: z.array(z.string()).max(20).optional(), // Replaces the transaction's tags
+});
+
+const splitTransactionSchema = z.object({
+  splits: z
+    .array(
+      z.object({
+        amount: z.number(), // Same sign convention as the parent
+        categoryId: z.string().optional().nullable(),
+        notes: z.string().max(1000).optional().nullable(),
+        attributedToId: z.string().optional().nullable(),
+      })
+    )
+    .min(2)
+    .max(50),
+});
+
+const transferListQuerySchema = z.object({
+  status: z.enum(['SUGGESTED', 'CONFIRMED']).default('SUGGESTED'),
+});
+
+const linkTransferSchema = z.object({
+  transactionId: z.string(),
 });
 
 // Helper to serialize transaction (convert Decimal to number)
@@ -39,6 +89,12 @@ function serializeTransaction(tx: any) {
   return {
     ...tx,
     amount: Number(tx.amount),
+    ...(tx.splits && {
+      splits: tx.splits.map((split: any) => ({ ...split, amount: Number(split.amount) })),
+    }),
+    ...(tx.transferPair && {
+      transferPair: { ...tx.transferPair, amount: Number(tx.transferPair.amount) },
+    }),
   };
 }
 
@@ -69,6 +125,9 @@ async function getHouseholdTransaction(transactionId: string, householdId: strin
       category: {
         select: { id: true, name: true, type: true, icon: true, color: true },
       },
+      splits: splitsInclude,
+      transferPair: transferPairInclude,
+      tags: tagsInclude,
     },
   });
 
@@ -92,6 +151,7 @@ transactionsRouter.get('/', async (req, res, next) => {
       ownerId, // Filter by account owner
       startDate,
       endDate,
+      tagId,
       search,
       limit = '50',
       offset = '0',
@@ -100,9 +160,10 @@ transactionsRouter.get('/', async (req, res, next) => {
 
     const householdId = req.user!.householdId!;
 
-    // Build where clause
+    // Build where clause (split lines are returned nested under their parent)
     const where: any = {
       account: { householdId },
+      parentId: null,
     };
 
     if (accountId) {
@@ -110,11 +171,16 @@ transactionsRouter.get('/', async (req, res, next) => {
     }
 
     if (categoryId) {
-      if (categoryId === 'uncategorized') {
-        where.categoryId = null;
-      } else {
-        where.categoryId = String(categoryId);
-      }
+      // A split parent matches on its lines' categories rather than its own
+      const category = categoryId === 'uncategorized' ? null : String(categoryId);
+      where.AND = [
+        {
+          OR: [
+            { categoryId: category, splits: { none: {} } },
+            { splits: { some: { categoryId: category } } },
+          ],
+        },
+      ];
     }
 
     if (ownerId) {
@@ -125,6 +191,10 @@ transactionsRouter.get('/', async (req, res, next) => {
       }
     }
 
+    if (tagId) {
+      where.tags = tagId === 'untagged' ? { none: {} } : { some: { id: String(tagId) } };
+    }
+
     if (startDate) {
       where.date = { ...where.date, gte: new Date(String(startDate)) };
     }
@@ -162,6 +232,9 @@ transactionsRouter.get('/', async (req, res, next) => {
           category: {
             select: { id: true, name: true, type: true, icon: true, color: true },
           },
+          splits: splitsInclude,
+          transferPair: transferPairInclude,
+          tags: tagsInclude,
         },
         orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
         take: Number(limit),
@@ -190,6 +263,7 @@ transactionsRouter.get('/export', async (req, res, next) => {
       accountId,
       categoryId,
       ownerId,
+      tagId,
       startDate,
       endDate,
       search,
@@ -201,6 +275,7 @@ transactionsRouter.get('/export', async (req, res, next) => {
     const where: any = {
       account: { householdId },
       isAdjustment: false,
+      parentId: null,
     };
 
     if (accountId) where.accountId = String(accountId);
@@ -218,6 +293,9 @@ transactionsRouter.get('/export', async (req, res, next) => {
         where.account.ownerId = String(ownerId);
       }
     }
+    if (tagId) {
+      where.tags = tagId === 'untagged' ? { none: {} } : { some: { id: String(tagId) } };
+    }
     if (startDate) where.date = { ...where.date, gte: new Date(String(startDate)) };
     if (endDate) where.date = { ...where.date, lte: new Date(String(endDate)) };
     if (search) {
@@ -249,12 +327,13 @@ transactionsRouter.get('/export', async (req, res, next) => {
             parent: { select: { name: true } },
           },
         },
+        tags: tagsInclude,
       },
       orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
     });
 
     // Build CSV
-    const header = csvRow(['ID', 'ExternalID', 'Date', 'Amount', 'Type', 'Description', 'Merchant', 'Category', 'Account', 'Owner', 'Notes', 'IsManual']);
+    const header = csvRow(['ID', 'ExternalID', 'Date', 'Amount', 'Type', 'Description', 'Merchant', 'Category', 'Account', 'Owner', 'Notes', 'Tags', 'IsManual']);
 
     const rows = transactions.map((tx) => {
       const amount = Number(tx.amount);
@@ -278,6 +357,7 @@ transactionsRouter.get('/export', async (req, res, next) => {
         tx.account.name,
         ownerName,
         tx.notes,
+        tx.tags.map((tag) => tag.name).join(', '),
         tx.isManual,
       ]);
     });
@@ -293,6 +373,66 @@ transactionsRouter.get('/export', async (req, res, next) => {
   }
 });
 
+// List transfer pairs (one row per pair: the outflow leg, with its inflow as transferPair)
+transactionsRouter.get('/transfers', async (req, res, next) => {
+  try {
+    const { status } = transferListQuerySchema.parse(req.query);
+    const householdId = req.user!.householdId!;
+
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        account: { householdId },
+        transferStatus: status,
+        amount: { lt: 0 },
+      },
+      include: {
+        account: {
+          select: {
+            id: true,
+            name: true,
+            type: true,
+            ownerId: true,
+            owner: { select: { id: true, name: true } },
+          },
+        },
+        category: {
+          select: { id: true, name: true, type: true, icon: true, color: true },
+        },
+        transferPair: transferPairInclude,
+      },
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    res.json({ data: transactions.map(serializeTransaction) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Scan recent transactions for new transfer pairs
+transactionsRouter.post('/transfers/detect', async (req, res, next) => {
+  try {
+    const paired = await detectTransfers(req.user!.householdId!);
+
+    if (paired > 0) {
+      await recordAuditEvent(req.user!, {
+        entityType: 'TRANSACTION',
+        action: 'UPDATE',
+        summary: `Found ${paired} transfer${paired !== 1 ? 's' : ''}`,
+      });
+    }
+
+    res.json({
+      data: {
+        message: `Found ${paired} transfer${paired !== 1 ? 's' : ''}`,
+        count: paired,
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
 // Get single transaction
 transactionsRouter.get('/:id', async (req, res, next) => {
   try {
@@ -313,8 +453,9 @@ transactionsRouter.post('/', async (req, res, next) => {
     const data = createTransactionSchema.parse(req.body);
     const householdId = req.user!.householdId!;
 
-    // Verify account belongs to household
+    // Verify account and tags belong to household
     await verifyAccountAccess(data.accountId, householdId);
+    await verifyTagAccess(data.tagIds ?? [], householdId);
 
     // Verify category belongs to household (if provided)
     if (data.categoryId) {
@@ -333,40 +474,31 @@ transactionsRouter.post('/', async (req, res, next) => {
       }
     }
 
-    let finalCategoryId = data.categoryId;
-
-    // If no category provided, try to apply rules
-    if (!finalCategoryId) {
-      // Create a temporary transaction object for rule matching
-      const tempTransaction = {
-        id: 'temp',
-        accountId: data.accountId,
-        amount: new Decimal(data.amount),
-        merchantName: data.merchantName || null,
-        description: data.description,
-        date: data.date,
-        account: await prisma.account.findUnique({
-          where: { id: data.accountId },
-          select: { id: true, type: true, ownerId: true },
-        }),
-      };
-
-      if (tempTransaction.account) {
-        finalCategoryId = await applyRulesToTransaction(tempTransaction as any, householdId) || undefined;
-      }
-    }
-
-    const transaction = await prisma.transaction.create({
+    const created = await prisma.transaction.create({
       data: {
         accountId: data.accountId,
         date: data.date,
         amount: new Decimal(data.amount),
         description: data.description,
         merchantName: data.merchantName,
-        categoryId: finalCategoryId,
+        categoryId: data.categoryId,
         notes: data.notes,
         isManual: true,
+        tags: data.tagIds ? { connect: data.tagIds.map((id) => ({ id })) } : undefined,
       },
+      include: {
+        account: { select: { id: true, type: true, ownerId: true } },
+      },
+    });
+
+    // Run rules; their category only fills in when none was chosen
+    const ruleActions = await applyRulesToTransaction(created, householdId);
+    if (ruleActions) {
+      await saveRuleActions(created, ruleActions);
+    }
+
+    const transaction = await prisma.transaction.findUniqueOrThrow({
+      where: { id: created.id },
       include: {
         account: {
           select: {
@@ -380,6 +512,7 @@ transactionsRouter.post('/', async (req, res, next) => {
         category: {
           select: { id: true, name: true, type: true, icon: true, color: true },
         },
+        tags: tagsInclude,
       },
     });
 
@@ -393,6 +526,8 @@ transactionsRouter.post('/', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent(req.user!, { entityType: 'TRANSACTION', action: 'CREATE', after: transaction });
+
     res.status(201).json({ data: serializeTransaction(transaction) });
   } catch (err) {
     next(err);
@@ -423,6 +558,35 @@ transactionsRouter.patch('/:id', async (req, res, next) => {
       }
     }
 
+    // Split lines must keep adding up, so amounts change through the split endpoints
+    const isSplit = !!existing.parentId || existing.splits.length > 0;
+    if (isSplit && data.amount !== undefined && data.amount !== Number(existing.amount)) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Edit or remove the split to change the amount of a split transaction',
+        400
+      );
+    }
+
+    if (existing.parentId && data.date !== undefined) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Split lines always use the date of their parent transaction',
+        400
+      );
+    }
+
+    if (data.tagIds !== undefined) {
+      if (existing.parentId) {
+        throw new AppError(
+          ERROR_CODES.VALIDATION_ERROR,
+          'Tags belong to the whole transaction, not a split line',
+          400
+        );
+      }
+      await verifyTagAccess(data.tagIds, householdId);
+    }
+
     // If amount is changing for a manual transaction, update account balance
     if (data.amount !== undefined && existing.isManual) {
       const amountDiff = data.amount - Number(existing.amount);
@@ -447,6 +611,8 @@ transactionsRouter.patch('/:id', async (req, res, next) => {
         merchantName: data.merchantName,
         categoryId: data.categoryId,
         notes: data.notes,
+        excludeFromBudget: data.excludeFromBudget,
+        tags: data.tagIds ? { set: data.tagIds.map((id) => ({ id })) } : undefined,
       },
       include: {
         account: {
@@ -461,9 +627,31 @@ transactionsRouter.patch('/:id', async (req, res, next) => {
         category: {
           select: { id: true, name: true, type: true, icon: true, color: true },
         },
+        splits: splitsInclude,
+        tags: tagsInclude,
       },
     });
 
+    // Keep split lines in the same period as their parent
+    if (data.date !== undefined && transaction.splits.length > 0) {
+      await prisma.transaction.updateMany({
+        where: { parentId: transaction.id },
+        data: { date: data.date },
+      });
+    }
+
+    await recordAuditEvent(req.user!, {
+      entityType: 'TRANSACTION',
+      action: 'UPDATE',
+      before: existing,
+      after: transaction,
+    });
+
+    // Count the merchant-to-category choice towards a rule suggestion
+    if (data.categoryId && data.categoryId !== existing.categoryId) {
+      await recordManualCategorizations(householdId, [transaction], data.categoryId);
+    }
+
     res.json({ data: serializeTransaction(transaction) });
   } catch (err) {
     next(err);
@@ -484,7 +672,15 @@ transactionsRouter.delete('/:id', async (req, res, next) => {
       );
     }
 
-    // Update account balance before deleting
+    if (transaction.parentId) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Split lines are removed by editing or removing the split',
+        400
+      );
+    }
+
+    // Update account balance before deleting (split lines are deleted with it)
     await prisma.account.update({
       where: { id: transaction.accountId },
       data: {
@@ -494,9 +690,13 @@ transactionsRouter.delete('/:id', async (req, res, next) => {
       },
     });
 
+    const attachmentKeys = await findAttachmentStorageKeys({ id: req.params.id });
     await prisma.transaction.delete({
       where: { id: req.params.id },
     });
+    await deleteAttachmentFiles(attachmentKeys);
+
+    await recordAuditEvent(req.user!, { entityType: 'TRANSACTION', action: 'DELETE', before: transaction });
 
     res.json({ data: { message: 'Transaction deleted' } });
   } catch (err) {
@@ -504,12 +704,316 @@ transactionsRouter.delete('/:id', async (req, res, next) => {
   }
 });
 
-// Import preview - parse CSV, match against existing, return preview
+// Split a transaction into category lines
+transactionsRouter.post('/:id/split', async (req, res, next) => {
+  try {
+    const data = splitTransactionSchema.parse(req.body);
+    const householdId = req.user!.householdId!;
+    const existing = await getHouseholdTransaction(req.params.id, householdId);
+
+    if (existing.splits.length > 0) {
+      throw new AppError(
+        ERROR_CODES.CONFLICT,
+        'Transaction is already split, edit the existing split instead',
+        409
+      );
+    }
+
+    await replaceSplits(existing.id, data.splits, householdId);
+
+    const transaction = await getHouseholdTransaction(existing.id, householdId);
+    await recordAuditEvent(req.user!, {
+      entityType: 'TRANSACTION',
+      action: 'UPDATE',
+      after: transaction,
+      summary: `Split into ${data.splits.length} lines`,
+    });
+
+    res.status(201).json({ data: serializeTransaction(transaction) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Replace the lines of an existing split
+transactionsRouter.patch('/:id/split', async (req, res, next) => {
+  try {
+    const data = splitTransactionSchema.parse(req.body);
+    const householdId = req.user!.householdId!;
+    const existing = await getHouseholdTransaction(req.params.id, householdId);
+
+    if (existing.splits.length === 0) {
+      throw new AppError(ERROR_CODES.NOT_FOUND, 'Transaction is not split', 404);
+    }
+
+    await replaceSplits(existing.id, data.splits, householdId);
+
+    const transaction = await getHouseholdTransaction(existing.id, householdId);
+    await recordAuditEvent(req.user!, {
+      entityType: 'TRANSACTION',
+      action: 'UPDATE',
+      after: transaction,
+      summary: `Changed the split (${data.splits.length} lines)`,
+    });
+
+    res.json({ data: serializeTransaction(transaction) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Un-split: remove the lines so the transaction counts as a whole again
+transactionsRouter.delete('/:id/split', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+    const existing = await getHouseholdTransaction(req.params.id, householdId);
+
+    if (existing.splits.length === 0) {
+      throw new AppError(ERROR_CODES.NOT_FOUND, 'Transaction is not split', 404);
+    }
+
+    await removeSplits(existing.id);
+
+    const transaction = await getHouseholdTransaction(existing.id, householdId);
+    await recordAuditEvent(req.user!, {
+      entityType: 'TRANSACTION',
+      action: 'UPDATE',
+      after: transaction,
+      summary: 'Removed the split',
+    });
+
+    res.json({ data: serializeTransaction(transaction) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Confirm a suggested transfer pair
+transactionsRouter.post('/:id/transfer/confirm', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+    const existing = await getHouseholdTransaction(req.params.id, householdId);
+    await confirmTransfer(req.params.id, householdId);
+
+    const transaction = await getHouseholdTransaction(req.params.id, householdId);
+    await recordAuditEvent(req.user!, {
+      entityType: 'TRANSACTION',
+      action: 'UPDATE',
+      before: existing,
+      after: transaction,
+    });
+
+    res.json({ data: serializeTransaction(transaction) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Manually pair two transactions as a transfer
+transactionsRouter.post('/:id/transfer', async (req, res, next) => {
+  try {
+    const data = linkTransferSchema.parse(req.body);
+    const householdId = req.user!.householdId!;
+    const existing = await getHouseholdTransaction(req.params.id, householdId);
+    await linkTransfer(req.params.id, data.transactionId, householdId);
+
+    const transaction = await getHouseholdTransaction(req.params.id, householdId);
+    await recordAuditEvent(req.user!, {
+      entityType: 'TRANSACTION',
+      action: 'UPDATE',
+      before: existing,
+      after: transaction,
+    });
+
+    res.json({ data: serializeTransaction(transaction) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Unlink a transfer pair
+transactionsRouter.delete('/:id/transfer', async (req, res, next) => {
+  try {
+    const householdId = req.user!.householdId!;
+    const existing = await getHouseholdTransaction(req.params.id, householdId);
+    await unlinkTransfer(req.params.id, householdId);
+
+    const transaction = await getHouseholdTransaction(req.params.id, householdId);
+    await recordAuditEvent(req.user!, {
+      entityType: 'TRANSACTION',
+      action: 'UPDATE',
+      before: existing,
+      after: transaction,
+    });
+
+    res.json({ data: serializeTransaction(transaction) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// ============================================
+// ATTACHMENTS
+// ============================================
+
+const uploadAttachmentQuerySchema = z.object({
+  fileName: z.string().min(1).max(255),
+});
+
+// Attachments are uploaded as the raw file body, with its name in the query string
+const parseAttachmentBody = raw({ type: () => true, limit: MAX_ATTACHMENT_SIZE });
+
+async function getTransactionAttachment(attachmentId: string, transactionId: string) {
+  const attachment = await prisma.attachment.findUnique({ where: { id: attachmentId } });
+
+  if (!attachment || attachment.transactionId !== transactionId) {
+    throw new AppError(ERROR_CODES.NOT_FOUND, 'Attachment not found', 404);
+  }
+
+  return attachment;
+}
+
+// List a transaction's attachments
+transactionsRouter.get('/:id/attachments', async (req, res, next) => {
+  try {
+    const transaction = await getHouseholdTransaction(req.params.id, req.user!.householdId!);
+
+    const attachments = await prisma.attachment.findMany({
+      where: { transactionId: transaction.id },
+      select: attachmentSelect,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({ data: attachments });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Upload a receipt photo or document
+transactionsRouter.post('/:id/attachments', parseAttachmentBody, async (req, res, next) => {
+  try {
+    const { fileName } = uploadAttachmentQuerySchema.parse(req.query);
+    const householdId = req.user!.householdId!;
+    const transaction = await getHouseholdTransaction(req.params.id, householdId);
+
+    if (transaction.parentId) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Attachments belong to the whole transaction, not a split line',
+        400
+      );
+    }
+
+    const data: unknown = req.body;
+    if (!Buffer.isBuffer(data) || data.length === 0) {
+      throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'No file uploaded', 400);
+    }
+
+    const contentType = detectContentType(data);
+    if (!contentType) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        `Unsupported file type. Allowed types: ${ATTACHMENT_CONTENT_TYPES.join(', ')}`,
+        400
+      );
+    }
+
+    const attachmentCount = await prisma.attachment.count({ where: { transactionId: transaction.id } });
+    if (attachmentCount >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        `A transaction can have at most ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments`,
+        400
+      );
+    }
+
+    // Store the file first so a saved attachment always has one
+    const storageKey = buildStorageKey(householdId, transaction.id);
+    await getAttachmentStorage().put(storageKey, data, contentType);
+
+    let attachment;
+    try {
+      attachment = await prisma.attachment.create({
+        data: {
+          householdId,
+          transactionId: transaction.id,
+          uploadedById: req.user!.id,
+          fileName: sanitizeFileName(fileName),
+          contentType,
+          size: data.length,
+          storageKey,
+        },
+        select: attachmentSelect,
+      });
+    } catch (err) {
+      await deleteAttachmentFiles([storageKey]);
+      throw err;
+    }
+
+    await recordAuditEvent(req.user!, {
+      entityType: 'TRANSACTION',
+      action: 'UPDATE',
+      after: transaction,
+      summary: `Attached ${attachment.fileName}`,
+    });
+
+    res.status(201).json({ data: attachment });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Download an attachment
+transactionsRouter.get('/:id/attachments/:attachmentId', async (req, res, next) => {
+  try {
+    const transaction = await getHouseholdTransaction(req.params.id, req.user!.householdId!);
+    const attachment = await getTransactionAttachment(req.params.attachmentId, transaction.id);
+
+    const data = await getAttachmentStorage().get(attachment.storageKey);
+
+    res.setHeader('Content-Type', attachment.contentType);
+    res.setHeader('Content-Length', data.length);
+    res.setHeader(
+      'Content-Disposition',
+      `inline; filename="${attachment.fileName.replace(/[^\x20-\x7e]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`
+    );
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.send(data);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Delete an attachment
+transactionsRouter.delete('/:id/attachments/:attachmentId', async (req, res, next) => {
+  try {
+    const transaction = await getHouseholdTransaction(req.params.id, req.user!.householdId!);
+    const attachment = await getTransactionAttachment(req.params.attachmentId, transaction.id);
+
+    await prisma.attachment.delete({ where: { id: attachment.id } });
+    await deleteAttachmentFiles([attachment.storageKey]);
+
+    await recordAuditEvent(req.user!, {
+      entityType: 'TRANSACTION',
+      action: 'UPDATE',
+      after: transaction,
+      summary: `Removed attachment ${attachment.fileName}`,
+    });
+
+    res.json({ data: { message: 'Attachment deleted' } });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Import preview - parse the file (CSV, OFX/QFX or QIF), match against existing, return preview
 transactionsRouter.post('/import/preview', json({ limit: '10mb' }), async (req, res, next) => {
   try {
     const schema = z.object({
-      csvContent: z.string().min(1),
+      csvContent: z.string().min(1), // File contents, whatever the format
       defaultAccountId: z.string().optional().nullable(),
+      format: z.enum(['csv', 'ofx', 'qif']).optional(), // Detected from the contents when omitted
     });
 
     const data = schema.parse(req.body);
@@ -524,7 +1028,9 @@ transactionsRouter.post('/import/preview', json({ limit: '10mb' }), async (req,
       data.csvContent,
       householdId,
       data.defaultAccountId || null,
-      'preview'
+      'preview',
+      [],
+      data.format
     );
 
     res.json({ data: result });
@@ -542,8 +1048,9 @@ transactionsRouter.post('/import/preview', json({ limit: '10mb' }), async (req,
 transactionsRouter.post('/import/execute', json({ limit: '10mb' }), async (req, res, next) => {
   try {
     const schema = z.object({
-      csvContent: z.string().min(1),
+      csvContent: z.string().min(1), // File contents, whatever the format
       defaultAccountId: z.string().optional().nullable(),
+      format: z.enum(['csv', 'ofx', 'qif']).optional(), // Detected from the contents when omitted
       skipRowNumbers: z.array(z.number()).optional().default([]),
     });
 
@@ -560,9 +1067,18 @@ transactionsRouter.post('/import/execute', json({ limit: '10mb' }), async (req,
       householdId,
       data.defaultAccountId || null,
       'execute',
-      data.skipRowNumbers
+      data.skipRowNumbers,
+      data.format
     );
 
+    if ('created' in result && result.created + result.updated > 0) {
+      await recordAuditEvent(req.user!, {
+        entityType: 'TRANSACTION',
+        action: 'CREATE',
+        summary: `Imported ${result.created} new and updated ${result.updated} existing transactions`,
+      });
+    }
+
     res.json({ data: result });
   } catch (err: any) {
     if (err.message?.includes('CSV')) {
@@ -591,7 +1107,7 @@ transactionsRouter.post('/bulk-categorize', async (req, res, next) => {
         id: { in: data.transactionIds },
         account: { householdId },
       },
-      select: { id: true },
+      select: { id: true, merchantName: true, categoryId: true },
     });
 
     if (transactions.length !== data.transactionIds.length) {
@@ -623,6 +1139,23 @@ transactionsRouter.post('/bulk-categorize', async (req, res, next) => {
       data: { categoryId: data.categoryId },
     });
 
+    const category = data.categoryId
+      ? await prisma.category.findUnique({ where: { id: data.categoryId }, select: { name: true } })
+      : null;
+    await recordAuditEvent(req.user!, {
+      entityType: 'TRANSACTION',
+      action: 'UPDATE',
+      summary: `Categorized ${transactions.length} transactions as ${category?.name ?? 'Uncategorized'}`,
+    });
+
+    if (data.categoryId) {
+      await recordManualCategorizations(
+        householdId,
+        transactions.filter((tx) => tx.categoryId !== data.categoryId),
+        data.categoryId
+      );
+    }
+
     res.json({
       data: {
         message: `${transactions.length} transactions updated`,
@@ -4,6 +4,7 @@ import { authenticate, requireHousehold } from '../middleware/auth';
 import { AppError } from '../middleware/error';
 import { prisma } from '../utils/prisma';
 import { ERROR_CODES } from '@otter-money/shared';
+import { deleteAttachmentFiles, findAttachmentStorageKeys } from '../services/attachments';
 import { Decimal } from '@prisma/client/runtime/library';
 import {
   getVehicleValue,
@@ -14,6 +15,7 @@ import {
   getTrimsForMakeModelYear,
   findVinForVehicle,
 } from '../services/marketcheck';
+import { recordBalanceSnapshot } from '../services/balanceSnapshots';
 
 export const vehiclesRouter = Router();
 
@@ -395,6 +397,7 @@ vehiclesRouter.post('/', async (req, res, next) => {
 
     // Re-fetch the full vehicle with relations
     const fullVehicle = await getHouseholdVehicle(vehicle.id, householdId);
+    await recordBalanceSnapshot(account.id, fullVehicle.account.currentBalance, 'VEHICLE');
     res.status(201).json({ data: transformVehicle(fullVehicle) });
   } catch (err) {
     next(err);
@@ -438,12 +441,14 @@ vehiclesRouter.delete('/:id', async (req, res, next) => {
     const householdId = req.user!.householdId!;
     const vehicle = await getHouseholdVehicle(req.params.id, householdId);
 
+    const attachmentKeys = await findAttachmentStorageKeys({ accountId: vehicle.accountId });
     await prisma.$transaction([
       prisma.vehicleValuation.deleteMany({ where: { vehicleId: vehicle.id } }),
       prisma.vehicle.delete({ where: { id: vehicle.id } }),
       prisma.transaction.deleteMany({ where: { accountId: vehicle.accountId } }),
       prisma.account.delete({ where: { id: vehicle.accountId } }),
     ]);
+    await deleteAttachmentFiles(attachmentKeys);
 
     res.json({ data: { message: 'Vehicle deleted' } });
   } catch (err) {
@@ -532,6 +537,8 @@ vehiclesRouter.post('/:id/update-mileage', async (req, res, next) => {
       }),
     ]);
 
+    await recordBalanceSnapshot(vehicle.accountId, priceResult.marketValue, 'VEHICLE');
+
     const updated = await getHouseholdVehicle(vehicle.id, householdId);
     const transformed = transformVehicle(updated);
 
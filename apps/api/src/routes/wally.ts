@@ -0,0 +1,181 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import type { WallyConversation, WallyStreamEvent } from '@otter-money/shared';
+import { authenticate, requireHousehold } from '../middleware/auth';
+import { AppError } from '../middleware/error';
+import { prisma } from '../utils/prisma';
+import { ERROR_CODES } from '@otter-money/shared';
+import { messageInclude, runWallyTurn, serializeMessage } from '../services/wally';
+import { getWallyProvider } from '../services/wallyProviders';
+
+export const wallyRouter = Router();
+
+wallyRouter.use(authenticate);
+wallyRouter.use(requireHousehold);
+
+// Validation schemas
+const createConversationSchema = z.object({
+  title: z.string().min(1).max(100).optional(),
+});
+
+const sendMessageSchema = z.object({
+  content: z.string().trim().min(1).max(2000),
+});
+
+const conversationInclude = {
+  createdBy: { select: { name: true } },
+  _count: { select: { messages: true } },
+} satisfies Prisma.ConversationInclude;
+
+type ConversationWithDetails = Prisma.ConversationGetPayload<{
+  include: typeof conversationInclude;
+}>;
+
+function serializeConversation(conversation: ConversationWithDetails): WallyConversation {
+  return {
+    id: conversation.id,
+    householdId: conversation.householdId,
+    title: conversation.title,
+    createdById: conversation.createdById,
+    createdByName: conversation.createdBy?.name || null,
+    messageCount: conversation._count.messages,
+    createdAt: conversation.createdAt.toISOString(),
+    updatedAt: conversation.updatedAt.toISOString(),
+  };
+}
+
+// Helper to get a conversation and verify household access
+async function getHouseholdConversation(conversationId: string, householdId: string) {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    include: conversationInclude,
+  });
+
+  if (!conversation) {
+    throw new AppError(ERROR_CODES.NOT_FOUND, 'Conversation not found', 404);
+  }
+
+  if (conversation.householdId !== householdId) {
+    throw new AppError(ERROR_CODES.FORBIDDEN, 'Access denied', 403);
+  }
+
+  return conversation;
+}
+
+// List household conversations, most recent first
+wallyRouter.get('/conversations', async (req, res, next) => {
+  try {
+    const conversations = await prisma.conversation.findMany({
+      where: { householdId: req.user!.householdId! },
+      include: conversationInclude,
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    res.json({ data: conversations.map(serializeConversation) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Start a conversation
+wallyRouter.post('/conversations', async (req, res, next) => {
+  try {
+    const data = createConversationSchema.parse(req.body);
+
+    const conversation = await prisma.conversation.create({
+      data: {
+        householdId: req.user!.householdId!,
+        createdById: req.user!.id,
+        title: data.title,
+      },
+      include: conversationInclude,
+    });
+
+    res.status(201).json({ data: serializeConversation(conversation) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Get a conversation with its messages
+wallyRouter.get('/conversations/:id', async (req, res, next) => {
+  try {
+    const conversation = await getHouseholdConversation(req.params.id, req.user!.householdId!);
+
+    const messages = await prisma.message.findMany({
+      where: { conversationId: conversation.id },
+      include: messageInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({
+      data: {
+        ...serializeConversation(conversation),
+        messages: messages.map(serializeMessage),
+      },
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Ask Wally a question. The reply streams back as server-sent events.
+wallyRouter.post('/conversations/:id/messages', async (req, res, next) => {
+  try {
+    const { content } = sendMessageSchema.parse(req.body);
+    const householdId = req.user!.householdId!;
+    const conversation = await getHouseholdConversation(req.params.id, householdId);
+
+    // Fail before streaming starts if no provider is configured
+    getWallyProvider();
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    const send = (event: WallyStreamEvent) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    try {
+      await runWallyTurn({
+        conversationId: conversation.id,
+        householdId,
+        userId: req.user!.id,
+        content,
+        onEvent: send,
+      });
+    } catch (err) {
+      // Headers are already sent, so errors go down the stream
+      console.error('[WALLY] Failed to answer:', err);
+      send({
+        type: 'error',
+        code: err instanceof AppError ? err.code : ERROR_CODES.INTERNAL_ERROR,
+        message: err instanceof AppError ? err.message : 'Wally ran into a problem answering that',
+      });
+    }
+
+    res.end();
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Delete a conversation and its messages
+wallyRouter.delete('/conversations/:id', async (req, res, next) => {
+  try {
+    const conversation = await getHouseholdConversation(req.params.id, req.user!.householdId!);
+
+    await prisma.conversation.delete({
+      where: { id: conversation.id },
+    });
+
+    res.json({ data: { message: 'Conversation deleted' } });
+  } catch (err) {
+    next(err);
+  }
+});
@@ -0,0 +1,222 @@
+/**
+ * Attachment storage
+ * Receipt and document files live outside the database, behind a small storage
+ * interface so deployments can keep them on local disk or in any S3-compatible
+ * bucket (AWS S3, Cloudflare R2, MinIO, ...).
+ *
+ * ATTACHMENT_STORAGE selects the backend: "local", "s3" or "memory". When unset,
+ * S3 is used if ATTACHMENT_S3_BUCKET is set, otherwise files are written under
+ * ATTACHMENT_STORAGE_DIR (default ./uploads/attachments).
+ */
+
+import { createHash, createHmac } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+export interface AttachmentStorage {
+  name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  // Deleting a missing file is not an error
+  delete(key: string): Promise<void>;
+}
+
+// ============================================
+// LOCAL FILESYSTEM
+// ============================================
+
+export class LocalAttachmentStorage implements AttachmentStorage {
+  name = 'local';
+  private root: string;
+
+  constructor(root: string = process.env.ATTACHMENT_STORAGE_DIR || './uploads/attachments') {
+    this.root = path.resolve(root);
+  }
+
+  // Keys are generated by the server, but never let one escape the storage root
+  private resolve(key: string) {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid attachment key "${key}"`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+// ============================================
+// S3-COMPATIBLE
+// ============================================
+
+interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Custom endpoint for non-AWS providers; uses path-style URLs
+  endpoint?: string;
+}
+
+function sha256Hex(data: string | Buffer) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string) {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// Objects are read and written with plain signed HTTP requests (AWS Signature
+// Version 4), which every S3-compatible provider accepts.
+export class S3AttachmentStorage implements AttachmentStorage {
+  name = 's3';
+
+  constructor(private config: S3StorageConfig) {}
+
+  private objectUrl(key: string) {
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    if (this.config.endpoint) {
+      return new URL(`${this.config.endpoint.replace(/\/+$/, '')}/${this.config.bucket}/${encodedKey}`);
+    }
+    return new URL(`https://${this.config.bucket}.s3.${this.config.region}.amazonaws.com/${encodedKey}`);
+  }
+
+  private async request(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, contentType?: string) {
+    const url = this.objectUrl(key);
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const signedHeaders = Object.keys(headers).sort().join(';');
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...Object.keys(headers).sort().map((name) => `${name}:${headers[name]}`),
+      '',
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region)
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        ...(contentType && { 'Content-Type': contentType }),
+      },
+      body,
+    });
+
+    if (!response.ok && !(method === 'DELETE' && response.status === 404)) {
+      throw new Error(`S3 ${method} ${key} failed with status ${response.status}`);
+    }
+    return response;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.request('PUT', key, data, contentType);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.request('GET', key);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('DELETE', key);
+  }
+}
+
+// Tests: keep files in memory
+export class MemoryAttachmentStorage implements AttachmentStorage {
+  name = 'memory';
+  readonly files = new Map<string, Buffer>();
+
+  async put(key: string, data: Buffer): Promise<void> {
+    this.files.set(key, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const data = this.files.get(key);
+    if (!data) throw new Error(`Attachment "${key}" not found`);
+    return data;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.files.delete(key);
+  }
+}
+
+// ============================================
+// SELECTION
+// ============================================
+
+let storage: AttachmentStorage | null = null;
+
+function createS3Storage(): AttachmentStorage {
+  const bucket = process.env.ATTACHMENT_S3_BUCKET;
+  const accessKeyId = process.env.ATTACHMENT_S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.ATTACHMENT_S3_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY;
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('S3 attachment storage needs ATTACHMENT_S3_BUCKET and access keys');
+  }
+
+  return new S3AttachmentStorage({
+    bucket,
+    region: process.env.ATTACHMENT_S3_REGION || process.env.AWS_REGION || 'us-east-1',
+    accessKeyId,
+    secretAccessKey,
+    endpoint: process.env.ATTACHMENT_S3_ENDPOINT || undefined,
+  });
+}
+
+/**
+ * Replace the configured storage (tests, scripts). Pass null to restore.
+ */
+export function setAttachmentStorage(next: AttachmentStorage | null) {
+  storage = next;
+}
+
+export function getAttachmentStorage(): AttachmentStorage {
+  if (storage) return storage;
+
+  const configured = process.env.ATTACHMENT_STORAGE;
+  if (configured === 'memory') {
+    storage = new MemoryAttachmentStorage();
+  } else if (configured === 's3' || (!configured && process.env.ATTACHMENT_S3_BUCKET)) {
+    storage = createS3Storage();
+  } else {
+    if (configured && configured !== 'local') {
+      console.warn(`Unknown ATTACHMENT_STORAGE "${configured}", storing attachments on disk`);
+    }
+    storage = new LocalAttachmentStorage();
+  }
+  return storage;
+}
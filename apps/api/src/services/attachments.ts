@@ -0,0 +1,78 @@
+import { randomUUID } from 'node:crypto';
+import type { Prisma } from '@prisma/client';
+import type { AttachmentContentType } from '@otter-money/shared';
+import { prisma } from '../utils/prisma';
+import { getAttachmentStorage } from './attachmentStorage';
+
+// Fields returned to clients; the storage key stays server-side
+export const attachmentSelect = {
+  id: true,
+  transactionId: true,
+  fileName: true,
+  contentType: true,
+  size: true,
+  uploadedById: true,
+  createdAt: true,
+} satisfies Prisma.AttachmentSelect;
+
+/**
+ * Work out the file type from its first bytes. The declared Content-Type comes
+ * from the client, so it's never trusted on its own.
+ */
+export function detectContentType(data: Buffer): AttachmentContentType | null {
+  if (data.length < 12) return null;
+
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') return 'image/webp';
+  if (data.toString('latin1', 0, 5) === '%PDF-') return 'application/pdf';
+
+  // ISO media container (iPhone camera photos): "ftyp" box with a HEIF brand
+  if (data.toString('latin1', 4, 8) === 'ftyp') {
+    const brand = data.toString('latin1', 8, 12);
+    if (['heic', 'heix', 'heim', 'heis', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+  }
+
+  return null;
+}
+
+// Strip directories and control characters from a client-supplied file name
+export function sanitizeFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, '').trim();
+  return cleaned.slice(0, 200) || 'attachment';
+}
+
+export function buildStorageKey(householdId: string, transactionId: string): string {
+  return `${householdId}/${transactionId}/${randomUUID()}`;
+}
+
+/**
+ * Storage keys of the attachments on transactions about to be deleted. Rows
+ * cascade with their transaction, but the files have to be removed separately
+ * with deleteAttachmentFiles once the delete has gone through.
+ */
+export async function findAttachmentStorageKeys(where: Prisma.TransactionWhereInput): Promise<string[]> {
+  const attachments = await prisma.attachment.findMany({
+    where: { transaction: where },
+    select: { storageKey: true },
+  });
+  return attachments.map((attachment) => attachment.storageKey);
+}
+
+/**
+ * Remove files from storage. Best effort: a file left behind is only wasted
+ * space, so failures are logged rather than failing the request.
+ */
+export async function deleteAttachmentFiles(storageKeys: string[]): Promise<void> {
+  const storage = getAttachmentStorage();
+  for (const key of storageKeys) {
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      console.error(`Failed to delete attachment file ${key}:`, error);
+    }
+  }
+}
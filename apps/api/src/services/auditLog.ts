@@ -0,0 +1,238 @@
+/**
+ * Household audit log
+ * Records who created, changed or deleted the household's data so partners can
+ * see what happened in the activity feed. Each event stores the fields that
+ * changed as { field: { from, to } }, with foreign keys replaced by names
+ * (a transaction's category change reads "Coffee" → "Dining", not two ids).
+ */
+
+import type { AuditAction, AuditEntityType, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../utils/prisma';
+
+type Snapshot = Record<string, unknown>;
+
+export interface AuditChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface AuditEventInput {
+  entityType: AuditEntityType;
+  action: AuditAction;
+  entityId?: string | null;
+  entityName?: string | null;
+  before?: Snapshot | null;
+  after?: Snapshot | null;
+  summary?: string;
+}
+
+// Fields worth showing in the feed, per entity. Sync bookkeeping (balances
+// from the bank, cursors, timestamps) is left out.
+const AUDITED_FIELDS: Record<AuditEntityType, string[]> = {
+  TRANSACTION: [
+    'date',
+    'amount',
+    'description',
+    'merchantName',
+    'categoryId',
+    'notes',
+    'accountId',
+    'attributedToId',
+    'transferStatus',
+    'excludeFromBudget',
+    'tags',
+  ],
+  CATEGORY: ['name', 'type', 'icon', 'color', 'parentId'],
+  RULE: ['categoryId', 'conditions', 'actions', 'priority', 'isEnabled'],
+  BUDGET: ['categoryId', 'ownerId', 'amount', 'period', 'rollover', 'rolloverCap', 'rolloverReset'],
+  GOAL: ['name', 'targetAmount', 'currentAmount', 'targetDate', 'icon', 'color', 'isCompleted'],
+  ACCOUNT: [
+    'name',
+    'type',
+    'subtype',
+    'ownerId',
+    'currentBalance',
+    'isHidden',
+    'excludeFromBudget',
+    'excludeFromNetWorth',
+  ],
+  RECURRING: [
+    'merchantName',
+    'description',
+    'frequency',
+    'expectedAmount',
+    'dayOfMonth',
+    'dayOfWeek',
+    'nextExpectedDate',
+    'accountId',
+    'categoryId',
+    'status',
+    'isPaused',
+    'notes',
+  ],
+  HOUSEHOLD: ['name', 'requireTwoFactor', 'budgetCadence', 'budgetPaydayAnchor', 'budgetMode'],
+  TAG: ['name', 'color'],
+  BUDGET_TEMPLATE: ['categoryId', 'amount', 'rollover', 'rolloverCap'],
+};
+
+// Foreign keys, stored under a readable field name with the record's name as the value
+const REFERENCES: Record<string, { field: string; model: 'category' | 'account' | 'user' }> = {
+  categoryId: { field: 'category', model: 'category' },
+  parentId: { field: 'parent', model: 'category' },
+  accountId: { field: 'account', model: 'account' },
+  ownerId: { field: 'owner', model: 'user' },
+  attributedToId: { field: 'attributedTo', model: 'user' },
+};
+
+function toAuditValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Decimal) return value.toNumber();
+  if (value instanceof Date) return value.toISOString();
+  // Linked records (a transaction's tags) are shown by name
+  if (Array.isArray(value) && value.every((item) => item && typeof item === 'object' && 'name' in item)) {
+    return value.map((item) => item.name).join(', ') || null;
+  }
+  return value;
+}
+
+function diffSnapshots(fields: string[], before: Snapshot | null, after: Snapshot | null) {
+  const changes: Record<string, AuditChange> = {};
+
+  for (const field of fields) {
+    const from = toAuditValue(before?.[field]);
+    const to = toAuditValue(after?.[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+async function lookupNames(model: 'category' | 'account' | 'user', ids: string[]) {
+  const where = { id: { in: ids } };
+  const select = { id: true, name: true } as const;
+
+  const records =
+    model === 'category'
+      ? await prisma.category.findMany({ where, select })
+      : model === 'account'
+        ? await prisma.account.findMany({ where, select })
+        : await prisma.user.findMany({ where, select });
+
+  return new Map(records.map((r) => [r.id, r.name]));
+}
+
+// Swap foreign key ids for names. Records that no longer exist keep their id.
+async function resolveReferences(changes: Record<string, AuditChange>) {
+  const resolved: Record<string, AuditChange> = {};
+
+  for (const [key, change] of Object.entries(changes)) {
+    const reference = REFERENCES[key];
+    if (!reference) {
+      resolved[key] = change;
+      continue;
+    }
+
+    const ids = [change.from, change.to].filter((id): id is string => typeof id === 'string');
+    const names = ids.length > 0 ? await lookupNames(reference.model, ids) : new Map<string, string>();
+    const nameOf = (id: unknown) => (typeof id === 'string' ? names.get(id) ?? id : null);
+
+    resolved[reference.field] = { from: nameOf(change.from), to: nameOf(change.to) };
+  }
+
+  return resolved;
+}
+
+function defaultEntityName(snapshot: Snapshot | null | undefined): string | null {
+  if (!snapshot) return null;
+  for (const key of ['name', 'merchantName', 'description']) {
+    if (typeof snapshot[key] === 'string' && snapshot[key]) return snapshot[key] as string;
+  }
+  return null;
+}
+
+/**
+ * Record a change to household data. `before` and `after` are the record as
+ * loaded from the database (omit `before` for creates and `after` for deletes).
+ * Updates that didn't change any audited field aren't recorded unless they
+ * come with a summary.
+ *
+ * Called after the change has been saved, so this never throws: a failure
+ * here is logged rather than reported as a failed request.
+ */
+export async function recordAuditEvent(
+  actor: { id: string; householdId: string | null },
+  event: AuditEventInput
+): Promise<void> {
+  if (!actor.householdId) return;
+
+  try {
+    const before = event.before ?? null;
+    const after = event.after ?? null;
+
+    // Updates are diffed when both versions are given; a lone snapshot just names the record
+    let changes: Record<string, AuditChange> | null = null;
+    if (event.action === 'UPDATE' ? before && after : before || after) {
+      changes = await resolveReferences(diffSnapshots(AUDITED_FIELDS[event.entityType], before, after));
+      if (Object.keys(changes).length === 0) changes = null;
+    }
+
+    if (event.action === 'UPDATE' && !changes && !event.summary) return;
+
+    await prisma.auditEvent.create({
+      data: {
+        householdId: actor.householdId,
+        actorId: actor.id,
+        entityType: event.entityType,
+        entityId: event.entityId ?? (after?.id as string | undefined) ?? (before?.id as string | undefined) ?? null,
+        entityName: event.entityName ?? defaultEntityName(after) ?? defaultEntityName(before),
+        action: event.action,
+        summary: event.summary,
+        changes: changes ? (changes as unknown as Prisma.InputJsonObject) : undefined,
+      },
+    });
+  } catch (err) {
+    console.error(`[AUDIT] Failed to record ${event.action} ${event.entityType}:`, err);
+  }
+}
+
+export interface AuditEventFilters {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorId?: string;
+  action?: AuditAction;
+  startDate?: Date;
+  endDate?: Date;
+  limit: number;
+  offset: number;
+}
+
+export async function listAuditEvents(householdId: string, filters: AuditEventFilters) {
+  const where: Prisma.AuditEventWhereInput = { householdId };
+
+  if (filters.entityType) where.entityType = filters.entityType;
+  if (filters.entityId) where.entityId = filters.entityId;
+  if (filters.actorId) where.actorId = filters.actorId;
+  if (filters.action) where.action = filters.action;
+  if (filters.startDate || filters.endDate) {
+    where.createdAt = { gte: filters.startDate, lte: filters.endDate };
+  }
+
+  const [events, total] = await Promise.all([
+    prisma.auditEvent.findMany({
+      where,
+      include: { actor: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit,
+      skip: filters.offset,
+    }),
+    prisma.auditEvent.count({ where }),
+  ]);
+
+  return {
+    events: events.map(({ householdId: _householdId, actorId: _actorId, ...event }) => event),
+    total,
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Balance backfill service
+ * Reconstructs approximate daily balances for an account by starting from its
+ * current balance and replaying transactions backwards in time.
+ */
+
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../utils/prisma';
+import { toSnapshotDate } from './balanceSnapshots';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_BACKFILL_DAYS = 365;
+
+const LIABILITY_TYPES = ['CREDIT', 'LOAN', 'MORTGAGE'];
+
+function dayKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * How much a transaction moved the stored balance.
+ *
+ * Adjustment rows (manual balance updates, vehicle revaluations) are recorded as
+ * the raw difference between the old and new stored balance, so they always
+ * apply as-is. Regular transactions are cash flows (negative = expense); Plaid
+ * reports liability balances as a positive amount owed, so for those accounts a
+ * purchase increases the balance and the sign flips.
+ */
+function balanceEffect(
+  amount: number,
+  isAdjustment: boolean,
+  account: { type: string; connectionType: string }
+): number {
+  if (isAdjustment) return amount;
+
+  const owedIsPositive =
+    LIABILITY_TYPES.includes(account.type) && account.connectionType === 'PLAID';
+
+  return owedIsPositive ? -amount : amount;
+}
+
+/**
+ * Rebuild estimated daily balances for one account.
+ *
+ * Walks from today back to the earlier of `days` ago or the account's first
+ * transaction. Days that already have an observed (non-estimated) snapshot
+ * re-anchor the walk to that value and are never overwritten. Previously
+ * estimated points in the window are replaced, so re-running after new
+ * transactions arrive refines the history.
+ *
+ * Returns the number of estimated snapshots written.
+ */
+export async function backfillAccountBalances(
+  accountId: string,
+  days: number = DEFAULT_BACKFILL_DAYS
+): Promise<number> {
+  const account = await prisma.account.findUnique({
+    where: { id: accountId },
+    select: { id: true, type: true, connectionType: true, currentBalance: true },
+  });
+
+  if (!account) return 0;
+
+  const today = toSnapshotDate();
+  const windowStart = new Date(today.getTime() - days * DAY_MS);
+
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      accountId,
+      date: { gte: windowStart, lte: today },
+      isPending: false, // Pending rows aren't reflected in the current balance yet
+      parentId: null, // Split children duplicate their parent's amount
+    },
+    select: { date: true, amount: true, isAdjustment: true },
+  });
+
+  if (transactions.length === 0) return 0;
+
+  // Net balance change per day
+  const effectByDay = new Map<string, number>();
+  let earliest = today;
+  for (const tx of transactions) {
+    const key = dayKey(tx.date);
+    const effect = balanceEffect(Number(tx.amount), tx.isAdjustment, account);
+    effectByDay.set(key, (effectByDay.get(key) || 0) + effect);
+    if (tx.date < earliest) earliest = toSnapshotDate(tx.date);
+  }
+
+  // Nothing before the first known transaction can be reconstructed
+  const start = earliest > windowStart ? earliest : windowStart;
+
+  const observed = await prisma.accountBalanceSnapshot.findMany({
+    where: {
+      accountId,
+      date: { gte: start, lte: today },
+      isEstimated: false,
+    },
+    select: { date: true, balance: true },
+  });
+  const observedByDay = new Map(observed.map((s) => [dayKey(s.date), Number(s.balance)]));
+
+  const estimates: { date: Date; balance: number }[] = [];
+  let balance = observedByDay.get(dayKey(today)) ?? Number(account.currentBalance);
+
+  // `balance` is the end-of-day balance for `day`; undo that day's activity to step back
+  for (let t = today.getTime(); t > start.getTime(); t -= DAY_MS) {
+    const day = new Date(t);
+    const previousDay = new Date(t - DAY_MS);
+
+    balance -= effectByDay.get(dayKey(day)) || 0;
+
+    const anchor = observedByDay.get(dayKey(previousDay));
+    if (anchor !== undefined) {
+      balance = anchor;
+      continue;
+    }
+
+    estimates.push({ date: previousDay, balance: Math.round(balance * 100) / 100 });
+  }
+
+  await prisma.$transaction([
+    prisma.accountBalanceSnapshot.deleteMany({
+      where: {
+        accountId,
+        date: { gte: start, lt: today },
+        isEstimated: true,
+      },
+    }),
+    prisma.accountBalanceSnapshot.createMany({
+      data: estimates.map((e) => ({
+        accountId,
+        date: e.date,
+        balance: new Decimal(e.balance),
+        source: 'BACKFILL' as const,
+        isEstimated: true,
+      })),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return estimates.length;
+}
+
+/**
+ * Backfill several accounts, e.g. right after a bank connection or CSV import.
+ * Best-effort: a failure on one account is logged and the rest still run.
+ */
+export async function backfillBalancesForAccounts(accountIds: string[]): Promise<void> {
+  for (const accountId of new Set(accountIds)) {
+    try {
+      const written = await backfillAccountBalances(accountId);
+      console.log(`[BACKFILL] Wrote ${written} estimated balances for account ${accountId}`);
+    } catch (err) {
+      console.error(`[BACKFILL] Failed to backfill balances for account ${accountId}:`, err);
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import type { BalanceSnapshotSource, Prisma } from '@prisma/client';
+import type { NetWorthDataPoint, NetWorthInterval, NetWorthRange } from '@otter-money/shared';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../utils/prisma';
+
+const LIABILITY_TYPES = ['CREDIT', 'LOAN', 'MORTGAGE'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Default bucket size for each range so charts stay around 30-60 points
+const DEFAULT_INTERVALS: Record<NetWorthRange, NetWorthInterval> = {
+  '1M': 'day',
+  '3M': 'week',
+  '6M': 'week',
+  '1Y': 'month',
+  ALL: 'month',
+};
+
+// Snapshots are keyed by calendar day (UTC), matching the @db.Date column
+export function toSnapshotDate(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function formatMonth(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Record (or overwrite) today's balance snapshot for a single account.
+ * An observed balance always replaces an estimated one from the backfill.
+ * Snapshots are best-effort: failures are logged and never break the caller,
+ * the daily job will fill any gaps.
+ */
+export async function recordBalanceSnapshot(
+  accountId: string,
+  balance: number | Decimal,
+  source: BalanceSnapshotSource,
+  date: Date = new Date()
+): Promise<void> {
+  const snapshotDate = toSnapshotDate(date);
+  const value = balance instanceof Decimal ? balance : new Decimal(balance);
+
+  try {
+    await prisma.accountBalanceSnapshot.upsert({
+      where: { accountId_date: { accountId, date: snapshotDate } },
+      update: { balance: value, source, isEstimated: false },
+      create: { accountId, date: snapshotDate, balance: value, source },
+    });
+  } catch (err) {
+    console.error(`Failed to record balance snapshot for account ${accountId}:`, err);
+  }
+}
+
+/**
+ * Snapshot the current balance of every account matching `where`.
+ * Returns the number of accounts snapshotted.
+ */
+export async function snapshotAccountBalances(
+  where: Prisma.AccountWhereInput,
+  source: BalanceSnapshotSource
+): Promise<number> {
+  const accounts = await prisma.account.findMany({
+    where,
+    select: { id: true, currentBalance: true },
+  });
+
+  for (const account of accounts) {
+    await recordBalanceSnapshot(account.id, account.currentBalance, source);
+  }
+
+  return accounts.length;
+}
+
+/**
+ * Daily job entry point: snapshot every account that still exists.
+ */
+export async function snapshotAllAccounts(): Promise<number> {
+  return snapshotAccountBalances({}, 'SCHEDULED');
+}
+
+// Build the list of dates (ascending) that each chart point represents
+function buildBucketDates(start: Date, end: Date, interval: NetWorthInterval): Date[] {
+  const dates: Date[] = [];
+
+  if (interval === 'month') {
+    let year = start.getUTCFullYear();
+    let month = start.getUTCMonth();
+    while (Date.UTC(year, month, 1) <= end.getTime()) {
+      const monthEnd = new Date(Date.UTC(year, month + 1, 0));
+      dates.push(monthEnd < end ? monthEnd : end);
+      month++;
+      if (month > 11) {
+        month = 0;
+        year++;
+      }
+    }
+    return dates;
+  }
+
+  // Day and week buckets are anchored on the end date so the last point is "today"
+  const step = interval === 'week' ? 7 * DAY_MS : DAY_MS;
+  for (let t = end.getTime(); t >= start.getTime(); t -= step) {
+    dates.push(new Date(t));
+  }
+  return dates.reverse();
+}
+
+function getRangeStart(range: NetWorthRange, end: Date, earliest: Date | null): Date {
+  const start = new Date(end);
+  switch (range) {
+    case '1M':
+      start.setUTCMonth(start.getUTCMonth() - 1);
+      return start;
+    case '3M':
+      start.setUTCMonth(start.getUTCMonth() - 3);
+      return start;
+    case '6M':
+      start.setUTCMonth(start.getUTCMonth() - 6);
+      return start;
+    case '1Y':
+      start.setUTCFullYear(start.getUTCFullYear() - 1);
+      return start;
+    case 'ALL':
+      return earliest ?? end;
+  }
+}
+
+/**
+ * Build a net worth series for a household from balance snapshots.
+ *
+ * Each point uses the most recent snapshot on or before the point's date
+ * for every account (balances carry forward between snapshots). The final
+ * point always reflects live account balances so it matches the dashboard.
+ * A point is flagged as estimated when any account's balance in it was
+ * reconstructed by the backfill rather than observed.
+ */
+export async function getNetWorthHistory(
+  householdId: string,
+  range: NetWorthRange,
+  interval?: NetWorthInterval
+): Promise<NetWorthDataPoint[]> {
+  const bucketInterval = interval ?? DEFAULT_INTERVALS[range];
+  const end = toSnapshotDate();
+
+  const accounts = await prisma.account.findMany({
+    where: {
+      householdId,
+      isHidden: false,
+      excludeFromNetWorth: false,
+    },
+    select: {
+      id: true,
+      type: true,
+      ownerId: true,
+      currentBalance: true,
+    },
+  });
+
+  if (accounts.length === 0) {
+    return [];
+  }
+
+  const accountIds = accounts.map((a) => a.id);
+
+  const earliest = await prisma.accountBalanceSnapshot.findFirst({
+    where: { accountId: { in: accountIds } },
+    orderBy: { date: 'asc' },
+    select: { date: true },
+  });
+
+  const start = getRangeStart(range, end, earliest?.date ?? null);
+  const bucketDates = buildBucketDates(start, end, bucketInterval);
+
+  // Load everything up to the end date so balances before the range start carry in
+  const snapshots = await prisma.accountBalanceSnapshot.findMany({
+    where: {
+      accountId: { in: accountIds },
+      date: { lte: end },
+    },
+    select: { accountId: true, date: true, balance: true, isEstimated: true },
+    orderBy: { date: 'asc' },
+  });
+
+  const latestBalance = new Map<string, { balance: number; isEstimated: boolean }>();
+  const points: NetWorthDataPoint[] = [];
+  let cursor = 0;
+
+  for (const bucketDate of bucketDates) {
+    while (cursor < snapshots.length && snapshots[cursor].date <= bucketDate) {
+      const snapshot = snapshots[cursor];
+      latestBalance.set(snapshot.accountId, {
+        balance: Number(snapshot.balance),
+        isEstimated: snapshot.isEstimated,
+      });
+      cursor++;
+    }
+
+    const isToday = bucketDate.getTime() === end.getTime();
+    let assets = 0;
+    let liabilities = 0;
+    let isEstimated = false;
+    const byPartner: Record<string, number> = {};
+
+    for (const account of accounts) {
+      const latest = isToday
+        ? { balance: Number(account.currentBalance), isEstimated: false }
+        : latestBalance.get(account.id);
+      if (!latest) continue; // Account had no history yet
+
+      const { balance } = latest;
+      isEstimated = isEstimated || latest.isEstimated;
+
+      const ownerKey = account.ownerId || 'joint';
+      if (byPartner[ownerKey] === undefined) {
+        byPartner[ownerKey] = 0;
+      }
+
+      if (LIABILITY_TYPES.includes(account.type)) {
+        liabilities += Math.abs(balance);
+        byPartner[ownerKey] -= Math.abs(balance);
+      } else {
+        assets += balance;
+        byPartner[ownerKey] += balance;
+      }
+    }
+
+    points.push({
+      date: bucketInterval === 'month' ? formatMonth(bucketDate) : formatDay(bucketDate),
+      total: assets - liabilities,
+      assets,
+      liabilities,
+      byPartner,
+      isEstimated,
+    });
+  }
+
+  return points;
+}
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Decimal } from '@prisma/client/runtime/library';
+
+interface FakeBudget {
+  id: string;
+  categoryId: string;
+  ownerId: string | null;
+  period: string;
+  amount: Decimal;
+  rollover: boolean;
+  rolloverCap: Decimal | null;
+  rolloverReset: boolean;
+  category: { id: string; name: string; type: string; icon: null; color: null; depth: number };
+}
+
+interface FakeTransaction {
+  categoryId: string;
+  amount: Decimal;
+  date: Date;
+  description: string;
+  attributedToId: string | null;
+  category: { id: string; type: string; name: string; parentId: null };
+  account: { ownerId: string | null };
+}
+
+// A household's budgets and transactions in memory; categories have no children
+const db = vi.hoisted(() => {
+  const state = { budgets: [] as FakeBudget[], transactions: [] as FakeTransaction[] };
+
+  return {
+    state,
+    prisma: {
+      user: {
+        findMany: async () => [
+          { id: 'alex', name: 'Alex' },
+          { id: 'sam', name: 'Sam' },
+        ],
+      },
+      category: { findMany: async () => [] },
+      budget: {
+        findMany: async ({ where }: { where: { period: string | { in: string[] } } }) =>
+          state.budgets.filter((budget) =>
+            typeof where.period === 'string'
+              ? budget.period === where.period
+              : where.period.in.includes(budget.period)
+          ),
+      },
+      transaction: {
+        findMany: async ({ where }: { where: { date: { gte: Date; lte: Date } } }) =>
+          state.transactions.filter(
+            (transaction) => transaction.date >= where.date.gte && transaction.date <= where.date.lte
+          ),
+      },
+    },
+  };
+});
+
+vi.mock('../utils/prisma', () => ({ prisma: db.prisma }));
+
+import { getBudgetSpending } from './budgetSpending';
+
+function budget(period: string, amount: number, options: Partial<FakeBudget> = {}): FakeBudget {
+  return {
+    id: `${period}-${options.ownerId ?? 'joint'}`,
+    categoryId: 'groceries',
+    ownerId: null,
+    period,
+    amount: new Decimal(amount),
+    rollover: true,
+    rolloverCap: null,
+    rolloverReset: false,
+    category: { id: 'groceries', name: 'Groceries', type: 'EXPENSE', icon: null, color: null, depth: 0 },
+    ...options,
+  };
+}
+
+function spend(date: string, amount: number, ownerId: string | null): FakeTransaction {
+  return {
+    categoryId: 'groceries',
+    amount: new Decimal(-amount),
+    date: new Date(`${date}T00:00:00Z`),
+    description: 'Market',
+    attributedToId: null,
+    category: { id: 'groceries', type: 'EXPENSE', name: 'Groceries', parentId: null },
+    account: { ownerId },
+  };
+}
+
+async function line(period: string, ownerId: string | null = null) {
+  const { budgets } = await getBudgetSpending('household-1', period);
+  return budgets.find((spending) => spending.ownerId === ownerId)!;
+}
+
+describe('rollover', () => {
+  beforeEach(() => {
+    db.state.budgets = [];
+    db.state.transactions = [];
+  });
+
+  it('carries what is left through consecutive periods', async () => {
+    db.state.budgets = [budget('2026-08', 500), budget('2026-09', 500), budget('2026-10', 500)];
+    db.state.transactions = [spend('2026-08-10', 450, 'alex'), spend('2026-09-10', 600, 'sam')];
+
+    const october = await line('2026-10');
+
+    expect(october.carriedIn).toBe(-50);
+    expect(october.available).toBe(450);
+  });
+
+  it('caps what a period passes on and starts over on a reset', async () => {
+    db.state.budgets = [
+      budget('2026-08', 500),
+      budget('2026-09', 500, { rolloverCap: new Decimal(75), rolloverReset: true }),
+      budget('2026-10', 500),
+    ];
+    db.state.transactions = [spend('2026-08-10', 600, 'alex'), spend('2026-09-10', 300, 'alex')];
+
+    expect((await line('2026-10')).carriedIn).toBe(75);
+  });
+
+  it("matches earlier spending to that period's budgets, not the current ones", async () => {
+    // Sam's personal grocery budget only starts in October, so September's
+    // spending on Sam's account still came out of the joint budget
+    db.state.budgets = [
+      budget('2026-09', 500),
+      budget('2026-10', 500),
+      budget('2026-10', 100, { ownerId: 'sam' }),
+    ];
+    db.state.transactions = [spend('2026-09-10', 100, 'alex'), spend('2026-09-12', 150, 'sam')];
+
+    expect((await line('2026-10')).carriedIn).toBe(250);
+    expect((await line('2026-10', 'sam')).carriedIn).toBe(0);
+  });
+});
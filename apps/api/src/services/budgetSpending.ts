@@ -0,0 +1,526 @@
+/**
+ * Budget spending
+ * Actual spending against each budget for a period, by partner and child
+ * category. Shared by the budgets API and Wally.
+ *
+ * Rollover: a budget with rollover on carries what's left of it (or what was
+ * overspent, as a negative amount) into the same category's budget for the
+ * next period. Balances chain through consecutive periods until one has no
+ * budget, has rollover off, or starts over with rolloverReset. rolloverCap
+ * limits how much unspent budget a period can pass on.
+ *
+ * Personal budgets: a budget can belong to one partner (an allowance) instead
+ * of the household. It counts only that partner's spending: transactions on
+ * their accounts or split lines attributed to them. A partner's spending goes
+ * to their own budget for the category when they have one, and to the joint
+ * budget otherwise, so nothing is counted twice.
+ */
+
+import {
+  getCurrentPeriod,
+  getPeriodCadence,
+  getPeriodDateRange,
+  getPeriodForDate,
+  shiftPeriod,
+} from '@otter-money/shared';
+import { prisma } from '../utils/prisma';
+import { excludeSplitParents, getAttributedOwnerId } from './transactionSplits';
+import { excludeConfirmedTransfers } from './transferMatcher';
+
+export type BudgetStatus = 'on-track' | 'warning' | 'exceeded';
+
+export interface BudgetSpendingLine {
+  budgetId: string;
+  ownerId: string | null; // Partner for a personal budget, null for a joint one
+  categoryId: string;
+  categoryName: string;
+  categoryType: string;
+  categoryIcon: string | null;
+  categoryColor: string | null;
+  categoryDepth: number;
+  budgetAmount: number;
+  rollover: boolean;
+  carriedIn: number; // From the previous period's rollover; negative when it was overspent
+  carriedOut: number; // What rolls into the next period at the current spending
+  available: number; // budgetAmount + carriedIn
+  totalSpent: number;
+  byPartner: { userId: string; userName: string; spent: number }[];
+  byChild: { categoryId: string; categoryName: string; amount: number }[];
+  percentUsed: number;
+  remaining: number;
+  status: BudgetStatus;
+}
+
+// The household's current budget period, in its chosen cadence
+export async function getCurrentBudgetPeriod(householdId: string): Promise<string> {
+  const household = await prisma.household.findUnique({
+    where: { id: householdId },
+    select: { budgetCadence: true, budgetPaydayAnchor: true },
+  });
+  return getCurrentPeriod(household?.budgetCadence, household?.budgetPaydayAnchor);
+}
+
+// Helper to get all descendant category IDs for a given category
+async function getCategoryDescendants(categoryId: string): Promise<string[]> {
+  const descendants: string[] = [];
+
+  const getChildren = async (parentId: string) => {
+    const children = await prisma.category.findMany({
+      where: { parentId },
+      select: { id: true },
+    });
+
+    for (const child of children) {
+      descendants.push(child.id);
+      await getChildren(child.id);
+    }
+  };
+
+  await getChildren(categoryId);
+  return descendants;
+}
+
+// Helper to build a map of budget category -> all descendant IDs
+async function buildCategoryDescendantsMap(
+  budgetCategoryIds: string[]
+): Promise<Map<string, string[]>> {
+  const map = new Map<string, string[]>();
+
+  for (const categoryId of budgetCategoryIds) {
+    const descendants = await getCategoryDescendants(categoryId);
+    map.set(categoryId, descendants);
+  }
+
+  return map;
+}
+
+// Transactions that count toward budgets between two dates
+function budgetTransactionWhere(householdId: string, start: Date, end: Date) {
+  // NOTE: Including both pending and posted transactions for budget calculations
+  return {
+    account: {
+      householdId,
+      excludeFromBudget: false,
+    },
+    date: {
+      gte: start,
+      lte: end,
+    },
+    categoryId: {
+      not: null,
+    },
+    isAdjustment: false,
+    excludeFromBudget: false,
+    ...excludeSplitParents,
+    ...excludeConfirmedTransfers,
+  };
+}
+
+/**
+ * Income received in a period, from transactions in income categories. Counts
+ * the same transactions budgets do, so transfers and excluded accounts are
+ * left out.
+ */
+export async function getPeriodIncome(householdId: string, period: string): Promise<number> {
+  const { start, end } = getPeriodDateRange(period);
+  const result = await prisma.transaction.aggregate({
+    where: { ...budgetTransactionWhere(householdId, start, end), category: { type: 'INCOME' } },
+    _sum: { amount: true },
+  });
+  return Number(result._sum.amount ?? 0);
+}
+
+// Budget category a transaction counts toward, among a set of budgeted
+// categories: its own category or the first budgeted ancestor
+function findBudgetCategory(
+  categoryId: string,
+  categoryDescendantsMap: Map<string, string[]>
+): string | null {
+  for (const [budgetCatId, descendants] of categoryDescendantsMap) {
+    if (categoryId === budgetCatId || descendants.includes(categoryId)) {
+      return budgetCatId;
+    }
+  }
+  return null;
+}
+
+const JOINT = 'joint';
+
+// Identifies a budget within a period: its category and whose it is
+function budgetKey(categoryId: string, ownerId: string | null): string {
+  return `${categoryId}:${ownerId ?? JOINT}`;
+}
+
+// Budgeted categories (with their descendants) per owner, JOINT for the household's
+type BudgetScopes = Map<string, Map<string, string[]>>;
+
+function buildBudgetScopes(
+  budgets: { categoryId: string; ownerId: string | null }[],
+  categoryDescendantsMap: Map<string, string[]>
+): BudgetScopes {
+  const scopes: BudgetScopes = new Map();
+  for (const budget of budgets) {
+    const scope = budget.ownerId ?? JOINT;
+    if (!scopes.has(scope)) scopes.set(scope, new Map());
+    scopes.get(scope)!.set(budget.categoryId, categoryDescendantsMap.get(budget.categoryId) ?? []);
+  }
+  return scopes;
+}
+
+// Budget a transaction counts toward: the partner's own budget when one
+// matches its category, otherwise the joint budget
+function findBudgetKey(categoryId: string, ownerId: string | null, scopes: BudgetScopes): string | null {
+  const personalScope = ownerId ? scopes.get(ownerId) : undefined;
+  const personal = personalScope ? findBudgetCategory(categoryId, personalScope) : null;
+  if (personal) return budgetKey(personal, ownerId);
+
+  const jointScope = scopes.get(JOINT);
+  const joint = jointScope ? findBudgetCategory(categoryId, jointScope) : null;
+  return joint ? budgetKey(joint, null) : null;
+}
+
+// How many periods back rollover chains are followed
+const MAX_ROLLOVER_PERIODS = 24;
+
+interface RolloverBudget {
+  categoryId: string;
+  ownerId: string | null;
+  period: string;
+  amount: number;
+  rollover: boolean;
+  rolloverCap: number | null;
+  rolloverReset: boolean;
+}
+
+// What a period with rollover passes on to the next one
+function carryOut(budget: RolloverBudget, available: number, spent: number): number {
+  if (!budget.rollover) return 0;
+  const left = available - spent;
+  return budget.rolloverCap !== null ? Math.min(left, budget.rolloverCap) : left;
+}
+
+/**
+ * Amount carried into each of a period's budgets, walking back through the
+ * chain of earlier periods with rollover on. Each earlier period's spending
+ * is matched to that period's own budgets, so a personal budget only takes a
+ * partner's spending in the periods it existed.
+ */
+async function getCarriedIn(
+  householdId: string,
+  period: string,
+  budgets: RolloverBudget[],
+  categoryDescendantsMap: Map<string, string[]>
+): Promise<Map<string, number>> {
+  const carriedIn = new Map<string, number>();
+  const candidates = budgets.filter((budget) => !budget.rolloverReset);
+  if (candidates.length === 0) return carriedIn;
+
+  // Every earlier budget, not just the candidates' categories: the others
+  // decide which budget a transaction counted toward in its period
+  const earlierPeriods = Array.from({ length: MAX_ROLLOVER_PERIODS }, (_, i) => shiftPeriod(period, -(i + 1)));
+  const history = await prisma.budget.findMany({
+    where: { householdId, period: { in: earlierPeriods } },
+  });
+  const historyByKey = new Map(
+    history.map((budget) => [`${budgetKey(budget.categoryId, budget.ownerId)}@${budget.period}`, budget])
+  );
+
+  // Earlier budgets of each chain, oldest first
+  const chains = new Map<string, RolloverBudget[]>();
+  for (const budget of candidates) {
+    const key = budgetKey(budget.categoryId, budget.ownerId);
+    const chain: RolloverBudget[] = [];
+    let previous = historyByKey.get(`${key}@${shiftPeriod(period, -1)}`);
+    while (previous?.rollover) {
+      chain.unshift({
+        categoryId: previous.categoryId,
+        ownerId: previous.ownerId,
+        period: previous.period,
+        amount: Number(previous.amount),
+        rollover: previous.rollover,
+        rolloverCap: previous.rolloverCap !== null ? Number(previous.rolloverCap) : null,
+        rolloverReset: previous.rolloverReset,
+      });
+      if (previous.rolloverReset) break;
+      previous = historyByKey.get(`${key}@${shiftPeriod(previous.period, -1)}`);
+    }
+    if (chain.length > 0) chains.set(key, chain);
+  }
+  if (chains.size === 0) return carriedIn;
+
+  const missingCategoryIds = Array.from(new Set(history.map((budget) => budget.categoryId))).filter(
+    (categoryId) => !categoryDescendantsMap.has(categoryId)
+  );
+  const descendantsMap = new Map([
+    ...categoryDescendantsMap,
+    ...(await buildCategoryDescendantsMap(missingCategoryIds)),
+  ]);
+  const historyByPeriod = new Map<string, typeof history>();
+  for (const budget of history) {
+    historyByPeriod.set(budget.period, [...(historyByPeriod.get(budget.period) ?? []), budget]);
+  }
+  const scopesByPeriod = new Map(
+    Array.from(historyByPeriod, ([earlierPeriod, periodBudgets]) => [
+      earlierPeriod,
+      buildBudgetScopes(periodBudgets, descendantsMap),
+    ])
+  );
+
+  // Spending per budget category and period across all chains. Any period
+  // start lines biweekly periods up, since they all share the payday rhythm.
+  const cadence = getPeriodCadence(period);
+  const anchor = getPeriodDateRange(period).start.toISOString().slice(0, 10);
+  const firstPeriod = Array.from(chains.values())
+    .map((chain) => chain[0].period)
+    .sort()[0];
+  const transactions = await prisma.transaction.findMany({
+    where: budgetTransactionWhere(
+      householdId,
+      getPeriodDateRange(firstPeriod).start,
+      getPeriodDateRange(shiftPeriod(period, -1)).end
+    ),
+    select: {
+      categoryId: true,
+      amount: true,
+      date: true,
+      attributedToId: true,
+      category: { select: { type: true } },
+      account: { select: { ownerId: true } },
+    },
+  });
+
+  const spentByKey = new Map<string, number>();
+  for (const transaction of transactions) {
+    if (!transaction.categoryId || transaction.category?.type !== 'EXPENSE') continue;
+    const transactionPeriod = getPeriodForDate(transaction.date, cadence, anchor);
+    const scopes = scopesByPeriod.get(transactionPeriod);
+    if (!scopes) continue;
+    const key = findBudgetKey(transaction.categoryId, getAttributedOwnerId(transaction), scopes);
+    if (!key || !chains.has(key)) continue;
+
+    const periodKey = `${key}@${transactionPeriod}`;
+    spentByKey.set(periodKey, (spentByKey.get(periodKey) ?? 0) + Math.abs(Number(transaction.amount)));
+  }
+
+  for (const [key, chain] of chains) {
+    let carry = 0;
+    for (const budget of chain) {
+      const spent = spentByKey.get(`${key}@${budget.period}`) ?? 0;
+      carry = carryOut(budget, budget.amount + carry, spent);
+    }
+    carriedIn.set(key, carry);
+  }
+
+  return carriedIn;
+}
+
+/**
+ * Spending against every budget in a period. Parent category budgets include
+ * spending in all descendant categories.
+ */
+export async function getBudgetSpending(
+  householdId: string,
+  period: string
+): Promise<{ budgets: BudgetSpendingLine[]; members: { id: string; name: string }[] }> {
+  const { start, end } = getPeriodDateRange(period);
+
+  // Get all household members
+  const members = await prisma.user.findMany({
+    where: { householdId },
+    select: { id: true, name: true },
+  });
+
+  // Get all budgets for this period
+  const budgets = await prisma.budget.findMany({
+    where: {
+      householdId,
+      period,
+    },
+    include: {
+      category: {
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          icon: true,
+          color: true,
+          depth: true,
+        },
+      },
+    },
+  });
+
+  // Build map of budget category -> all descendant category IDs
+  const budgetCategoryIds = Array.from(new Set(budgets.map((b) => b.categoryId)));
+  const categoryDescendantsMap = await buildCategoryDescendantsMap(budgetCategoryIds);
+  const scopes = buildBudgetScopes(budgets, categoryDescendantsMap);
+
+  const rolloverBudgets: RolloverBudget[] = budgets.map((budget) => ({
+    categoryId: budget.categoryId,
+    ownerId: budget.ownerId,
+    period: budget.period,
+    amount: Number(budget.amount),
+    rollover: budget.rollover,
+    rolloverCap: budget.rolloverCap !== null ? Number(budget.rolloverCap) : null,
+    rolloverReset: budget.rolloverReset,
+  }));
+  const carriedIn = await getCarriedIn(householdId, period, rolloverBudgets, categoryDescendantsMap);
+
+  // Get all transactions in this period, grouped by category and account owner
+  const transactions = await prisma.transaction.findMany({
+    where: budgetTransactionWhere(householdId, start, end),
+    include: {
+      category: {
+        select: {
+          id: true,
+          type: true,
+          name: true,
+          parentId: true,
+        },
+      },
+      account: {
+        select: {
+          ownerId: true,
+        },
+      },
+    },
+  });
+
+  // Calculate spending by budget and partner
+  // Now tracks child category breakdown too
+  const spendingByBudget = new Map<
+    string,
+    {
+      budgetId: string;
+      ownerId: string | null;
+      categoryId: string;
+      categoryName: string;
+      categoryType: string;
+      categoryIcon: string | null;
+      categoryColor: string | null;
+      categoryDepth: number;
+      budgetAmount: number;
+      rolloverBudget: RolloverBudget;
+      carriedIn: number;
+      totalSpent: number;
+      byPartner: Record<string, number>;
+      byChild: Record<string, { name: string; amount: number }>; // Track child spending
+    }
+  >();
+
+  // Initialize from budgets
+  budgets.forEach((budget, index) => {
+    const partnersMap: Record<string, number> = {};
+    members.forEach((member) => {
+      partnersMap[member.id] = 0;
+    });
+
+    const key = budgetKey(budget.categoryId, budget.ownerId);
+    spendingByBudget.set(key, {
+      budgetId: budget.id,
+      ownerId: budget.ownerId,
+      categoryId: budget.categoryId,
+      categoryName: budget.category.name,
+      categoryType: budget.category.type,
+      categoryIcon: budget.category.icon,
+      categoryColor: budget.category.color,
+      categoryDepth: budget.category.depth,
+      budgetAmount: Number(budget.amount),
+      rolloverBudget: rolloverBudgets[index],
+      carriedIn: carriedIn.get(key) ?? 0,
+      totalSpent: 0,
+      byPartner: partnersMap,
+      byChild: {},
+    });
+  });
+
+  // Aggregate spending from transactions
+  // Now includes child category spending in parent budgets
+  transactions.forEach((transaction) => {
+    if (!transaction.categoryId || !transaction.category) {
+      return;
+    }
+
+    // Only count expenses for budgets
+    if (transaction.category.type !== 'EXPENSE') {
+      return;
+    }
+
+    const txCategoryId = transaction.categoryId;
+    const ownerId = getAttributedOwnerId(transaction);
+    const amount = Math.abs(Number(transaction.amount));
+
+    // Count toward the budget for this category, or for one of its ancestors
+    // (first match wins), preferring the partner's own budget
+    const key = findBudgetKey(txCategoryId, ownerId, scopes);
+    const categoryData = key ? spendingByBudget.get(key) : undefined;
+    if (!categoryData) return;
+    const budgetCatId = categoryData.categoryId;
+
+    categoryData.totalSpent += amount;
+
+    // Track partner spending
+    if (ownerId && categoryData.byPartner[ownerId] !== undefined) {
+      categoryData.byPartner[ownerId] += amount;
+    }
+
+    // Track child category breakdown (if it's from a child, not the budget category itself)
+    if (txCategoryId !== budgetCatId) {
+      if (!categoryData.byChild[txCategoryId]) {
+        categoryData.byChild[txCategoryId] = {
+          name: transaction.category.name,
+          amount: 0,
+        };
+      }
+      categoryData.byChild[txCategoryId].amount += amount;
+    }
+  });
+
+  // Convert to array with partner details
+  const result: BudgetSpendingLine[] = Array.from(spendingByBudget.values()).map((data) => {
+    const available = data.budgetAmount + data.carriedIn;
+
+    return {
+      budgetId: data.budgetId,
+      ownerId: data.ownerId,
+      categoryId: data.categoryId,
+      categoryName: data.categoryName,
+      categoryType: data.categoryType,
+      categoryIcon: data.categoryIcon,
+      categoryColor: data.categoryColor,
+      categoryDepth: data.categoryDepth,
+      budgetAmount: data.budgetAmount,
+      rollover: data.rolloverBudget.rollover,
+      carriedIn: data.carriedIn,
+      carriedOut: carryOut(data.rolloverBudget, available, data.totalSpent),
+      available,
+      totalSpent: data.totalSpent,
+      byPartner: members.map((member) => ({
+        userId: member.id,
+        userName: member.name,
+        spent: data.byPartner[member.id] || 0,
+      })),
+      // Include child breakdown sorted by amount
+      byChild: Object.entries(data.byChild)
+        .map(([id, info]) => ({
+          categoryId: id,
+          categoryName: info.name,
+          amount: info.amount,
+        }))
+        .sort((a, b) => b.amount - a.amount),
+      // Overspending carried in can leave nothing available at all, and an
+      // emptied envelope has nothing to spend
+      percentUsed:
+        available > 0 ? (data.totalSpent / available) * 100 : data.totalSpent > 0 || available < 0 ? 100 : 0,
+      remaining: Math.max(0, available - data.totalSpent),
+      status:
+        data.totalSpent > available || available < 0
+          ? 'exceeded'
+          : available > 0 && data.totalSpent >= available * 0.9
+          ? 'warning'
+          : 'on-track',
+    };
+  });
+
+  return { budgets: result, members };
+}
@@ -0,0 +1,166 @@
+/**
+ * Budget template
+ * A household's standing budgets, one per category. When a new budget period
+ * starts the template is applied once: every template category without a
+ * budget that period gets one, marked fromTemplate. Budgets already set for
+ * the period are left alone, and so is a template budget deleted after it was
+ * applied.
+ *
+ * Budgets stay fromTemplate until someone edits them, so later template
+ * changes carry over to the current period's untouched budgets but never
+ * overwrite a per-period override. The template only makes joint budgets;
+ * partners' personal budgets are set by hand.
+ *
+ * In envelope mode joint budgets are envelopes, filled by assigning income
+ * (see envelopes.ts), so the template is kept but doesn't touch budgets.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { getCurrentPeriod } from '@otter-money/shared';
+import { prisma } from '../utils/prisma';
+import { getCurrentBudgetPeriod } from './budgetSpending';
+import { isEnvelopeMode } from './envelopes';
+
+export const templateItemInclude = {
+  category: {
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      icon: true,
+      color: true,
+    },
+  },
+} satisfies Prisma.BudgetTemplateItemInclude;
+
+type TemplateItem = Prisma.BudgetTemplateItemGetPayload<{ include: typeof templateItemInclude }>;
+
+export function formatTemplateItem(item: TemplateItem) {
+  return {
+    id: item.id,
+    categoryId: item.categoryId,
+    category: item.category,
+    amount: Number(item.amount),
+    rollover: item.rollover,
+    rolloverCap: item.rolloverCap !== null ? Number(item.rolloverCap) : null,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+  };
+}
+
+/**
+ * Create the template's budgets for a period, skipping categories that
+ * already have one. Returns how many were created.
+ */
+export async function applyBudgetTemplate(householdId: string, period: string): Promise<number> {
+  const items = await prisma.budgetTemplateItem.findMany({ where: { householdId } });
+  if (items.length === 0) return 0;
+
+  const result = await prisma.budget.createMany({
+    data: items.map((item) => ({
+      householdId,
+      categoryId: item.categoryId,
+      amount: item.amount,
+      period,
+      rollover: item.rollover,
+      rolloverCap: item.rolloverCap,
+      fromTemplate: true,
+    })),
+    skipDuplicates: true,
+  });
+  return result.count;
+}
+
+/**
+ * Apply the template to the current period if it hasn't been yet and the
+ * household isn't in envelope mode. Returns the number of budgets created.
+ */
+export async function applyDueBudgetTemplate(householdId: string): Promise<number> {
+  const period = await getCurrentBudgetPeriod(householdId);
+
+  // Claim the period first so an overlapping run doesn't apply it twice
+  const claimed = await prisma.household.updateMany({
+    where: {
+      id: householdId,
+      budgetMode: 'STANDARD',
+      OR: [{ budgetTemplatePeriod: null }, { budgetTemplatePeriod: { not: period } }],
+    },
+    data: { budgetTemplatePeriod: period },
+  });
+  if (claimed.count === 0) return 0;
+
+  return applyBudgetTemplate(householdId, period);
+}
+
+/**
+ * Apply the template to the current period for every household that hasn't
+ * had it applied yet. Returns the number of budgets created.
+ */
+export async function applyBudgetTemplatesForCurrentPeriod(): Promise<number> {
+  const households = await prisma.household.findMany({
+    where: { budgetMode: 'STANDARD', budgetTemplateItems: { some: {} } },
+    select: { id: true, budgetCadence: true, budgetPaydayAnchor: true, budgetTemplatePeriod: true },
+  });
+
+  let created = 0;
+  for (const household of households) {
+    const period = getCurrentPeriod(household.budgetCadence, household.budgetPaydayAnchor);
+    if (household.budgetTemplatePeriod !== period) {
+      created += await applyDueBudgetTemplate(household.id);
+    }
+  }
+  return created;
+}
+
+/**
+ * Bring the current period's untouched template budget in line with a
+ * template item. A new item also gets a budget this period if the category
+ * doesn't have one yet.
+ */
+export async function syncTemplateItem(
+  householdId: string,
+  item: { categoryId: string; amount: Prisma.Decimal; rollover: boolean; rolloverCap: Prisma.Decimal | null },
+  isNew: boolean
+): Promise<void> {
+  if (await isEnvelopeMode(householdId)) return;
+
+  const period = await getCurrentBudgetPeriod(householdId);
+
+  await prisma.budget.updateMany({
+    where: { householdId, categoryId: item.categoryId, ownerId: null, fromTemplate: true, period },
+    data: { amount: item.amount, rollover: item.rollover, rolloverCap: item.rolloverCap },
+  });
+
+  if (isNew) {
+    await prisma.budget.createMany({
+      data: [
+        {
+          householdId,
+          categoryId: item.categoryId,
+          amount: item.amount,
+          period,
+          rollover: item.rollover,
+          rolloverCap: item.rolloverCap,
+          fromTemplate: true,
+        },
+      ],
+      skipDuplicates: true,
+    });
+  }
+}
+
+// Removing a category from the template removes its untouched budget for the current period
+export async function removeTemplateBudgets(householdId: string, categoryId: string): Promise<number> {
+  if (await isEnvelopeMode(householdId)) return 0;
+
+  const result = await prisma.budget.deleteMany({
+    where: {
+      householdId,
+      categoryId,
+      ownerId: null,
+      fromTemplate: true,
+      period: await getCurrentBudgetPeriod(householdId),
+    },
+  });
+  return result.count;
+}
@@ -0,0 +1,241 @@
+/**
+ * College savings planner
+ * Projects what a child's education will cost by enrollment and how much the
+ * household needs to save each month to cover it from the linked accounts.
+ *
+ * Costs grow with education inflation until each school year starts. The
+ * target is what has to be saved by enrollment: later school years are
+ * discounted at the expected return, since that money keeps growing while
+ * the first years are paid. Contributions are monthly, at the end of each month.
+ */
+
+import type { CollegePlan } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { toSnapshotDate } from './balanceSnapshots';
+
+// School years start in August
+const ENROLLMENT_MONTH = 7;
+
+export interface CollegeProjection {
+  enrollmentDate: Date;
+  monthsUntilEnrollment: number;
+  totalCostToday: number; // All school years at today's prices
+  projectedCost: number; // All school years at their inflated prices
+  targetAtEnrollment: number; // Needed in savings at enrollment
+  currentSavings: number;
+  projectedSavings: number; // Current savings grown to enrollment, no new contributions
+  requiredMonthlyContribution: number | null; // null when enrollment has passed and there's a shortfall
+  fundedPercent: number;
+}
+
+export interface CollegeCurvePoint {
+  date: string; // YYYY-MM-DD
+  balance: number;
+}
+
+export interface CollegeProgress {
+  projected: CollegeCurvePoint[]; // On-track path from the plan's starting balance
+  actual: CollegeCurvePoint[]; // Linked account balances at the end of each month
+  expectedToday: number;
+  aheadBy: number; // Negative when behind the projection
+  onTrack: boolean;
+}
+
+type PlanInputs = Pick<
+  CollegePlan,
+  'birthYear' | 'enrollmentAge' | 'yearsOfSchool' | 'annualCost' | 'educationInflation' | 'expectedReturn'
+>;
+
+function monthStart(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function addMonths(date: Date, months: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+}
+
+function monthsBetween(from: Date, to: Date): number {
+  return (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export function getEnrollmentDate(plan: Pick<PlanInputs, 'birthYear' | 'enrollmentAge'>): Date {
+  return new Date(Date.UTC(plan.birthYear + plan.enrollmentAge, ENROLLMENT_MONTH, 1));
+}
+
+// Monthly rate equivalent to an annual percentage
+function monthlyRate(annualPercent: number): number {
+  return Math.pow(1 + annualPercent / 100, 1 / 12) - 1;
+}
+
+// Value after `months` of growth plus end-of-month contributions
+function futureValue(start: number, contribution: number, rate: number, months: number): number {
+  const growth = Math.pow(1 + rate, months);
+  const contributions = rate === 0 ? contribution * months : (contribution * (growth - 1)) / rate;
+  return start * growth + contributions;
+}
+
+// Monthly contribution that grows `start` to `target` in `months`
+function requiredContribution(start: number, target: number, rate: number, months: number): number | null {
+  const shortfall = target - start * Math.pow(1 + rate, months);
+  if (shortfall <= 0) return 0;
+  if (months <= 0) return null;
+  return rate === 0 ? shortfall / months : (shortfall * rate) / (Math.pow(1 + rate, months) - 1);
+}
+
+/**
+ * Cost, target and required contribution for a plan given current savings.
+ */
+export function projectCollegePlan(
+  plan: PlanInputs,
+  currentSavings: number,
+  now: Date = new Date()
+): CollegeProjection {
+  const enrollmentDate = getEnrollmentDate(plan);
+  const monthsUntilEnrollment = Math.max(0, monthsBetween(monthStart(now), enrollmentDate));
+  const yearsUntilEnrollment = monthsUntilEnrollment / 12;
+
+  const annualCost = Number(plan.annualCost);
+  const inflation = Number(plan.educationInflation) / 100;
+  const annualReturn = Number(plan.expectedReturn) / 100;
+  const rate = monthlyRate(Number(plan.expectedReturn));
+
+  let projectedCost = 0;
+  let targetAtEnrollment = 0;
+  for (let year = 0; year < plan.yearsOfSchool; year++) {
+    const cost = annualCost * Math.pow(1 + inflation, yearsUntilEnrollment + year);
+    projectedCost += cost;
+    targetAtEnrollment += cost / Math.pow(1 + annualReturn, year);
+  }
+
+  const projectedSavings = futureValue(currentSavings, 0, rate, monthsUntilEnrollment);
+  const required = requiredContribution(currentSavings, targetAtEnrollment, rate, monthsUntilEnrollment);
+
+  return {
+    enrollmentDate,
+    monthsUntilEnrollment,
+    totalCostToday: round(annualCost * plan.yearsOfSchool),
+    projectedCost: round(projectedCost),
+    targetAtEnrollment: round(targetAtEnrollment),
+    currentSavings: round(currentSavings),
+    projectedSavings: round(projectedSavings),
+    requiredMonthlyContribution: required === null ? null : round(required),
+    fundedPercent: targetAtEnrollment > 0 ? round((projectedSavings / targetAtEnrollment) * 100) : 100,
+  };
+}
+
+/**
+ * Combined balance of the linked accounts at the end of each month from
+ * `start` through today. Balances carry forward between snapshots; the last
+ * point is today's live balance.
+ */
+async function getLinkedBalanceHistory(
+  accounts: { id: string; currentBalance: unknown }[],
+  start: Date
+): Promise<CollegeCurvePoint[]> {
+  const today = toSnapshotDate();
+  const accountIds = accounts.map((a) => a.id);
+
+  const snapshots =
+    accountIds.length === 0
+      ? []
+      : await prisma.accountBalanceSnapshot.findMany({
+          where: { accountId: { in: accountIds }, date: { lte: today } },
+          select: { accountId: true, date: true, balance: true },
+          orderBy: { date: 'asc' },
+        });
+
+  const latest = new Map<string, number>();
+  const points: CollegeCurvePoint[] = [];
+  let cursor = 0;
+
+  for (let month = monthStart(start); month <= today; month = addMonths(month, 1)) {
+    const monthEnd = new Date(Math.min(addMonths(month, 1).getTime() - 1, today.getTime()));
+    const isCurrentMonth = addMonths(month, 1) > today;
+
+    while (cursor < snapshots.length && snapshots[cursor].date <= monthEnd) {
+      latest.set(snapshots[cursor].accountId, Number(snapshots[cursor].balance));
+      cursor++;
+    }
+
+    const balance = isCurrentMonth
+      ? accounts.reduce((sum, a) => sum + Number(a.currentBalance), 0)
+      : Array.from(latest.values()).reduce((sum, b) => sum + b, 0);
+
+    points.push({ date: formatDay(isCurrentMonth ? today : monthEnd), balance: round(balance) });
+  }
+
+  return points;
+}
+
+// Combined balance on a date: each account's latest snapshot on or before it,
+// or its live balance if it has no history that far back
+async function getLinkedBalanceOn(
+  accounts: { id: string; currentBalance: unknown }[],
+  date: Date
+): Promise<number> {
+  let total = 0;
+  for (const account of accounts) {
+    const snapshot = await prisma.accountBalanceSnapshot.findFirst({
+      where: { accountId: account.id, date: { lte: toSnapshotDate(date) } },
+      orderBy: { date: 'desc' },
+      select: { balance: true },
+    });
+    total += Number(snapshot ? snapshot.balance : account.currentBalance);
+  }
+  return total;
+}
+
+/**
+ * Compare linked account balances with the path the plan expected when it
+ * was created: the starting balance plus the contribution that was required
+ * then, growing at the expected return.
+ */
+export async function getCollegePlanProgress(
+  plan: PlanInputs & { createdAt: Date },
+  accounts: { id: string; currentBalance: unknown }[]
+): Promise<CollegeProgress> {
+  const start = monthStart(plan.createdAt);
+  const actual = await getLinkedBalanceHistory(accounts, start);
+
+  const startingBalance = await getLinkedBalanceOn(accounts, plan.createdAt);
+
+  const enrollmentDate = getEnrollmentDate(plan);
+  const totalMonths = Math.max(0, monthsBetween(start, enrollmentDate));
+  const rate = monthlyRate(Number(plan.expectedReturn));
+  const startProjection = projectCollegePlan(plan, startingBalance, start);
+  const contribution = startProjection.requiredMonthlyContribution ?? 0;
+
+  // Keep long horizons to a reasonable number of points
+  const step = totalMonths <= 36 ? 1 : totalMonths <= 120 ? 3 : 12;
+  const projected: CollegeCurvePoint[] = [];
+  for (let month = 0; month <= totalMonths; month += step) {
+    projected.push({
+      date: formatDay(addMonths(start, month)),
+      balance: round(futureValue(startingBalance, contribution, rate, month)),
+    });
+  }
+  if (totalMonths % step !== 0) {
+    projected.push({
+      date: formatDay(enrollmentDate),
+      balance: round(futureValue(startingBalance, contribution, rate, totalMonths)),
+    });
+  }
+
+  const monthsElapsed = Math.min(totalMonths, Math.max(0, monthsBetween(start, new Date())));
+  const expectedToday = round(futureValue(startingBalance, contribution, rate, monthsElapsed));
+  const currentBalance = actual[actual.length - 1]?.balance ?? 0;
+
+  return {
+    projected,
+    actual,
+    expectedToday,
+    aheadBy: round(currentBalance - expectedToday),
+    onTrack: currentBalance >= expectedToday,
+  };
+}
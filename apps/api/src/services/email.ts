@@ -1,68 +1,171 @@
-import { SESClient, SendEmailCommand } from '@aws-sdk/client-ses';
+/**
+ * Email
+ * Outgoing mail goes through a swappable transport so tests and scripts can
+ * capture it without SES.
+ *
+ * EMAIL_TRANSPORT selects the transport: "ses", "console" or "memory". When
+ * unset, SES is used if AWS_ACCESS_KEY_ID is set, otherwise mail is logged to
+ * the console.
+ */
 
-const ses = new SESClient({
-  region: process.env.AWS_REGION || 'us-east-1',
-  credentials: process.env.AWS_ACCESS_KEY_ID
-    ? {
-        accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-      }
-    : undefined, // Uses default credential chain if not set
-});
+import { SESClient, SendEmailCommand } from '@aws-sdk/client-ses';
 
 const EMAIL_FROM = process.env.EMAIL_FROM || 'no-reply@otter.money';
 const APP_URL = process.env.APP_URL || 'http://localhost:3001';
 
-interface SendEmailOptions {
+export interface EmailMessage {
   to: string;
   subject: string;
   html: string;
   text?: string;
 }
 
-export async function sendEmail({ to, subject, html, text }: SendEmailOptions): Promise<boolean> {
-  // Skip sending in development if SES not configured
-  if (!process.env.AWS_ACCESS_KEY_ID) {
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<boolean>;
+}
+
+// ============================================
+// TRANSPORTS
+// ============================================
+
+export class SesEmailTransport implements EmailTransport {
+  private ses = new SESClient({
+    region: process.env.AWS_REGION || 'us-east-1',
+    credentials: process.env.AWS_ACCESS_KEY_ID
+      ? {
+          accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+          secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+        }
+      : undefined, // Uses default credential chain if not set
+  });
+
+  async send({ to, subject, html, text }: EmailMessage): Promise<boolean> {
+    try {
+      const command = new SendEmailCommand({
+        Source: EMAIL_FROM,
+        Destination: {
+          ToAddresses: [to],
+        },
+        Message: {
+          Subject: { Data: subject },
+          Body: {
+            Html: { Data: html },
+            ...(text && { Text: { Data: text } }),
+          },
+        },
+      });
+
+      await this.ses.send(command);
+      console.log(`📧 Email sent to ${to}`);
+      return true;
+    } catch (error) {
+      console.error('Failed to send email:', error);
+      return false;
+    }
+  }
+}
+
+// Development: log mail instead of sending it, including the text body so links can be followed
+export class ConsoleEmailTransport implements EmailTransport {
+  async send({ to, subject, text }: EmailMessage): Promise<boolean> {
     console.log('📧 Email skipped (SES not configured)');
     console.log(`   To: ${to}`);
     console.log(`   Subject: ${subject}`);
+    if (text) console.log(text.replace(/^/gm, '   '));
     return false;
   }
+}
 
-  try {
-    const command = new SendEmailCommand({
-      Source: EMAIL_FROM,
-      Destination: {
-        ToAddresses: [to],
-      },
-      Message: {
-        Subject: { Data: subject },
-        Body: {
-          Html: { Data: html },
-          ...(text && { Text: { Data: text } }),
-        },
-      },
-    });
+// Tests: keep mail in memory for inspection
+export class MemoryEmailTransport implements EmailTransport {
+  readonly sent: EmailMessage[] = [];
 
-    await ses.send(command);
-    console.log(`📧 Email sent to ${to}`);
+  async send(message: EmailMessage): Promise<boolean> {
+    this.sent.push(message);
     return true;
-  } catch (error) {
-    console.error('Failed to send email:', error);
-    return false;
+  }
+
+  // Most recent message sent to an address
+  lastTo(to: string): EmailMessage | undefined {
+    return [...this.sent].reverse().find((m) => m.to === to);
+  }
+
+  clear() {
+    this.sent.length = 0;
   }
 }
 
-export async function sendPasswordResetEmail(to: string, token: string, userName: string): Promise<boolean> {
-  const resetUrl = `${APP_URL}/reset-password?token=${token}`;
+// ============================================
+// SELECTION
+// ============================================
+
+let transport: EmailTransport | null = null;
+
+/**
+ * Replace the configured transport (tests, scripts). Pass null to restore.
+ */
+export function setEmailTransport(next: EmailTransport | null) {
+  transport = next;
+}
+
+export function getEmailTransport(): EmailTransport {
+  if (transport) return transport;
+
+  const configured = process.env.EMAIL_TRANSPORT;
+  if (configured === 'memory') {
+    transport = new MemoryEmailTransport();
+  } else if (configured === 'console') {
+    transport = new ConsoleEmailTransport();
+  } else if (configured === 'ses' || (!configured && process.env.AWS_ACCESS_KEY_ID)) {
+    transport = new SesEmailTransport();
+  } else {
+    if (configured) console.warn(`Unknown EMAIL_TRANSPORT "${configured}", logging email instead`);
+    transport = new ConsoleEmailTransport();
+  }
+  return transport;
+}
+
+export async function sendEmail(message: EmailMessage): Promise<boolean> {
+  return getEmailTransport().send(message);
+}
+
+// ============================================
+// TEMPLATES
+// ============================================
 
-  const html = `
+interface EmailContent {
+  title: string;
+  userName: string;
+  intro: string;
+  button?: { label: string; url: string };
+  footnote: string;
+}
+
+function renderHtml({ title, userName, intro, button, footnote }: EmailContent): string {
+  const buttonHtml = button
+    ? `
+  <div style="text-align: center; margin: 30px 0;">
+    <a href="${button.url}" style="background-color: #9F6FBA; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: 600; display: inline-block;">
+      ${button.label}
+    </a>
+  </div>
+
+  <p style="color: #666; font-size: 14px;">${footnote}</p>
+
+  <p style="color: #666; font-size: 14px;">If the button doesn't work, copy and paste this link into your browser:</p>
+  <p style="color: #9F6FBA; font-size: 14px; word-break: break-all;">${button.url}</p>
+`
+    : `
+  <p style="color: #666; font-size: 14px;">${footnote}</p>
+`;
+
+  return `
 <!DOCTYPE html>
 <html>
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Reset Your Password</title>
+  <title>${title}</title>
 </head>
 <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
   <div style="text-align: center; margin-bottom: 30px;">
@@ -71,19 +174,8 @@ export async function sendPasswordResetEmail(to: string, token: string, userName
 
   <p>Hi ${userName},</p>
 
-  <p>We received a request to reset your password. Click the button below to choose a new one:</p>
-
-  <div style="text-align: center; margin: 30px 0;">
-    <a href="${resetUrl}" style="background-color: #9F6FBA; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: 600; display: inline-block;">
-      Reset Password
-    </a>
-  </div>
-
-  <p style="color: #666; font-size: 14px;">This link will expire in 1 hour. If you didn't request a password reset, you can safely ignore this email.</p>
-
-  <p style="color: #666; font-size: 14px;">If the button doesn't work, copy and paste this link into your browser:</p>
-  <p style="color: #9F6FBA; font-size: 14px; word-break: break-all;">${resetUrl}</p>
-
+  <p>${intro}</p>
+${buttonHtml}
   <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
 
   <p style="color: #999; font-size: 12px; text-align: center;">
@@ -92,23 +184,97 @@ export async function sendPasswordResetEmail(to: string, token: string, userName
 </body>
 </html>
   `.trim();
+}
 
-  const text = `
-Hi ${userName},
+function renderText({ userName, intro, button, footnote }: EmailContent, linkIntro?: string): string {
+  return [
+    `Hi ${userName},`,
+    linkIntro || intro,
+    button?.url,
+    footnote,
+    '- Otter Money',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+}
 
-We received a request to reset your password. Visit the link below to choose a new one:
+export async function sendPasswordResetEmail(to: string, token: string, userName: string): Promise<boolean> {
+  const resetUrl = `${APP_URL}/reset-password?token=${token}`;
+  const content: EmailContent = {
+    title: 'Reset Your Password',
+    userName,
+    intro: 'We received a request to reset your password. Click the button below to choose a new one:',
+    button: { label: 'Reset Password', url: resetUrl },
+    footnote:
+      "This link will expire in 1 hour. If you didn't request a password reset, you can safely ignore this email.",
+  };
 
-${resetUrl}
+  return sendEmail({
+    to,
+    subject: 'Reset your Otter Money password',
+    html: renderHtml(content),
+    text: renderText(
+      content,
+      'We received a request to reset your password. Visit the link below to choose a new one:'
+    ),
+  });
+}
 
-This link will expire in 1 hour. If you didn't request a password reset, you can safely ignore this email.
+export async function sendVerificationEmail(to: string, token: string, userName: string): Promise<boolean> {
+  const verifyUrl = `${APP_URL}/verify-email?token=${token}`;
+  const content: EmailContent = {
+    title: 'Verify Your Email',
+    userName,
+    intro: 'Welcome to Otter Money! Please confirm this is your email address:',
+    button: { label: 'Verify Email', url: verifyUrl },
+    footnote: "This link will expire in 24 hours. If you didn't create an account, you can safely ignore this email.",
+  };
 
-- Otter Money
-  `.trim();
+  return sendEmail({
+    to,
+    subject: 'Verify your Otter Money email',
+    html: renderHtml(content),
+    text: renderText(content, 'Welcome to Otter Money! Visit the link below to confirm this is your email address:'),
+  });
+}
+
+export async function sendEmailChangeConfirmation(
+  to: string,
+  token: string,
+  userName: string
+): Promise<boolean> {
+  const confirmUrl = `${APP_URL}/verify-email?token=${token}`;
+  const content: EmailContent = {
+    title: 'Confirm Your New Email',
+    userName,
+    intro: 'You asked to change your Otter Money email to this address. Confirm it to finish the change:',
+    button: { label: 'Confirm New Email', url: confirmUrl },
+    footnote:
+      "This link will expire in 24 hours. Your email won't change until you confirm. If you didn't ask for this, you can safely ignore this email.",
+  };
 
   return sendEmail({
     to,
-    subject: 'Reset your Otter Money password',
-    html,
-    text,
+    subject: 'Confirm your new Otter Money email',
+    html: renderHtml(content),
+    text: renderText(content, 'You asked to change your Otter Money email to this address. Visit the link below to confirm it:'),
+  });
+}
+
+// Sent to the old address when a change is requested
+export async function sendEmailChangeNotice(to: string, newEmail: string, userName: string): Promise<boolean> {
+  const content: EmailContent = {
+    title: 'Email Change Requested',
+    userName,
+    intro: `Someone asked to change your Otter Money email to ${newEmail}. The change only happens once the new address is confirmed.`,
+    footnote:
+      "If this wasn't you, change your password right away. Your email stays the same unless the new address is confirmed.",
+  };
+
+  return sendEmail({
+    to,
+    subject: 'Your Otter Money email is being changed',
+    html: renderHtml(content),
+    text: renderText(content),
   });
 }
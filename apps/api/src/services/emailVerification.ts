@@ -0,0 +1,165 @@
+/**
+ * Email verification
+ * Confirms a user's email address, and confirms a new address before a
+ * change of email takes effect. Tokens expire after a day, and sending is
+ * throttled per user so the resend button can't be used to spam an inbox.
+ */
+
+import crypto from 'crypto';
+import type { User } from '@prisma/client';
+import { ERROR_CODES } from '@otter-money/shared';
+import { prisma } from '../utils/prisma';
+import { AppError } from '../middleware/error';
+import {
+  sendEmailChangeConfirmation,
+  sendEmailChangeNotice,
+  sendVerificationEmail,
+} from './email';
+
+const TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Throttling: a short wait between emails, and a daily cap
+const RESEND_COOLDOWN_MS = 60 * 1000;
+const MAX_EMAILS_PER_DAY = 5;
+
+type EmailUser = Pick<User, 'id' | 'email' | 'name'>;
+
+async function assertCanSend(userId: string) {
+  const recent = await prisma.emailVerificationToken.findMany({
+    where: { userId, createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) } },
+    select: { createdAt: true },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (recent.length > 0) {
+    const waitMs = recent[0].createdAt.getTime() + RESEND_COOLDOWN_MS - Date.now();
+    if (waitMs > 0) {
+      throw new AppError(
+        ERROR_CODES.RATE_LIMITED,
+        `Please wait ${Math.ceil(waitMs / 1000)} seconds before requesting another email`,
+        429
+      );
+    }
+  }
+
+  if (recent.length >= MAX_EMAILS_PER_DAY) {
+    throw new AppError(
+      ERROR_CODES.RATE_LIMITED,
+      'Too many emails requested today. Please try again tomorrow.',
+      429
+    );
+  }
+}
+
+// Create a token, retiring the user's earlier unused tokens of the same kind
+async function createToken(userId: string, newEmail: string | null): Promise<string> {
+  await prisma.emailVerificationToken.updateMany({
+    where: {
+      userId,
+      usedAt: null,
+      newEmail: newEmail === null ? null : { not: null },
+    },
+    data: { usedAt: new Date() },
+  });
+
+  const token = crypto.randomBytes(32).toString('hex');
+  await prisma.emailVerificationToken.create({
+    data: {
+      userId,
+      token,
+      newEmail,
+      expiresAt: new Date(Date.now() + TOKEN_TTL_MS),
+    },
+  });
+  return token;
+}
+
+/**
+ * Email a verification link to the user's current address. Throttled unless
+ * `throttle` is false (right after registering).
+ */
+export async function sendEmailVerification(
+  user: EmailUser,
+  { throttle = true }: { throttle?: boolean } = {}
+): Promise<string> {
+  if (throttle) await assertCanSend(user.id);
+
+  const token = await createToken(user.id, null);
+  await sendVerificationEmail(user.email, token, user.name);
+  return token;
+}
+
+/**
+ * Start a change of email: the new address gets a confirmation link and the
+ * old one a heads-up. Nothing changes until the link is followed.
+ */
+export async function requestEmailChange(user: EmailUser, newEmail: string): Promise<string> {
+  const email = newEmail.trim();
+
+  if (email.toLowerCase() === user.email.toLowerCase()) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'That is already your email address', 400);
+  }
+
+  const taken = await prisma.user.findUnique({ where: { email } });
+  if (taken) {
+    throw new AppError(ERROR_CODES.CONFLICT, 'Email already registered', 409);
+  }
+
+  await assertCanSend(user.id);
+
+  const token = await createToken(user.id, email);
+  await sendEmailChangeConfirmation(email, token, user.name);
+  await sendEmailChangeNotice(user.email, email, user.name);
+  return token;
+}
+
+/**
+ * Follow a link from a verification or change-of-email message. Returns the
+ * updated user.
+ */
+export async function confirmEmailToken(token: string): Promise<User> {
+  const record = await prisma.emailVerificationToken.findUnique({
+    where: { token },
+  });
+
+  if (!record || record.usedAt) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Invalid or already used link', 400);
+  }
+
+  if (record.expiresAt < new Date()) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'This link has expired', 400);
+  }
+
+  if (!record.newEmail) {
+    const [user] = await prisma.$transaction([
+      prisma.user.update({
+        where: { id: record.userId },
+        data: { emailVerified: true },
+      }),
+      prisma.emailVerificationToken.update({
+        where: { id: record.id },
+        data: { usedAt: new Date() },
+      }),
+    ]);
+    return user;
+  }
+
+  // Someone may have registered the address since the change was requested
+  const taken = await prisma.user.findUnique({ where: { email: record.newEmail } });
+  if (taken) {
+    throw new AppError(ERROR_CODES.CONFLICT, 'Email already registered', 409);
+  }
+
+  // Following the link proves the new address, and retires any links sent to the old one
+  const [user] = await prisma.$transaction([
+    prisma.user.update({
+      where: { id: record.userId },
+      data: { email: record.newEmail, emailVerified: true },
+    }),
+    prisma.emailVerificationToken.updateMany({
+      where: { userId: record.userId, usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+  ]);
+  return user;
+}
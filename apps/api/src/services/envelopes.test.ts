@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Decimal } from '@prisma/client/runtime/library';
+
+// One household's budgets in memory; income comes from getPeriodIncome
+const db = vi.hoisted(() => {
+  const state = {
+    budgetMode: 'ENVELOPE',
+    income: 0,
+    locked: [] as string[],
+    budgets: [] as { id: string; categoryId: string; ownerId: string | null; amount: Decimal }[],
+  };
+  const client = {
+    // The household row lock withAssignmentLock takes
+    $queryRaw: async (_query: TemplateStringsArray, householdId: string) => {
+      state.locked.push(householdId);
+      return [];
+    },
+    household: {
+      findUnique: async () => ({ budgetMode: state.budgetMode }),
+    },
+    budget: {
+      aggregate: async () => ({
+        _sum: {
+          amount: state.budgets.reduce((sum, budget) => sum.plus(budget.amount), new Decimal(0)),
+        },
+      }),
+      findFirst: async ({ where }: { where: { categoryId: string; ownerId: null } }) =>
+        state.budgets.find((b) => b.categoryId === where.categoryId && b.ownerId === null) ?? null,
+      create: async ({ data }: { data: { categoryId: string; amount: Decimal } }) => {
+        const budget = { id: `budget-${state.budgets.length + 1}`, ownerId: null, ...data };
+        state.budgets.push(budget);
+        return budget;
+      },
+      update: async ({ where, data }: { where: { id: string }; data: { amount: { increment: Decimal } } }) => {
+        const budget = state.budgets.find((b) => b.id === where.id)!;
+        budget.amount = budget.amount.plus(data.amount.increment);
+        return budget;
+      },
+    },
+    budgetAssignment: {
+      create: async ({ data }: { data: Record<string, unknown> }) => data,
+    },
+  };
+
+  return {
+    state,
+    prisma: { ...client, $transaction: async (fn: (tx: typeof client) => unknown) => fn(client) },
+  };
+});
+
+vi.mock('../utils/prisma', () => ({ prisma: db.prisma }));
+vi.mock('./budgetSpending', () => ({
+  getBudgetSpending: async () => ({ budgets: [], members: [] }),
+  getPeriodIncome: async () => db.state.income,
+}));
+
+import { assignToEnvelope, checkBudgetAmountChange, getEnvelopeSummary } from './envelopes';
+
+const actor = { id: 'user-1', householdId: 'household-1' };
+
+describe('assignToEnvelope', () => {
+  beforeEach(() => {
+    db.state.budgetMode = 'ENVELOPE';
+    db.state.income = 1000;
+    db.state.locked = [];
+    db.state.budgets = [
+      { id: 'budget-a', categoryId: 'groceries', ownerId: null, amount: new Decimal(600) },
+      { id: 'budget-b', categoryId: 'fun', ownerId: 'user-2', amount: new Decimal(150) },
+    ];
+  });
+
+  it('assigns up to what is left of the period income', async () => {
+    await assignToEnvelope(actor, { period: '2026-10', categoryId: 'rent', amount: 250 });
+
+    expect(db.state.budgets.find((b) => b.categoryId === 'rent')?.amount.toNumber()).toBe(250);
+    expect(db.state.locked).toEqual(['household-1']);
+  });
+
+  it('rejects assigning more than is left, counting personal budgets as assigned', async () => {
+    await expect(
+      assignToEnvelope(actor, { period: '2026-10', categoryId: 'groceries', amount: 250.01 })
+    ).rejects.toMatchObject({ statusCode: 400, message: 'Only $250.00 is left to assign this period' });
+    expect(db.state.budgets[0].amount.toNumber()).toBe(600);
+  });
+
+  it('always lets money be taken back out of an envelope', async () => {
+    db.state.income = 0;
+
+    await assignToEnvelope(actor, { period: '2026-10', categoryId: 'groceries', amount: -100 });
+
+    expect(db.state.budgets[0].amount.toNumber()).toBe(500);
+  });
+
+  it('only works in envelope mode', async () => {
+    db.state.budgetMode = 'STANDARD';
+
+    await expect(
+      assignToEnvelope(actor, { period: '2026-10', categoryId: 'groceries', amount: 10 })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    await expect(getEnvelopeSummary('household-1', '2026-10')).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe('checkBudgetAmountChange', () => {
+  const groceries = { ownerId: null, period: '2026-10', amount: 600 };
+  const funMoney = { ownerId: 'user-2', period: '2026-10', amount: 150 };
+  const tx = db.prisma as unknown as Parameters<typeof checkBudgetAmountChange>[0];
+
+  beforeEach(() => {
+    db.state.income = 1000;
+    db.state.budgets = [
+      { id: 'budget-a', categoryId: 'groceries', ownerId: null, amount: new Decimal(600) },
+      { id: 'budget-b', categoryId: 'fun', ownerId: 'user-2', amount: new Decimal(150) },
+    ];
+  });
+
+  it('keeps joint budget amounts to the ledger', async () => {
+    await expect(checkBudgetAmountChange(tx, 'household-1', groceries, 500)).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    await expect(checkBudgetAmountChange(tx, 'household-1', groceries, 600)).resolves.toBeUndefined();
+  });
+
+  it('lets allowances grow only by what is left to assign', async () => {
+    await expect(checkBudgetAmountChange(tx, 'household-1', funMoney, 400)).resolves.toBeUndefined();
+    await expect(checkBudgetAmountChange(tx, 'household-1', funMoney, 400.01)).rejects.toMatchObject({
+      statusCode: 400,
+      message: 'Only $250.00 is left to assign this period',
+    });
+    await expect(checkBudgetAmountChange(tx, 'household-1', funMoney, 10)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Envelope budgeting
+ * In envelope mode a household budgets zero-based: each period's income is
+ * assigned to category budgets ("envelopes") until nothing is left to assign,
+ * and money can be moved between envelopes as the period goes on. A budget's
+ * amount is what has been assigned to it. Every assignment and move is kept
+ * in a ledger of BudgetAssignment rows.
+ *
+ * Envelopes are joint budgets. Partners' personal budgets (allowances) are
+ * funded from the same income, so they count as assigned, but money isn't
+ * moved in or out of them here: they're set on the budget itself, and only
+ * from what's left to assign. Budget routes check amounts set there with
+ * checkBudgetAmountChange, so joint budgets don't change outside the ledger.
+ *
+ * Everything that changes what's assigned runs in withAssignmentLock, so two
+ * changes in the same household can't both spend what's left to assign.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { ERROR_CODES } from '@otter-money/shared';
+import { AppError } from '../middleware/error';
+import { prisma } from '../utils/prisma';
+import { getBudgetSpending, getPeriodIncome } from './budgetSpending';
+
+const categorySelect = {
+  select: {
+    id: true,
+    name: true,
+    icon: true,
+    color: true,
+  },
+};
+
+export const assignmentInclude = {
+  fromCategory: categorySelect,
+  toCategory: categorySelect,
+  actor: { select: { id: true, name: true } },
+} satisfies Prisma.BudgetAssignmentInclude;
+
+type Assignment = Prisma.BudgetAssignmentGetPayload<{ include: typeof assignmentInclude }>;
+
+export function formatAssignment(assignment: Assignment) {
+  return {
+    id: assignment.id,
+    period: assignment.period,
+    fromCategory: assignment.fromCategory,
+    toCategory: assignment.toCategory,
+    amount: Number(assignment.amount),
+    note: assignment.note,
+    actor: assignment.actor,
+    createdAt: assignment.createdAt,
+  };
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export async function isEnvelopeMode(householdId: string): Promise<boolean> {
+  const household = await prisma.household.findUnique({
+    where: { id: householdId },
+    select: { budgetMode: true },
+  });
+  return household?.budgetMode === 'ENVELOPE';
+}
+
+// Envelopes only exist for a household that budgets in envelope mode
+async function checkEnvelopeMode(householdId: string) {
+  if (!(await isEnvelopeMode(householdId))) {
+    throw new AppError(
+      ERROR_CODES.VALIDATION_ERROR,
+      'Envelopes are only available when the household budgets in envelope mode',
+      400
+    );
+  }
+}
+
+/**
+ * A period's income, what has been assigned of it, and each envelope's
+ * spending (the same lines as /budgets/spending)
+ */
+export async function getEnvelopeSummary(householdId: string, period: string) {
+  await checkEnvelopeMode(householdId);
+
+  const [{ budgets, members }, income] = await Promise.all([
+    getBudgetSpending(householdId, period),
+    getPeriodIncome(householdId, period),
+  ]);
+  const envelopes = budgets.filter((budget) => budget.ownerId === null);
+  const allowances = budgets
+    .filter((budget) => budget.ownerId !== null)
+    .reduce((sum, budget) => sum + budget.budgetAmount, 0);
+  const assigned = budgets.reduce((sum, budget) => sum + budget.budgetAmount, 0);
+
+  return {
+    period,
+    income: roundCents(income),
+    assigned: roundCents(assigned),
+    allowances: roundCents(allowances),
+    toBeAssigned: roundCents(income - assigned),
+    envelopes,
+    members,
+  };
+}
+
+type BudgetClient = Pick<typeof prisma, 'budget'>;
+type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+/**
+ * Run fn in a transaction holding the household's row lock, so changes to
+ * what's assigned happen one at a time and each sees the one before.
+ */
+export function withAssignmentLock<T>(householdId: string, fn: (tx: TransactionClient) => Promise<T>) {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM "Household" WHERE id = ${householdId} FOR UPDATE`;
+    return fn(tx);
+  });
+}
+
+// Reject assigning more than is left of the period's income
+async function checkLeftToAssign(tx: BudgetClient, householdId: string, period: string, increase: number) {
+  if (increase <= 0) return;
+
+  const [income, budgets] = await Promise.all([
+    getPeriodIncome(householdId, period),
+    tx.budget.aggregate({ where: { householdId, period }, _sum: { amount: true } }),
+  ]);
+  const toBeAssigned = roundCents(income - Number(budgets._sum.amount ?? 0));
+  if (increase > toBeAssigned) {
+    throw new AppError(
+      ERROR_CODES.VALIDATION_ERROR,
+      `Only $${Math.max(toBeAssigned, 0).toFixed(2)} is left to assign this period`,
+      400
+    );
+  }
+}
+
+/**
+ * Check a budget amount set directly while the household is in envelope mode.
+ * A joint budget is an envelope, so its amount only changes by assigning and
+ * moving money; an allowance can be set, from what's left to assign. Call it
+ * in withAssignmentLock, before the change is written.
+ */
+export async function checkBudgetAmountChange(
+  tx: BudgetClient,
+  householdId: string,
+  budget: { ownerId: string | null; period: string; amount: number },
+  amount: number
+) {
+  const increase = roundCents(amount - budget.amount);
+  if (increase === 0) return;
+
+  if (!budget.ownerId) {
+    throw new AppError(
+      ERROR_CODES.VALIDATION_ERROR,
+      'Joint budgets are envelopes in envelope mode; assign or move money to change them',
+      400
+    );
+  }
+  await checkLeftToAssign(tx, householdId, budget.period, increase);
+}
+
+// A category's envelope (joint budget) for a period, if it has one
+function findEnvelope(tx: BudgetClient, householdId: string, categoryId: string, period: string) {
+  return tx.budget.findFirst({ where: { householdId, categoryId, period, ownerId: null } });
+}
+
+// Add to an envelope, creating it with rollover on so whatever is left stays in it
+async function fillEnvelope(
+  tx: BudgetClient,
+  householdId: string,
+  categoryId: string,
+  period: string,
+  amount: number
+) {
+  const envelope = await findEnvelope(tx, householdId, categoryId, period);
+  if (envelope) {
+    await tx.budget.update({
+      where: { id: envelope.id },
+      data: { amount: { increment: new Decimal(amount) }, fromTemplate: false },
+    });
+  } else {
+    await tx.budget.create({
+      data: { householdId, categoryId, period, amount: new Decimal(amount), rollover: true },
+    });
+  }
+}
+
+interface Actor {
+  id: string;
+  householdId: string;
+}
+
+/**
+ * Assign money to a category's envelope, or take it back out to "to be
+ * assigned" with a negative amount. An envelope is created by its first
+ * assignment, and no more can be assigned than is left of the period's income.
+ */
+export async function assignToEnvelope(
+  actor: Actor,
+  input: { period: string; categoryId: string; amount: number; note?: string }
+) {
+  const { householdId } = actor;
+  await checkEnvelopeMode(householdId);
+
+  return withAssignmentLock(householdId, async (tx) => {
+    await checkLeftToAssign(tx, householdId, input.period, input.amount);
+
+    const budget = await findEnvelope(tx, householdId, input.categoryId, input.period);
+    const assigned = budget ? Number(budget.amount) : 0;
+    if (assigned + input.amount < 0) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        `Only $${assigned.toFixed(2)} is assigned to this envelope`,
+        400
+      );
+    }
+
+    await fillEnvelope(tx, householdId, input.categoryId, input.period, input.amount);
+
+    return tx.budgetAssignment.create({
+      data: {
+        householdId,
+        period: input.period,
+        fromCategoryId: input.amount < 0 ? input.categoryId : null,
+        toCategoryId: input.amount > 0 ? input.categoryId : null,
+        amount: new Decimal(Math.abs(input.amount)),
+        note: input.note,
+        actorId: actor.id,
+      },
+      include: assignmentInclude,
+    });
+  });
+}
+
+/**
+ * Move money from one envelope to another within a period. Only money
+ * assigned this period can be moved, not what rolled over into the envelope.
+ */
+export async function moveBetweenEnvelopes(
+  actor: Actor,
+  input: { period: string; fromCategoryId: string; toCategoryId: string; amount: number; note?: string }
+) {
+  const { householdId } = actor;
+  await checkEnvelopeMode(householdId);
+  if (input.fromCategoryId === input.toCategoryId) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Choose two different envelopes', 400);
+  }
+
+  return withAssignmentLock(householdId, async (tx) => {
+    const from = await findEnvelope(tx, householdId, input.fromCategoryId, input.period);
+    const assigned = from ? Number(from.amount) : 0;
+    if (!from || assigned < input.amount) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        `Only $${assigned.toFixed(2)} is assigned to the envelope you're moving from`,
+        400
+      );
+    }
+
+    await tx.budget.update({
+      where: { id: from.id },
+      data: { amount: { decrement: new Decimal(input.amount) }, fromTemplate: false },
+    });
+    await fillEnvelope(tx, householdId, input.toCategoryId, input.period, input.amount);
+
+    return tx.budgetAssignment.create({
+      data: {
+        householdId,
+        period: input.period,
+        fromCategoryId: input.fromCategoryId,
+        toCategoryId: input.toCategoryId,
+        amount: new Decimal(input.amount),
+        note: input.note,
+        actorId: actor.id,
+      },
+      include: assignmentInclude,
+    });
+  });
+}
+
+// The period's ledger, newest first
+export async function listAssignments(householdId: string, period: string) {
+  await checkEnvelopeMode(householdId);
+
+  const assignments = await prisma.budgetAssignment.findMany({
+    where: { householdId, period },
+    include: assignmentInclude,
+    orderBy: { createdAt: 'desc' },
+  });
+  return assignments.map(formatAssignment);
+}
@@ -1,19 +1,36 @@
 /**
  * Import matcher service
- * Handles deduplication, validation, and execution of CSV transaction imports
+ * Handles deduplication, validation, and execution of CSV, OFX/QFX and QIF
+ * transaction imports. Every format is parsed into the same rows, so matching
+ * and execution don't depend on where the rows came from.
  */
 
 import { Decimal } from '@prisma/client/runtime/library';
+import { ERROR_CODES } from '@otter-money/shared';
+import { AppError } from '../middleware/error';
 import { prisma } from '../utils/prisma';
 import { parseCSV, normalizeColumnName, parseDate, parseAmount, resolveAmountSign } from '../utils/csvParser';
+import { isOFX, parseOFX } from '../utils/ofxParser';
+import { isQIF, parseQIF } from '../utils/qifParser';
 import { getCategoryIdByName } from '../utils/categoryMapping';
-import { applyRulesToTransaction } from './ruleEngine';
-import type { ImportPreviewRow, ImportPreviewResponse, ImportExecuteResponse, ImportFieldChange } from '@otter-money/shared';
+import { applyRulesToTransaction, saveRuleActions } from './ruleEngine';
+import { backfillBalancesForAccounts } from './balanceBackfill';
+import { detectTransfersSafely } from './transferMatcher';
+import { getTagIdsByName, parseTagList } from './tags';
+import type {
+  ImportBalanceReconciliation,
+  ImportExecuteResponse,
+  ImportFieldChange,
+  ImportFileFormat,
+  ImportPreviewResponse,
+  ImportPreviewRow,
+} from '@otter-money/shared';
 
 interface ParsedImportRow {
   rowNumber: number;
   id?: string;
   externalId?: string;
+  fitId?: string; // OFX transaction id, unique within the account
   date: Date | null;
   amount: number | null;
   description: string;
@@ -21,6 +38,7 @@ interface ParsedImportRow {
   categoryName: string;
   accountName: string;
   notes: string;
+  tagNames: string[];
   type?: string;
   isManual?: boolean;
 }
@@ -36,6 +54,7 @@ interface ExistingTransaction {
   accountId: string;
   isManual: boolean;
   notes: string | null;
+  tags: { id: string; name: string }[];
   account: { id: string; type: string; ownerId: string | null };
 }
 
@@ -117,6 +136,26 @@ function computeSimilarityScore(
 
 const MATCH_THRESHOLD = 0.70;
 
+// Longest tag name accepted, same as the tags API
+const MAX_TAG_NAME_LENGTH = 50;
+
+interface StatementBalance {
+  amount: number;
+  asOf: Date;
+}
+
+interface ParsedImportFile {
+  format: ImportFileFormat;
+  rows: ParsedImportRow[];
+  // Ledger balance the file reports (OFX only)
+  statementBalance: StatementBalance | null;
+}
+
+// FITIDs are only unique per account, so they're saved qualified by the account
+function ofxExternalId(accountId: string, fitId: string): string {
+  return `ofx:${accountId}:${fitId}`;
+}
+
 /**
  * Parse raw CSV rows into structured import rows
  */
@@ -166,6 +205,7 @@ function parseImportRows(csvContent: string): ParsedImportRow[] {
       categoryName: getValue('category'),
       accountName: getValue('account'),
       notes: getValue('notes'),
+      tagNames: parseTagList(getValue('tags')),
       type,
       isManual: getValue('isManual') === 'true' ? true : getValue('isManual') === 'false' ? false : undefined,
     });
@@ -174,6 +214,123 @@ function parseImportRows(csvContent: string): ParsedImportRow[] {
   return parsed;
 }
 
+/**
+ * Parse OFX/QFX statements into import rows. The file's accounts are bank
+ * account numbers, so every row goes to the default account.
+ */
+function parseOfxImportFile(content: string): ParsedImportFile {
+  let statements;
+  try {
+    statements = parseOFX(content);
+  } catch (err) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, (err as Error).message, 400);
+  }
+
+  const rows: ParsedImportRow[] = statements
+    .flatMap((statement) => statement.transactions)
+    .map((tx, i) => ({
+      rowNumber: i + 1,
+      fitId: tx.fitId || undefined,
+      date: tx.date,
+      amount: tx.amount,
+      description: tx.name || tx.memo || (tx.checkNumber ? `Check #${tx.checkNumber}` : ''),
+      merchant: '',
+      categoryName: '',
+      accountName: '',
+      notes: tx.name && tx.memo && tx.memo !== tx.name ? tx.memo : '',
+      tagNames: [],
+    }));
+
+  // Reconcile only when the file holds a single account's statement
+  const balances = statements.map((statement) => statement.balance);
+  return { format: 'ofx', rows, statementBalance: balances.length === 1 ? balances[0] : null };
+}
+
+/**
+ * Parse QIF transactions into import rows
+ */
+function parseQifImportFile(content: string): ParsedImportFile {
+  let transactions;
+  try {
+    transactions = parseQIF(content);
+  } catch (err) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, (err as Error).message, 400);
+  }
+
+  const rows: ParsedImportRow[] = transactions.map((tx, i) => ({
+    rowNumber: i + 1,
+    date: tx.date,
+    amount: tx.amount,
+    description: tx.payee || tx.memo || (tx.checkNumber ? `Check #${tx.checkNumber}` : ''),
+    merchant: '',
+    categoryName: tx.category,
+    accountName: '',
+    notes: tx.payee && tx.memo ? tx.memo : '',
+    tagNames: [],
+  }));
+
+  return { format: 'qif', rows, statementBalance: null };
+}
+
+/**
+ * Work out the format of an uploaded file from its contents
+ */
+export function detectImportFormat(content: string): ImportFileFormat {
+  if (isOFX(content)) return 'ofx';
+  if (isQIF(content)) return 'qif';
+  return 'csv';
+}
+
+function parseImportFile(content: string, format: ImportFileFormat): ParsedImportFile {
+  switch (format) {
+    case 'ofx':
+      return parseOfxImportFile(content);
+    case 'qif':
+      return parseQifImportFile(content);
+    case 'csv':
+      return { format, rows: parseImportRows(content), statementBalance: null };
+  }
+}
+
+/**
+ * Compare a statement balance with the account's balance on the statement date,
+ * counting transactions the import is about to add (pass none once it has run).
+ * The balance on a date is the current balance less everything dated after it.
+ */
+async function reconcileStatementBalance(
+  accountId: string,
+  statementBalance: StatementBalance,
+  pending: { date: Date; amount: number }[]
+): Promise<ImportBalanceReconciliation | null> {
+  const account = await prisma.account.findUnique({
+    where: { id: accountId },
+    select: { id: true, name: true, currentBalance: true, connectionType: true },
+  });
+  if (!account) return null;
+
+  const later = await prisma.transaction.aggregate({
+    where: { accountId, parentId: null, date: { gt: statementBalance.asOf } },
+    _sum: { amount: true },
+  });
+  const pendingUpToStatement = pending
+    .filter((tx) => tx.date <= statementBalance.asOf)
+    .reduce((sum, tx) => sum + tx.amount, 0);
+
+  const expectedBalance =
+    Math.round((Number(account.currentBalance) - Number(later._sum.amount ?? 0) + pendingUpToStatement) * 100) / 100;
+  const difference = Math.round((statementBalance.amount - expectedBalance) * 100) / 100;
+
+  return {
+    accountId: account.id,
+    accountName: account.name,
+    asOf: statementBalance.asOf.toISOString().split('T')[0],
+    statementBalance: statementBalance.amount,
+    expectedBalance,
+    difference,
+    willAdjust: account.connectionType === 'MANUAL' && difference !== 0,
+  };
+}
+
 /**
  * Resolve account IDs by name for all rows
  */
@@ -240,26 +397,28 @@ async function resolveCategories(
  * Process an import — used by both preview and execute
  */
 export async function processImport(
-  csvContent: string,
+  content: string,
   householdId: string,
   defaultAccountId: string | null,
   mode: 'preview' | 'execute',
-  skipRowNumbers: number[] = []
+  skipRowNumbers: number[] = [],
+  format: ImportFileFormat = detectImportFormat(content)
 ): Promise<ImportPreviewResponse | ImportExecuteResponse> {
-  // 1. Parse CSV
-  const parsedRows = parseImportRows(csvContent);
+  // 1. Parse the file
+  const { rows: parsedRows, statementBalance } = parseImportFile(content, format);
 
   if (parsedRows.length === 0) {
     if (mode === 'preview') {
-      return { totalRows: 0, summary: { create: 0, update: 0, skip: 0, unchanged: 0 }, rows: [] };
+      return { format, totalRows: 0, summary: { create: 0, update: 0, skip: 0, unchanged: 0 }, rows: [] };
     }
     return { created: 0, updated: 0, skipped: 0, rulesApplied: 0, skippedDetails: [] };
   }
 
-  // 2. Resolve accounts and categories
-  const [accountMap, categoryMap] = await Promise.all([
+  // 2. Resolve accounts, categories and tags
+  const [accountMap, categoryMap, tagIdByName] = await Promise.all([
     resolveAccounts(parsedRows, householdId, defaultAccountId),
     resolveCategories(parsedRows, householdId),
+    getTagIdsByName(householdId),
   ]);
 
   // Get account names for display
@@ -269,11 +428,15 @@ export async function processImport(
   });
   const accountNameById = new Map(accounts.map((a) => [a.id, a.name]));
 
-  // 3. Determine date range and pre-fetch existing transactions
+  // 3. Determine date range and pre-fetch existing transactions, plus any
+  // earlier imports of the file's OFX transactions wherever their dates are
   const validDates = parsedRows.map((r) => r.date).filter((d): d is Date => d !== null);
+  const fileExternalIds = defaultAccountId
+    ? parsedRows.filter((r) => r.fitId).map((r) => ofxExternalId(defaultAccountId, r.fitId!))
+    : [];
   let existingTransactions: ExistingTransaction[] = [];
 
-  if (validDates.length > 0) {
+  if (validDates.length > 0 || fileExternalIds.length > 0) {
     const minDate = new Date(Math.min(...validDates.map((d) => d.getTime())));
     const maxDate = new Date(Math.max(...validDates.map((d) => d.getTime())));
     minDate.setDate(minDate.getDate() - 3);
@@ -282,10 +445,15 @@ export async function processImport(
     const rawTxs = await prisma.transaction.findMany({
       where: {
         account: { householdId },
-        date: { gte: minDate, lte: maxDate },
+        parentId: null, // Split lines mirror their parent
+        OR: [
+          ...(validDates.length > 0 ? [{ date: { gte: minDate, lte: maxDate } }] : []),
+          ...(fileExternalIds.length > 0 ? [{ externalId: { in: fileExternalIds } }] : []),
+        ],
       },
       include: {
         account: { select: { id: true, type: true, ownerId: true } },
+        tags: { select: { id: true, name: true } },
       },
     });
 
@@ -300,6 +468,7 @@ export async function processImport(
       accountId: tx.accountId,
       isManual: tx.isManual,
       notes: tx.notes,
+      tags: tx.tags,
       account: tx.account as { id: string; type: string; ownerId: string | null },
     }));
   }
@@ -323,6 +492,7 @@ export async function processImport(
   // 4. Process each row
   const previewRows: ImportPreviewRow[] = [];
   const matchedTxIds = new Set<string>(); // Track which existing txs have been matched
+  const seenExternalIds = new Set<string>(); // OFX ids already used by an earlier row
 
   for (const row of parsedRows) {
     const warnings: string[] = [];
@@ -395,6 +565,19 @@ export async function processImport(
     }
 
     const accountName = accountNameById.get(accountId) || row.accountName;
+    const externalId = row.fitId ? ofxExternalId(accountId, row.fitId) : row.externalId;
+
+    if (row.fitId && seenExternalIds.has(externalId!)) {
+      previewRows.push({
+        rowNumber: row.rowNumber,
+        action: 'skip',
+        parsed: { date: row.date.toISOString().split('T')[0], amount: row.amount, description: row.description, accountId, accountName, notes: row.notes },
+        skipReason: `Duplicate transaction ID in file: '${row.fitId}'`,
+        warnings: [],
+      });
+      continue;
+    }
+    if (row.fitId) seenExternalIds.add(externalId!);
 
     // Resolve category
     let categoryId: string | null = null;
@@ -405,13 +588,26 @@ export async function processImport(
       }
     }
 
+    // Resolve tags; new names are created when the import runs
+    const tagNames: string[] = [];
+    for (const name of row.tagNames) {
+      if (name.length > MAX_TAG_NAME_LENGTH) {
+        warnings.push(`Tag name too long: '${name}' — will be skipped`);
+        continue;
+      }
+      if (!tagIdByName.has(name.toLowerCase())) {
+        warnings.push(`New tag will be created: '${name}'`);
+      }
+      tagNames.push(name);
+    }
+
     // Match against existing transactions
     let matchedTx: ExistingTransaction | null = null;
     let matchConfidence: number | null = null;
 
     // Step 1: Exact match by external ID
-    if (row.externalId) {
-      const existing = existingByExternalId.get(row.externalId);
+    if (externalId) {
+      const existing = existingByExternalId.get(externalId);
       if (existing && !matchedTxIds.has(existing.id)) {
         matchedTx = existing;
         matchConfidence = 1.0;
@@ -435,6 +631,8 @@ export async function processImport(
 
       for (const candidate of candidates) {
         if (matchedTxIds.has(candidate.id)) continue;
+        // A different OFX id means a different bank transaction, however similar
+        if (row.fitId && candidate.externalId?.startsWith('ofx:')) continue;
 
         const score = computeSimilarityScore(
           { date: row.date, amount: row.amount, description: row.description, merchant: row.merchant },
@@ -493,6 +691,18 @@ export async function processImport(
       if (Math.abs(row.amount - matchedTx.amount) >= 0.01) {
         changes.push({ field: 'Amount', from: String(matchedTx.amount), to: String(row.amount) });
       }
+      // Imported tags are added to the ones the transaction already has
+      const currentTags = matchedTx.tags.map((tag) => tag.name);
+      const addedTags = tagNames.filter(
+        (name) => !currentTags.some((current) => current.toLowerCase() === name.toLowerCase())
+      );
+      if (addedTags.length > 0) {
+        changes.push({
+          field: 'Tags',
+          from: currentTags.join(', ') || '(none)',
+          to: [...currentTags, ...addedTags].join(', '),
+        });
+      }
 
       // If nothing actually changed, mark as unchanged instead of update
       if (changes.length === 0) {
@@ -504,6 +714,8 @@ export async function processImport(
       rowNumber: row.rowNumber,
       action,
       parsed: {
+        // Saved so the next import of the same transaction matches exactly
+        externalId: row.fitId && !matchedTx?.externalId ? externalId : undefined,
         date: row.date.toISOString().split('T')[0],
         amount: row.amount,
         description: row.description,
@@ -513,6 +725,7 @@ export async function processImport(
         accountId,
         accountName,
         notes: row.notes || undefined,
+        tags: tagNames.length > 0 ? tagNames : undefined,
       },
       matchedTransaction: matchedTx
         ? {
@@ -539,11 +752,22 @@ export async function processImport(
     summary[row.action]++;
   }
 
+  // Statement balances are checked against the account all the file's rows go to
+  const statementAccountId = statementBalance ? accountMap.get('__default__') : undefined;
+
   if (mode === 'preview') {
+    const pending = previewRows
+      .filter((row) => row.action === 'create')
+      .map((row) => ({ date: new Date(row.parsed.date), amount: row.parsed.amount }));
+
     return {
+      format,
       totalRows: parsedRows.length,
       summary,
       rows: previewRows,
+      reconciliation: statementAccountId
+        ? await reconcileStatementBalance(statementAccountId, statementBalance!, pending)
+        : null,
     };
   }
 
@@ -577,47 +801,44 @@ export async function processImport(
   }
 
   await prisma.$transaction(async (tx) => {
+    // Create the tags the file introduces, then link rows to them by name
     for (const row of actionRows) {
-      if (row.action === 'create') {
-        let finalCategoryId = row.parsed.categoryId || null;
-
-        // Apply rules engine if no category
-        if (!finalCategoryId) {
-          const account = await tx.account.findUnique({
-            where: { id: row.parsed.accountId },
-            select: { id: true, type: true, ownerId: true },
-          });
-
-          if (account) {
-            const tempTx = {
-              id: 'temp',
-              accountId: row.parsed.accountId,
-              amount: new Decimal(row.parsed.amount),
-              merchantName: row.parsed.merchant || null,
-              description: row.parsed.description,
-              date: new Date(row.parsed.date),
-              account: account as any,
-            };
-
-            // Use the non-transactional prisma for rule lookup (read-only)
-            finalCategoryId = await applyRulesToTransaction(tempTx as any, householdId);
-            if (finalCategoryId) rulesApplied++;
-          }
-        }
+      for (const name of row.parsed.tags ?? []) {
+        if (tagIdByName.has(name.toLowerCase())) continue;
+        const tag = await tx.tag.create({ data: { householdId, name } });
+        tagIdByName.set(name.toLowerCase(), tag.id);
+      }
+    }
+    const tagConnections = (names: string[] | undefined) =>
+      names?.length ? { connect: names.map((name) => ({ id: tagIdByName.get(name.toLowerCase())! })) } : undefined;
 
-        await tx.transaction.create({
+    for (const row of actionRows) {
+      if (row.action === 'create') {
+        const newTransaction = await tx.transaction.create({
           data: {
             accountId: row.parsed.accountId,
             date: new Date(row.parsed.date),
             amount: new Decimal(row.parsed.amount),
             description: row.parsed.description,
             merchantName: row.parsed.merchant || null,
-            categoryId: finalCategoryId,
+            categoryId: row.parsed.categoryId || null,
             notes: row.parsed.notes || null,
+            externalId: row.parsed.externalId || null,
             isManual: true,
+            tags: tagConnections(row.parsed.tags),
+          },
+          include: {
+            account: { select: { id: true, type: true, ownerId: true } },
           },
         });
 
+        // Run rules (their category only fills in when the file didn't have one).
+        // Rules are read with the non-transactional prisma, changes go through tx.
+        const ruleActions = await applyRulesToTransaction(newTransaction, householdId);
+        if (ruleActions && (await saveRuleActions(newTransaction, ruleActions, { client: tx }))) {
+          rulesApplied++;
+        }
+
         // Update account balance for new manual transactions
         await tx.account.update({
           where: { id: row.parsed.accountId },
@@ -635,6 +856,8 @@ export async function processImport(
         if (row.parsed.merchant) updateData.merchantName = row.parsed.merchant;
         if (row.parsed.categoryId) updateData.categoryId = row.parsed.categoryId;
         if (row.parsed.notes) updateData.notes = row.parsed.notes;
+        if (row.parsed.tags?.length) updateData.tags = tagConnections(row.parsed.tags);
+        if (row.parsed.externalId) updateData.externalId = row.parsed.externalId;
 
         // Handle amount changes
         if (row.parsed.amount !== row.matchedTransaction.amount) {
@@ -664,5 +887,39 @@ export async function processImport(
     }
   });
 
-  return { created, updated, skipped, rulesApplied, skippedDetails };
+  // Bring a manual account in line with the statement, dated at the statement's balance date
+  let balanceAdjustment: number | null = null;
+  if (statementAccountId) {
+    const reconciliation = await reconcileStatementBalance(statementAccountId, statementBalance!, []);
+    if (reconciliation?.willAdjust) {
+      balanceAdjustment = reconciliation.difference;
+      await prisma.$transaction([
+        prisma.transaction.create({
+          data: {
+            accountId: statementAccountId,
+            date: statementBalance!.asOf,
+            amount: new Decimal(balanceAdjustment),
+            description: 'Balance adjustment (statement import)',
+            isManual: true,
+            isAdjustment: true,
+          },
+        }),
+        prisma.account.update({
+          where: { id: statementAccountId },
+          data: { currentBalance: { increment: new Decimal(balanceAdjustment) } },
+        }),
+      ]);
+    }
+  }
+
+  // Imported history changes past balances — rebuild the estimated net worth history
+  if (actionRows.length > 0 || balanceAdjustment !== null) {
+    await backfillBalancesForAccounts([
+      ...actionRows.map((row) => row.parsed.accountId),
+      ...(statementAccountId ? [statementAccountId] : []),
+    ]);
+    await detectTransfersSafely(householdId);
+  }
+
+  return { created, updated, skipped, rulesApplied, skippedDetails, balanceAdjustment };
 }
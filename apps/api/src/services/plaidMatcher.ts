@@ -10,7 +10,7 @@ import { mapPlaidCategory, getCategoryIdByName } from '../utils/categoryMapping'
 import type { ImportPreviewRow, ImportPreviewResponse, ImportFieldChange } from '@otter-money/shared';
 import type { Transaction as PlaidTransaction } from 'plaid';
 
-interface ExistingTransaction {
+export interface ExistingTransaction {
   id: string;
   externalId: string | null;
   date: Date;
@@ -54,9 +54,10 @@ function descriptionSimilarity(a: string, b: string): number {
 }
 
 /**
- * Compute similarity score between a Plaid transaction and an existing transaction
+ * Compute similarity score between a Plaid transaction and an existing transaction.
+ * Also used to match SimpleFin transactions against manual ones.
  */
-function computeSimilarityScore(
+export function computeSimilarityScore(
   plaidTx: { date: Date; amount: number; description: string; merchant: string | null },
   existing: ExistingTransaction
 ): number {
@@ -94,7 +95,7 @@ function computeSimilarityScore(
   return score;
 }
 
-const MATCH_THRESHOLD = 0.70;
+export const MATCH_THRESHOLD = 0.70;
 
 /**
  * Build a transaction preview for a set of Plaid transactions against an existing account.
@@ -121,6 +122,7 @@ export async function buildPlaidTransactionPreview(
     where: {
       accountId: targetAccountId,
       date: { gte: minDate, lte: maxDate },
+      parentId: null, // Split lines mirror their parent
     },
   });
 
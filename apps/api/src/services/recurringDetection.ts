@@ -1,6 +1,7 @@
 import { prisma } from '../utils/prisma';
 import { Decimal } from '@prisma/client/runtime/library';
 import { RecurringFrequency, RecurringStatus } from '@prisma/client';
+import { excludeConfirmedTransfers } from './transferMatcher';
 
 interface TransactionGroup {
   merchantName: string;
@@ -259,6 +260,7 @@ export async function detectRecurringTransactions(householdId: string): Promise<
       isAdjustment: false,
       isPending: false,
       parentId: null, // Exclude split transactions
+      ...excludeConfirmedTransfers,
     },
     select: {
       id: true,
@@ -521,3 +523,57 @@ export async function linkTransactionToRecurring(
 
   return null;
 }
+
+// Active recurring bills expected within the next `days` days, soonest first
+export async function getUpcomingBills(householdId: string, days: number, limit: number) {
+  const endDate = new Date();
+  endDate.setDate(endDate.getDate() + days);
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const upcoming = await prisma.recurringTransaction.findMany({
+    where: {
+      householdId,
+      status: { in: ['DETECTED', 'CONFIRMED'] },
+      isPaused: false,
+      nextExpectedDate: {
+        lte: endDate,
+      },
+    },
+    include: {
+      account: {
+        select: { id: true, name: true },
+      },
+      category: {
+        select: { id: true, name: true, color: true },
+      },
+    },
+    orderBy: { nextExpectedDate: 'asc' },
+    take: limit,
+  });
+
+  const bills = upcoming.map((r) => {
+    const nextDate = new Date(r.nextExpectedDate);
+    const daysUntilDue = Math.ceil((nextDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+
+    return {
+      id: r.id,
+      merchantName: r.merchantName,
+      expectedAmount: Number(r.expectedAmount),
+      nextExpectedDate: r.nextExpectedDate,
+      frequency: r.frequency,
+      status: r.status,
+      categoryId: r.categoryId,
+      categoryName: r.category?.name || null,
+      categoryColor: r.category?.color || null,
+      accountId: r.accountId,
+      accountName: r.account?.name || null,
+      isPaused: r.isPaused,
+      daysUntilDue,
+    };
+  });
+
+
+  return bills;
+}
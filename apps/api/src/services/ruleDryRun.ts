@@ -0,0 +1,160 @@
+/**
+ * Rule dry run
+ * Runs every enabled rule over the household's history without saving
+ * anything, and reports what would change on each transaction along with how
+ * the rules interact: rules that match but never get to do anything because
+ * higher-priority rules always decide first (shadowed), and rules that match
+ * the same transactions (overlapping), flagged when they disagree on the
+ * category.
+ */
+
+import type { AuditChange } from '@otter-money/shared';
+import { prisma } from '../utils/prisma';
+import { buildRuleActionData, getEnabledRules, resolveActions } from './ruleEngine';
+
+const DRY_RUN_BATCH_SIZE = 1000;
+
+const categorySelect = { id: true, name: true, type: true, icon: true, color: true } as const;
+
+export interface RuleDryRunOptions {
+  startDate?: Date;
+  endDate?: Date;
+  uncategorizedOnly?: boolean;
+  limit: number; // Most changes returned; the counts cover everything
+}
+
+interface RuleStats {
+  matchCount: number;
+  appliedCount: number;
+  shadowedBy: Set<string>;
+}
+
+export async function dryRunRules(householdId: string, options: RuleDryRunOptions) {
+  const [rules, categories] = await Promise.all([
+    getEnabledRules(householdId),
+    prisma.category.findMany({
+      where: {
+        OR: [
+          { householdId: null, isSystem: true },
+          { householdId },
+        ],
+      },
+      select: categorySelect,
+    }),
+  ]);
+  const categoriesById = new Map(categories.map((category) => [category.id, category]));
+
+  const stats = new Map<string, RuleStats>(
+    rules.map((rule) => [rule.id, { matchCount: 0, appliedCount: 0, shadowedBy: new Set() }])
+  );
+  const overlaps = new Map<string, { ruleIds: [string, string]; count: number }>();
+  const changes = [];
+  let totalChanges = 0;
+  let scannedCount = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const batch = await prisma.transaction.findMany({
+      where: {
+        account: { householdId },
+        parentId: null, // Rules never recategorize split lines
+        ...(options.uncategorizedOnly && { categoryId: null }),
+        ...((options.startDate || options.endDate) && {
+          date: { gte: options.startDate, lte: options.endDate },
+        }),
+      },
+      include: {
+        account: { select: { id: true, name: true, type: true, ownerId: true } },
+        category: { select: categorySelect },
+        recurringLink: { select: { id: true } },
+      },
+      orderBy: [{ date: 'desc' }, { id: 'desc' }],
+      take: DRY_RUN_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    for (const transaction of batch) {
+      scannedCount++;
+      const actions = resolveActions(transaction, rules);
+      if (!actions) continue;
+
+      for (const [index, ruleId] of actions.ruleIds.entries()) {
+        const ruleStats = stats.get(ruleId)!;
+        ruleStats.matchCount++;
+        if (actions.appliedRuleIds.includes(ruleId)) {
+          ruleStats.appliedCount++;
+        } else {
+          for (const higherId of actions.ruleIds.slice(0, index)) ruleStats.shadowedBy.add(higherId);
+        }
+
+        // ruleIds is in priority order, so each pair is keyed higher rule first
+        for (const otherId of actions.ruleIds.slice(index + 1)) {
+          const key = `${ruleId}:${otherId}`;
+          const overlap = overlaps.get(key) ?? { ruleIds: [ruleId, otherId], count: 0 };
+          overlap.count++;
+          overlaps.set(key, overlap);
+        }
+      }
+
+      // The same update apply-to-transactions makes
+      const data = buildRuleActionData(actions, transaction, { overwriteCategory: true });
+      const diff: Record<string, AuditChange> = {};
+      for (const [field, to] of Object.entries(data)) {
+        diff[field] = { from: transaction[field as keyof typeof transaction] ?? null, to };
+      }
+      if (actions.recurringTransactionId && !transaction.recurringLink) {
+        diff.recurringTransactionId = { from: null, to: actions.recurringTransactionId };
+      }
+      if (Object.keys(diff).length === 0) continue;
+
+      totalChanges++;
+      if (changes.length >= options.limit) continue;
+
+      const newCategoryId = (data.categoryId as string | undefined) ?? transaction.categoryId;
+      changes.push({
+        transactionId: transaction.id,
+        date: transaction.date,
+        description: transaction.description,
+        merchantName: transaction.merchantName,
+        amount: Number(transaction.amount),
+        accountName: transaction.account.name,
+        currentCategory: transaction.category,
+        newCategory: newCategoryId ? categoriesById.get(newCategoryId) ?? null : null,
+        winningRuleId: actions.categoryRuleId ?? actions.appliedRuleIds[0],
+        matchedRuleIds: actions.ruleIds,
+        changes: diff,
+      });
+    }
+
+    if (batch.length < DRY_RUN_BATCH_SIZE) break;
+    cursor = batch[batch.length - 1].id;
+  }
+
+  const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+
+  return {
+    scannedCount,
+    totalChanges,
+    changes,
+    rules: rules.map((rule) => {
+      const { matchCount, appliedCount } = stats.get(rule.id)!;
+      return { ruleId: rule.id, matchCount, appliedCount };
+    }),
+    shadowedRules: rules
+      .filter((rule) => {
+        const ruleStats = stats.get(rule.id)!;
+        return ruleStats.matchCount > 0 && ruleStats.appliedCount === 0;
+      })
+      .map((rule) => {
+        const ruleStats = stats.get(rule.id)!;
+        return { ruleId: rule.id, matchCount: ruleStats.matchCount, shadowedBy: [...ruleStats.shadowedBy] };
+      }),
+    overlaps: [...overlaps.values()].map((overlap) => {
+      const [higher, lower] = overlap.ruleIds.map((id) => rulesById.get(id)!);
+      return {
+        ...overlap,
+        conflicting: !!higher.categoryId && !!lower.categoryId && higher.categoryId !== lower.categoryId,
+      };
+    }),
+  };
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Decimal } from '@prisma/client/runtime/library';
+
+vi.mock('../utils/prisma', () => ({ prisma: {} }));
+
+import { checkRegexSafety, matchesRule, type RuleTransaction } from './ruleEngine';
+
+function transaction(overrides: Partial<RuleTransaction> = {}): RuleTransaction {
+  return {
+    accountId: 'checking',
+    amount: new Decimal(-42.5),
+    merchantName: 'Uber Eats',
+    description: 'UBER *EATS PENDING',
+    date: new Date('2026-10-16T00:00:00Z'), // A Friday
+    account: { id: 'checking', type: 'CHECKING', ownerId: 'alex' },
+    categoryId: null,
+    ...overrides,
+  };
+}
+
+describe('checkRegexSafety', () => {
+  it('accepts ordinary patterns', () => {
+    expect(checkRegexSafety('^amazon')).toBeNull();
+    expect(checkRegexSafety('uber\\s*(eats)?')).toBeNull();
+    expect(checkRegexSafety('(starbucks|peets|blue bottle)')).toBeNull();
+    expect(checkRegexSafety('\\d{4}$')).toBeNull();
+    expect(checkRegexSafety('(?:ab)+')).toBeNull();
+  });
+
+  it('rejects invalid patterns', () => {
+    expect(checkRegexSafety('(unclosed')).toBe('Invalid regular expression');
+    expect(checkRegexSafety('[z-a]')).toBe('Invalid regular expression');
+  });
+
+  it('rejects patterns that are too long', () => {
+    expect(checkRegexSafety('a'.repeat(201))).toMatch(/at most 200 characters/);
+    expect(checkRegexSafety('a'.repeat(200))).toBeNull();
+  });
+
+  it('rejects backreferences', () => {
+    expect(checkRegexSafety('(a)\\1')).toMatch(/Backreferences/);
+    expect(checkRegexSafety('(?<x>a)\\k<x>')).toMatch(/Backreferences/);
+  });
+
+  it('rejects repeated groups that contain a repetition or alternation', () => {
+    expect(checkRegexSafety('(a+)+')).toMatch(/too long to run/);
+    expect(checkRegexSafety('(a*)*b')).toMatch(/too long to run/);
+    expect(checkRegexSafety('(a|ab)*')).toMatch(/too long to run/);
+    expect(checkRegexSafety('(a?){2,}')).toMatch(/too long to run/);
+    expect(checkRegexSafety('((a)+)+')).toMatch(/too long to run/);
+  });
+
+  it('ignores quantifiers that are escaped or inside a character class', () => {
+    expect(checkRegexSafety('(a\\+)+')).toBeNull();
+    expect(checkRegexSafety('([+*])+')).toBeNull();
+  });
+});
+
+describe('matchesRule', () => {
+  it('needs every condition with AND and any with OR', () => {
+    const tx = transaction();
+    expect(matchesRule(tx, { merchantContains: 'uber', amountMin: 40 })).toBe(true);
+    expect(matchesRule(tx, { merchantContains: 'uber', amountMin: 50 })).toBe(false);
+    expect(matchesRule(tx, { operator: 'OR', merchantContains: 'lyft', amountMin: 40 })).toBe(true);
+    expect(matchesRule(tx, { operator: 'OR', merchantContains: 'lyft', amountMin: 50 })).toBe(false);
+  });
+
+  it('never matches without conditions', () => {
+    expect(matchesRule(transaction(), {})).toBe(false);
+    expect(matchesRule(transaction(), { accountIds: [] })).toBe(false);
+  });
+
+  it('inverts negated conditions', () => {
+    const tx = transaction();
+    expect(matchesRule(tx, { merchantContains: 'uber', negate: ['merchantContains'] })).toBe(false);
+    expect(matchesRule(tx, { merchantContains: 'lyft', negate: ['merchantContains'] })).toBe(true);
+  });
+
+  it('counts each group as one condition of its parent', () => {
+    // (merchant is Uber AND amount >= 40) OR owner is sam
+    const conditions = {
+      operator: 'OR' as const,
+      ownerIds: ['sam'],
+      groups: [{ operator: 'AND' as const, merchantContains: 'uber', amountMin: 40 }],
+    };
+    expect(matchesRule(transaction(), conditions)).toBe(true);
+    expect(matchesRule(transaction({ amount: new Decimal(-12) }), conditions)).toBe(false);
+    expect(
+      matchesRule(
+        transaction({
+          amount: new Decimal(-12),
+          account: { id: 'card', type: 'CREDIT', ownerId: 'sam' },
+        }),
+        conditions
+      )
+    ).toBe(true);
+  });
+
+  it('evaluates nested groups on their own operators', () => {
+    // Friday AND (Uber OR Lyft)
+    const conditions = {
+      daysOfWeek: [5],
+      groups: [{ operator: 'OR' as const, merchantContains: 'lyft', descriptionStartsWith: 'uber' }],
+    };
+    expect(matchesRule(transaction(), conditions)).toBe(true);
+    expect(matchesRule(transaction({ date: new Date('2026-10-17T00:00:00Z') }), conditions)).toBe(false);
+    expect(matchesRule(transaction({ merchantName: 'Taxi', description: 'Taxi' }), conditions)).toBe(false);
+  });
+
+  it('reads dates as UTC calendar days', () => {
+    const tx = transaction();
+    expect(matchesRule(tx, { dateFrom: '2026-10-16', dateTo: '2026-10-16' })).toBe(true);
+    expect(matchesRule(tx, { daysOfMonth: [16] })).toBe(true);
+    expect(matchesRule(tx, { dateFrom: '2026-10-17' })).toBe(false);
+  });
+
+  it('skips regex conditions that fail the safety check', () => {
+    expect(matchesRule(transaction(), { merchantMatchesRegex: '^uber\\b' })).toBe(true);
+    expect(matchesRule(transaction(), { merchantMatchesRegex: '(u+)+' })).toBe(false);
+  });
+});
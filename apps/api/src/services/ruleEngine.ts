@@ -1,110 +1,354 @@
 import { prisma } from '../utils/prisma';
-import type { RuleConditions } from '@otter-money/shared';
-import type { Transaction, Account } from '@prisma/client';
+import type { AccountType, RuleActions, RuleConditionField, RuleConditions } from '@otter-money/shared';
+import type { Transaction, Account, CategorizationRule, Prisma } from '@prisma/client';
 
 interface TransactionWithAccount extends Transaction {
   account: Pick<Account, 'id' | 'type' | 'ownerId'>;
 }
 
 /**
- * Apply all enabled rules to a transaction and return the category ID
- * Returns null if no rules match
+ * Everything the matching rules want done to a transaction. Rules are read in
+ * priority order: for each action the highest-priority rule that sets it wins,
+ * and lower rules only fill in actions nobody above them set. Notes are the
+ * exception: every matching rule's note is appended, in priority order.
  */
-export async function applyRulesToTransaction(
-  transaction: TransactionWithAccount,
-  householdId: string
-): Promise<string | null> {
-  // Get all enabled rules for this household, ordered by priority
-  const rules = await prisma.categorizationRule.findMany({
+export interface RuleActionSet {
+  ruleIds: string[]; // Matching rules, highest priority first
+  appliedRuleIds: string[]; // Matching rules that decided at least one action
+  categoryRuleId?: string; // Rule whose category won
+  categoryId?: string;
+  merchantName?: string;
+  notes: string[];
+  markAsTransfer?: boolean;
+  recurringTransactionId?: string;
+  excludeFromBudget?: boolean;
+  attributedToId?: string;
+}
+
+export function getEnabledRules(householdId: string) {
+  return prisma.categorizationRule.findMany({
     where: {
       householdId,
       isEnabled: true,
     },
     orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }],
   });
+}
+
+// The actions of a single rule, as an action set
+export function getRuleActionSet(rule: Pick<CategorizationRule, 'id' | 'categoryId' | 'actions'>): RuleActionSet {
+  const actions = (rule.actions as RuleActions | null) ?? {};
+  return {
+    ruleIds: [rule.id],
+    appliedRuleIds: [rule.id],
+    categoryRuleId: rule.categoryId ? rule.id : undefined,
+    categoryId: rule.categoryId ?? undefined,
+    merchantName: actions.renameMerchant,
+    notes: actions.appendNote ? [actions.appendNote] : [],
+    markAsTransfer: actions.markAsTransfer || undefined,
+    recurringTransactionId: actions.recurringTransactionId,
+    excludeFromBudget: actions.excludeFromBudget || undefined,
+    attributedToId: actions.attributedToId,
+  };
+}
+
+const SINGLE_ACTIONS = [
+  'categoryId',
+  'merchantName',
+  'markAsTransfer',
+  'recurringTransactionId',
+  'excludeFromBudget',
+  'attributedToId',
+] as const;
+
+type SingleAction = (typeof SINGLE_ACTIONS)[number];
+
+function copyAction<K extends SingleAction>(target: RuleActionSet, source: RuleActionSet, action: K) {
+  target[action] = source[action];
+}
+
+// Combine the actions of the rules (in priority order) that match a transaction
+export function resolveActions(
+  transaction: RuleTransaction,
+  rules: CategorizationRule[]
+): RuleActionSet | null {
+  const result: RuleActionSet = { ruleIds: [], appliedRuleIds: [], notes: [] };
 
-  // Try each rule until one matches
   for (const rule of rules) {
-    const conditions = rule.conditions as RuleConditions;
-    if (matchesRule(transaction, conditions)) {
-      return rule.categoryId;
+    if (!matchesRule(transaction, rule.conditions as RuleConditions)) continue;
+
+    const actions = getRuleActionSet(rule);
+    let applied = false;
+    result.ruleIds.push(rule.id);
+
+    for (const action of SINGLE_ACTIONS) {
+      if (result[action] === undefined && actions[action] !== undefined) {
+        copyAction(result, actions, action);
+        if (action === 'categoryId') result.categoryRuleId = rule.id;
+        applied = true;
+      }
+    }
+    for (const note of actions.notes) {
+      if (!result.notes.includes(note)) {
+        result.notes.push(note);
+        applied = true;
+      }
     }
+
+    if (applied) result.appliedRuleIds.push(rule.id);
   }
 
-  return null;
+  return result.ruleIds.length > 0 ? result : null;
 }
 
 /**
- * Check if a transaction matches a rule's conditions
+ * Run all enabled rules against a transaction. Conditions are checked against
+ * the transaction as it is, so a rule renaming the merchant doesn't change
+ * which other rules match. Returns null if no rules match.
  */
-function matchesRule(
-  transaction: TransactionWithAccount,
-  conditions: RuleConditions
-): boolean {
-  const operator = conditions.operator || 'AND';
-  const checks: boolean[] = [];
+export async function applyRulesToTransaction(
+  transaction: RuleTransaction,
+  householdId: string
+): Promise<RuleActionSet | null> {
+  return resolveActions(transaction, await getEnabledRules(householdId));
+}
+
+type RuleActionTarget = Pick<
+  Transaction,
+  'id' | 'categoryId' | 'merchantName' | 'notes' | 'transferStatus' | 'excludeFromBudget' | 'attributedToId'
+>;
 
-  // Text matching - merchant contains
-  if (conditions.merchantContains !== undefined) {
-    const merchantName = transaction.merchantName || '';
-    checks.push(
-      merchantName.toLowerCase().includes(conditions.merchantContains.toLowerCase())
-    );
+/**
+ * The column changes for an action set, leaving out values the transaction
+ * already has. The category is only filled in when the transaction has none,
+ * unless `overwriteCategory` is set; notes already on the transaction aren't
+ * added twice, and transfer pairs or dismissals aren't overridden.
+ */
+export function buildRuleActionData(
+  actions: RuleActionSet,
+  current: Omit<RuleActionTarget, 'id'>,
+  options: { overwriteCategory?: boolean } = {}
+): Prisma.TransactionUncheckedUpdateInput {
+  const data: Prisma.TransactionUncheckedUpdateInput = {};
+
+  if (
+    actions.categoryId &&
+    actions.categoryId !== current.categoryId &&
+    (options.overwriteCategory || !current.categoryId)
+  ) {
+    data.categoryId = actions.categoryId;
+  }
+  if (actions.merchantName && actions.merchantName !== current.merchantName) {
+    data.merchantName = actions.merchantName;
+  }
+  if (actions.excludeFromBudget && !current.excludeFromBudget) data.excludeFromBudget = true;
+  if (actions.attributedToId && actions.attributedToId !== current.attributedToId) {
+    data.attributedToId = actions.attributedToId;
+  }
+  if (actions.markAsTransfer && current.transferStatus === 'NONE') {
+    data.transferStatus = 'CONFIRMED';
   }
 
-  // Text matching - description contains
-  if (conditions.descriptionContains !== undefined) {
-    const description = transaction.description || '';
-    checks.push(
-      description.toLowerCase().includes(conditions.descriptionContains.toLowerCase())
-    );
+  const newNotes = actions.notes.filter((note) => !(current.notes ?? '').includes(note));
+  if (newNotes.length > 0) {
+    data.notes = [current.notes, ...newNotes].filter(Boolean).join('\n');
+  }
+
+  return data;
+}
+
+/**
+ * Save an action set to a transaction: update its columns and link it to the
+ * rule's recurring bill (unless it's already linked to one).
+ * Returns true if anything changed.
+ */
+export async function saveRuleActions(
+  transaction: RuleActionTarget,
+  actions: RuleActionSet,
+  options: {
+    overwriteCategory?: boolean;
+    client?: Pick<typeof prisma, 'transaction' | 'transactionRecurringLink' | 'recurringTransaction'>;
+  } = {}
+): Promise<boolean> {
+  const client = options.client ?? prisma;
+  const data = buildRuleActionData(actions, transaction, options);
+  let changed = false;
+
+  if (Object.keys(data).length > 0) {
+    await client.transaction.update({ where: { id: transaction.id }, data });
+    changed = true;
   }
 
-  // Text matching - merchant exactly
-  if (conditions.merchantExactly !== undefined) {
-    const merchantName = transaction.merchantName || '';
-    checks.push(
-      merchantName.toLowerCase() === conditions.merchantExactly.toLowerCase()
-    );
+  if (actions.recurringTransactionId) {
+    const [existing, recurring] = await Promise.all([
+      client.transactionRecurringLink.findUnique({ where: { transactionId: transaction.id } }),
+      // The bill may have been deleted since the rule was saved
+      client.recurringTransaction.findUnique({
+        where: { id: actions.recurringTransactionId },
+        select: { id: true },
+      }),
+    ]);
+    if (!existing && recurring) {
+      await client.transactionRecurringLink.create({
+        data: { transactionId: transaction.id, recurringTransactionId: actions.recurringTransactionId },
+      });
+      changed = true;
+    }
   }
 
-  // Text matching - description exactly
-  if (conditions.descriptionExactly !== undefined) {
-    const description = transaction.description || '';
-    checks.push(
-      description.toLowerCase() === conditions.descriptionExactly.toLowerCase()
-    );
+  return changed;
+}
+
+// Longest pattern accepted, and how much of a merchant name is searched
+const MAX_REGEX_LENGTH = 200;
+const MAX_REGEX_INPUT_LENGTH = 500;
+
+/**
+ * Reject patterns that are invalid or could backtrack catastrophically on
+ * long input: backreferences, and repeated groups that themselves contain a
+ * repetition or alternation, like (a+)+ or (a|ab)*.
+ * Returns an error message, or null if the pattern is safe to run.
+ */
+export function checkRegexSafety(pattern: string): string | null {
+  if (pattern.length > MAX_REGEX_LENGTH) {
+    return `Regular expressions can be at most ${MAX_REGEX_LENGTH} characters`;
   }
 
-  // Amount matching - range (uses absolute values so users think in dollar amounts)
-  const absAmount = Math.abs(Number(transaction.amount));
-  if (conditions.amountMin !== undefined) {
-    checks.push(absAmount >= Math.abs(conditions.amountMin));
+  try {
+    new RegExp(pattern, 'i');
+  } catch {
+    return 'Invalid regular expression';
   }
 
-  if (conditions.amountMax !== undefined) {
-    checks.push(absAmount <= Math.abs(conditions.amountMax));
+  if (/\\[1-9]|\\k</.test(pattern)) {
+    return 'Backreferences are not supported in rule patterns';
   }
 
-  // Amount matching - exactly
-  if (conditions.amountExactly !== undefined) {
-    checks.push(absAmount === Math.abs(conditions.amountExactly));
+  // Walk the pattern tracking, for each open group, whether it contains a
+  // quantifier or alternation
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      i++; // Skip the escaped character
+      continue;
+    }
+    if (inClass) {
+      if (char === ']') inClass = false;
+      continue;
+    }
+
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const isComplex = groups.pop() ?? false;
+      const next = pattern[i + 1];
+      const isRepeated = next === '*' || next === '+' || next === '{';
+      if (isComplex && isRepeated) {
+        return 'This pattern could take too long to run. Avoid repeating groups that contain repeats, like (a+)+';
+      }
+      // A repeated group makes its parent complex too
+      if (groups.length > 0 && (isComplex || isRepeated)) groups[groups.length - 1] = true;
+    } else if ((char === '*' || char === '+' || char === '{' || char === '|') && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    } else if (char === '?' && pattern[i - 1] !== '(' && groups.length > 0) {
+      groups[groups.length - 1] = true; // Optional token, not the start of (?: or (?=
+    }
   }
 
-  // Account filtering - specific accounts
-  if (conditions.accountIds && conditions.accountIds.length > 0) {
-    checks.push(conditions.accountIds.includes(transaction.accountId));
+  return null;
+}
+
+// Compiled patterns, shared across the transactions a rule is checked against.
+// Patterns of edited or deleted rules are never looked up again, so the oldest
+// entries are dropped once the cache is full.
+const MAX_CACHED_REGEXES = 500;
+const regexCache = new Map<string, RegExp | null>();
+
+function compileRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    if (regexCache.size >= MAX_CACHED_REGEXES) {
+      regexCache.delete(regexCache.keys().next().value!);
+    }
+    // Rules saved before validation are skipped rather than run
+    regexCache.set(pattern, checkRegexSafety(pattern) ? null : new RegExp(pattern, 'i'));
   }
+  return regexCache.get(pattern)!;
+}
+
+function containsText(value: string | null, search: string) {
+  return (value || '').toLowerCase().includes(search.toLowerCase());
+}
+
+function toDateString(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export type RuleTransaction = Pick<
+  TransactionWithAccount,
+  'accountId' | 'amount' | 'merchantName' | 'description' | 'date' | 'account'
+> & { categoryId?: string | null };
 
-  // Account filtering - account types
-  if (conditions.accountTypes && conditions.accountTypes.length > 0) {
-    checks.push(conditions.accountTypes.includes(transaction.account.type as any));
+// One check per condition. Transaction dates are calendar dates stored at
+// midnight UTC, so they're read in UTC.
+const CONDITION_CHECKS: {
+  [K in RuleConditionField]-?: (value: NonNullable<RuleConditions[K]>, tx: RuleTransaction) => boolean;
+} = {
+  merchantContains: (value, tx) => containsText(tx.merchantName, value),
+  descriptionContains: (value, tx) => containsText(tx.description, value),
+  merchantExactly: (value, tx) => (tx.merchantName || '').toLowerCase() === value.toLowerCase(),
+  descriptionExactly: (value, tx) => (tx.description || '').toLowerCase() === value.toLowerCase(),
+  descriptionStartsWith: (value, tx) =>
+    (tx.description || '').toLowerCase().startsWith(value.toLowerCase()),
+  descriptionEndsWith: (value, tx) => (tx.description || '').toLowerCase().endsWith(value.toLowerCase()),
+  merchantMatchesRegex: (value, tx) => {
+    const regex = compileRegex(value);
+    return !!regex && regex.test((tx.merchantName || '').slice(0, MAX_REGEX_INPUT_LENGTH));
+  },
+
+  // Amounts use absolute values so users think in dollar amounts
+  amountMin: (value, tx) => Math.abs(Number(tx.amount)) >= Math.abs(value),
+  amountMax: (value, tx) => Math.abs(Number(tx.amount)) <= Math.abs(value),
+  amountExactly: (value, tx) => Math.abs(Number(tx.amount)) === Math.abs(value),
+
+  daysOfMonth: (value, tx) => value.includes(new Date(tx.date).getUTCDate()),
+  daysOfWeek: (value, tx) => value.includes(new Date(tx.date).getUTCDay()),
+  dateFrom: (value, tx) => toDateString(new Date(tx.date)) >= value,
+  dateTo: (value, tx) => toDateString(new Date(tx.date)) <= value,
+
+  categoryIs: (value, tx) => tx.categoryId === value,
+  isUncategorized: (value, tx) => !tx.categoryId === value,
+
+  accountIds: (value, tx) => value.includes(tx.accountId),
+  accountTypes: (value, tx) => value.includes(tx.account.type as AccountType),
+  ownerIds: (value, tx) => tx.account.ownerId !== null && value.includes(tx.account.ownerId),
+};
+
+/**
+ * Check if a transaction matches a rule's conditions. Each nested group is
+ * evaluated on its own and combined with the other conditions of its parent.
+ */
+export function matchesRule(transaction: RuleTransaction, conditions: RuleConditions): boolean {
+  const operator = conditions.operator || 'AND';
+  const negated = new Set(conditions.negate ?? []);
+  const checks: boolean[] = [];
+
+  for (const field of Object.keys(CONDITION_CHECKS) as RuleConditionField[]) {
+    const value = conditions[field];
+    if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) continue;
+
+    const check = CONDITION_CHECKS[field] as (value: unknown, tx: RuleTransaction) => boolean;
+    const matched = check(value, transaction);
+    checks.push(negated.has(field) ? !matched : matched);
   }
 
-  // Owner filtering
-  if (conditions.ownerIds && conditions.ownerIds.length > 0) {
-    const ownerId = transaction.account.ownerId;
-    checks.push(ownerId !== null && conditions.ownerIds.includes(ownerId));
+  for (const group of conditions.groups ?? []) {
+    checks.push(matchesRule(transaction, group));
   }
 
   // Apply operator logic
@@ -120,37 +364,73 @@ function matchesRule(
   }
 }
 
+const MATCH_BATCH_SIZE = 1000;
+
+/**
+ * Find the household's transactions that match a set of conditions, newest
+ * first. Regex, date and negated conditions can't all be expressed as a
+ * database query, so transactions are loaded in batches and matched here.
+ */
+export async function findMatchingTransactionIds(
+  householdId: string,
+  conditions: RuleConditions,
+  options: { uncategorizedOnly?: boolean } = {}
+): Promise<string[]> {
+  const matches: string[] = [];
+  let cursor: string | undefined;
+
+  for (;;) {
+    const batch = await prisma.transaction.findMany({
+      where: {
+        account: { householdId },
+        parentId: null, // Rules never recategorize split lines
+        ...(options.uncategorizedOnly && { categoryId: null }),
+      },
+      select: {
+        id: true,
+        accountId: true,
+        amount: true,
+        merchantName: true,
+        description: true,
+        date: true,
+        categoryId: true,
+        account: { select: { id: true, type: true, ownerId: true } },
+      },
+      orderBy: [{ date: 'desc' }, { id: 'desc' }],
+      take: MATCH_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    for (const transaction of batch) {
+      if (matchesRule(transaction, conditions)) matches.push(transaction.id);
+    }
+
+    if (batch.length < MATCH_BATCH_SIZE) break;
+    cursor = batch[batch.length - 1].id;
+  }
+
+  return matches;
+}
+
 /**
  * Apply all rules to a batch of transactions
- * Returns a map of transaction ID to category ID
+ * Returns a map of transaction ID to the actions of the rules it matched
  */
 export async function applyRulesToTransactions(
   transactions: TransactionWithAccount[],
   householdId: string
-): Promise<Map<string, string>> {
-  const categoryMap = new Map<string, string>();
+): Promise<Map<string, RuleActionSet>> {
+  const actionMap = new Map<string, RuleActionSet>();
 
   // Get all enabled rules once
-  const rules = await prisma.categorizationRule.findMany({
-    where: {
-      householdId,
-      isEnabled: true,
-    },
-    orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }],
-  });
+  const rules = await getEnabledRules(householdId);
 
-  // Apply rules to each transaction
   for (const transaction of transactions) {
-    for (const rule of rules) {
-      const conditions = rule.conditions as RuleConditions;
-      if (matchesRule(transaction, conditions)) {
-        categoryMap.set(transaction.id, rule.categoryId);
-        break; // First match wins
-      }
-    }
+    const actions = resolveActions(transaction, rules);
+    if (actions) actionMap.set(transaction.id, actions);
   }
 
-  return categoryMap;
+  return actionMap;
 }
 
 /**
@@ -165,6 +445,7 @@ export async function categorizeUncategorizedTransactions(
     where: {
       account: { householdId },
       categoryId: null,
+      parentId: null, // Split lines are categorized by hand
     },
     include: {
       account: {
@@ -178,16 +459,15 @@ export async function categorizeUncategorizedTransactions(
   }
 
   // Apply rules
-  const categoryMap = await applyRulesToTransactions(transactions, householdId);
+  const actionMap = await applyRulesToTransactions(transactions, householdId);
 
-  // Update transactions in batches
   let categorizedCount = 0;
-  for (const [transactionId, categoryId] of categoryMap.entries()) {
-    await prisma.transaction.update({
-      where: { id: transactionId },
-      data: { categoryId },
-    });
-    categorizedCount++;
+  for (const transaction of transactions) {
+    const actions = actionMap.get(transaction.id);
+    if (!actions) continue;
+
+    await saveRuleActions(transaction, actions);
+    if (actions.categoryId) categorizedCount++;
   }
 
   return categorizedCount;
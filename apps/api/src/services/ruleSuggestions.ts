@@ -0,0 +1,112 @@
+/**
+ * Rule suggestions
+ * Counts the merchant-to-category choices members make by hand (editing a
+ * transaction's category or bulk categorizing) and, once the same choice has
+ * been made a few times, suggests a rule that makes it automatically.
+ * Dismissed suggestions stay dismissed however often the choice is repeated.
+ */
+
+import type { RuleConditions } from '@otter-money/shared';
+import { prisma } from '../utils/prisma';
+
+// Manual categorizations of a merchant before a rule is suggested
+export const SUGGESTION_THRESHOLD = 3;
+const MAX_SUGGESTIONS = 5;
+
+function merchantKey(merchantName: string) {
+  return merchantName.trim().toLowerCase();
+}
+
+/**
+ * Count transactions a member has just moved into a category. Never throws:
+ * a failure here must not fail the categorization itself.
+ */
+export async function recordManualCategorizations(
+  householdId: string,
+  transactions: { merchantName: string | null }[],
+  categoryId: string
+): Promise<void> {
+  const byMerchant = new Map<string, { merchantName: string; count: number }>();
+  for (const tx of transactions) {
+    if (!tx.merchantName?.trim()) continue;
+    const key = merchantKey(tx.merchantName);
+    const entry = byMerchant.get(key) ?? { merchantName: tx.merchantName.trim(), count: 0 };
+    entry.count += 1;
+    byMerchant.set(key, entry);
+  }
+
+  try {
+    for (const [key, { merchantName, count }] of byMerchant) {
+      await prisma.ruleSuggestion.upsert({
+        where: {
+          householdId_merchantKey_categoryId: { householdId, merchantKey: key, categoryId },
+        },
+        create: { householdId, merchantKey: key, merchantName, categoryId, count },
+        update: { merchantName, count: { increment: count }, lastSeenAt: new Date() },
+      });
+    }
+  } catch (err) {
+    console.error('[RULE SUGGESTIONS] Failed to record manual categorization:', err);
+  }
+}
+
+// Conditions of the rule a suggestion would create
+export function suggestionConditions(suggestion: { merchantName: string }): RuleConditions {
+  return { merchantExactly: suggestion.merchantName, operator: 'AND' };
+}
+
+// Whether an existing rule already sends this merchant to this category
+function isCoveredByRule(
+  key: string,
+  categoryId: string,
+  rule: { categoryId: string | null; conditions: unknown }
+) {
+  if (rule.categoryId !== categoryId) return false;
+  const conditions = rule.conditions as RuleConditions;
+  if (conditions.negate?.length) return false;
+  if (conditions.merchantExactly) return merchantKey(conditions.merchantExactly) === key;
+  if (conditions.merchantContains) return key.includes(merchantKey(conditions.merchantContains));
+  return false;
+}
+
+/**
+ * Pending suggestions that have reached the threshold, most repeated first.
+ * When a merchant has been put in several categories only the most frequent
+ * one is suggested, and merchants an enabled rule already handles are skipped.
+ */
+export async function listRuleSuggestions(householdId: string) {
+  const [candidates, rules] = await Promise.all([
+    prisma.ruleSuggestion.findMany({
+      where: { householdId, status: 'PENDING' },
+      include: {
+        category: {
+          select: { id: true, name: true, type: true, icon: true, color: true },
+        },
+      },
+      orderBy: [{ count: 'desc' }, { lastSeenAt: 'desc' }],
+    }),
+    prisma.categorizationRule.findMany({
+      where: { householdId, isEnabled: true },
+      select: { categoryId: true, conditions: true },
+    }),
+  ]);
+
+  const seenMerchants = new Set<string>();
+  const suggestions: typeof candidates = [];
+
+  for (const candidate of candidates) {
+    // Candidates are sorted by count, so the first per merchant is the dominant choice
+    if (seenMerchants.has(candidate.merchantKey)) continue;
+    seenMerchants.add(candidate.merchantKey);
+
+    if (candidate.count < SUGGESTION_THRESHOLD) continue;
+    if (rules.some((rule) => isCoveredByRule(candidate.merchantKey, candidate.categoryId, rule))) {
+      continue;
+    }
+
+    suggestions.push(candidate);
+    if (suggestions.length === MAX_SUGGESTIONS) break;
+  }
+
+  return suggestions;
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Sessions in memory, looked up by the unique columns rotateSession uses
+const db = vi.hoisted(() => {
+  const sessions: Record<string, unknown>[] = [];
+  const find = (where: Record<string, unknown>) =>
+    sessions.find((session) => Object.entries(where).every(([key, value]) => session[key] === value)) ?? null;
+
+  return {
+    sessions,
+    prisma: {
+      session: {
+        deleteMany: async () => ({ count: 0 }),
+        create: async ({ data }: { data: Record<string, unknown> }) => {
+          const session = {
+            id: `session-${sessions.length + 1}`,
+            previousTokenHash: null,
+            revokedAt: null,
+            lastUsedAt: new Date(),
+            ...data,
+          };
+          sessions.push(session);
+          return session;
+        },
+        findUnique: async ({ where }: { where: Record<string, unknown> }) => find(where),
+        update: async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) =>
+          Object.assign(find(where)!, data),
+      },
+    },
+  };
+});
+
+vi.mock('../utils/prisma', () => ({ prisma: db.prisma }));
+
+import { createSession, describeUserAgent, rotateSession } from './sessions';
+
+const GRACE_MS = 60 * 1000;
+
+describe('rotateSession', () => {
+  beforeEach(() => {
+    db.sessions.length = 0;
+    process.env.JWT_SECRET = 'test-secret';
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('swaps in a new refresh token each time', async () => {
+    const first = await createSession('user-1', {});
+    const second = await rotateSession(first.refreshToken, {});
+    const third = await rotateSession(second.refreshToken, {});
+
+    expect(second.sessionId).toBe(first.sessionId);
+    expect(new Set([first.refreshToken, second.refreshToken, third.refreshToken]).size).toBe(3);
+  });
+
+  it('revokes the session when a rotated-out token is used again', async () => {
+    const first = await createSession('user-1', {});
+    const second = await rotateSession(first.refreshToken, {});
+
+    vi.advanceTimersByTime(GRACE_MS + 1000);
+    await expect(rotateSession(first.refreshToken, {})).rejects.toMatchObject({ statusCode: 401 });
+
+    expect(db.sessions[0].revokedAt).toBeInstanceOf(Date);
+    // The thief's copy and the real device's current token both stop working
+    await expect(rotateSession(second.refreshToken, {})).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Session has expired',
+    });
+  });
+
+  it('treats reuse within the grace period as a race, not a leak', async () => {
+    const first = await createSession('user-1', {});
+    const second = await rotateSession(first.refreshToken, {});
+
+    vi.advanceTimersByTime(5 * 1000);
+    await expect(rotateSession(first.refreshToken, {})).rejects.toMatchObject({ statusCode: 409 });
+
+    expect(db.sessions[0].revokedAt).toBeNull();
+    await expect(rotateSession(second.refreshToken, {})).resolves.toMatchObject({
+      sessionId: first.sessionId,
+    });
+  });
+
+  it('rejects unknown tokens and expired sessions', async () => {
+    await expect(rotateSession('not-a-token', {})).rejects.toMatchObject({ statusCode: 401 });
+
+    const first = await createSession('user-1', {});
+    vi.advanceTimersByTime(31 * 24 * 60 * 60 * 1000);
+    await expect(rotateSession(first.refreshToken, {})).rejects.toMatchObject({
+      message: 'Session has expired',
+    });
+  });
+});
+
+describe('describeUserAgent', () => {
+  it('names the browser and platform', () => {
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Version/17.0 Mobile/15E148 Safari/604.1'
+      )
+    ).toBe('Safari on iPhone');
+    expect(
+      describeUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0'
+      )
+    ).toBe('Edge on Windows');
+    expect(describeUserAgent(undefined)).toBe('Unknown device');
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Sessions
+ * Each sign-in creates a session for the device with a rotating refresh
+ * token. Access tokens are short-lived JWTs tied to the session, so revoking
+ * a session signs that device out within one request.
+ *
+ * Only a hash of the refresh token is stored. Each refresh swaps in a new
+ * token; presenting the previous one again (outside a short grace period)
+ * means it was copied, so the session is revoked.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { ERROR_CODES } from '@otter-money/shared';
+import { prisma } from '../utils/prisma';
+import { AppError } from '../middleware/error';
+
+const ACCESS_TOKEN_TTL = '15m';
+
+// Sessions expire after this long without a refresh
+const SESSION_IDLE_DAYS = 30;
+
+// A rotated-out token presented this soon after rotation is treated as a race
+// between two tabs on the same device rather than a leak
+const REUSE_GRACE_MS = 60 * 1000;
+
+export interface SessionMeta {
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) throw new AppError(ERROR_CODES.INTERNAL_ERROR, 'JWT secret not configured', 500);
+  return secret;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function newRefreshToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function sessionExpiry(): Date {
+  return new Date(Date.now() + SESSION_IDLE_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export function signAccessToken(userId: string, sessionId: string): string {
+  return jwt.sign({ userId, sid: sessionId }, getJwtSecret(), { expiresIn: ACCESS_TOKEN_TTL });
+}
+
+export function verifyAccessToken(token: string): { userId: string; sid?: string } {
+  return jwt.verify(token, getJwtSecret()) as { userId: string; sid?: string };
+}
+
+// Readable device name from a user agent, e.g. "Safari on iPhone"
+export function describeUserAgent(userAgent: string | undefined): string {
+  if (!userAgent) return 'Unknown device';
+
+  const platform = /iPhone/.test(userAgent)
+    ? 'iPhone'
+    : /iPad/.test(userAgent)
+    ? 'iPad'
+    : /Android/.test(userAgent)
+    ? 'Android'
+    : /Mac OS X|Macintosh/.test(userAgent)
+    ? 'Mac'
+    : /Windows/.test(userAgent)
+    ? 'Windows'
+    : /Linux/.test(userAgent)
+    ? 'Linux'
+    : null;
+
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /Firefox\//.test(userAgent)
+    ? 'Firefox'
+    : /Chrome\//.test(userAgent)
+    ? 'Chrome'
+    : /Safari\//.test(userAgent)
+    ? 'Safari'
+    : null;
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || 'Unknown device';
+}
+
+/**
+ * Start a session for a user who just signed in.
+ */
+export async function createSession(userId: string, meta: SessionMeta): Promise<SessionTokens> {
+  const refreshToken = newRefreshToken();
+
+  // Prune this user's sessions that can no longer be used
+  await prisma.session.deleteMany({
+    where: {
+      userId,
+      OR: [{ expiresAt: { lt: new Date() } }, { revokedAt: { not: null } }],
+    },
+  });
+
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenHash: hashToken(refreshToken),
+      deviceName: meta.deviceName?.trim() || describeUserAgent(meta.userAgent),
+      userAgent: meta.userAgent?.slice(0, 500),
+      ipAddress: meta.ipAddress,
+      expiresAt: sessionExpiry(),
+    },
+  });
+
+  return {
+    accessToken: signAccessToken(userId, session.id),
+    refreshToken,
+    sessionId: session.id,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token.
+ */
+export async function rotateSession(
+  refreshToken: string,
+  meta: Pick<SessionMeta, 'ipAddress'>
+): Promise<SessionTokens> {
+  const tokenHash = hashToken(refreshToken);
+
+  const session = await prisma.session.findUnique({
+    where: { refreshTokenHash: tokenHash },
+  });
+
+  if (!session) {
+    // A rotated-out token being used again means it leaked: end the session
+    const reused = await prisma.session.findUnique({
+      where: { previousTokenHash: tokenHash },
+    });
+    if (reused && !reused.revokedAt) {
+      if (Date.now() - reused.lastUsedAt.getTime() < REUSE_GRACE_MS) {
+        throw new AppError(ERROR_CODES.CONFLICT, 'Refresh token was already used', 409);
+      }
+      console.warn(`[SESSIONS] Refresh token reused for session ${reused.id}, revoking`);
+      await prisma.session.update({
+        where: { id: reused.id },
+        data: { revokedAt: new Date() },
+      });
+    }
+    throw new AppError(ERROR_CODES.UNAUTHORIZED, 'Invalid refresh token', 401);
+  }
+
+  if (session.revokedAt || session.expiresAt < new Date()) {
+    throw new AppError(ERROR_CODES.UNAUTHORIZED, 'Session has expired', 401);
+  }
+
+  const nextToken = newRefreshToken();
+  await prisma.session.update({
+    where: { id: session.id },
+    data: {
+      refreshTokenHash: hashToken(nextToken),
+      previousTokenHash: tokenHash,
+      lastUsedAt: new Date(),
+      expiresAt: sessionExpiry(),
+      ipAddress: meta.ipAddress ?? session.ipAddress,
+    },
+  });
+
+  return {
+    accessToken: signAccessToken(session.userId, session.id),
+    refreshToken: nextToken,
+    sessionId: session.id,
+  };
+}
+
+// Revoke the session a refresh token belongs to, if it's still active
+export async function revokeSessionByToken(refreshToken: string): Promise<void> {
+  await prisma.session.updateMany({
+    where: { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+// Revoke all of a user's sessions, optionally keeping one (the current device)
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const result = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+  return result.count;
+}
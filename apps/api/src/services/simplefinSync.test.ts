@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SimplefinAccount, SimplefinTransaction } from '../utils/simplefin';
+
+type Row = Record<string, unknown>;
+
+// Transactions and accounts in memory, with the where shapes the sync uses
+const db = vi.hoisted(() => {
+  const state = {
+    transactions: [] as Row[],
+    accounts: [] as Row[],
+    bridge: [] as unknown[],
+  };
+
+  function matches(row: Row, where: Row): boolean {
+    return Object.entries(where).every(([key, condition]) => {
+      const value = row[key];
+      if (condition === null || typeof condition !== 'object' || condition instanceof Date) {
+        return value instanceof Date && condition instanceof Date
+          ? value.getTime() === condition.getTime()
+          : value === condition;
+      }
+      const c = condition as Record<string, unknown>;
+      if ('in' in c && !(c.in as unknown[]).includes(value)) return false;
+      if ('notIn' in c && (c.notIn as unknown[]).includes(value)) return false;
+      if ('startsWith' in c && !String(value ?? '').startsWith(c.startsWith as string)) return false;
+      if ('not' in c && value === c.not) return false;
+      if ('gte' in c && !((value as Date) >= (c.gte as Date))) return false;
+      if ('lte' in c && !((value as Date) <= (c.lte as Date))) return false;
+      return true;
+    });
+  }
+
+  return {
+    state,
+    fetchAccounts: vi.fn(async (_accessUrl: string, _options: { startDate?: Date }) => ({
+      errors: [],
+      accounts: state.bridge,
+    })),
+    prisma: {
+      simplefinConnection: {
+        findUnique: async () => ({ id: 'connection-1', accessUrl: 'https://u:p@bridge.example/simplefin' }),
+        update: async () => ({}),
+      },
+      account: {
+        findMany: async ({ where }: { where: Row }) => state.accounts.filter((a) => matches(a, where)),
+        update: async ({ where, data }: { where: { id: string }; data: Row }) =>
+          Object.assign(state.accounts.find((a) => a.id === where.id)!, data),
+        updateMany: async () => ({ count: 0 }),
+      },
+      transaction: {
+        findMany: async ({ where }: { where: Row }) => state.transactions.filter((tx) => matches(tx, where)),
+        update: async ({ where, data }: { where: { id: string }; data: Row }) =>
+          Object.assign(state.transactions.find((tx) => tx.id === where.id)!, data),
+        create: async ({ data }: { data: Row }) => {
+          const transaction = {
+            id: `tx-${state.transactions.length + 1}`,
+            parentId: null,
+            isAdjustment: false,
+            ...data,
+          };
+          state.transactions.push(transaction);
+          return transaction;
+        },
+        deleteMany: async ({ where }: { where: Row }) => {
+          const before = state.transactions.length;
+          state.transactions = state.transactions.filter((tx) => !matches(tx, where));
+          return { count: before - state.transactions.length };
+        },
+      },
+    },
+  };
+});
+
+vi.mock('../utils/prisma', () => ({ prisma: db.prisma }));
+vi.mock('../utils/simplefin', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/simplefin')>()),
+  fetchAccounts: db.fetchAccounts,
+}));
+vi.mock('./ruleEngine', () => ({
+  applyRulesToTransaction: async () => null,
+  saveRuleActions: async () => {},
+}));
+vi.mock('./transactionSplits', () => ({ reconcileSplitsWithParent: async () => {} }));
+vi.mock('./balanceSnapshots', () => ({ recordBalanceSnapshot: async () => {} }));
+vi.mock('./transferMatcher', () => ({ detectTransfersSafely: async () => {} }));
+vi.mock('./attachments', () => ({
+  findAttachmentStorageKeys: async () => [],
+  deleteAttachmentFiles: async () => {},
+}));
+
+import { syncSimplefinConnection } from './simplefinSync';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function bridgeTransaction(
+  id: string,
+  day: string,
+  amount: string,
+  options: Partial<SimplefinTransaction> = {}
+): SimplefinTransaction {
+  const posted = Date.parse(`${day}T15:00:00Z`) / 1000;
+  return { id, posted, amount, description: `PURCHASE ${id}`, ...options };
+}
+
+function setBridge(transactions: SimplefinTransaction[]) {
+  const account: SimplefinAccount = {
+    org: { 'sfin-url': 'https://bridge.example' },
+    id: 'ACT-1',
+    name: 'Checking',
+    currency: 'USD',
+    balance: '1000.00',
+    'balance-date': NOW.getTime() / 1000,
+    transactions,
+  };
+  db.state.bridge = [account];
+}
+
+const simplefinRows = () => db.state.transactions.filter((tx) => tx.externalId);
+
+describe('syncSimplefinConnection', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    db.fetchAccounts.mockClear();
+    db.state.transactions = [];
+    db.state.accounts = [
+      {
+        id: 'account-1',
+        householdId: 'household-1',
+        connectionType: 'SIMPLEFIN',
+        simplefinAccountId: 'ACT-1',
+        lastSyncedAt: null,
+      },
+    ];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('pulls full history the first time, then overlaps the last sync', async () => {
+    setBridge([bridgeTransaction('TX-1', '2026-10-10', '-20.00')]);
+
+    await syncSimplefinConnection('household-1');
+    await syncSimplefinConnection('household-1');
+
+    const [first, second] = db.fetchAccounts.mock.calls.map(([, options]) => options);
+    expect(first.startDate).toEqual(new Date(NOW.getTime() - 90 * DAY_MS));
+    expect(second.startDate).toEqual(new Date(NOW.getTime() - 14 * DAY_MS));
+    expect(db.state.accounts[0].lastSyncedAt).toEqual(NOW);
+  });
+
+  it('adds new transactions once and updates them when they change', async () => {
+    setBridge([bridgeTransaction('TX-1', '2026-10-10', '-20.00', { pending: true })]);
+    const first = await syncSimplefinConnection('household-1');
+
+    setBridge([bridgeTransaction('TX-1', '2026-10-11', '-21.50')]);
+    const second = await syncSimplefinConnection('household-1');
+    const third = await syncSimplefinConnection('household-1');
+
+    expect(first).toMatchObject({ accountsSynced: 1, added: 1 });
+    expect(second).toMatchObject({ added: 0, modified: 1 });
+    expect(third).toMatchObject({ added: 0, modified: 0 });
+    expect(simplefinRows()).toHaveLength(1);
+    expect(simplefinRows()[0]).toMatchObject({
+      externalId: 'simplefin:ACT-1:TX-1',
+      isPending: false,
+      date: new Date('2026-10-11'),
+    });
+    expect(Number(simplefinRows()[0].amount)).toBe(-21.5);
+  });
+
+  it('claims a matching manual transaction instead of adding a duplicate', async () => {
+    db.state.transactions.push({
+      id: 'manual-1',
+      accountId: 'account-1',
+      externalId: null,
+      parentId: null,
+      isAdjustment: false,
+      isManual: true,
+      date: new Date('2026-10-10'),
+      amount: -20,
+      description: 'PURCHASE TX-1',
+      merchantName: null,
+      categoryId: 'groceries',
+    });
+    setBridge([bridgeTransaction('TX-1', '2026-10-10', '-20.00')]);
+
+    const result = await syncSimplefinConnection('household-1');
+
+    expect(result).toMatchObject({ added: 0, matched: 1 });
+    expect(db.state.transactions).toHaveLength(1);
+    expect(db.state.transactions[0]).toMatchObject({
+      id: 'manual-1',
+      externalId: 'simplefin:ACT-1:TX-1',
+      isManual: false,
+      categoryId: 'groceries',
+    });
+  });
+
+  it('removes pending rows that dropped out of the window, and only those', async () => {
+    setBridge([
+      bridgeTransaction('TX-1', '2026-10-10', '-20.00', { pending: true }),
+      bridgeTransaction('TX-2', '2026-10-12', '-5.00'),
+    ]);
+    await syncSimplefinConnection('household-1');
+
+    // TX-1 posted under a new id, TX-2 is older than the bridge sends now
+    setBridge([bridgeTransaction('TX-1b', '2026-10-11', '-20.00')]);
+    const result = await syncSimplefinConnection('household-1');
+
+    expect(result.removed).toBe(1);
+    expect(simplefinRows().map((tx) => tx.externalId)).toEqual([
+      'simplefin:ACT-1:TX-2',
+      'simplefin:ACT-1:TX-1b',
+    ]);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * SimpleFin sync service
+ * Pulls balances and transactions for a household's SimpleFin-linked accounts.
+ * SimpleFin has no cursor, so each sync re-reads a window that overlaps the
+ * previous one and reconciles by external id, the same way Plaid rows are.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { ERROR_CODES } from '@otter-money/shared';
+import { AppError } from '../middleware/error';
+import { prisma } from '../utils/prisma';
+import {
+  fetchAccounts,
+  simplefinExternalId,
+  simplefinTransactionDate,
+  type SimplefinAccount,
+} from '../utils/simplefin';
+import { applyRulesToTransaction, saveRuleActions } from './ruleEngine';
+import { computeSimilarityScore, MATCH_THRESHOLD, type ExistingTransaction } from './plaidMatcher';
+import { reconcileSplitsWithParent } from './transactionSplits';
+import { recordBalanceSnapshot } from './balanceSnapshots';
+import { detectTransfersSafely } from './transferMatcher';
+import { deleteAttachmentFiles, findAttachmentStorageKeys } from './attachments';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// History pulled the first time an account syncs
+const INITIAL_HISTORY_DAYS = 90;
+
+// Re-read this much before the last sync to catch late-posting transactions
+const SYNC_OVERLAP_DAYS = 14;
+
+export interface SimplefinSyncResult {
+  accountsSynced: number;
+  added: number;
+  matched: number; // Existing manual transactions claimed by SimpleFin
+  modified: number;
+  removed: number;
+  errors: string[]; // Messages SimpleFin reported (e.g. an institution needing attention)
+}
+
+interface AccountSyncCounts {
+  added: number;
+  matched: number;
+  modified: number;
+  removed: number;
+}
+
+async function syncAccountTransactions(
+  accountId: string,
+  simplefinAccount: SimplefinAccount,
+  householdId: string,
+  since: Date
+): Promise<AccountSyncCounts> {
+  const counts: AccountSyncCounts = { added: 0, matched: 0, modified: 0, removed: 0 };
+  const incoming = simplefinAccount.transactions || [];
+  const externalIds = incoming.map((tx) => simplefinExternalId(simplefinAccount.id, tx.id));
+
+  const linked = await prisma.transaction.findMany({
+    where: { externalId: { in: externalIds } },
+  });
+  const linkedByExternalId = new Map(linked.map((tx) => [tx.externalId!, tx]));
+
+  // Manual or imported rows that SimpleFin may be reporting for the first time
+  const dates = incoming.map((tx) => simplefinTransactionDate(tx).getTime());
+  const candidates: ExistingTransaction[] =
+    dates.length === 0
+      ? []
+      : (
+          await prisma.transaction.findMany({
+            where: {
+              accountId,
+              externalId: null,
+              parentId: null,
+              isAdjustment: false,
+              date: {
+                gte: new Date(Math.min(...dates) - 5 * DAY_MS),
+                lte: new Date(Math.max(...dates) + 5 * DAY_MS),
+              },
+            },
+          })
+        ).map((tx) => ({
+          id: tx.id,
+          externalId: tx.externalId,
+          date: tx.date,
+          amount: Number(tx.amount),
+          description: tx.description,
+          merchantName: tx.merchantName,
+          categoryId: tx.categoryId,
+          accountId: tx.accountId,
+          isManual: tx.isManual,
+        }));
+  const claimedIds = new Set<string>();
+
+  for (let i = 0; i < incoming.length; i++) {
+    const tx = incoming[i];
+    const externalId = externalIds[i];
+    const amount = Number(tx.amount);
+    const date = simplefinTransactionDate(tx);
+    const merchantName = tx.payee || null;
+    const isPending = !!tx.pending;
+
+    const existing = linkedByExternalId.get(externalId);
+    if (existing) {
+      const amountChanged = Number(existing.amount) !== amount;
+      const dateChanged = existing.date.getTime() !== date.getTime();
+      const changed =
+        amountChanged ||
+        dateChanged ||
+        existing.description !== tx.description ||
+        existing.isPending !== isPending;
+
+      if (changed) {
+        await prisma.transaction.update({
+          where: { id: existing.id },
+          data: {
+            amount: new Decimal(amount),
+            date,
+            description: tx.description,
+            merchantName: merchantName || undefined,
+            isPending,
+          },
+        });
+        if (amountChanged || dateChanged || existing.isPending !== isPending) {
+          await reconcileSplitsWithParent(externalId);
+        }
+        counts.modified++;
+      }
+      continue;
+    }
+
+    // Same fuzzy matching Plaid uses when linking an existing account
+    let bestScore = 0;
+    let bestCandidate: ExistingTransaction | null = null;
+    for (const candidate of candidates) {
+      if (claimedIds.has(candidate.id)) continue;
+
+      const score = computeSimilarityScore(
+        { date, amount, description: tx.description, merchant: merchantName },
+        candidate
+      );
+      if (score > bestScore) {
+        bestScore = score;
+        bestCandidate = candidate;
+      }
+    }
+
+    if (bestCandidate && bestScore >= MATCH_THRESHOLD) {
+      claimedIds.add(bestCandidate.id);
+      await prisma.transaction.update({
+        where: { id: bestCandidate.id },
+        data: {
+          externalId,
+          amount: new Decimal(amount),
+          date,
+          description: tx.description,
+          merchantName: merchantName || undefined,
+          isPending,
+          isManual: false,
+        },
+      });
+      counts.matched++;
+      continue;
+    }
+
+    const transaction = await prisma.transaction.create({
+      data: {
+        accountId,
+        externalId,
+        amount: new Decimal(amount),
+        merchantName,
+        description: tx.description,
+        date,
+        isPending,
+        isManual: false,
+        notes: tx.memo || null,
+      },
+      include: {
+        account: {
+          select: { id: true, type: true, ownerId: true },
+        },
+      },
+    });
+
+    // SimpleFin doesn't categorize, so rules are the only source of categories
+    const ruleActions = await applyRulesToTransaction(transaction, householdId);
+    if (ruleActions) {
+      await saveRuleActions(transaction, ruleActions);
+    }
+
+    counts.added++;
+  }
+
+  // Pending rows that disappeared from the window were dropped or re-issued once posted
+  const staleWhere = {
+    accountId,
+    isPending: true,
+    date: { gte: since },
+    externalId: {
+      startsWith: `simplefin:${simplefinAccount.id}:`,
+      notIn: externalIds,
+    },
+  } satisfies Prisma.TransactionWhereInput;
+  const attachmentKeys = await findAttachmentStorageKeys(staleWhere);
+  const removed = await prisma.transaction.deleteMany({ where: staleWhere });
+  await deleteAttachmentFiles(attachmentKeys);
+  counts.removed = removed.count;
+
+  return counts;
+}
+
+/**
+ * Sync balances and transactions for every SimpleFin-linked account in a household.
+ */
+export async function syncSimplefinConnection(householdId: string): Promise<SimplefinSyncResult> {
+  const connection = await prisma.simplefinConnection.findUnique({
+    where: { householdId },
+  });
+
+  if (!connection) {
+    throw new AppError(ERROR_CODES.NOT_FOUND, 'SimpleFin is not connected', 404);
+  }
+
+  const result: SimplefinSyncResult = {
+    accountsSynced: 0,
+    added: 0,
+    matched: 0,
+    modified: 0,
+    removed: 0,
+    errors: [],
+  };
+
+  const accounts = await prisma.account.findMany({
+    where: {
+      householdId,
+      connectionType: 'SIMPLEFIN',
+      simplefinAccountId: { not: null },
+    },
+    select: { id: true, simplefinAccountId: true, lastSyncedAt: true },
+  });
+
+  if (accounts.length === 0) {
+    return result;
+  }
+
+  // Accounts that have never synced pull full history; otherwise overlap the last sync
+  const now = new Date();
+  const neverSynced = accounts.some((a) => !a.lastSyncedAt);
+  const since = neverSynced
+    ? new Date(now.getTime() - INITIAL_HISTORY_DAYS * DAY_MS)
+    : new Date(
+        Math.min(...accounts.map((a) => a.lastSyncedAt!.getTime())) - SYNC_OVERLAP_DAYS * DAY_MS
+      );
+
+  let accountSet;
+  try {
+    accountSet = await fetchAccounts(connection.accessUrl, {
+      startDate: since,
+      accountIds: accounts.map((a) => a.simplefinAccountId!),
+    });
+  } catch (err) {
+    if (err instanceof AppError && err.statusCode === 403) {
+      await prisma.account.updateMany({
+        where: { id: { in: accounts.map((a) => a.id) } },
+        data: { connectionStatus: 'REQUIRES_REAUTH' },
+      });
+    }
+    throw err;
+  }
+
+  result.errors = accountSet.errors;
+
+  for (const simplefinAccount of accountSet.accounts) {
+    const account = accounts.find((a) => a.simplefinAccountId === simplefinAccount.id);
+    if (!account) continue;
+
+    const counts = await syncAccountTransactions(account.id, simplefinAccount, householdId, since);
+    result.added += counts.added;
+    result.matched += counts.matched;
+    result.modified += counts.modified;
+    result.removed += counts.removed;
+
+    const availableBalance = simplefinAccount['available-balance'];
+    await prisma.account.update({
+      where: { id: account.id },
+      data: {
+        currentBalance: new Decimal(simplefinAccount.balance),
+        availableBalance: availableBalance !== undefined ? new Decimal(availableBalance) : undefined,
+        connectionStatus: 'ACTIVE',
+        lastSyncedAt: now,
+      },
+    });
+    await recordBalanceSnapshot(account.id, Number(simplefinAccount.balance), 'SIMPLEFIN');
+
+    result.accountsSynced++;
+  }
+
+  await prisma.simplefinConnection.update({
+    where: { id: connection.id },
+    data: { lastSyncedAt: now },
+  });
+
+  await detectTransfersSafely(householdId);
+
+  console.log(
+    `[SIMPLEFIN SYNC] Household ${householdId}: ${result.accountsSynced} accounts, ` +
+      `${result.added} added, ${result.matched} matched, ${result.modified} modified, ${result.removed} removed`
+  );
+
+  return result;
+}
+
+/**
+ * Scheduled entry point: sync every household with a SimpleFin connection.
+ * A failing household is logged and doesn't stop the others.
+ */
+export async function syncAllSimplefinConnections(): Promise<number> {
+  const connections = await prisma.simplefinConnection.findMany({
+    select: { householdId: true },
+  });
+
+  let synced = 0;
+  for (const { householdId } of connections) {
+    try {
+      await syncSimplefinConnection(householdId);
+      synced++;
+    } catch (err) {
+      console.error(`[SIMPLEFIN SYNC] Failed to sync household ${householdId}:`, err);
+    }
+  }
+
+  return synced;
+}
@@ -0,0 +1,177 @@
+/**
+ * Spending breakdown
+ * Expense totals by category and partner for a date range. Shared by the
+ * analytics API and Wally.
+ */
+
+import { prisma } from '../utils/prisma';
+import {
+  attributedOwnerWhere,
+  excludeSplitParents,
+  getAttributedOwnerId,
+} from './transactionSplits';
+import { excludeConfirmedTransfers } from './transferMatcher';
+
+export interface SpendingBreakdownOptions {
+  start: Date;
+  end: Date;
+  ownerId?: string; // Only spending attributed to this partner
+}
+
+export interface CategorySpending {
+  categoryId: string;
+  categoryName: string;
+  categoryType: string;
+  categoryIcon: string | null;
+  categoryColor: string | null;
+  totalAmount: number;
+  percentage: number;
+  transactionCount: number;
+  byPartner: { userId: string; userName: string; amount: number; count: number }[];
+}
+
+/**
+ * Expense spending by category, largest first. Categories with no spending are omitted.
+ */
+export async function getSpendingBreakdown(
+  householdId: string,
+  { start, end, ownerId }: SpendingBreakdownOptions
+): Promise<{
+  breakdown: CategorySpending[];
+  totalSpending: number;
+  members: { id: string; name: string }[];
+}> {
+  // Get household members
+  const members = await prisma.user.findMany({
+    where: { householdId },
+    select: { id: true, name: true },
+  });
+
+  // Build where clause for transactions
+  const whereClause: any = {
+    account: {
+      householdId,
+      excludeFromBudget: false,
+    },
+    date: {
+      gte: start,
+      lte: end,
+    },
+    categoryId: {
+      not: null,
+    },
+    isAdjustment: false,
+    excludeFromBudget: false,
+    ...excludeSplitParents,
+    ...excludeConfirmedTransfers,
+  };
+
+  // Add partner filter if specified
+  if (ownerId) {
+    whereClause.AND = [attributedOwnerWhere(ownerId)];
+  }
+
+  // Get all expense transactions in this period
+  const transactions = await prisma.transaction.findMany({
+    where: whereClause,
+    include: {
+      category: {
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          icon: true,
+          color: true,
+        },
+      },
+      account: {
+        select: {
+          ownerId: true,
+        },
+      },
+    },
+  });
+
+  // Group by category
+  const spendingByCategory = new Map<
+    string,
+    {
+      categoryId: string;
+      categoryName: string;
+      categoryType: string;
+      categoryIcon: string | null;
+      categoryColor: string | null;
+      totalAmount: number;
+      transactionCount: number;
+      byPartner: Record<string, { amount: number; count: number }>;
+    }
+  >();
+
+  // Process transactions
+  transactions.forEach((transaction) => {
+    if (!transaction.categoryId || !transaction.category) return;
+
+    const categoryId = transaction.categoryId;
+    const accountOwnerId = getAttributedOwnerId(transaction);
+    const amount = Math.abs(Number(transaction.amount));
+    const isExpense = transaction.category.type === 'EXPENSE';
+
+    // Only count expenses in breakdown (or negative amounts for income/transfer)
+    const amountToAdd = isExpense ? amount : 0;
+
+    if (!spendingByCategory.has(categoryId)) {
+      const partnersMap: Record<string, { amount: number; count: number }> = {};
+      members.forEach((member) => {
+        partnersMap[member.id] = { amount: 0, count: 0 };
+      });
+
+      spendingByCategory.set(categoryId, {
+        categoryId,
+        categoryName: transaction.category.name,
+        categoryType: transaction.category.type,
+        categoryIcon: transaction.category.icon,
+        categoryColor: transaction.category.color,
+        totalAmount: 0,
+        transactionCount: 0,
+        byPartner: partnersMap,
+      });
+    }
+
+    const categoryData = spendingByCategory.get(categoryId)!;
+    categoryData.totalAmount += amountToAdd;
+    categoryData.transactionCount += 1;
+
+    if (accountOwnerId && categoryData.byPartner[accountOwnerId]) {
+      categoryData.byPartner[accountOwnerId].amount += amountToAdd;
+      categoryData.byPartner[accountOwnerId].count += 1;
+    }
+  });
+
+  // Calculate total spending for percentages
+  const totalSpending = Array.from(spendingByCategory.values())
+    .reduce((sum, cat) => sum + cat.totalAmount, 0);
+
+  // Convert to array with partner details and percentages
+  const result = Array.from(spendingByCategory.values())
+    .map((data) => ({
+      categoryId: data.categoryId,
+      categoryName: data.categoryName,
+      categoryType: data.categoryType,
+      categoryIcon: data.categoryIcon,
+      categoryColor: data.categoryColor,
+      totalAmount: data.totalAmount,
+      percentage: totalSpending > 0 ? (data.totalAmount / totalSpending) * 100 : 0,
+      transactionCount: data.transactionCount,
+      byPartner: members.map((member) => ({
+        userId: member.id,
+        userName: member.name,
+        amount: data.byPartner[member.id]?.amount || 0,
+        count: data.byPartner[member.id]?.count || 0,
+      })),
+    }))
+    .filter((data) => data.totalAmount > 0) // Only include categories with spending
+    .sort((a, b) => b.totalAmount - a.totalAmount); // Sort by amount descending
+
+
+  return { breakdown: result, totalSpending, members };
+}
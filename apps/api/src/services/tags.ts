@@ -0,0 +1,50 @@
+/**
+ * Transaction tags
+ * Free-form labels that cut across categories ("vacation-2026",
+ * "reimbursable"). Tags belong to the whole transaction, so split lines don't
+ * carry their own. Names are unique per household ignoring case and can't
+ * contain commas, so a transaction's tags fit in one CSV column.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { ERROR_CODES } from '@otter-money/shared';
+import { AppError } from '../middleware/error';
+import { prisma } from '../utils/prisma';
+
+// Include for returning a transaction together with its tags
+export const tagsInclude = {
+  select: { id: true, name: true, color: true },
+  orderBy: { name: 'asc' },
+} satisfies Prisma.Transaction$tagsArgs;
+
+// Helper to verify tags belong to household
+export async function verifyTagAccess(tagIds: string[], householdId: string) {
+  if (tagIds.length === 0) return;
+
+  const count = await prisma.tag.count({
+    where: { id: { in: tagIds }, householdId },
+  });
+
+  if (count !== new Set(tagIds).size) {
+    throw new AppError(ERROR_CODES.FORBIDDEN, 'Some tags not found or access denied', 403);
+  }
+}
+
+// Split a CSV tag column ("vacation-2026, reimbursable") into names, dropping duplicates
+export function parseTagList(value: string): string[] {
+  const names = new Map<string, string>();
+  for (const part of value.split(',')) {
+    const name = part.trim();
+    if (name && !names.has(name.toLowerCase())) names.set(name.toLowerCase(), name);
+  }
+  return [...names.values()];
+}
+
+// The household's tags, keyed by lowercased name
+export async function getTagIdsByName(householdId: string): Promise<Map<string, string>> {
+  const tags = await prisma.tag.findMany({
+    where: { householdId },
+    select: { id: true, name: true },
+  });
+  return new Map(tags.map((tag) => [tag.name.toLowerCase(), tag.id]));
+}
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Decimal } from '@prisma/client/runtime/library';
+
+const db = vi.hoisted(() => ({
+  parent: {} as Record<string, unknown>,
+  memberIds: [] as string[],
+  createdLines: [] as Record<string, unknown>[],
+}));
+
+vi.mock('../utils/prisma', () => ({
+  prisma: {
+    transaction: {
+      findUniqueOrThrow: async () => db.parent,
+      deleteMany: async () => ({ count: 0 }),
+      createMany: async ({ data }: { data: Record<string, unknown>[] }) => {
+        db.createdLines.push(...data);
+        return { count: data.length };
+      },
+    },
+    category: {
+      findMany: async ({ where }: { where: { id: { in: string[] } } }) => where.id.in.map((id) => ({ id })),
+    },
+    user: {
+      count: async ({ where }: { where: { id: { in: string[] } } }) =>
+        where.id.in.filter((id) => db.memberIds.includes(id)).length,
+    },
+    $transaction: async (operations: Promise<unknown>[]) => Promise.all(operations),
+  },
+}));
+
+import { getAttributedOwnerId, replaceSplits } from './transactionSplits';
+
+describe('getAttributedOwnerId', () => {
+  it('prefers the attributed partner over the account owner', () => {
+    expect(getAttributedOwnerId({ attributedToId: 'sam', account: { ownerId: 'alex' } })).toBe('sam');
+    expect(getAttributedOwnerId({ attributedToId: null, account: { ownerId: 'alex' } })).toBe('alex');
+    expect(getAttributedOwnerId({ attributedToId: null, account: { ownerId: null } })).toBeNull();
+  });
+});
+
+describe('replaceSplits', () => {
+  beforeEach(() => {
+    db.parent = {
+      id: 'parent',
+      accountId: 'joint-card',
+      parentId: null,
+      isAdjustment: false,
+      amount: new Decimal(-100),
+      date: new Date('2026-10-14T00:00:00Z'),
+      currency: 'USD',
+      merchantName: 'Costco',
+      description: 'COSTCO #123',
+      isManual: false,
+      isPending: false,
+    };
+    db.memberIds = ['alex', 'sam'];
+    db.createdLines.length = 0;
+  });
+
+  it('creates a line per split, attributed to a partner or left joint', async () => {
+    await replaceSplits(
+      'parent',
+      [
+        { amount: -60.25, categoryId: 'groceries', attributedToId: 'sam' },
+        { amount: -39.75, categoryId: 'household' },
+      ],
+      'household-1'
+    );
+
+    expect(db.createdLines).toHaveLength(2);
+    expect(db.createdLines[0]).toMatchObject({
+      parentId: 'parent',
+      accountId: 'joint-card',
+      attributedToId: 'sam',
+    });
+    expect(db.createdLines[1]).toMatchObject({ categoryId: 'household', attributedToId: null });
+  });
+
+  it('needs the lines to add up to the transaction exactly', async () => {
+    await expect(
+      replaceSplits('parent', [{ amount: -60 }, { amount: -39.99 }], 'household-1')
+    ).rejects.toMatchObject({ statusCode: 400, details: { expected: -100, actual: -99.99 } });
+  });
+
+  it('needs at least two non-zero lines', async () => {
+    await expect(replaceSplits('parent', [{ amount: -100 }], 'household-1')).rejects.toThrow('at least two');
+    await expect(
+      replaceSplits('parent', [{ amount: -100 }, { amount: 0 }], 'household-1')
+    ).rejects.toThrow('cannot be zero');
+  });
+
+  it('only attributes lines to household members', async () => {
+    await expect(
+      replaceSplits('parent', [{ amount: -50, attributedToId: 'stranger' }, { amount: -50 }], 'household-1')
+    ).rejects.toThrow('household members');
+  });
+
+  it("doesn't split lines or balance adjustments", async () => {
+    db.parent.parentId = 'grandparent';
+    await expect(replaceSplits('parent', [{ amount: -50 }, { amount: -50 }], 'household-1')).rejects.toThrow(
+      'cannot be split again'
+    );
+
+    db.parent.parentId = null;
+    db.parent.isAdjustment = true;
+    await expect(replaceSplits('parent', [{ amount: -50 }, { amount: -50 }], 'household-1')).rejects.toThrow(
+      'Balance adjustments'
+    );
+  });
+});
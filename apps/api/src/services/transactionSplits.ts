@@ -0,0 +1,189 @@
+/**
+ * Split transactions
+ * A split parent keeps its original amount, category and balance effect. Its
+ * child lines (parentId set) carry the per-category amounts and are what
+ * budgets and analytics count. Lines never touch account balances.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { ERROR_CODES, type TransactionSplitLine } from '@otter-money/shared';
+import { AppError } from '../middleware/error';
+import { prisma } from '../utils/prisma';
+
+// Reporting filter: count split lines and unsplit transactions, skip split parents
+export const excludeSplitParents: Prisma.TransactionWhereInput = {
+  splits: { none: {} },
+};
+
+// Include for returning a transaction together with its split lines
+export const splitsInclude = {
+  include: {
+    category: {
+      select: { id: true, name: true, type: true, icon: true, color: true },
+    },
+    attributedTo: {
+      select: { id: true, name: true },
+    },
+  },
+  orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+} satisfies Prisma.Transaction$splitsArgs;
+
+/**
+ * Filter for transactions belonging to a partner: split lines attributed to
+ * them, plus anything on their accounts that isn't attributed elsewhere.
+ */
+export function attributedOwnerWhere(ownerId: string): Prisma.TransactionWhereInput {
+  return {
+    OR: [
+      { attributedToId: ownerId },
+      { attributedToId: null, account: { ownerId } },
+    ],
+  };
+}
+
+// Partner a transaction counts towards (null = joint)
+export function getAttributedOwnerId(transaction: {
+  attributedToId: string | null;
+  account: { ownerId: string | null };
+}): string | null {
+  return transaction.attributedToId ?? transaction.account.ownerId;
+}
+
+// Compare at the column's scale (Decimal(19, 4)) so sums are exact
+function toUnits(amount: number | Decimal): number {
+  return Math.round(Number(amount) * 10000);
+}
+
+async function validateSplitLines(
+  parent: { amount: Decimal },
+  lines: TransactionSplitLine[],
+  householdId: string
+) {
+  if (lines.length < 2) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'A split needs at least two lines', 400);
+  }
+
+  if (lines.some((line) => toUnits(line.amount) === 0)) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Split lines cannot be zero', 400);
+  }
+
+  const total = lines.reduce((sum, line) => sum + toUnits(line.amount), 0);
+  if (total !== toUnits(parent.amount)) {
+    throw new AppError(
+      ERROR_CODES.VALIDATION_ERROR,
+      `Split lines must add up to the transaction amount (${Number(parent.amount).toFixed(2)})`,
+      400,
+      { expected: Number(parent.amount), actual: total / 10000 }
+    );
+  }
+
+  const categoryIds = [...new Set(lines.map((l) => l.categoryId).filter((id): id is string => !!id))];
+  if (categoryIds.length > 0) {
+    const categories = await prisma.category.findMany({
+      where: {
+        id: { in: categoryIds },
+        OR: [{ isSystem: true }, { householdId }],
+      },
+      select: { id: true },
+    });
+
+    if (categories.length !== categoryIds.length) {
+      throw new AppError(ERROR_CODES.FORBIDDEN, 'Category access denied', 403);
+    }
+  }
+
+  const memberIds = [...new Set(lines.map((l) => l.attributedToId).filter((id): id is string => !!id))];
+  if (memberIds.length > 0) {
+    const members = await prisma.user.count({
+      where: { id: { in: memberIds }, householdId },
+    });
+
+    if (members !== memberIds.length) {
+      throw new AppError(
+        ERROR_CODES.VALIDATION_ERROR,
+        'Split lines can only be attributed to household members',
+        400
+      );
+    }
+  }
+}
+
+/**
+ * Replace a transaction's split lines (creating the split if it had none).
+ * The caller is responsible for checking the parent belongs to the household.
+ */
+export async function replaceSplits(
+  parentId: string,
+  lines: TransactionSplitLine[],
+  householdId: string
+) {
+  const parent = await prisma.transaction.findUniqueOrThrow({
+    where: { id: parentId },
+  });
+
+  if (parent.parentId) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'A split line cannot be split again', 400);
+  }
+
+  if (parent.isAdjustment) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Balance adjustments cannot be split', 400);
+  }
+
+  await validateSplitLines(parent, lines, householdId);
+
+  await prisma.$transaction([
+    prisma.transaction.deleteMany({ where: { parentId } }),
+    prisma.transaction.createMany({
+      data: lines.map((line) => ({
+        accountId: parent.accountId,
+        parentId,
+        date: parent.date,
+        amount: new Decimal(line.amount),
+        currency: parent.currency,
+        merchantName: parent.merchantName,
+        description: parent.description,
+        categoryId: line.categoryId || null,
+        notes: line.notes || null,
+        attributedToId: line.attributedToId || null,
+        isManual: parent.isManual,
+        isPending: parent.isPending,
+      })),
+    }),
+  ]);
+}
+
+/**
+ * Un-split: drop the lines, the parent is counted again as a single transaction.
+ * Returns the number of lines removed.
+ */
+export async function removeSplits(parentId: string): Promise<number> {
+  const result = await prisma.transaction.deleteMany({ where: { parentId } });
+  return result.count;
+}
+
+/**
+ * Keep split lines consistent after the bank changes the parent (sync "modified").
+ * Date and pending state follow the parent; if the amount changed the lines no
+ * longer add up, so the split is dropped and the parent counts on its own again.
+ */
+export async function reconcileSplitsWithParent(externalId: string): Promise<void> {
+  const parent = await prisma.transaction.findUnique({
+    where: { externalId },
+    include: { splits: { select: { amount: true } } },
+  });
+
+  if (!parent || parent.splits.length === 0) return;
+
+  const total = parent.splits.reduce((sum, line) => sum + toUnits(line.amount), 0);
+  if (total !== toUnits(parent.amount)) {
+    const removed = await removeSplits(parent.id);
+    console.log(`[SPLITS] Amount changed for ${parent.id}, removed ${removed} split lines`);
+    return;
+  }
+
+  await prisma.transaction.updateMany({
+    where: { parentId: parent.id },
+    data: { date: parent.date, isPending: parent.isPending },
+  });
+}
@@ -0,0 +1,206 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type Row = Record<string, unknown>;
+
+// Enough of prisma.transaction for detectTransfers: rows in memory, and the
+// where shapes it uses (equality, `in`, OR and nested relations)
+const db = vi.hoisted(() => {
+  const rows: Record<string, unknown>[] = [];
+  const candidates: Record<string, unknown>[] = [];
+  const updates: { where: { id: string }; data: Record<string, unknown> }[] = [];
+
+  function matches(row: Record<string, unknown>, where: Record<string, unknown>): boolean {
+    return Object.entries(where).every(([key, condition]) => {
+      if (key === 'OR') {
+        return (condition as Record<string, unknown>[]).some((branch) => matches(row, branch));
+      }
+      if (condition !== null && typeof condition === 'object' && 'in' in condition) {
+        return (condition as { in: unknown[] }).in.includes(row[key]);
+      }
+      if (condition !== null && typeof condition === 'object') {
+        return matches(row[key] as Record<string, unknown>, condition as Record<string, unknown>);
+      }
+      return row[key] === condition;
+    });
+  }
+
+  return {
+    rows,
+    candidates,
+    updates,
+    prisma: {
+      transaction: {
+        updateMany: async (args: { where: Record<string, unknown>; data: Record<string, unknown> }) => {
+          const { where, data } = args;
+          const matched = rows.filter((row) => matches(row, where));
+          matched.forEach((row) => Object.assign(row, data));
+          return { count: matched.length };
+        },
+        findMany: async () => candidates,
+        update: async (args: { where: { id: string }; data: Record<string, unknown> }) => {
+          updates.push(args);
+          return args;
+        },
+      },
+      category: {
+        findFirst: async ({ where }: { where: { name?: string } }) => ({ id: where.name ?? 'transfer' }),
+      },
+      $transaction: async (operations: Promise<unknown>[]) => Promise.all(operations),
+    },
+  };
+});
+
+vi.mock('../utils/prisma', () => ({ prisma: db.prisma }));
+
+import { Decimal } from '@prisma/client/runtime/library';
+import { buildRuleActionData } from './ruleEngine';
+import { detectTransfers } from './transferMatcher';
+
+function transaction(overrides: Row = {}): Row {
+  return {
+    id: 'tx-1',
+    account: { householdId: 'household-1' },
+    categoryId: null,
+    merchantName: 'Vanguard',
+    notes: null,
+    excludeFromBudget: false,
+    attributedToId: null,
+    transferPairId: null,
+    transferStatus: 'NONE',
+    transferPaired: false,
+    ...overrides,
+  };
+}
+
+describe('detectTransfers', () => {
+  beforeEach(() => {
+    db.rows.length = 0;
+    db.candidates.length = 0;
+    db.updates.length = 0;
+  });
+
+  it('keeps a transfer a rule marked on its own', async () => {
+    const row = transaction();
+    const data = buildRuleActionData(
+      { ruleIds: ['rule-1'], appliedRuleIds: ['rule-1'], notes: [], markAsTransfer: true },
+      row as Parameters<typeof buildRuleActionData>[1]
+    );
+    Object.assign(row, data);
+    db.rows.push(row);
+    expect(row.transferStatus).toBe('CONFIRMED');
+
+    await detectTransfers('household-1');
+
+    expect(row.transferStatus).toBe('CONFIRMED');
+  });
+
+  it('resets a leg whose pair was deleted', async () => {
+    const confirmed = transaction({ id: 'tx-1', transferStatus: 'CONFIRMED', transferPaired: true });
+    const suggested = transaction({ id: 'tx-2', transferStatus: 'SUGGESTED', transferPaired: true });
+    db.rows.push(confirmed, suggested);
+
+    await detectTransfers('household-1');
+
+    expect(confirmed).toMatchObject({ transferStatus: 'NONE', transferPaired: false });
+    expect(suggested).toMatchObject({ transferStatus: 'NONE', transferPaired: false });
+  });
+
+  it('leaves pairs that still have both legs alone', async () => {
+    const paired = { transferStatus: 'CONFIRMED', transferPaired: true };
+    const outflow = transaction({ id: 'tx-1', transferPairId: 'tx-2', ...paired });
+    const inflow = transaction({ id: 'tx-2', transferPairId: 'tx-1', ...paired });
+    const otherHousehold = transaction({
+      id: 'tx-3',
+      account: { householdId: 'household-2' },
+      transferStatus: 'CONFIRMED',
+      transferPaired: true,
+    });
+    db.rows.push(outflow, inflow, otherHousehold);
+
+    await detectTransfers('household-1');
+
+    expect(outflow.transferStatus).toBe('CONFIRMED');
+    expect(inflow.transferStatus).toBe('CONFIRMED');
+    expect(otherHousehold.transferStatus).toBe('CONFIRMED');
+  });
+
+  describe('pairing', () => {
+    function candidate(id: string, accountId: string, amount: number, date: string, type = 'CHECKING') {
+      return {
+        id,
+        accountId,
+        amount: new Decimal(amount),
+        date: new Date(`${date}T00:00:00Z`),
+        categoryId: null,
+        account: { type },
+      };
+    }
+
+    function pairOf(id: string) {
+      return db.updates.find((update) => update.where.id === id)?.data.transferPairId;
+    }
+
+    it('pairs equal and opposite amounts on different accounts within three days', async () => {
+      db.candidates.push(
+        candidate('out', 'checking', -500, '2026-10-01'),
+        candidate('in', 'savings', 500, '2026-10-03', 'SAVINGS')
+      );
+
+      expect(await detectTransfers('household-1')).toBe(1);
+      expect(pairOf('out')).toBe('in');
+      expect(pairOf('in')).toBe('out');
+      expect(db.updates[0].data).toMatchObject({
+        transferStatus: 'SUGGESTED',
+        transferPaired: true,
+        categoryId: 'Account Transfer',
+      });
+    });
+
+    it('uses the card payment category when a credit card is involved', async () => {
+      db.candidates.push(
+        candidate('out', 'checking', -250.1, '2026-10-01'),
+        candidate('in', 'card', 250.1, '2026-10-02', 'CREDIT')
+      );
+
+      await detectTransfers('household-1');
+      expect(db.updates[0].data.categoryId).toBe('CC Payment');
+    });
+
+    it('picks the closest inflow in time', async () => {
+      db.candidates.push(
+        candidate('in-early', 'savings', 100, '2026-09-28'),
+        candidate('out', 'checking', -100, '2026-10-01'),
+        candidate('in-close', 'brokerage', 100, '2026-10-01')
+      );
+
+      expect(await detectTransfers('household-1')).toBe(1);
+      expect(pairOf('out')).toBe('in-close');
+    });
+
+    it("doesn't pair the same account, different amounts or legs too far apart", async () => {
+      db.candidates.push(
+        candidate('out-1', 'checking', -100, '2026-10-01'),
+        candidate('in-1', 'checking', 100, '2026-10-01'),
+        candidate('out-2', 'checking', -75, '2026-10-05'),
+        candidate('in-2', 'savings', 75.01, '2026-10-05'),
+        candidate('out-3', 'checking', -60, '2026-10-10'),
+        candidate('in-3', 'savings', 60, '2026-10-14')
+      );
+
+      expect(await detectTransfers('household-1')).toBe(0);
+      expect(db.updates).toHaveLength(0);
+    });
+
+    it('uses each inflow only once', async () => {
+      db.candidates.push(
+        candidate('out-1', 'checking', -40, '2026-10-01'),
+        candidate('out-2', 'card', -40, '2026-10-01'),
+        candidate('in', 'savings', 40, '2026-10-01')
+      );
+
+      expect(await detectTransfers('household-1')).toBe(1);
+      expect(pairOf('out-1')).toBe('in');
+      expect(pairOf('out-2')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Transfer matching
+ * Pairs the two legs of money moving between household accounts (checking to
+ * savings, credit card payments) so they aren't counted as both an expense and
+ * income. Matches are suggested automatically; confirmed pairs are excluded
+ * from budgets, analytics and recurring detection.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { ERROR_CODES } from '@otter-money/shared';
+import { AppError } from '../middleware/error';
+import { prisma } from '../utils/prisma';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Legs can post a few days apart (ACH, card payment processing)
+const TRANSFER_WINDOW_DAYS = 3;
+
+const DEFAULT_LOOKBACK_DAYS = 90;
+
+// Reporting filter: skip confirmed transfers
+export const excludeConfirmedTransfers: Prisma.TransactionWhereInput = {
+  transferStatus: { not: 'CONFIRMED' },
+};
+
+// Include for returning a transaction's other leg
+export const transferPairInclude = {
+  select: {
+    id: true,
+    date: true,
+    amount: true,
+    description: true,
+    merchantName: true,
+    account: { select: { id: true, name: true, type: true } },
+  },
+} satisfies Prisma.Transaction$transferPairArgs;
+
+// Compare at the column's scale (Decimal(19, 4)) so matches are exact
+function toUnits(amount: number | Prisma.Decimal): number {
+  return Math.round(Number(amount) * 10000);
+}
+
+/**
+ * Pick the TRANSFER category for a pair: card payments get "CC Payment",
+ * everything else "Account Transfer", falling back to any TRANSFER category.
+ */
+async function getDefaultTransferCategoryId(
+  householdId: string,
+  accountTypes: string[]
+): Promise<string | null> {
+  const preferredName = accountTypes.includes('CREDIT') ? 'CC Payment' : 'Account Transfer';
+  const available = { type: 'TRANSFER' as const, OR: [{ isSystem: true }, { householdId }] };
+
+  const preferred = await prisma.category.findFirst({
+    where: { ...available, name: preferredName },
+    select: { id: true },
+  });
+  if (preferred) return preferred.id;
+
+  const fallback = await prisma.category.findFirst({
+    where: available,
+    orderBy: [{ depth: 'desc' }, { displayOrder: 'asc' }],
+    select: { id: true },
+  });
+  return fallback?.id ?? null;
+}
+
+/**
+ * Find unmatched, opposite-signed transactions of equal amount on two different
+ * household accounts within a few days of each other and link them as
+ * suggested transfers. Uncategorized legs get the default transfer category.
+ * Returns the number of pairs created.
+ */
+export async function detectTransfers(
+  householdId: string,
+  lookbackDays: number = DEFAULT_LOOKBACK_DAYS
+): Promise<number> {
+  // A leg whose partner was deleted (e.g. removed by the bank) is no longer a
+  // transfer. Transfers a rule confirmed without a pair are left alone.
+  await prisma.transaction.updateMany({
+    where: {
+      account: { householdId },
+      transferPairId: null,
+      OR: [{ transferStatus: 'SUGGESTED' }, { transferStatus: 'CONFIRMED', transferPaired: true }],
+    },
+    data: { transferStatus: 'NONE', transferPaired: false },
+  });
+
+  const since = new Date(Date.now() - lookbackDays * DAY_MS);
+
+  const candidates = await prisma.transaction.findMany({
+    where: {
+      account: { householdId },
+      date: { gte: since },
+      transferStatus: 'NONE',
+      isAdjustment: false,
+      isPending: false, // Pending rows are replaced when they post
+      parentId: null,
+      splits: { none: {} },
+    },
+    select: {
+      id: true,
+      accountId: true,
+      date: true,
+      amount: true,
+      categoryId: true,
+      account: { select: { type: true } },
+    },
+    orderBy: { date: 'asc' },
+  });
+
+  // Index inflows by amount so each outflow only scans equal-amount candidates
+  const inflowsByAmount = new Map<number, typeof candidates>();
+  for (const tx of candidates) {
+    const units = toUnits(tx.amount);
+    if (units <= 0) continue;
+    const list = inflowsByAmount.get(units) || [];
+    list.push(tx);
+    inflowsByAmount.set(units, list);
+  }
+
+  const matchedIds = new Set<string>();
+  const pairs: [(typeof candidates)[number], (typeof candidates)[number]][] = [];
+
+  for (const outflow of candidates) {
+    const units = toUnits(outflow.amount);
+    if (units >= 0) continue;
+
+    let best: (typeof candidates)[number] | null = null;
+    let bestGap = Infinity;
+
+    for (const inflow of inflowsByAmount.get(-units) || []) {
+      if (matchedIds.has(inflow.id) || inflow.accountId === outflow.accountId) continue;
+
+      const gap = Math.abs(inflow.date.getTime() - outflow.date.getTime());
+      if (gap <= TRANSFER_WINDOW_DAYS * DAY_MS && gap < bestGap) {
+        best = inflow;
+        bestGap = gap;
+      }
+    }
+
+    if (best) {
+      matchedIds.add(outflow.id);
+      matchedIds.add(best.id);
+      pairs.push([outflow, best]);
+    }
+  }
+
+  for (const [outflow, inflow] of pairs) {
+    const needsCategory = !outflow.categoryId || !inflow.categoryId;
+    const transferCategoryId = needsCategory
+      ? await getDefaultTransferCategoryId(householdId, [outflow.account.type, inflow.account.type])
+      : null;
+
+    await prisma.$transaction([
+      prisma.transaction.update({
+        where: { id: outflow.id },
+        data: {
+          transferPairId: inflow.id,
+          transferStatus: 'SUGGESTED',
+          transferPaired: true,
+          categoryId: outflow.categoryId ?? transferCategoryId,
+        },
+      }),
+      prisma.transaction.update({
+        where: { id: inflow.id },
+        data: {
+          transferPairId: outflow.id,
+          transferStatus: 'SUGGESTED',
+          transferPaired: true,
+          categoryId: inflow.categoryId ?? transferCategoryId,
+        },
+      }),
+    ]);
+  }
+
+  return pairs.length;
+}
+
+/**
+ * Run detection after new transactions arrive (bank sync, import).
+ * Best-effort: failures are logged and never break the caller.
+ */
+export async function detectTransfersSafely(householdId: string): Promise<void> {
+  try {
+    const paired = await detectTransfers(householdId);
+    if (paired > 0) {
+      console.log(`[TRANSFERS] Suggested ${paired} transfer pairs for household ${householdId}`);
+    }
+  } catch (err) {
+    console.error(`[TRANSFERS] Failed to detect transfers for household ${householdId}:`, err);
+  }
+}
+
+async function getTransferLegs(transactionId: string, householdId: string) {
+  const transaction = await prisma.transaction.findUnique({
+    where: { id: transactionId },
+    include: {
+      account: { select: { householdId: true, type: true } },
+      category: { select: { type: true } },
+      transferPair: {
+        include: {
+          account: { select: { type: true } },
+          category: { select: { type: true } },
+        },
+      },
+    },
+  });
+
+  if (!transaction) {
+    throw new AppError(ERROR_CODES.NOT_FOUND, 'Transaction not found', 404);
+  }
+
+  if (transaction.account.householdId !== householdId) {
+    throw new AppError(ERROR_CODES.FORBIDDEN, 'Access denied', 403);
+  }
+
+  return transaction;
+}
+
+/**
+ * Confirm a suggested pair. Both legs move to the default TRANSFER category
+ * unless they're already in one.
+ */
+export async function confirmTransfer(transactionId: string, householdId: string): Promise<void> {
+  const transaction = await getTransferLegs(transactionId, householdId);
+  const pair = transaction.transferPair;
+
+  if (!pair) {
+    throw new AppError(ERROR_CODES.NOT_FOUND, 'Transaction is not paired with a transfer', 404);
+  }
+
+  const transferCategoryId = await getDefaultTransferCategoryId(householdId, [
+    transaction.account.type,
+    pair.account.type,
+  ]);
+
+  await prisma.$transaction(
+    [transaction, pair].map((leg) =>
+      prisma.transaction.update({
+        where: { id: leg.id },
+        data: {
+          transferStatus: 'CONFIRMED',
+          categoryId:
+            leg.category?.type === 'TRANSFER' || !transferCategoryId ? undefined : transferCategoryId,
+        },
+      })
+    )
+  );
+}
+
+/**
+ * Manually pair two transactions as a confirmed transfer.
+ */
+export async function linkTransfer(
+  transactionId: string,
+  pairId: string,
+  householdId: string
+): Promise<void> {
+  if (transactionId === pairId) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'A transaction cannot be paired with itself', 400);
+  }
+
+  const [transaction, pair] = await Promise.all([
+    getTransferLegs(transactionId, householdId),
+    getTransferLegs(pairId, householdId),
+  ]);
+
+  if (transaction.transferPairId || pair.transferPairId) {
+    throw new AppError(
+      ERROR_CODES.CONFLICT,
+      'Transaction is already paired, unlink it first',
+      409
+    );
+  }
+
+  if (transaction.accountId === pair.accountId) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Transfer legs must be on different accounts', 400);
+  }
+
+  if (transaction.parentId || pair.parentId) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Split lines cannot be paired as transfers', 400);
+  }
+
+  if (toUnits(transaction.amount) !== -toUnits(pair.amount)) {
+    throw new AppError(
+      ERROR_CODES.VALIDATION_ERROR,
+      'Transfer legs must be equal amounts in opposite directions',
+      400
+    );
+  }
+
+  await prisma.$transaction([
+    prisma.transaction.update({
+      where: { id: transaction.id },
+      data: { transferPairId: pair.id, transferStatus: 'SUGGESTED', transferPaired: true },
+    }),
+    prisma.transaction.update({
+      where: { id: pair.id },
+      data: { transferPairId: transaction.id, transferStatus: 'SUGGESTED', transferPaired: true },
+    }),
+  ]);
+
+  await confirmTransfer(transaction.id, householdId);
+}
+
+/**
+ * Unlink a pair. Both legs are dismissed so detection won't pair them again;
+ * categories are left as they are. A transaction a rule marked as a transfer
+ * on its own (confirmed without a pair) is dismissed the same way.
+ */
+export async function unlinkTransfer(transactionId: string, householdId: string): Promise<void> {
+  const transaction = await getTransferLegs(transactionId, householdId);
+
+  if (!transaction.transferPairId) {
+    if (transaction.transferStatus !== 'CONFIRMED') {
+      throw new AppError(ERROR_CODES.NOT_FOUND, 'Transaction is not paired with a transfer', 404);
+    }
+    await prisma.transaction.update({
+      where: { id: transaction.id },
+      data: { transferStatus: 'DISMISSED' },
+    });
+    return;
+  }
+
+  await prisma.transaction.updateMany({
+    where: { id: { in: [transaction.id, transaction.transferPairId] } },
+    data: { transferPairId: null, transferStatus: 'DISMISSED', transferPaired: false },
+  });
+}
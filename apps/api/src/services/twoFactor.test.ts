@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../utils/prisma', () => ({ prisma: {} }));
+
+import { verifyTotpCode } from './twoFactor';
+
+// RFC 6238 test secret ("12345678901234567890") in base32
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('verifyTotpCode', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // T = 59s is time step 1; the RFC's SHA-1 code there is 94287082
+    vi.setSystemTime(59 * 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts the current code and returns its step', () => {
+    expect(verifyTotpCode(SECRET, '287082', null)).toBe(1);
+  });
+
+  it('ignores spaces in the code', () => {
+    expect(verifyTotpCode(SECRET, '287 082', null)).toBe(1);
+  });
+
+  it('matches the RFC vector at a later time', () => {
+    vi.setSystemTime(1111111109 * 1000);
+    expect(verifyTotpCode(SECRET, '081804', null)).toBe(37037036);
+  });
+
+  it('accepts the codes one step either side for clock drift', () => {
+    vi.setSystemTime((1111111109 + 30) * 1000);
+    expect(verifyTotpCode(SECRET, '081804', null)).toBe(37037036);
+    vi.setSystemTime((1111111109 - 30) * 1000);
+    expect(verifyTotpCode(SECRET, '081804', null)).toBe(37037036);
+  });
+
+  it('rejects codes more than one step away', () => {
+    vi.setSystemTime((1111111109 + 60) * 1000);
+    expect(verifyTotpCode(SECRET, '081804', null)).toBeNull();
+  });
+
+  it('rejects a code that was already used', () => {
+    expect(verifyTotpCode(SECRET, '287082', 1)).toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    expect(verifyTotpCode(SECRET, '28708', null)).toBeNull();
+    expect(verifyTotpCode(SECRET, '2870821', null)).toBeNull();
+    expect(verifyTotpCode(SECRET, 'abcdef', null)).toBeNull();
+    expect(verifyTotpCode(SECRET, '', null)).toBeNull();
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Two-factor authentication
+ * TOTP (RFC 6238) codes from an authenticator app, with single-use recovery
+ * codes as a fallback. A user with 2FA on signs in in two steps: the password
+ * earns a short-lived challenge, and the challenge plus a code earns a session.
+ */
+
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { ERROR_CODES } from '@otter-money/shared';
+import { prisma } from '../utils/prisma';
+import { AppError } from '../middleware/error';
+
+const ISSUER = 'Otter Money';
+
+// Standard authenticator app settings: 6 digits every 30 seconds
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+
+// Accept the previous and next code too, for clock drift
+const TOTP_WINDOW = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+// ============================================
+// TOTP
+// ============================================
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 character');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function currentStep(): number {
+  return Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+}
+
+function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Check a code against the secret. Returns the time step it matched, or null.
+ * Codes at or before `lastUsedStep` are rejected so a code only works once.
+ */
+export function verifyTotpCode(secret: string, code: string, lastUsedStep: number | null): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) return null;
+
+  const now = currentStep();
+  for (let step = now - TOTP_WINDOW; step <= now + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    const expected = totpCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// ============================================
+// RECOVERY CODES
+// ============================================
+
+function hashCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+// Recovery codes are shown as "abcde-12345" but accepted with any spacing or case
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function newRecoveryCode(): string {
+  const raw = crypto.randomBytes(8).toString('hex').slice(0, 10);
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+/**
+ * Replace the user's recovery codes with a fresh set. The plain codes are
+ * only available here; just their hashes are stored.
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, newRecoveryCode);
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashCode(normalizeRecoveryCode(code)) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+// ============================================
+// ENROLLMENT
+// ============================================
+
+/**
+ * Start enrolling: save a new secret and return it with a QR code for the
+ * authenticator app. 2FA stays off until a code is confirmed.
+ */
+export async function beginTwoFactorSetup(user: { id: string; email: string; totpEnabledAt: Date | null }) {
+  if (user.totpEnabledAt) {
+    throw new AppError(ERROR_CODES.CONFLICT, 'Two-factor authentication is already on', 409);
+  }
+
+  const secret = base32Encode(crypto.randomBytes(20));
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { totpSecret: secret, totpLastUsedStep: null },
+  });
+
+  const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+  const otpauthUrl =
+    `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}` +
+    `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl),
+  };
+}
+
+/**
+ * Finish enrolling with a code from the app. Returns the recovery codes.
+ */
+export async function enableTwoFactor(userId: string, code: string): Promise<string[]> {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new AppError(ERROR_CODES.NOT_FOUND, 'User not found', 404);
+  }
+  if (user.totpEnabledAt) {
+    throw new AppError(ERROR_CODES.CONFLICT, 'Two-factor authentication is already on', 409);
+  }
+  if (!user.totpSecret) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Start two-factor setup first', 400);
+  }
+
+  const step = verifyTotpCode(user.totpSecret, code, null);
+  if (step === null) {
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Invalid code', 400);
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpEnabledAt: new Date(), totpLastUsedStep: step },
+  });
+
+  return regenerateRecoveryCodes(userId);
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorChallenge.deleteMany({ where: { userId } }),
+  ]);
+}
+
+export async function getTwoFactorStatus(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      totpEnabledAt: true,
+      household: { select: { requireTwoFactor: true } },
+      _count: { select: { recoveryCodes: { where: { usedAt: null } } } },
+    },
+  });
+  if (!user) {
+    throw new AppError(ERROR_CODES.NOT_FOUND, 'User not found', 404);
+  }
+
+  return {
+    enabled: !!user.totpEnabledAt,
+    enabledAt: user.totpEnabledAt,
+    recoveryCodesRemaining: user._count.recoveryCodes,
+    requiredByHousehold: user.household?.requireTwoFactor ?? false,
+  };
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+/**
+ * Check an authenticator code or recovery code for a user with 2FA on.
+ * Accepted codes are used up. Returns which kind matched, or null.
+ */
+export async function verifySecondFactor(
+  userId: string,
+  { code, recoveryCode }: SecondFactor
+): Promise<'totp' | 'recovery' | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true, totpLastUsedStep: true },
+  });
+  if (!user?.totpEnabledAt || !user.totpSecret) return null;
+
+  if (code) {
+    const step = verifyTotpCode(user.totpSecret, code, user.totpLastUsedStep);
+    if (step === null) return null;
+
+    // Conditional update so two requests can't both spend the same code
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+      },
+      data: { totpLastUsedStep: step },
+    });
+    return count > 0 ? 'totp' : null;
+  }
+
+  if (recoveryCode) {
+    const { count } = await prisma.recoveryCode.updateMany({
+      where: { userId, codeHash: hashCode(normalizeRecoveryCode(recoveryCode)), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return count > 0 ? 'recovery' : null;
+  }
+
+  return null;
+}
+
+// ============================================
+// SIGN-IN CHALLENGE
+// ============================================
+
+/**
+ * Issue the token for the second sign-in step, after the password checked out.
+ */
+export async function createTwoFactorChallenge(userId: string, deviceName?: string): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  // Clear out this user's stale challenges
+  await prisma.twoFactorChallenge.deleteMany({
+    where: { userId, expiresAt: { lt: new Date() } },
+  });
+
+  await prisma.twoFactorChallenge.create({
+    data: {
+      userId,
+      tokenHash: hashCode(token),
+      deviceName,
+      expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+    },
+  });
+
+  return token;
+}
+
+/**
+ * Complete the second sign-in step. Each challenge allows a few attempts
+ * before the user has to enter their password again.
+ */
+export async function completeTwoFactorChallenge(challengeToken: string, factor: SecondFactor) {
+  const challenge = await prisma.twoFactorChallenge.findUnique({
+    where: { tokenHash: hashCode(challengeToken) },
+  });
+
+  if (!challenge || challenge.expiresAt < new Date()) {
+    throw new AppError(ERROR_CODES.UNAUTHORIZED, 'Sign-in expired. Please sign in again.', 401);
+  }
+
+  if (challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+    await prisma.twoFactorChallenge.delete({ where: { id: challenge.id } });
+    throw new AppError(ERROR_CODES.RATE_LIMITED, 'Too many attempts. Please sign in again.', 429);
+  }
+
+  const method = await verifySecondFactor(challenge.userId, factor);
+  if (!method) {
+    await prisma.twoFactorChallenge.update({
+      where: { id: challenge.id },
+      data: { attempts: { increment: 1 } },
+    });
+    throw new AppError(ERROR_CODES.VALIDATION_ERROR, 'Invalid code', 400);
+  }
+
+  await prisma.twoFactorChallenge.delete({ where: { id: challenge.id } });
+
+  return {
+    userId: challenge.userId,
+    deviceName: challenge.deviceName ?? undefined,
+    method,
+  };
+}
@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WallyStreamEvent } from '@otter-money/shared';
+
+type Row = Record<string, unknown>;
+
+// A conversation's messages in memory; tools answer with a fixed result
+const db = vi.hoisted(() => {
+  const state = { messages: [] as Row[], title: null as string | null };
+  const names: Record<string, string> = { 'user-1': 'Alex', 'user-2': 'Sam' };
+
+  return {
+    state,
+    runWallyTool: vi.fn(async (name: string) => ({ result: { tool: name, total: 42 }, isError: false })),
+    prisma: {
+      household: {
+        findUnique: async () => ({
+          name: 'Otters',
+          members: [
+            { id: 'user-1', name: 'Alex' },
+            { id: 'user-2', name: 'Sam' },
+          ],
+        }),
+      },
+      message: {
+        findMany: async ({ take }: { take: number }) => [...state.messages].reverse().slice(0, take),
+        create: async ({ data }: { data: Row }) => {
+          const message = {
+            id: `message-${state.messages.length + 1}`,
+            userId: null,
+            toolCalls: null,
+            createdAt: new Date(),
+            ...data,
+            user: data.userId ? { name: names[data.userId as string] } : null,
+          };
+          state.messages.push(message);
+          return message;
+        },
+      },
+      conversation: {
+        findUnique: async () => ({ title: state.title }),
+        update: async ({ data }: { data: { title?: string } }) => {
+          if (data.title !== undefined) state.title = data.title;
+          return {};
+        },
+      },
+    },
+  };
+});
+
+vi.mock('../utils/prisma', () => ({ prisma: db.prisma }));
+vi.mock('./wallyTools', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./wallyTools')>()),
+  runWallyTool: db.runWallyTool,
+}));
+
+import { runWallyTurn } from './wally';
+import { FakeWallyProvider, setWallyProvider, type WallyProviderResponse } from './wallyProviders';
+
+function ask(content: string, userId = 'user-1') {
+  const events: WallyStreamEvent[] = [];
+  const turn = runWallyTurn({
+    conversationId: 'conversation-1',
+    householdId: 'household-1',
+    userId,
+    content,
+    onEvent: (event) => events.push(event),
+  });
+  return { turn, events };
+}
+
+const text = (value: string): WallyProviderResponse => ({
+  content: [{ type: 'text', text: value }],
+  stopReason: 'end_turn',
+});
+
+const toolUse = (id: string, name: string, input: Record<string, unknown> = {}): WallyProviderResponse => ({
+  content: [{ type: 'tool_use', id, name, input }],
+  stopReason: 'tool_use',
+});
+
+describe('runWallyTurn', () => {
+  beforeEach(() => {
+    db.state.messages = [];
+    db.state.title = null;
+    db.runWallyTool.mockClear();
+  });
+
+  afterEach(() => {
+    setWallyProvider(null);
+  });
+
+  it('calls a tool, answers from its result and saves both messages', async () => {
+    setWallyProvider(new FakeWallyProvider());
+
+    const { turn, events } = ask('How is our budget looking?');
+    const answer = await turn;
+
+    expect(db.runWallyTool).toHaveBeenCalledWith(
+      'get_budget_status',
+      {},
+      { householdId: 'household-1', userId: 'user-1' }
+    );
+    const result = JSON.stringify({ tool: 'get_budget_status', total: 42 });
+    expect(answer.content).toBe(`Here's what I found: ${result}`);
+    expect(answer.toolCalls).toEqual([{ name: 'get_budget_status', input: {} }]);
+    expect(events.map((event) => event.type)).toEqual(
+      expect.arrayContaining(['message', 'tool', 'delta', 'done'])
+    );
+    expect(events[0]).toMatchObject({ type: 'message', message: { role: 'user', userName: 'Alex' } });
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', message: { id: answer.id } });
+    expect(db.state.messages.map((m) => m.role)).toEqual(['user', 'assistant']);
+    expect(db.state.title).toBe('How is our budget looking?');
+  });
+
+  it('sends tool results back to the provider and keeps text from every round', async () => {
+    const provider = new FakeWallyProvider([
+      {
+        content: [
+          { type: 'text', text: 'Let me check.' },
+          { type: 'tool_use', id: 'call-1', name: 'get_upcoming_bills', input: { days: 7 } },
+        ],
+        stopReason: 'tool_use',
+      },
+      text('Two bills are due this week.'),
+    ]);
+    const createResponse = vi.spyOn(provider, 'createResponse');
+    setWallyProvider(provider);
+
+    const answer = await ask('Anything due soon?').turn;
+
+    expect(answer.content).toBe('Let me check.\n\nTwo bills are due this week.');
+    const { messages } = createResponse.mock.calls[1][0];
+    expect(messages.slice(-2)).toEqual([
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Let me check.' },
+          { type: 'tool_use', id: 'call-1', name: 'get_upcoming_bills', input: { days: 7 } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            toolUseId: 'call-1',
+            content: JSON.stringify({ tool: 'get_upcoming_bills', total: 42 }),
+            isError: false,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('replays saved history with who asked, merging unanswered questions', async () => {
+    db.state.title = 'Groceries';
+    db.state.messages = [
+      { role: 'assistant', content: 'Orphaned answer', userId: null, user: null },
+      { role: 'user', content: 'What did we spend on groceries?', userId: 'user-2', user: { name: 'Sam' } },
+      { role: 'assistant', content: 'You spent $310.', userId: null, user: null },
+      { role: 'user', content: 'And last month?', userId: 'user-1', user: { name: 'Alex' } },
+    ];
+    const provider = new FakeWallyProvider([text('$290.')]);
+    const createResponse = vi.spyOn(provider, 'createResponse');
+    setWallyProvider(provider);
+
+    await ask('Hello?').turn;
+
+    const request = createResponse.mock.calls[0][0];
+    expect(request.messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'Sam: What did we spend on groceries?' }] },
+      { role: 'assistant', content: [{ type: 'text', text: 'You spent $310.' }] },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Alex: And last month?' },
+          { type: 'text', text: 'Alex: Hello?' },
+        ],
+      },
+    ]);
+    expect(request.system).toContain("You're talking with Alex");
+    expect(db.state.title).toBe('Groceries');
+  });
+
+  it('withholds tools on the last round so the provider has to answer', async () => {
+    const provider = new FakeWallyProvider([
+      ...Array.from({ length: 5 }, (_, i) => toolUse(`call-${i}`, 'get_account_balances')),
+      text('Net worth is $42.'),
+    ]);
+    const createResponse = vi.spyOn(provider, 'createResponse');
+    setWallyProvider(provider);
+
+    const answer = await ask('What is our net worth?').turn;
+
+    expect(db.runWallyTool).toHaveBeenCalledTimes(5);
+    expect(createResponse).toHaveBeenCalledTimes(6);
+    expect(createResponse.mock.calls.map(([request]) => request.tools.length > 0)).toEqual([
+      true, true, true, true, true, false,
+    ]);
+    expect(answer.content).toBe('Net worth is $42.');
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Wally assistant
+ * Runs one question/answer turn in a household conversation: saves the
+ * question, lets the provider call tools until it has an answer, streams the
+ * answer as it's written and saves it.
+ */
+
+import type { Prisma } from '@prisma/client';
+import type { WallyMessage, WallyStreamEvent, WallyToolCall } from '@otter-money/shared';
+import { prisma } from '../utils/prisma';
+import {
+  getWallyProvider,
+  type WallyContentBlock,
+  type WallyProviderMessage,
+} from './wallyProviders';
+import { runWallyTool, wallyToolDefinitions } from './wallyTools';
+
+// Tool round trips allowed per answer before Wally has to respond
+const MAX_TOOL_ROUNDS = 5;
+
+// Earlier messages sent to the model as context
+const HISTORY_LIMIT = 20;
+
+const TITLE_MAX_LENGTH = 80;
+
+export const messageInclude = {
+  user: { select: { name: true } },
+} satisfies Prisma.MessageInclude;
+
+type MessageWithUser = Prisma.MessageGetPayload<{ include: typeof messageInclude }>;
+
+export function serializeMessage(message: MessageWithUser): WallyMessage {
+  return {
+    id: message.id,
+    conversationId: message.conversationId,
+    role: message.role as WallyMessage['role'],
+    content: message.content,
+    userId: message.userId,
+    userName: message.user?.name || null,
+    toolCalls: (message.toolCalls as WallyToolCall[] | null) || null,
+    createdAt: message.createdAt.toISOString(),
+  };
+}
+
+async function buildSystemPrompt(householdId: string, userId: string): Promise<string> {
+  const household = await prisma.household.findUnique({
+    where: { id: householdId },
+    select: { name: true, members: { select: { id: true, name: true } } },
+  });
+
+  const members = household?.members || [];
+  const asker = members.find((m) => m.id === userId);
+  const partners = members.map((m) => m.name).join(' and ');
+  const today = new Date().toISOString().split('T')[0];
+
+  return [
+    'You are Wally, the friendly otter who helps couples manage their money together in Otter Money.',
+    `This household${household?.name ? ` ("${household.name}")` : ''} is ${partners || 'a single member'}.`,
+    asker ? `You're talking with ${asker.name}. "We", "us" and "our" mean the whole household; "my partner" means the other member.` : '',
+    `Today is ${today}.`,
+    'Answer questions about the household\'s finances using the tools. Never guess numbers: look them up, and say so if the data isn\'t there.',
+    'Keep answers short and conversational, use dollar amounts, and stay neutral between partners: no blame about who spent what.',
+    'You can only read data; you can\'t move money or change budgets, so suggest where in the app to do that instead.',
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+// Questions are prefixed with who asked so Wally can tell partners apart
+function questionText(userName: string | null | undefined, content: string): string {
+  return userName ? `${userName}: ${content}` : content;
+}
+
+// Earlier turns as plain text: tool calls from past answers aren't replayed
+async function loadHistory(conversationId: string): Promise<WallyProviderMessage[]> {
+  const messages = await prisma.message.findMany({
+    where: { conversationId },
+    orderBy: { createdAt: 'desc' },
+    take: HISTORY_LIMIT,
+    include: messageInclude,
+  });
+
+  const history: WallyProviderMessage[] = [];
+  for (const m of messages.reverse()) {
+    const role = m.role === 'assistant' ? 'assistant' : 'user';
+    const text = role === 'user' ? questionText(m.user?.name, m.content) : m.content;
+
+    // The model expects a user turn first and alternating roles; a question
+    // whose answer failed leaves two user turns in a row, so merge them
+    if (history.length === 0 && role === 'assistant') continue;
+    const previous = history[history.length - 1];
+    if (previous?.role === role) {
+      previous.content.push({ type: 'text', text });
+    } else {
+      history.push({ role, content: [{ type: 'text', text }] });
+    }
+  }
+
+  return history;
+}
+
+export interface WallyTurnOptions {
+  conversationId: string;
+  householdId: string;
+  userId: string;
+  content: string;
+  onEvent: (event: WallyStreamEvent) => void;
+}
+
+/**
+ * Answer a question in a conversation. Events are emitted as the turn
+ * progresses; the saved assistant message is returned.
+ */
+export async function runWallyTurn({
+  conversationId,
+  householdId,
+  userId,
+  content,
+  onEvent,
+}: WallyTurnOptions): Promise<WallyMessage> {
+  const provider = getWallyProvider();
+  const [system, history] = await Promise.all([
+    buildSystemPrompt(householdId, userId),
+    loadHistory(conversationId),
+  ]);
+
+  const userMessage = await prisma.message.create({
+    data: { conversationId, role: 'user', content, userId },
+    include: messageInclude,
+  });
+  onEvent({ type: 'message', message: serializeMessage(userMessage) });
+
+  const messages = history;
+  const question: WallyContentBlock = { type: 'text', text: questionText(userMessage.user?.name, content) };
+  if (messages[messages.length - 1]?.role === 'user') {
+    messages[messages.length - 1].content.push(question);
+  } else {
+    messages.push({ role: 'user', content: [question] });
+  }
+  const toolCalls: WallyToolCall[] = [];
+  let answer = '';
+  let startsNewRound = false;
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    // On the last round, withhold tools so the model has to answer
+    const response = await provider.createResponse(
+      { system, messages, tools: round < MAX_TOOL_ROUNDS ? wallyToolDefinitions : [] },
+      (delta) => {
+        // Separate text written before a tool call ("Let me check...") from the answer
+        if (startsNewRound && answer && !/\s$/.test(answer)) {
+          delta = `\n\n${delta}`;
+        }
+        startsNewRound = false;
+        answer += delta;
+        onEvent({ type: 'delta', text: delta });
+      }
+    );
+
+    const toolUses = response.content.filter(
+      (b): b is Extract<WallyContentBlock, { type: 'tool_use' }> => b.type === 'tool_use'
+    );
+    if (response.stopReason !== 'tool_use' || toolUses.length === 0) break;
+
+    messages.push({ role: 'assistant', content: response.content });
+
+    const results: WallyContentBlock[] = [];
+    for (const toolUse of toolUses) {
+      onEvent({ type: 'tool', name: toolUse.name, input: toolUse.input });
+      const { result, isError } = await runWallyTool(toolUse.name, toolUse.input, {
+        householdId,
+        userId,
+      });
+      toolCalls.push({ name: toolUse.name, input: toolUse.input, ...(isError ? { isError } : {}) });
+      results.push({
+        type: 'tool_result',
+        toolUseId: toolUse.id,
+        content: JSON.stringify(result),
+        isError,
+      });
+    }
+    messages.push({ role: 'user', content: results });
+    startsNewRound = true;
+  }
+
+  const assistantMessage = await prisma.message.create({
+    data: {
+      conversationId,
+      role: 'assistant',
+      content: answer.trim() || "Sorry, I couldn't come up with an answer to that.",
+      toolCalls: toolCalls.length > 0 ? (toolCalls as unknown as Prisma.InputJsonValue) : undefined,
+    },
+    include: messageInclude,
+  });
+
+  // Bump updatedAt so the conversation sorts first, and title it from the first question
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { title: true },
+  });
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: {
+      updatedAt: new Date(),
+      title: conversation?.title
+        ? undefined
+        : content.length > TITLE_MAX_LENGTH
+        ? `${content.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…`
+        : content,
+    },
+  });
+
+  const serialized = serializeMessage(assistantMessage);
+  onEvent({ type: 'done', message: serialized });
+  return serialized;
+}
@@ -0,0 +1,277 @@
+/**
+ * Wally LLM providers
+ * Wally talks to the model through a small provider interface so the model
+ * vendor can be swapped, and so a deterministic fake can answer offline (local
+ * development without an API key, tests).
+ *
+ * WALLY_PROVIDER selects the provider: "anthropic" or "fake". When unset,
+ * Anthropic is used if ANTHROPIC_API_KEY is set, otherwise the fake outside
+ * production.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { ERROR_CODES } from '@otter-money/shared';
+import { AppError } from '../middleware/error';
+
+export type WallyContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; toolUseId: string; content: string; isError?: boolean };
+
+export interface WallyProviderMessage {
+  role: 'user' | 'assistant';
+  content: WallyContentBlock[];
+}
+
+export interface WallyToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+export interface WallyProviderRequest {
+  system: string;
+  messages: WallyProviderMessage[];
+  tools: WallyToolDefinition[];
+}
+
+export interface WallyProviderResponse {
+  content: WallyContentBlock[];
+  stopReason: 'end_turn' | 'tool_use' | 'max_tokens';
+}
+
+export interface WallyProvider {
+  name: string;
+  // Generate the next assistant turn, calling onText as text streams in
+  createResponse(
+    request: WallyProviderRequest,
+    onText: (delta: string) => void
+  ): Promise<WallyProviderResponse>;
+}
+
+// ============================================
+// ANTHROPIC
+// ============================================
+
+const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-5';
+const MAX_TOKENS = 1024;
+
+function toAnthropicContent(block: WallyContentBlock): Anthropic.ContentBlockParam {
+  switch (block.type) {
+    case 'text':
+      return { type: 'text', text: block.text };
+    case 'tool_use':
+      return { type: 'tool_use', id: block.id, name: block.name, input: block.input };
+    case 'tool_result':
+      return {
+        type: 'tool_result',
+        tool_use_id: block.toolUseId,
+        content: block.content,
+        is_error: block.isError,
+      };
+  }
+}
+
+export class AnthropicWallyProvider implements WallyProvider {
+  name = 'anthropic';
+  private client: Anthropic;
+  private model: string;
+
+  constructor(apiKey: string, model: string = process.env.WALLY_MODEL || DEFAULT_ANTHROPIC_MODEL) {
+    this.client = new Anthropic({ apiKey });
+    this.model = model;
+  }
+
+  async createResponse(
+    request: WallyProviderRequest,
+    onText: (delta: string) => void
+  ): Promise<WallyProviderResponse> {
+    let message: Anthropic.Message;
+    try {
+      const stream = this.client.messages.stream({
+        model: this.model,
+        max_tokens: MAX_TOKENS,
+        system: request.system,
+        tools: request.tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.inputSchema,
+        })),
+        messages: request.messages.map((m) => ({
+          role: m.role,
+          content: m.content.map(toAnthropicContent),
+        })),
+      });
+      stream.on('text', onText);
+      message = await stream.finalMessage();
+    } catch (err) {
+      console.error('Anthropic API error:', err);
+      throw new AppError(ERROR_CODES.WALLY_ERROR, 'Wally is unavailable right now', 502);
+    }
+
+    const content: WallyContentBlock[] = [];
+    for (const block of message.content) {
+      if (block.type === 'text') {
+        content.push({ type: 'text', text: block.text });
+      } else if (block.type === 'tool_use') {
+        content.push({
+          type: 'tool_use',
+          id: block.id,
+          name: block.name,
+          input: (block.input || {}) as Record<string, unknown>,
+        });
+      }
+    }
+
+    return {
+      content,
+      stopReason:
+        message.stop_reason === 'tool_use'
+          ? 'tool_use'
+          : message.stop_reason === 'max_tokens'
+          ? 'max_tokens'
+          : 'end_turn',
+    };
+  }
+}
+
+// ============================================
+// FAKE
+// ============================================
+
+// Keyword -> tool routing for the fake provider, checked in order
+const FAKE_TOOL_KEYWORDS: [RegExp, string][] = [
+  [/budget/i, 'get_budget_status'],
+  [/bill|due|upcoming|subscription/i, 'get_upcoming_bills'],
+  [/goal|saving for/i, 'get_goal_progress'],
+  [/balance|account|net worth|how much (do|have) (we|i) (have|got)/i, 'get_account_balances'],
+  [/spen[dt]|categor|expense/i, 'get_spending_breakdown'],
+];
+
+/**
+ * Deterministic provider: routes the latest question to at most one tool by
+ * keyword, then summarizes the tool result. Pass `script` to return canned
+ * responses in order instead (each is also streamed word by word).
+ */
+export class FakeWallyProvider implements WallyProvider {
+  name = 'fake';
+  private script: WallyProviderResponse[];
+  private toolCallCount = 0;
+
+  constructor(script: WallyProviderResponse[] = []) {
+    this.script = [...script];
+  }
+
+  async createResponse(
+    request: WallyProviderRequest,
+    onText: (delta: string) => void
+  ): Promise<WallyProviderResponse> {
+    const response = this.script.shift() || this.respond(request);
+
+    for (const block of response.content) {
+      if (block.type !== 'text') continue;
+      for (const word of block.text.match(/\S+\s*/g) || []) {
+        onText(word);
+      }
+    }
+
+    return response;
+  }
+
+  private respond(request: WallyProviderRequest): WallyProviderResponse {
+    const last = request.messages[request.messages.length - 1];
+    const toolResults = last?.content.filter(
+      (b): b is Extract<WallyContentBlock, { type: 'tool_result' }> => b.type === 'tool_result'
+    );
+
+    // Second round: summarize what the tool returned
+    if (toolResults && toolResults.length > 0) {
+      const summary = toolResults
+        .map((result) =>
+          result.isError ? `I couldn't look that up: ${result.content}` : `Here's what I found: ${result.content}`
+        )
+        .join('\n\n');
+      return { content: [{ type: 'text', text: summary }], stopReason: 'end_turn' };
+    }
+
+    const question = last?.content
+      .filter((b): b is Extract<WallyContentBlock, { type: 'text' }> => b.type === 'text')
+      .map((b) => b.text)
+      .join(' ') || '';
+
+    const available = new Set(request.tools.map((t) => t.name));
+    const match = FAKE_TOOL_KEYWORDS.find(
+      ([pattern, tool]) => pattern.test(question) && available.has(tool)
+    );
+
+    if (match) {
+      this.toolCallCount++;
+      return {
+        content: [
+          {
+            type: 'tool_use',
+            id: `fake_tool_${this.toolCallCount}`,
+            name: match[1],
+            input: {},
+          },
+        ],
+        stopReason: 'tool_use',
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'I can help with your spending, budgets, upcoming bills, goals and account balances. What would you like to know?',
+        },
+      ],
+      stopReason: 'end_turn',
+    };
+  }
+}
+
+// ============================================
+// SELECTION
+// ============================================
+
+let providerOverride: WallyProvider | null = null;
+
+/**
+ * Replace the configured provider (tests, scripts). Pass null to restore.
+ */
+export function setWallyProvider(provider: WallyProvider | null) {
+  providerOverride = provider;
+}
+
+export function getWallyProvider(): WallyProvider {
+  if (providerOverride) return providerOverride;
+
+  const configured = process.env.WALLY_PROVIDER;
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+
+  if (configured === 'fake') {
+    return new FakeWallyProvider();
+  }
+
+  if (configured === 'anthropic' || (!configured && apiKey)) {
+    if (!apiKey) {
+      throw new AppError(ERROR_CODES.WALLY_ERROR, 'Wally is not configured', 503);
+    }
+    return new AnthropicWallyProvider(apiKey);
+  }
+
+  if (configured) {
+    throw new AppError(ERROR_CODES.WALLY_ERROR, `Unknown Wally provider "${configured}"`, 503);
+  }
+
+  if (process.env.NODE_ENV !== 'production') {
+    return new FakeWallyProvider();
+  }
+
+  throw new AppError(ERROR_CODES.WALLY_ERROR, 'Wally is not configured', 503);
+}
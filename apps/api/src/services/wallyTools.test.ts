@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  prisma: {
+    user: {
+      findMany: vi.fn(async () => [
+        { id: 'user-1', name: 'Alex Otter' },
+        { id: 'user-2', name: 'Sam Otter' },
+      ]),
+    },
+    account: { findMany: vi.fn(async () => [] as unknown[]) },
+    goal: { findMany: vi.fn(async () => [] as unknown[]) },
+  },
+  getSpendingBreakdown: vi.fn(async () => ({ breakdown: [] as unknown[], totalSpending: 0 })),
+  getUpcomingBills: vi.fn(async () => [] as unknown[]),
+}));
+
+vi.mock('../utils/prisma', () => ({ prisma: db.prisma }));
+vi.mock('./spendingBreakdown', () => ({ getSpendingBreakdown: db.getSpendingBreakdown }));
+vi.mock('./recurringDetection', () => ({ getUpcomingBills: db.getUpcomingBills }));
+vi.mock('./budgetSpending', () => ({
+  getBudgetSpending: async () => ({ budgets: [], members: [] }),
+  getCurrentBudgetPeriod: async () => '2026-10',
+  getPeriodIncome: async () => 0,
+}));
+
+import { runWallyTool, wallyToolDefinitions } from './wallyTools';
+
+const context = { householdId: 'household-1', userId: 'user-1' };
+
+describe('runWallyTool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('defines every tool with an object input schema', () => {
+    expect(wallyToolDefinitions.map((tool) => tool.name)).toEqual([
+      'get_spending_breakdown',
+      'get_budget_status',
+      'get_upcoming_bills',
+      'get_goal_progress',
+      'get_account_balances',
+    ]);
+    expect(wallyToolDefinitions.every((tool) => tool.inputSchema.type === 'object')).toBe(true);
+  });
+
+  it('scopes lookups to the session household, whatever the model sends', async () => {
+    db.prisma.account.findMany.mockResolvedValueOnce([
+      { name: 'Checking', type: 'CHECKING', currentBalance: 1200, excludeFromNetWorth: false, owner: null },
+      {
+        name: 'Card',
+        type: 'CREDIT',
+        currentBalance: -200,
+        excludeFromNetWorth: false,
+        owner: { name: 'Sam' },
+      },
+    ]);
+
+    const { result, isError } = await runWallyTool(
+      'get_account_balances',
+      { householdId: 'someone-else' },
+      context
+    );
+
+    expect(isError).toBe(false);
+    expect(db.prisma.account.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { householdId: 'household-1', isHidden: false } })
+    );
+    expect(result).toMatchObject({ totalAssets: 1200, totalLiabilities: 200, netWorth: 1000 });
+  });
+
+  it('resolves a partner by first name within the household', async () => {
+    await runWallyTool('get_spending_breakdown', { period: '2026-09', partner: 'sam' }, context);
+
+    expect(db.prisma.user.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { householdId: 'household-1' } })
+    );
+    expect(db.getSpendingBreakdown).toHaveBeenCalledWith('household-1', {
+      start: new Date('2026-09-01T00:00:00Z'),
+      end: new Date(Date.UTC(2026, 9, 1) - 1),
+      ownerId: 'user-2',
+    });
+  });
+
+  it('returns an error result for a partner outside the household', async () => {
+    const { result, isError } = await runWallyTool('get_spending_breakdown', { partner: 'Jordan' }, context);
+
+    expect(isError).toBe(true);
+    expect(result).toEqual({ error: 'No household member named "Jordan"' });
+    expect(db.getSpendingBreakdown).not.toHaveBeenCalled();
+  });
+
+  it('rejects bad input without running the tool', async () => {
+    const badDays = await runWallyTool('get_upcoming_bills', { days: 'ten' }, context);
+    const badPeriod = await runWallyTool('get_spending_breakdown', { period: '2026-13' }, context);
+
+    expect(badDays).toMatchObject({
+      isError: true,
+      result: { error: 'Invalid input', details: { days: expect.any(Array) } },
+    });
+    expect(badPeriod).toMatchObject({ isError: true, result: { details: { period: ['Invalid period'] } } });
+    expect(db.getUpcomingBills).not.toHaveBeenCalled();
+    expect(db.getSpendingBreakdown).not.toHaveBeenCalled();
+  });
+
+  it('fills in defaults for missing input', async () => {
+    await runWallyTool('get_upcoming_bills', undefined, context);
+
+    expect(db.getUpcomingBills).toHaveBeenCalledWith('household-1', 30, 25);
+  });
+
+  it('reports unknown tools as an error result', async () => {
+    await expect(runWallyTool('transfer_money', {}, context)).resolves.toEqual({
+      result: { error: 'Unknown tool "transfer_money"' },
+      isError: true,
+    });
+  });
+});
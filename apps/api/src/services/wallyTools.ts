@@ -0,0 +1,325 @@
+/**
+ * Wally tools
+ * Read-only, household-scoped lookups Wally can call to answer questions.
+ * Each tool validates its input with zod and returns a compact JSON-friendly
+ * result; the householdId always comes from the session, never the model.
+ */
+
+import { z } from 'zod';
+import { getCurrentPeriod, getPeriodDateRange, isValidPeriod } from '@otter-money/shared';
+import { prisma } from '../utils/prisma';
+import { getSpendingBreakdown } from './spendingBreakdown';
+import { getBudgetSpending, getCurrentBudgetPeriod, getPeriodIncome } from './budgetSpending';
+import { getUpcomingBills } from './recurringDetection';
+import type { WallyToolDefinition } from './wallyProviders';
+
+export interface WallyToolContext {
+  householdId: string;
+  userId: string;
+}
+
+interface WallyTool<T extends z.ZodTypeAny> {
+  definition: WallyToolDefinition;
+  input: T;
+  run(input: z.infer<T>, context: WallyToolContext): Promise<unknown>;
+}
+
+function defineTool<T extends z.ZodTypeAny>(tool: WallyTool<T>): WallyTool<T> {
+  return tool;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const periodSchema = z.string().refine(isValidPeriod, 'Invalid period');
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+// Resolve a partner by id or (case-insensitive) first name
+async function findPartner(householdId: string, partner: string) {
+  const members = await prisma.user.findMany({
+    where: { householdId },
+    select: { id: true, name: true },
+  });
+  const needle = partner.trim().toLowerCase();
+  return (
+    members.find((m) => m.id === partner) ||
+    members.find((m) => m.name.toLowerCase() === needle) ||
+    members.find((m) => m.name.toLowerCase().split(' ')[0] === needle) ||
+    null
+  );
+}
+
+const spendingBreakdownTool = defineTool({
+  definition: {
+    name: 'get_spending_breakdown',
+    description:
+      'Expense spending by category for a month or date range, largest first, with each partner\'s share. Defaults to the current month.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        period: { type: 'string', description: 'Month as YYYY-MM' },
+        startDate: { type: 'string', description: 'Range start as YYYY-MM-DD (instead of period)' },
+        endDate: { type: 'string', description: 'Range end as YYYY-MM-DD (instead of period)' },
+        partner: { type: 'string', description: 'Only spending by this partner (name)' },
+        limit: { type: 'number', description: 'Maximum categories to return (default 10)' },
+      },
+    },
+  },
+  input: z.object({
+    period: periodSchema.optional(),
+    startDate: dateSchema.optional(),
+    endDate: dateSchema.optional(),
+    partner: z.string().optional(),
+    limit: z.number().int().min(1).max(50).optional().default(10),
+  }),
+  async run(input, { householdId }) {
+    let start: Date;
+    let end: Date;
+    if (input.startDate || input.endDate) {
+      end = input.endDate ? new Date(`${input.endDate}T23:59:59.999Z`) : new Date();
+      start = input.startDate
+        ? new Date(`${input.startDate}T00:00:00.000Z`)
+        : new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), 1));
+    } else {
+      ({ start, end } = getPeriodDateRange(input.period || getCurrentPeriod()));
+    }
+
+    let ownerId: string | undefined;
+    if (input.partner) {
+      const partner = await findPartner(householdId, input.partner);
+      if (!partner) {
+        return { error: `No household member named "${input.partner}"` };
+      }
+      ownerId = partner.id;
+    }
+
+    const { breakdown, totalSpending } = await getSpendingBreakdown(householdId, {
+      start,
+      end,
+      ownerId,
+    });
+
+    return {
+      startDate: start.toISOString().split('T')[0],
+      endDate: end.toISOString().split('T')[0],
+      totalSpending: round(totalSpending),
+      categories: breakdown.slice(0, input.limit).map((c) => ({
+        category: c.categoryName,
+        amount: round(c.totalAmount),
+        percentage: Math.round(c.percentage),
+        transactions: c.transactionCount,
+        byPartner: c.byPartner
+          .filter((p) => p.amount > 0)
+          .map((p) => ({ partner: p.userName, amount: round(p.amount) })),
+      })),
+      otherCategories: Math.max(0, breakdown.length - input.limit),
+    };
+  },
+});
+
+const budgetStatusTool = defineTool({
+  definition: {
+    name: 'get_budget_status',
+    description:
+      'Each budget for a budget period: amount budgeted, amount carried over from the previous period (rollover budgets), spent so far, remaining and status (on-track, warning at 90%, exceeded). Defaults to the current period in the household\'s budget cadence (monthly unless they budget weekly, biweekly, etc.). Personal budgets (a partner\'s own allowance for a category) name the partner they belong to; the rest are joint. For envelope (zero-based) budgeting, also the period\'s income and what is left to assign.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        period: {
+          type: 'string',
+          description:
+            'Budget period: a month as YYYY-MM, or 2026-W42 (week), 2026-10-H1 (1st-15th), 2026-Q4, 2026, or a biweekly period by its start date YYYY-MM-DD',
+        },
+      },
+    },
+  },
+  input: z.object({
+    period: periodSchema.optional(),
+  }),
+  async run(input, { householdId }) {
+    const period = input.period || (await getCurrentBudgetPeriod(householdId));
+    const { budgets, members } = await getBudgetSpending(householdId, period);
+    const totalBudgeted = budgets.reduce((sum, b) => sum + b.budgetAmount, 0);
+
+    const household = await prisma.household.findUnique({
+      where: { id: householdId },
+      select: { budgetMode: true },
+    });
+    const income = household?.budgetMode === 'ENVELOPE' ? await getPeriodIncome(householdId, period) : null;
+
+    return {
+      period,
+      ...(income !== null && { income: round(income), toBeAssigned: round(income - totalBudgeted) }),
+      totalBudgeted: round(totalBudgeted),
+      totalSpent: round(budgets.reduce((sum, b) => sum + b.totalSpent, 0)),
+      budgets: budgets.map((b) => ({
+        category: b.categoryName,
+        ...(b.ownerId && { personalTo: members.find((m) => m.id === b.ownerId)?.name ?? 'Former member' }),
+        budgeted: round(b.budgetAmount),
+        ...(b.carriedIn !== 0 && { carriedOver: round(b.carriedIn) }),
+        spent: round(b.totalSpent),
+        remaining: round(b.remaining),
+        percentUsed: Math.round(b.percentUsed),
+        status: b.status,
+        byPartner: b.byPartner
+          .filter((p) => p.spent > 0)
+          .map((p) => ({ partner: p.userName, spent: round(p.spent) })),
+      })),
+    };
+  },
+});
+
+const upcomingBillsTool = defineTool({
+  definition: {
+    name: 'get_upcoming_bills',
+    description: 'Recurring bills and subscriptions expected in the next N days, soonest first.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        days: { type: 'number', description: 'How many days ahead to look (default 30)' },
+      },
+    },
+  },
+  input: z.object({
+    days: z.number().int().min(1).max(365).optional().default(30),
+  }),
+  async run(input, { householdId }) {
+    const bills = await getUpcomingBills(householdId, input.days, 25);
+
+    return {
+      days: input.days,
+      total: round(bills.reduce((sum, b) => sum + b.expectedAmount, 0)),
+      bills: bills.map((b) => ({
+        merchant: b.merchantName,
+        amount: round(b.expectedAmount),
+        dueDate: b.nextExpectedDate.toISOString().split('T')[0],
+        daysUntilDue: b.daysUntilDue,
+        frequency: b.frequency,
+        category: b.categoryName,
+        account: b.accountName,
+      })),
+    };
+  },
+});
+
+const goalProgressTool = defineTool({
+  definition: {
+    name: 'get_goal_progress',
+    description: 'Savings goals with amount saved, target, percent complete and target date.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        includeCompleted: { type: 'boolean', description: 'Include completed goals (default false)' },
+      },
+    },
+  },
+  input: z.object({
+    includeCompleted: z.boolean().optional().default(false),
+  }),
+  async run(input, { householdId }) {
+    const goals = await prisma.goal.findMany({
+      where: {
+        householdId,
+        ...(input.includeCompleted ? {} : { isCompleted: false }),
+      },
+      orderBy: [{ isCompleted: 'asc' }, { targetDate: 'asc' }, { createdAt: 'desc' }],
+    });
+
+    return {
+      goals: goals.map((g) => {
+        const target = Number(g.targetAmount);
+        const saved = Number(g.currentAmount);
+        return {
+          name: g.name,
+          saved: round(saved),
+          target: round(target),
+          remaining: round(Math.max(0, target - saved)),
+          percentComplete: target > 0 ? Math.min(100, Math.round((saved / target) * 100)) : 0,
+          targetDate: g.targetDate?.toISOString().split('T')[0] || null,
+          isCompleted: g.isCompleted,
+        };
+      }),
+    };
+  },
+});
+
+const accountBalancesTool = defineTool({
+  definition: {
+    name: 'get_account_balances',
+    description:
+      'Current balance of every visible account with its owner (a partner or joint), plus total assets, liabilities and net worth.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  input: z.object({}),
+  async run(_input, { householdId }) {
+    const accounts = await prisma.account.findMany({
+      where: { householdId, isHidden: false },
+      include: { owner: { select: { name: true } } },
+      orderBy: [{ type: 'asc' }, { displayOrder: 'asc' }, { name: 'asc' }],
+    });
+
+    let totalAssets = 0;
+    let totalLiabilities = 0;
+    for (const account of accounts) {
+      if (account.excludeFromNetWorth) continue;
+      const balance = Number(account.currentBalance);
+      if (['CREDIT', 'LOAN', 'MORTGAGE'].includes(account.type)) {
+        totalLiabilities += Math.abs(balance);
+      } else {
+        totalAssets += balance;
+      }
+    }
+
+    return {
+      totalAssets: round(totalAssets),
+      totalLiabilities: round(totalLiabilities),
+      netWorth: round(totalAssets - totalLiabilities),
+      accounts: accounts.map((a) => ({
+        name: a.name,
+        type: a.type,
+        owner: a.owner?.name || 'Joint',
+        balance: round(Number(a.currentBalance)),
+        lastSyncedAt: a.lastSyncedAt?.toISOString() || null,
+      })),
+    };
+  },
+});
+
+const tools = [
+  spendingBreakdownTool,
+  budgetStatusTool,
+  upcomingBillsTool,
+  goalProgressTool,
+  accountBalancesTool,
+] as WallyTool<z.ZodTypeAny>[];
+
+export const wallyToolDefinitions: WallyToolDefinition[] = tools.map((t) => t.definition);
+
+/**
+ * Run a tool by name. Bad input and unknown tools come back as an error result
+ * for the model to recover from rather than failing the whole reply.
+ */
+export async function runWallyTool(
+  name: string,
+  rawInput: unknown,
+  context: WallyToolContext
+): Promise<{ result: unknown; isError: boolean }> {
+  const tool = tools.find((t) => t.definition.name === name);
+  if (!tool) {
+    return { result: { error: `Unknown tool "${name}"` }, isError: true };
+  }
+
+  const parsed = tool.input.safeParse(rawInput ?? {});
+  if (!parsed.success) {
+    return {
+      result: { error: 'Invalid input', details: parsed.error.flatten().fieldErrors },
+      isError: true,
+    };
+  }
+
+  const result = await tool.run(parsed.data, context);
+  const isError = !!result && typeof result === 'object' && 'error' in result;
+  return { result, isError };
+}
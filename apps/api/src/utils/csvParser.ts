@@ -147,6 +147,9 @@ export function normalizeColumnName(header: string): string {
     'notes': 'notes',
     'note': 'notes',
     'memo': 'notes',
+    'tags': 'tags',
+    'tag': 'tags',
+    'labels': 'tags',
     'ismanual': 'isManual',
     'manual': 'isManual',
   };
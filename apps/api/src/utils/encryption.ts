@@ -0,0 +1,200 @@
+/**
+ * Encryption of bank credentials at rest
+ * Plaid access tokens and SimpleFin access URLs grant live access to bank
+ * data, so they're stored encrypted (envelope encryption): each value gets its
+ * own random data key, and that data key is wrapped with a master key from the
+ * environment. Stored values look like
+ *
+ *   enc:1:<key id>:<wrapped data key>:<ciphertext>
+ *
+ * ENCRYPTION_KEYS lists master keys as comma-separated "<key id>:<base64 key>"
+ * pairs (32-byte keys). The first key encrypts; the rest only decrypt, so
+ * after adding a new key first, run `npm run secrets:rotate -w @otter-money/api`
+ * to re-wrap existing rows and then drop the old key.
+ *
+ * The Prisma extension at the bottom applies this to the encrypted columns,
+ * so code reading them through `prisma` sees plain values.
+ */
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { ERROR_CODES } from '@otter-money/shared';
+import { AppError } from '../middleware/error';
+
+const PREFIX = 'enc';
+const FORMAT_VERSION = '1';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+// Columns stored encrypted, by Prisma model. The extension only sees queries
+// on these models themselves: reading them through a relation (e.g. `include:
+// { plaidItem: true }` on Account) returns the stored ciphertext, and a nested
+// write (e.g. `plaidItem: { create: ... }`) stores the value unencrypted. Read
+// and write them with prisma.plaidItem / prisma.simplefinConnection directly.
+export const ENCRYPTED_FIELDS = {
+  plaidItem: 'accessToken',
+  simplefinConnection: 'accessUrl',
+} as const;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+let keyring: MasterKey[] | null = null;
+
+function loadKeyring(): MasterKey[] {
+  if (keyring) return keyring;
+
+  const configured = process.env.ENCRYPTION_KEYS?.trim();
+  if (!configured) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new AppError(ERROR_CODES.INTERNAL_ERROR, 'Encryption keys not configured', 500);
+    }
+    // Development only: a fixed key so local data survives restarts
+    console.warn('[ENCRYPTION] ENCRYPTION_KEYS not set, using the development key');
+    keyring = [{ id: 'dev', key: crypto.createHash('sha256').update('otter-money-dev-key').digest() }];
+    return keyring;
+  }
+
+  keyring = configured.split(',').map((entry) => {
+    const [id, encoded] = entry.trim().split(':');
+    const key = Buffer.from(encoded || '', 'base64');
+    if (!id || key.length !== KEY_BYTES) {
+      throw new AppError(
+        ERROR_CODES.INTERNAL_ERROR,
+        `Invalid ENCRYPTION_KEYS entry "${id}": expected <key id>:<base64 ${KEY_BYTES}-byte key>`,
+        500
+      );
+    }
+    return { id, key };
+  });
+  return keyring;
+}
+
+// Clear the cached keys (tests, scripts that change ENCRYPTION_KEYS)
+export function resetEncryptionKeys() {
+  keyring = null;
+}
+
+function findKey(id: string): Buffer {
+  const match = loadKeyring().find((k) => k.id === id);
+  if (!match) {
+    throw new AppError(ERROR_CODES.INTERNAL_ERROR, `Encryption key "${id}" is not configured`, 500);
+  }
+  return match.key;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+function parse(value: string) {
+  const [prefix, version, keyId, wrappedKey, ciphertext] = value.split(':');
+  if (prefix !== PREFIX || version !== FORMAT_VERSION || !ciphertext) return null;
+  return { keyId, wrappedKey, ciphertext };
+}
+
+export function isEncrypted(value: string): boolean {
+  return parse(value) !== null;
+}
+
+export function encryptSecret(plaintext: string): string {
+  const master = loadKeyring()[0];
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+
+  return [
+    PREFIX,
+    FORMAT_VERSION,
+    master.id,
+    seal(master.key, dataKey),
+    seal(dataKey, Buffer.from(plaintext, 'utf8')),
+  ].join(':');
+}
+
+/**
+ * Decrypt a stored value. Values written before encryption was added are
+ * returned as they are, until the rotation command encrypts them.
+ */
+export function decryptSecret(value: string): string {
+  const parsed = parse(value);
+  if (!parsed) return value;
+
+  const dataKey = open(findKey(parsed.keyId), parsed.wrappedKey);
+  return open(dataKey, parsed.ciphertext).toString('utf8');
+}
+
+/**
+ * Bring a stored value up to date with the current master key: re-wraps the
+ * data key if it was wrapped with an older key, and encrypts plain values.
+ * Returns null if the value is already current.
+ */
+export function rewrapSecret(value: string): string | null {
+  const parsed = parse(value);
+  if (!parsed) return encryptSecret(value);
+
+  const current = loadKeyring()[0];
+  if (parsed.keyId === current.id) return null;
+
+  const dataKey = open(findKey(parsed.keyId), parsed.wrappedKey);
+  return [PREFIX, FORMAT_VERSION, current.id, seal(current.key, dataKey), parsed.ciphertext].join(':');
+}
+
+// ============================================
+// PRISMA EXTENSION
+// ============================================
+
+type Row = Record<string, unknown>;
+
+function isRow(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null;
+}
+
+// Apply a transform to the field of a row, or of each row in a list
+function mapField(value: unknown, field: string, transform: (stored: string) => string): unknown {
+  if (Array.isArray(value)) return value.map((item) => mapField(item, field, transform));
+  if (isRow(value) && typeof value[field] === 'string') {
+    return { ...value, [field]: transform(value[field] as string) };
+  }
+  return value;
+}
+
+function encryptData(data: unknown, field: string): unknown {
+  return mapField(data, field, encryptSecret);
+}
+
+function decryptResult(result: unknown, field: string): unknown {
+  return mapField(result, field, decryptSecret);
+}
+
+function encryptedField(field: string) {
+  return async ({ args, query }: { args: Row; query: (args: Row) => Promise<unknown> }) => {
+    const nextArgs = { ...args };
+    if ('data' in nextArgs) nextArgs.data = encryptData(nextArgs.data, field);
+    if ('create' in nextArgs) nextArgs.create = encryptData(nextArgs.create, field);
+    if ('update' in nextArgs) nextArgs.update = encryptData(nextArgs.update, field);
+
+    return decryptResult(await query(nextArgs), field);
+  };
+}
+
+export const encryptedFields = Prisma.defineExtension({
+  name: 'encryptedFields',
+  query: {
+    plaidItem: { $allOperations: encryptedField(ENCRYPTED_FIELDS.plaidItem) },
+    simplefinConnection: { $allOperations: encryptedField(ENCRYPTED_FIELDS.simplefinConnection) },
+  },
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { isOFX, parseOFX, parseOFXDate } from './ofxParser';
+
+// OFX 1.x: SGML header, leaf elements without closing tags
+const SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<CURDEF>USD
+<BANKACCTFROM>
+<BANKID>123456789
+<ACCTID>000111222
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20261001
+<DTEND>20261031
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20261014120000.000[-5:EST]
+<TRNAMT>-1,234.56
+<FITID>2026101401
+<NAME>TRADER JOE&apos;S #552
+<MEMO>Groceries &amp; more
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CHECK
+<DTPOSTED>20261015
+<TRNAMT>-80.00
+<FITID>2026101502
+<CHECKNUM>1042
+<PAYEE>
+<NAME>City Water
+</PAYEE>
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL>
+<BALAMT>2500.10
+<DTASOF>20261031
+</LEDGERBAL>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>
+`;
+
+// OFX 2.x: XML, with a credit card statement
+const XML = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX>
+  <CREDITCARDMSGSRSV1>
+    <CCSTMTTRNRS>
+      <CCSTMTRS>
+        <CCACCTFROM><ACCTID>4111</ACCTID></CCACCTFROM>
+        <BANKTRANLIST>
+          <STMTTRN>
+            <TRNTYPE>CREDIT</TRNTYPE>
+            <DTPOSTED>20261003</DTPOSTED>
+            <TRNAMT>45.00</TRNAMT>
+            <FITID>cc-1</FITID>
+            <NAME>Refund</NAME>
+          </STMTTRN>
+        </BANKTRANLIST>
+      </CCSTMTRS>
+    </CCSTMTTRNRS>
+  </CREDITCARDMSGSRSV1>
+</OFX>
+`;
+
+describe('isOFX', () => {
+  it('recognizes OFX headers and bodies', () => {
+    expect(isOFX(SGML)).toBe(true);
+    expect(isOFX(XML)).toBe(true);
+    expect(isOFX('Date,Description,Amount\n2026-10-01,Coffee,-4.50')).toBe(false);
+  });
+});
+
+describe('parseOFXDate', () => {
+  it('keeps only the calendar date', () => {
+    expect(parseOFXDate('20261014120000.000[-5:EST]')).toEqual(new Date(2026, 9, 14));
+    expect(parseOFXDate('20261014')).toEqual(new Date(2026, 9, 14));
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseOFXDate('')).toBeNull();
+    expect(parseOFXDate('2026-10-14')).toBeNull();
+  });
+});
+
+describe('parseOFX', () => {
+  it('parses an SGML bank statement', () => {
+    const [statement] = parseOFX(SGML);
+
+    expect(statement.accountNumber).toBe('000111222');
+    expect(statement.balance).toEqual({ amount: 2500.1, asOf: new Date(2026, 9, 31) });
+    expect(statement.transactions).toEqual([
+      {
+        fitId: '2026101401',
+        type: 'DEBIT',
+        date: new Date(2026, 9, 14),
+        amount: -1234.56,
+        name: "TRADER JOE'S #552",
+        memo: 'Groceries & more',
+        checkNumber: '',
+      },
+      {
+        fitId: '2026101502',
+        type: 'CHECK',
+        date: new Date(2026, 9, 15),
+        amount: -80,
+        name: 'City Water', // From the PAYEE aggregate
+        memo: '',
+        checkNumber: '1042',
+      },
+    ]);
+  });
+
+  it('parses an XML credit card statement', () => {
+    const [statement] = parseOFX(XML);
+
+    expect(statement.accountNumber).toBe('4111');
+    expect(statement.balance).toBeNull();
+    expect(statement.transactions).toHaveLength(1);
+    expect(statement.transactions[0]).toMatchObject({
+      fitId: 'cc-1',
+      type: 'CREDIT',
+      amount: 45,
+      name: 'Refund',
+    });
+  });
+
+  it('rejects files without an OFX element', () => {
+    expect(() => parseOFX('OFXHEADER:100\n')).toThrow('no <OFX> element');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * OFX/QFX parsing utilities
+ * Handles both OFX 1.x (SGML, leaf elements without closing tags) and OFX 2.x
+ * (XML). QFX is Quicken's name for the same format.
+ */
+
+import { parseAmount } from './csvParser';
+
+export interface OfxTransaction {
+  fitId: string; // Financial institution's id, unique within the account
+  type: string; // TRNTYPE: DEBIT, CREDIT, CHECK, POS, ...
+  date: Date | null;
+  amount: number | null; // Signed: negative = money out
+  name: string;
+  memo: string;
+  checkNumber: string;
+}
+
+export interface OfxStatement {
+  accountNumber: string;
+  transactions: OfxTransaction[];
+  // Ledger balance as of the end of the statement
+  balance: { amount: number; asOf: Date } | null;
+}
+
+/**
+ * Whether text looks like an OFX/QFX file rather than CSV
+ */
+export function isOFX(text: string): boolean {
+  const head = text.slice(0, 1000).toUpperCase();
+  return head.includes('OFXHEADER') || head.includes('<OFX>');
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&');
+}
+
+// Every <tag>...</tag> aggregate; aggregates are closed in both OFX versions
+function getAggregates(text: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  return Array.from(text.matchAll(pattern), (match) => match[1]);
+}
+
+// Value of a leaf element; in SGML it runs to the next tag or line break
+function getValue(text: string, tag: string): string {
+  const match = text.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : '';
+}
+
+/**
+ * Parse an OFX date (YYYYMMDD, optionally followed by time and timezone).
+ * Only the calendar date is kept, as a local date like CSV dates.
+ */
+export function parseOFXDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  const d = new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+  return isNaN(d.getTime()) ? null : d;
+}
+
+function parseTransaction(block: string): OfxTransaction {
+  // The payee can be given as NAME or as a PAYEE aggregate
+  const payee = getAggregates(block, 'PAYEE')[0];
+
+  return {
+    fitId: getValue(block, 'FITID'),
+    type: getValue(block, 'TRNTYPE').toUpperCase(),
+    date: parseOFXDate(getValue(block, 'DTPOSTED')),
+    amount: parseAmount(getValue(block, 'TRNAMT')),
+    name: getValue(block, 'NAME') || (payee ? getValue(payee, 'NAME') : ''),
+    memo: getValue(block, 'MEMO'),
+    checkNumber: getValue(block, 'CHECKNUM'),
+  };
+}
+
+function parseStatement(block: string): OfxStatement {
+  const ledger = getAggregates(block, 'LEDGERBAL')[0];
+  const balanceAmount = ledger ? parseAmount(getValue(ledger, 'BALAMT')) : null;
+  const balanceDate = ledger ? parseOFXDate(getValue(ledger, 'DTASOF')) : null;
+
+  return {
+    accountNumber: getValue(block, 'ACCTID'),
+    transactions: getAggregates(block, 'STMTTRN').map(parseTransaction),
+    balance: balanceAmount !== null && balanceDate ? { amount: balanceAmount, asOf: balanceDate } : null,
+  };
+}
+
+/**
+ * Parse an OFX/QFX file into its bank and credit card statements
+ */
+export function parseOFX(text: string): OfxStatement[] {
+  const start = text.search(/<OFX>/i);
+  if (start === -1) {
+    throw new Error('OFX file has no <OFX> element');
+  }
+  const body = text.slice(start);
+
+  return [...getAggregates(body, 'STMTRS'), ...getAggregates(body, 'CCSTMTRS')].map(parseStatement);
+}
@@ -1,12 +1,18 @@
 import { PrismaClient } from '@prisma/client';
+import { encryptedFields } from './encryption';
 
-const globalForPrisma = global as unknown as { prisma: PrismaClient | undefined };
-
-export const prisma =
-  globalForPrisma.prisma ??
-  new PrismaClient({
+// Bank credentials are encrypted and decrypted transparently (see ./encryption)
+function createPrismaClient() {
+  return new PrismaClient({
     log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
-  });
+  }).$extends(encryptedFields);
+}
+
+type ExtendedPrismaClient = ReturnType<typeof createPrismaClient>;
+
+const globalForPrisma = global as unknown as { prisma: ExtendedPrismaClient | undefined };
+
+export const prisma = globalForPrisma.prisma ?? createPrismaClient();
 
 if (process.env.NODE_ENV !== 'production') {
   globalForPrisma.prisma = prisma;
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { isQIF, parseQIF, parseQIFDate } from './qifParser';
+
+describe('isQIF', () => {
+  it('recognizes QIF section headers', () => {
+    expect(isQIF('!Type:Bank\nD1/5/24\n^')).toBe(true);
+    expect(isQIF('  !Account\nNChecking\n^')).toBe(true);
+    expect(isQIF('Date,Description,Amount')).toBe(false);
+  });
+});
+
+describe('parseQIFDate', () => {
+  it('reads US-ordered dates with 2- or 4-digit years', () => {
+    expect(parseQIFDate('01/05/2024')).toEqual(new Date(2024, 0, 5));
+    expect(parseQIFDate("1/5'24")).toEqual(new Date(2024, 0, 5));
+    expect(parseQIFDate('1/ 5/99')).toEqual(new Date(1999, 0, 5));
+    expect(parseQIFDate('12/31/05')).toEqual(new Date(2005, 11, 31));
+  });
+
+  it('reads year-first dates', () => {
+    expect(parseQIFDate('2024-01-05')).toEqual(new Date(2024, 0, 5));
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseQIFDate('')).toBeNull();
+    expect(parseQIFDate('Jan 5 2024')).toBeNull();
+    expect(parseQIFDate('1/5')).toBeNull();
+  });
+});
+
+describe('parseQIF', () => {
+  it('parses bank transactions', () => {
+    const text = [
+      '!Type:Bank',
+      'D10/01/2026',
+      'T0.00',
+      'POpening Balance',
+      'L[Checking]',
+      '^',
+      'D10/14/2026',
+      'T-1,234.56',
+      'PTrader Joe\'s',
+      'MWeekly shop',
+      'LFood:Groceries/Household',
+      'N1042',
+      '^',
+      "D10/15'26",
+      'U-80.00',
+      'PTransfer to savings',
+      'L[Savings]',
+      '^',
+    ].join('\r\n');
+
+    expect(parseQIF(text)).toEqual([
+      {
+        date: new Date(2026, 9, 14),
+        amount: -1234.56,
+        payee: "Trader Joe's",
+        memo: 'Weekly shop',
+        category: 'Food > Groceries',
+        checkNumber: '1042',
+      },
+      {
+        date: new Date(2026, 9, 15),
+        amount: -80,
+        payee: 'Transfer to savings',
+        memo: '',
+        category: '', // Transfers have no category
+        checkNumber: '',
+      },
+    ]);
+  });
+
+  it('keeps the first amount of a split transaction', () => {
+    const text = ['!Type:CCard', 'D10/20/2026', 'T-100', 'PCostco', 'SFood', '$-60', 'SHome', '$-40', '^'];
+
+    expect(parseQIF(text.join('\n'))).toEqual([
+      {
+        date: new Date(2026, 9, 20),
+        amount: -100,
+        payee: 'Costco',
+        memo: '',
+        category: '',
+        checkNumber: '',
+      },
+    ]);
+  });
+
+  it('skips account and category lists', () => {
+    const text = ['!Type:Cat', 'NGroceries', 'E', '^', '!Account', 'NChecking', 'TBank', '^'].join('\n');
+    expect(parseQIF(text)).toEqual([]);
+  });
+
+  it('rejects investment accounts', () => {
+    expect(() => parseQIF('!Type:Invst\nD1/5/24\n^')).toThrow('not supported');
+  });
+});
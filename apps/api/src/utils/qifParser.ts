@@ -0,0 +1,113 @@
+/**
+ * QIF parsing utilities
+ * Quicken Interchange Format: one field per line, each starting with a code
+ * letter, and records ending with "^".
+ */
+
+import { parseAmount } from './csvParser';
+
+export interface QifTransaction {
+  date: Date | null;
+  amount: number | null;
+  payee: string;
+  memo: string;
+  category: string; // "Parent > Child", empty for transfers
+  checkNumber: string;
+}
+
+// Account types that hold plain transactions (investment accounts don't)
+const SUPPORTED_TYPES = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+/**
+ * Whether text looks like a QIF file rather than CSV
+ */
+export function isQIF(text: string): boolean {
+  return /^\s*!(Type|Account|Option|Clear)/i.test(text);
+}
+
+/**
+ * Parse a QIF date. Quicken writes US-ordered dates with 2- or 4-digit years,
+ * marking years after 1999 with an apostrophe: 1/5'24, 01/05/2024, 1/ 5/99.
+ */
+export function parseQIFDate(value: string): Date | null {
+  const parts = value.replace(/\s/g, '').split(/['/.-]/);
+  if (parts.length !== 3 || parts.some((part) => !/^\d+$/.test(part))) return null;
+
+  let [month, day, year] = parts.map((part) => parseInt(part));
+  if (parts[0].length === 4) {
+    [year, month, day] = parts.map((part) => parseInt(part));
+  } else if (parts[2].length <= 2) {
+    year += value.includes("'") || year < 70 ? 2000 : 1900;
+  }
+
+  const d = new Date(year, month - 1, day);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+// "Food:Groceries/Business" -> "Food > Groceries"; transfers ("[Savings]") have no category
+function parseCategory(value: string): string {
+  if (value.startsWith('[')) return '';
+  return value
+    .split('/')[0]
+    .split(':')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join(' > ');
+}
+
+/**
+ * Parse the transactions of a QIF file
+ */
+export function parseQIF(text: string): QifTransaction[] {
+  const transactions: QifTransaction[] = [];
+  let section = '';
+  let fields: Record<string, string> = {};
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (!line) continue;
+
+    // Section headers: "!Type:Bank", "!Account" (account list), "!Option:AutoSwitch".
+    // Records in other sections (category and class lists) are ignored.
+    if (line.startsWith('!')) {
+      const header = line.slice(1).toLowerCase();
+      if (header.startsWith('type:')) {
+        section = header.slice(5).trim();
+        if (section === 'invst') {
+          throw new Error('QIF investment accounts are not supported');
+        }
+      } else if (header === 'account') {
+        section = 'account';
+      }
+      fields = {};
+      continue;
+    }
+
+    if (line === '^') {
+      if (SUPPORTED_TYPES.includes(section)) {
+        // Quicken starts each account with an "Opening Balance" record that isn't a transaction
+        const isOpeningBalance = fields.P?.toLowerCase() === 'opening balance' && fields.L?.startsWith('[');
+        if (!isOpeningBalance && (fields.D || fields.T || fields.U)) {
+          transactions.push({
+            date: parseQIFDate(fields.D ?? ''),
+            amount: parseAmount(fields.T ?? fields.U ?? ''),
+            payee: fields.P ?? '',
+            memo: fields.M ?? '',
+            category: parseCategory(fields.L ?? ''),
+            checkNumber: fields.N ?? '',
+          });
+        }
+      }
+      fields = {};
+      continue;
+    }
+
+    // First occurrence wins; split lines (S, E, $) repeat and aren't imported
+    const code = line[0];
+    if (!(code in fields)) {
+      fields[code] = line.slice(1).trim();
+    }
+  }
+
+  return transactions;
+}
@@ -7,6 +7,7 @@ import Register from './pages/Register';
 import JoinHousehold from './pages/JoinHousehold';
 import ForgotPassword from './pages/ForgotPassword';
 import ResetPassword from './pages/ResetPassword';
+import VerifyEmail from './pages/VerifyEmail';
 import Dashboard from './pages/Dashboard';
 import Accounts from './pages/Accounts';
 import Transactions from './pages/Transactions';
@@ -15,13 +16,15 @@ import Rules from './pages/Rules';
 import Budget from './pages/Budget';
 import Recurring from './pages/Recurring';
 import Goals from './pages/Goals';
+import CollegePlanner from './pages/CollegePlanner';
 import VehicleDetail from './pages/VehicleDetail';
 import Settings from './pages/Settings';
 import NoHousehold from './pages/NoHousehold';
+import TwoFactorRequired from './pages/TwoFactorRequired';
 import Layout from './components/Layout';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated, user } = useAuthStore();
+  const { isAuthenticated, user, household } = useAuthStore();
 
   if (!isAuthenticated) {
     return <Navigate to="/login" replace />;
@@ -32,6 +35,11 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
     return <NoHousehold />;
   }
 
+  // The household requires 2FA and this user hasn't set it up
+  if (household?.requireTwoFactor && !user.twoFactorEnabled) {
+    return <TwoFactorRequired />;
+  }
+
   return <>{children}</>;
 }
 
@@ -90,6 +98,9 @@ export default function App() {
         }
       />
 
+      {/* Works signed in or out */}
+      <Route path="/verify-email" element={<VerifyEmail />} />
+
       {/* Protected routes */}
       <Route
         path="/"
@@ -107,6 +118,7 @@ export default function App() {
         <Route path="budget" element={<Budget />} />
         <Route path="recurring" element={<Recurring />} />
         <Route path="goals" element={<Goals />} />
+        <Route path="goals/college" element={<CollegePlanner />} />
         <Route path="vehicles/:id" element={<VehicleDetail />} />
         <Route path="settings" element={<Settings />} />
       </Route>
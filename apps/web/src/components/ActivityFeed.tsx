@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import type { AuditChange, AuditEntityType, AuditEvent } from '@otter-money/shared';
+import { useActivity, type ActivityFilters } from '../hooks/useActivity';
+import { useHouseholdMembers } from '../hooks/useHousehold';
+
+const ENTITY_LABELS: Record<AuditEntityType, { one: string; many: string }> = {
+  TRANSACTION: { one: 'transaction', many: 'Transactions' },
+  CATEGORY: { one: 'category', many: 'Categories' },
+  RULE: { one: 'rule', many: 'Rules' },
+  BUDGET: { one: 'budget', many: 'Budgets' },
+  BUDGET_TEMPLATE: { one: 'template budget', many: 'Budget template' },
+  GOAL: { one: 'goal', many: 'Goals' },
+  ACCOUNT: { one: 'account', many: 'Accounts' },
+  RECURRING: { one: 'recurring bill', many: 'Recurring bills' },
+  HOUSEHOLD: { one: 'household', many: 'Household' },
+  TAG: { one: 'tag', many: 'Tags' },
+};
+
+const ACTION_VERBS = {
+  CREATE: 'added',
+  UPDATE: 'changed',
+  DELETE: 'deleted',
+} as const;
+
+const FIELD_LABELS: Record<string, string> = {
+  merchantName: 'merchant',
+  attributedTo: 'attributed to',
+  transferStatus: 'transfer',
+  targetAmount: 'target',
+  currentAmount: 'saved',
+  targetDate: 'target date',
+  currentBalance: 'balance',
+  expectedAmount: 'amount',
+  nextExpectedDate: 'next date',
+  dayOfMonth: 'day of month',
+  dayOfWeek: 'day of week',
+  isPaused: 'paused',
+  isHidden: 'hidden',
+  isEnabled: 'enabled',
+  isCompleted: 'completed',
+  excludeFromBudget: 'excluded from budget',
+  excludeFromNetWorth: 'excluded from net worth',
+  requireTwoFactor: 'two-factor required',
+  rolloverCap: 'rollover limit',
+  rolloverReset: 'start fresh',
+  budgetCadence: 'budget period',
+  budgetPaydayAnchor: 'payday',
+  budgetMode: 'budgeting style',
+};
+
+const ENUM_FIELDS = new Set(['type', 'status', 'transferStatus', 'frequency', 'budgetCadence', 'budgetMode']);
+
+const MONEY_FIELDS = new Set([
+  'amount',
+  'rolloverCap',
+  'targetAmount',
+  'currentAmount',
+  'currentBalance',
+  'expectedAmount',
+]);
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return field === 'owner' ? 'Joint' : 'none';
+  }
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (typeof value === 'number' && MONEY_FIELDS.has(field)) {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+  }
+  if (typeof value === 'string') {
+    // Dates are stored as ISO timestamps; date-only fields are midnight UTC
+    if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+      return new Date(value).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        timeZone: 'UTC',
+      });
+    }
+    if (ENUM_FIELDS.has(field)) return value.charAt(0) + value.slice(1).toLowerCase().replace(/_/g, ' ');
+    return value;
+  }
+  if (typeof value === 'object') return 'updated';
+  return String(value);
+}
+
+function formatTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function ChangeList({ changes }: { changes: Record<string, AuditChange> }) {
+  return (
+    <ul className="mt-1 space-y-0.5">
+      {Object.entries(changes).map(([field, change]) => (
+        <li key={field} className="flex flex-wrap items-center gap-1 text-sm text-gray-600">
+          <span className="text-gray-500">{FIELD_LABELS[field] || field}:</span>
+          {typeof change.from === 'object' && change.from !== null ? (
+            <span>updated</span>
+          ) : (
+            <>
+              <span className="line-through decoration-gray-400">{formatValue(field, change.from)}</span>
+              <ArrowRight className="h-3 w-3 text-gray-400" />
+              <span className="text-gray-900">{formatValue(field, change.to)}</span>
+            </>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function ActivityItem({ event }: { event: AuditEvent }) {
+  const actorName = event.actor?.name ?? 'Someone';
+  const entity = ENTITY_LABELS[event.entityType];
+  const verb = ACTION_VERBS[event.action];
+
+  return (
+    <li className="py-3">
+      <p className="text-sm text-gray-900">
+        <span className="font-medium">{actorName}</span>{' '}
+        {event.entityName ? (
+          <>
+            {verb} {entity.one} <span className="font-medium">{event.entityName}</span>
+          </>
+        ) : (
+          <span className="text-gray-500">· {entity.many}</span>
+        )}
+      </p>
+      {event.summary && <p className="mt-0.5 text-sm text-gray-600">{event.summary}</p>}
+      {event.action === 'UPDATE' && event.changes && <ChangeList changes={event.changes} />}
+      <p className="mt-1 text-xs text-gray-400">{formatTime(event.createdAt)}</p>
+    </li>
+  );
+}
+
+// Household activity: who changed what, newest first
+export function ActivityFeed() {
+  const [filters, setFilters] = useState<ActivityFilters>({});
+  const { data: members } = useHouseholdMembers();
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useActivity(filters);
+
+  const events = data?.pages.flat() ?? [];
+
+  return (
+    <section className="card">
+      <h2 className="mb-1 text-lg font-semibold text-gray-900">Activity</h2>
+      <p className="mb-4 text-sm text-gray-600">Recent changes made by members of your household.</p>
+
+      <div className="mb-2 grid grid-cols-2 gap-2">
+        <select
+          value={filters.entityType ?? ''}
+          onChange={(e) =>
+            setFilters({ ...filters, entityType: (e.target.value || undefined) as AuditEntityType | undefined })
+          }
+          className="input"
+          aria-label="Filter by type"
+        >
+          <option value="">Everything</option>
+          {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+            <option key={type} value={type}>
+              {ENTITY_LABELS[type].many}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.actorId ?? ''}
+          onChange={(e) => setFilters({ ...filters, actorId: e.target.value || undefined })}
+          className="input"
+          aria-label="Filter by member"
+        >
+          <option value="">Everyone</option>
+          {members?.map((member) => (
+            <option key={member.id} value={member.id}>
+              {member.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse space-y-2">
+          <div className="h-10 bg-gray-200 rounded" />
+          <div className="h-10 bg-gray-200 rounded" />
+          <div className="h-10 bg-gray-200 rounded" />
+        </div>
+      ) : events.length === 0 ? (
+        <p className="py-4 text-center text-sm text-gray-500">No activity yet</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-100">
+            {events.map((event) => (
+              <ActivityItem key={event.id} event={event} />
+            ))}
+          </ul>
+          {hasNextPage && (
+            <button
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              className="mt-3 text-sm text-primary hover:text-primary-600 disabled:opacity-50"
+            >
+              {isFetchingNextPage ? 'Loading...' : 'Show more'}
+            </button>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
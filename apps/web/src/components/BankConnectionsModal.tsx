@@ -2,6 +2,8 @@ import { useState } from 'react';
 import { toast } from 'sonner';
 import { usePlaidSync } from '../hooks/usePlaidLink';
 import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
+import { useSimplefinStatus, useSyncSimplefin, useDisconnectSimplefin } from '../hooks/useSimplefin';
+import { SimplefinSetupModal } from './SimplefinSetupModal';
 import type { AccountWithOwner } from '@otter-money/shared';
 
 interface BankConnectionsModalProps {
@@ -35,6 +37,13 @@ export function BankConnectionsModal({
     itemId: string;
     type: 'disconnect' | 'remove';
   } | null>(null);
+  const [showSimplefinSetup, setShowSimplefinSetup] = useState(false);
+  const [simplefinExpanded, setSimplefinExpanded] = useState(false);
+  const [confirmSimplefinDisconnect, setConfirmSimplefinDisconnect] = useState(false);
+
+  const { data: simplefin } = useSimplefinStatus();
+  const syncSimplefin = useSyncSimplefin();
+  const disconnectSimplefin = useDisconnectSimplefin();
 
   useBodyScrollLock(true);
 
@@ -53,6 +62,35 @@ export function BankConnectionsModal({
     }
   };
 
+  const handleSimplefinSync = async () => {
+    try {
+      const result = await syncSimplefin.mutateAsync();
+      onRefresh();
+      toast.success(
+        `Synced SimpleFin! Added: ${result.added}, Modified: ${result.modified}, Removed: ${result.removed}`
+      );
+      for (const error of result.errors) {
+        toast.warning(error);
+      }
+    } catch (err) {
+      toast.error((err as Error).message || 'Failed to sync SimpleFin. Please try again.');
+    }
+  };
+
+  const handleSimplefinDisconnect = async () => {
+    try {
+      const result = await disconnectSimplefin.mutateAsync();
+      onRefresh();
+      toast.success(
+        `Disconnected! ${result.accountsDisconnected} account${result.accountsDisconnected !== 1 ? 's' : ''} kept with ${result.transactionsPreserved.toLocaleString()} transactions preserved.`
+      );
+      setConfirmSimplefinDisconnect(false);
+      setSimplefinExpanded(false);
+    } catch {
+      toast.error('Failed to disconnect. Please try again.');
+    }
+  };
+
   const getItemAccountCount = (itemId: string) => {
     return accounts.filter((a) => a.plaidItemId === itemId).length;
   };
@@ -87,7 +125,7 @@ export function BankConnectionsModal({
           <div className="py-6 text-center text-gray-500 text-sm">
             Loading connections...
           </div>
-        ) : items.length === 0 ? (
+        ) : items.length === 0 && !simplefin?.connected ? (
           <div className="py-4 text-center text-gray-400 text-sm">
             No banks connected yet
           </div>
@@ -235,6 +273,101 @@ export function BankConnectionsModal({
                 </div>
               );
             })}
+
+            {/* SimpleFin connection */}
+            {simplefin?.connected && (
+              <div className="border border-gray-200 rounded-xl overflow-hidden">
+                <div className="flex items-center gap-3 px-3.5 py-3">
+                  <div className="w-8 h-8 rounded-full bg-green-50 flex items-center justify-center flex-shrink-0">
+                    <BridgeIcon className="h-4 w-4 text-green-600" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      SimpleFin Bridge
+                    </p>
+                    <p className="text-[11px] text-gray-400 leading-tight">
+                      {simplefin.accounts.length} acct{simplefin.accounts.length !== 1 ? 's' : ''}
+                      {simplefin.accounts.some((a) => a.connectionStatus === 'REQUIRES_REAUTH') && (
+                        <span className="text-amber-600"> · Needs reconnect</span>
+                      )}
+                      {simplefin.lastSyncedAt &&
+                        ` · Synced ${new Date(simplefin.lastSyncedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={handleSimplefinSync}
+                      disabled={syncSimplefin.isPending || disconnectSimplefin.isPending}
+                      className="p-1.5 rounded-lg text-gray-400 hover:text-primary hover:bg-primary-50 disabled:opacity-40 transition-colors"
+                      title="Sync transactions"
+                    >
+                      {syncSimplefin.isPending ? (
+                        <SpinnerIcon className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RefreshIcon className="h-4 w-4" />
+                      )}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setSimplefinExpanded(!simplefinExpanded);
+                        if (simplefinExpanded) setConfirmSimplefinDisconnect(false);
+                      }}
+                      className={`p-1.5 rounded-lg transition-colors ${
+                        simplefinExpanded
+                          ? 'text-gray-600 bg-gray-100'
+                          : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'
+                      }`}
+                      title="More options"
+                    >
+                      <MoreIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {simplefinExpanded && (
+                  <div className="border-t border-gray-100 bg-gray-50/50 px-3.5 py-2.5">
+                    {confirmSimplefinDisconnect ? (
+                      <div className="rounded-lg bg-amber-50 border border-amber-200 p-2.5">
+                        <p className="text-xs text-amber-800 font-medium">Stop syncing?</p>
+                        <p className="text-[11px] text-amber-700 mt-0.5">
+                          Accounts and transactions will be kept as manual.
+                        </p>
+                        <div className="flex gap-2 mt-2">
+                          <button
+                            onClick={() => setConfirmSimplefinDisconnect(false)}
+                            className="flex-1 text-xs font-medium text-gray-600 bg-white border border-gray-200 rounded-lg py-1.5 hover:bg-gray-50"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            disabled={disconnectSimplefin.isPending}
+                            onClick={handleSimplefinDisconnect}
+                            className="flex-1 text-xs font-medium text-white bg-amber-600 rounded-lg py-1.5 hover:bg-amber-700 disabled:opacity-50"
+                          >
+                            {disconnectSimplefin.isPending ? 'Disconnecting...' : 'Disconnect'}
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setShowSimplefinSetup(true)}
+                          className="flex-1 text-xs font-medium text-gray-700 bg-white border border-gray-200 rounded-lg py-2 hover:bg-gray-50 transition-colors"
+                        >
+                          Link Accounts
+                        </button>
+                        <button
+                          onClick={() => setConfirmSimplefinDisconnect(true)}
+                          className="flex-1 text-xs font-medium text-amber-700 bg-white border border-gray-200 rounded-lg py-2 hover:bg-amber-50 hover:border-amber-200 transition-colors"
+                        >
+                          Disconnect
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         )}
 
@@ -271,25 +404,26 @@ export function BankConnectionsModal({
               <ChevronRightIcon className="h-4 w-4 text-gray-300 flex-shrink-0" />
             </button>
 
-            {/* SimpleFin Bridge — Coming Soon */}
-            <div className="w-full flex items-center gap-3 px-3.5 py-3 border border-gray-200 rounded-xl opacity-40 cursor-not-allowed">
-              <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center flex-shrink-0">
-                <BridgeIcon className="h-4 w-4 text-gray-400" />
-              </div>
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center gap-1.5">
+            {/* SimpleFin Bridge */}
+            {!simplefin?.connected && (
+              <button
+                onClick={() => setShowSimplefinSetup(true)}
+                className="w-full flex items-center gap-3 px-3.5 py-3 border border-gray-200 rounded-xl hover:border-primary hover:bg-primary-50/30 transition-colors text-left"
+              >
+                <div className="w-8 h-8 rounded-full bg-primary-100 flex items-center justify-center flex-shrink-0">
+                  <BridgeIcon className="h-4 w-4 text-primary" />
+                </div>
+                <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium text-gray-900">
                     SimpleFin Bridge
                   </p>
-                  <span className="text-[10px] font-medium text-gray-500 bg-gray-100 px-1.5 py-0.5 rounded-full leading-none">
-                    Soon
-                  </span>
+                  <p className="text-[11px] text-gray-400">
+                    Connect with a SimpleFin setup token
+                  </p>
                 </div>
-                <p className="text-[11px] text-gray-400">
-                  Alternative bank connection
-                </p>
-              </div>
-            </div>
+                <ChevronRightIcon className="h-4 w-4 text-gray-300 flex-shrink-0" />
+              </button>
+            )}
           </div>
         </div>
 
@@ -300,6 +434,17 @@ export function BankConnectionsModal({
           </button>
         </div>
       </div>
+
+      {showSimplefinSetup && (
+        <SimplefinSetupModal
+          isConnected={!!simplefin?.connected}
+          accounts={accounts}
+          onClose={() => {
+            setShowSimplefinSetup(false);
+            onRefresh();
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -1,30 +1,41 @@
 import { useState, useEffect } from 'react';
+import { BUDGET_CADENCE_CONFIG, getPeriodCadence } from '@otter-money/shared';
 import { useCreateBudget, useUpdateBudget, type Budget } from '../hooks/useBudgets';
 import { CategoryPicker } from './CategoryPicker';
 import { CategoryIcon } from './CategoryIcon';
 import { useCategoryById } from '../hooks/useCategories';
+import { useHouseholdMembers } from '../hooks/useHousehold';
 
 interface BudgetModalProps {
   budget?: Budget | null;
   period: string;
+  ownerId?: string | null; // Whose budget a new one is; joint by default
   onClose: () => void;
 }
 
-export default function BudgetModal({ budget, period, onClose }: BudgetModalProps) {
+export default function BudgetModal({ budget, period, ownerId: defaultOwnerId = null, onClose }: BudgetModalProps) {
   const createBudget = useCreateBudget();
   const updateBudget = useUpdateBudget();
   const { data: selectedCategory } = useCategoryById(budget?.categoryId || null);
+  const { data: members } = useHouseholdMembers();
+  const periodNoun = BUDGET_CADENCE_CONFIG[getPeriodCadence(period)].noun;
 
   const [categoryId, setCategoryId] = useState<string | null>(budget?.categoryId || null);
+  const [ownerId, setOwnerId] = useState<string | null>(budget ? budget.ownerId : defaultOwnerId);
   const [amount, setAmount] = useState(budget?.amount.toString() || '');
   const [rollover, setRollover] = useState(budget?.rollover || false);
+  const [rolloverCap, setRolloverCap] = useState(budget?.rolloverCap?.toString() || '');
+  const [rolloverReset, setRolloverReset] = useState(budget?.rolloverReset || false);
   const [error, setError] = useState('');
 
   useEffect(() => {
     if (budget) {
       setCategoryId(budget.categoryId);
+      setOwnerId(budget.ownerId);
       setAmount(budget.amount.toString());
       setRollover(budget.rollover);
+      setRolloverCap(budget.rolloverCap?.toString() || '');
+      setRolloverReset(budget.rolloverReset);
     }
   }, [budget]);
 
@@ -43,20 +54,31 @@ export default function BudgetModal({ budget, period, onClose }: BudgetModalProp
       return;
     }
 
+    const capNum = rolloverCap.trim() ? parseFloat(rolloverCap) : null;
+    if (rollover && capNum !== null && (isNaN(capNum) || capNum < 0)) {
+      setError('Please enter a valid rollover limit');
+      return;
+    }
+
     try {
       if (budget) {
         await updateBudget.mutateAsync({
           id: budget.id,
           amount: amountNum,
           rollover,
+          rolloverCap: rollover ? capNum : null,
+          rolloverReset,
           period,
         });
       } else {
         await createBudget.mutateAsync({
           categoryId,
+          ownerId,
           amount: amountNum,
           period,
           rollover,
+          rolloverCap: rollover ? capNum : null,
+          rolloverReset,
         });
       }
       onClose();
@@ -129,6 +151,40 @@ export default function BudgetModal({ budget, period, onClose }: BudgetModalProp
             </div>
           )}
 
+          {/* Owner */}
+          {budget ? (
+            budget.ownerId && (
+              <p className="text-sm text-gray-600">
+                Personal budget for {members?.find((m) => m.id === budget.ownerId)?.name ?? 'a partner'}
+              </p>
+            )
+          ) : (
+            members &&
+            members.length > 1 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Whose budget</label>
+                <select
+                  value={ownerId ?? 'joint'}
+                  onChange={(e) => setOwnerId(e.target.value === 'joint' ? null : e.target.value)}
+                  className="input"
+                >
+                  <option value="joint">Joint (Shared)</option>
+                  {members.map((member) => (
+                    <option key={member.id} value={member.id}>
+                      {member.name}
+                      {member.isCurrentUser ? ' (You)' : ''}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  {ownerId
+                    ? "Only counts spending from their own accounts and splits attributed to them."
+                    : "Counts everyone's spending that isn't covered by a personal budget."}
+                </p>
+              </div>
+            )
+          )}
+
           {/* Amount */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -163,7 +219,49 @@ export default function BudgetModal({ budget, period, onClose }: BudgetModalProp
                 Rollover unused budget
               </span>
               <span className="block text-xs text-gray-500">
-                Add remaining budget to next month (coming soon)
+                Carry what's left into next {periodNoun}. Overspending is taken out of next {periodNoun}'s budget.
+              </span>
+            </label>
+          </div>
+
+          {rollover && (
+            <div className="ml-6">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Rollover limit
+              </label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={rolloverCap}
+                  onChange={(e) => setRolloverCap(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg pl-8 pr-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder="No limit"
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                The most unspent budget that can carry into next {periodNoun}.
+              </p>
+            </div>
+          )}
+
+          {/* Reset toggle */}
+          <div className="flex items-start">
+            <input
+              type="checkbox"
+              id="rolloverReset"
+              checked={rolloverReset}
+              onChange={(e) => setRolloverReset(e.target.checked)}
+              className="mt-1 h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+            />
+            <label htmlFor="rolloverReset" className="ml-2">
+              <span className="block text-sm font-medium text-gray-700">
+                Start fresh this {periodNoun}
+              </span>
+              <span className="block text-xs text-gray-500">
+                Ignore anything carried over from last {periodNoun}
               </span>
             </label>
           </div>
@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { BUDGET_CADENCE_CONFIG, getPeriodCadence, type BudgetTemplateItem } from '@otter-money/shared';
+import {
+  useBudgetTemplate,
+  useBudgetTemplateHistory,
+  useDeleteTemplateItem,
+  useSaveTemplateFromPeriod,
+  useSaveTemplateItem,
+  formatPeriod,
+} from '../hooks/useBudgets';
+import { ActivityItem } from './ActivityFeed';
+import { CategoryIcon } from './CategoryIcon';
+import { CategoryPicker } from './CategoryPicker';
+
+interface BudgetTemplateModalProps {
+  period: string;
+  onClose: () => void;
+}
+
+function TemplateItemRow({ item }: { item: BudgetTemplateItem }) {
+  const saveItem = useSaveTemplateItem();
+  const deleteItem = useDeleteTemplateItem();
+  const [amount, setAmount] = useState(item.amount.toString());
+
+  useEffect(() => {
+    setAmount(item.amount.toString());
+  }, [item.amount]);
+
+  const save = async (changes: { amount?: number; rollover?: boolean }) => {
+    try {
+      await saveItem.mutateAsync({
+        categoryId: item.categoryId,
+        amount: item.amount,
+        rollover: item.rollover,
+        rolloverCap: item.rolloverCap,
+        ...changes,
+      });
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to save template budget');
+    }
+  };
+
+  const handleAmountBlur = () => {
+    const amountNum = parseFloat(amount);
+    if (isNaN(amountNum) || amountNum <= 0) {
+      setAmount(item.amount.toString());
+      return;
+    }
+    if (amountNum !== item.amount) {
+      void save({ amount: amountNum });
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm(`Remove ${item.category.name} from the template?`)) return;
+    try {
+      await deleteItem.mutateAsync(item.categoryId);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to remove template budget');
+    }
+  };
+
+  return (
+    <li className="flex items-center gap-3 py-2">
+      <span
+        className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center bg-gray-100 text-gray-600"
+        style={item.category.color ? { backgroundColor: `${item.category.color}20`, color: item.category.color } : undefined}
+      >
+        <CategoryIcon icon={item.category.icon} size={14} />
+      </span>
+      <span className="flex-1 min-w-0 truncate text-sm text-gray-900">{item.category.name}</span>
+      <label className="flex items-center gap-1 text-xs text-gray-600">
+        <input
+          type="checkbox"
+          checked={item.rollover}
+          onChange={(e) => void save({ rollover: e.target.checked })}
+          className="h-3.5 w-3.5 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+        />
+        Rollover
+      </label>
+      <div className="relative w-28">
+        <span className="absolute left-2 top-1/2 -translate-y-1/2 text-sm text-gray-500">$</span>
+        <input
+          type="number"
+          step="0.01"
+          min="0.01"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          onBlur={handleAmountBlur}
+          className="w-full border border-gray-300 rounded-lg pl-6 pr-2 py-1 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        />
+      </div>
+      <button
+        type="button"
+        onClick={handleRemove}
+        disabled={deleteItem.isPending}
+        className="text-sm text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+      >
+        Remove
+      </button>
+    </li>
+  );
+}
+
+export default function BudgetTemplateModal({ period, onClose }: BudgetTemplateModalProps) {
+  const { data: items, isLoading } = useBudgetTemplate();
+  const { data: history } = useBudgetTemplateHistory();
+  const saveItem = useSaveTemplateItem();
+  const saveFromPeriod = useSaveTemplateFromPeriod();
+
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [amount, setAmount] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+
+  const periodNoun = BUDGET_CADENCE_CONFIG[getPeriodCadence(period)].noun;
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amountNum = parseFloat(amount);
+    if (!categoryId || isNaN(amountNum) || amountNum <= 0) {
+      toast.error('Choose a category and an amount greater than 0');
+      return;
+    }
+
+    try {
+      await saveItem.mutateAsync({ categoryId, amount: amountNum });
+      setCategoryId(null);
+      setAmount('');
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to add template budget');
+    }
+  };
+
+  const handleSaveFromPeriod = async () => {
+    if (
+      !confirm(
+        `Replace the template with the budgets from ${formatPeriod(period)}?\n\nBudgets you've already set for other ${periodNoun}s won't change.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await saveFromPeriod.mutateAsync(period);
+      toast.success(`Template now matches ${formatPeriod(period)}`);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to save template');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4">
+          <h2 className="text-xl font-bold text-gray-900">Budget Template</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            These budgets are created automatically when each {periodNoun} starts. Budgets you change for a single{' '}
+            {periodNoun} keep your changes.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-5">
+          {isLoading ? (
+            <div className="text-sm text-gray-500">Loading template...</div>
+          ) : !items || items.length === 0 ? (
+            <div className="text-sm text-gray-500">
+              No template yet. Add categories below, or start from this {periodNoun}'s budgets.
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {items.map((item) => (
+                <TemplateItemRow key={item.id} item={item} />
+              ))}
+            </ul>
+          )}
+
+          {/* Add a category */}
+          <form onSubmit={handleAdd} className="space-y-2 pt-4 border-t border-gray-200">
+            <CategoryPicker
+              value={categoryId}
+              onChange={setCategoryId}
+              categoryType="EXPENSE"
+              label="Add to template"
+              allowUncategorized={false}
+              placeholder="Select a category..."
+            />
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg pl-8 pr-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder="0.00"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={saveItem.isPending}
+                className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+          </form>
+
+          <button
+            type="button"
+            onClick={handleSaveFromPeriod}
+            disabled={saveFromPeriod.isPending}
+            className="text-sm text-purple-600 hover:text-purple-700 font-medium disabled:opacity-50"
+          >
+            {saveFromPeriod.isPending ? 'Saving...' : `Use ${formatPeriod(period)} budgets as the template`}
+          </button>
+
+          {/* History */}
+          <div className="pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={() => setShowHistory(!showHistory)}
+              className="text-sm font-medium text-gray-700 hover:text-gray-900"
+            >
+              {showHistory ? 'Hide history' : 'Show history'}
+            </button>
+            {showHistory &&
+              (history && history.length > 0 ? (
+                <ul className="divide-y divide-gray-100">
+                  {history.map((event) => (
+                    <ActivityItem key={event.id} event={event} />
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-2 text-sm text-gray-500">No changes yet</p>
+              ))}
+          </div>
+        </div>
+
+        <div className="flex px-6 py-4 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
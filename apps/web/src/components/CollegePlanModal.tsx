@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { useAccounts } from '../hooks/useAccounts';
+import {
+  useCreateCollegePlan,
+  useUpdateCollegePlan,
+  type CollegePlan,
+} from '../hooks/useCollegePlans';
+
+// Liabilities can't fund a college plan
+const FUNDING_ACCOUNT_TYPES = ['CHECKING', 'SAVINGS', 'INVESTMENT', 'OTHER'];
+
+interface CollegePlanModalProps {
+  plan?: CollegePlan | null;
+  onClose: () => void;
+}
+
+export default function CollegePlanModal({ plan, onClose }: CollegePlanModalProps) {
+  const createPlan = useCreateCollegePlan();
+  const updatePlan = useUpdateCollegePlan();
+  const { data: accounts } = useAccounts();
+
+  const currentYear = new Date().getFullYear();
+  const [childName, setChildName] = useState(plan?.childName || '');
+  const [birthYear, setBirthYear] = useState(plan?.birthYear.toString() || currentYear.toString());
+  const [annualCost, setAnnualCost] = useState(plan?.annualCost.toString() || '');
+  const [enrollmentAge, setEnrollmentAge] = useState(plan?.enrollmentAge.toString() || '18');
+  const [yearsOfSchool, setYearsOfSchool] = useState(plan?.yearsOfSchool.toString() || '4');
+  const [educationInflation, setEducationInflation] = useState(
+    plan?.educationInflation.toString() || '5'
+  );
+  const [expectedReturn, setExpectedReturn] = useState(plan?.expectedReturn.toString() || '6');
+  const [accountIds, setAccountIds] = useState<string[]>(
+    plan?.accounts.map((a) => a.id) || []
+  );
+  const [showAssumptions, setShowAssumptions] = useState(false);
+  const [error, setError] = useState('');
+
+  const fundingAccounts = (accounts || []).filter((a) => FUNDING_ACCOUNT_TYPES.includes(a.type));
+
+  const toggleAccount = (id: string) => {
+    setAccountIds((ids) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!childName.trim()) {
+      setError("Please enter your child's name");
+      return;
+    }
+
+    const birthYearNum = parseInt(birthYear, 10);
+    if (isNaN(birthYearNum) || birthYearNum < currentYear - 30 || birthYearNum > currentYear + 5) {
+      setError('Please enter a valid birth year');
+      return;
+    }
+
+    const costNum = parseFloat(annualCost);
+    if (isNaN(costNum) || costNum <= 0) {
+      setError('Please enter a yearly cost greater than 0');
+      return;
+    }
+
+    const data = {
+      childName: childName.trim(),
+      birthYear: birthYearNum,
+      annualCost: costNum,
+      enrollmentAge: parseInt(enrollmentAge, 10) || 18,
+      yearsOfSchool: parseInt(yearsOfSchool, 10) || 4,
+      educationInflation: parseFloat(educationInflation) || 0,
+      expectedReturn: parseFloat(expectedReturn) || 0,
+      accountIds,
+    };
+
+    try {
+      if (plan) {
+        await updatePlan.mutateAsync({ id: plan.id, ...data });
+      } else {
+        await createPlan.mutateAsync(data);
+      }
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save plan');
+    }
+  };
+
+  const isSaving = createPlan.isPending || updatePlan.isPending;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4">
+          <h2 className="text-xl font-bold text-gray-900">
+            {plan ? 'Edit College Plan' : 'New College Plan'}
+          </h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          {/* Child */}
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Child's Name <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                value={childName}
+                onChange={(e) => setChildName(e.target.value)}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                placeholder="e.g., Maya"
+                required
+                autoFocus
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Birth Year <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="number"
+                min={currentYear - 30}
+                max={currentYear + 5}
+                value={birthYear}
+                onChange={(e) => setBirthYear(e.target.value)}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                required
+              />
+            </div>
+          </div>
+
+          {/* Cost */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Yearly Cost in Today's Dollars <span className="text-red-500">*</span>
+            </label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+              <input
+                type="number"
+                step="1"
+                min="1"
+                value={annualCost}
+                onChange={(e) => setAnnualCost(e.target.value)}
+                className="w-full border border-gray-300 rounded-lg pl-8 pr-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                placeholder="25,000"
+                required
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Tuition, housing and fees for one school year at today's prices
+            </p>
+          </div>
+
+          {/* Assumptions */}
+          <div>
+            <button
+              type="button"
+              onClick={() => setShowAssumptions(!showAssumptions)}
+              className="text-sm text-purple-600 hover:text-purple-700 font-medium"
+            >
+              {showAssumptions ? '▲ Hide' : '▼ Show'} assumptions
+            </button>
+            {showAssumptions && (
+              <div className="grid grid-cols-2 gap-3 mt-3">
+                <NumberField
+                  label="Starts School At"
+                  suffix="yrs old"
+                  value={enrollmentAge}
+                  onChange={setEnrollmentAge}
+                  min={14}
+                  max={30}
+                />
+                <NumberField
+                  label="Years of School"
+                  suffix="yrs"
+                  value={yearsOfSchool}
+                  onChange={setYearsOfSchool}
+                  min={1}
+                  max={10}
+                />
+                <NumberField
+                  label="Education Inflation"
+                  suffix="%/yr"
+                  value={educationInflation}
+                  onChange={setEducationInflation}
+                  min={0}
+                  max={20}
+                  step="0.1"
+                />
+                <NumberField
+                  label="Expected Return"
+                  suffix="%/yr"
+                  value={expectedReturn}
+                  onChange={setExpectedReturn}
+                  min={0}
+                  max={20}
+                  step="0.1"
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Linked accounts */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Savings Accounts
+            </label>
+            {fundingAccounts.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Add a 529 or savings account to track this plan's progress
+              </p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-48 overflow-y-auto">
+                {fundingAccounts.map((account) => (
+                  <label
+                    key={account.id}
+                    className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-gray-50"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={accountIds.includes(account.id)}
+                      onChange={() => toggleAccount(account.id)}
+                      className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                    />
+                    <span className="flex-1 text-sm text-gray-900">{account.name}</span>
+                    <span className="text-xs text-gray-500">{account.owner?.name || 'Joint'}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              The 529 plans and savings set aside for this child
+            </p>
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : plan ? 'Update Plan' : 'Create Plan'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+interface NumberFieldProps {
+  label: string;
+  suffix: string;
+  value: string;
+  onChange: (value: string) => void;
+  min: number;
+  max: number;
+  step?: string;
+}
+
+function NumberField({ label, suffix, value, onChange, min, max, step = '1' }: NumberFieldProps) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+      <div className="relative">
+        <input
+          type="number"
+          min={min}
+          max={max}
+          step={step}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full border border-gray-300 rounded-lg pl-3 pr-14 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        />
+        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-500">
+          {suffix}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,420 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import type { BudgetAssignment } from '@otter-money/shared';
+import {
+  useAssignEnvelope,
+  useEnvelopeLedger,
+  useEnvelopes,
+  useMoveEnvelope,
+  type BudgetSpending,
+} from '../hooks/useBudgets';
+import { CategoryPicker } from './CategoryPicker';
+
+interface EnvelopeViewProps {
+  period: string;
+  periodNoun: string;
+}
+
+function formatMoney(amount: number): string {
+  return `${amount < 0 ? '−' : ''}$${Math.abs(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+// "Sam assigned $400 to Groceries", "moved $50 from Dining to Groceries"
+function describeAssignment(entry: BudgetAssignment): string {
+  const who = entry.actor?.name ?? 'Someone';
+  const amount = formatMoney(entry.amount);
+  if (entry.fromCategory && entry.toCategory) {
+    return `${who} moved ${amount} from ${entry.fromCategory.name} to ${entry.toCategory.name}`;
+  }
+  if (entry.toCategory) {
+    return `${who} assigned ${amount} to ${entry.toCategory.name}`;
+  }
+  return `${who} took ${amount} out of ${entry.fromCategory?.name ?? 'an envelope'}`;
+}
+
+function EnvelopeRow({
+  envelope,
+  period,
+  onMove,
+}: {
+  envelope: BudgetSpending;
+  period: string;
+  onMove: () => void;
+}) {
+  const assign = useAssignEnvelope();
+  const [amount, setAmount] = useState('');
+
+  // Positive amounts go into the envelope, negative ones back to "to be assigned"
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amountNum = parseFloat(amount);
+    if (isNaN(amountNum) || amountNum === 0) return;
+
+    try {
+      await assign.mutateAsync({ period, categoryId: envelope.categoryId, amount: amountNum });
+      setAmount('');
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to assign money');
+    }
+  };
+
+  const available = envelope.available - envelope.totalSpent;
+
+  return (
+    <li className="py-3">
+      <div className="flex items-center gap-3">
+        <span
+          className="flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center text-xl"
+          style={{ backgroundColor: envelope.categoryColor ? `${envelope.categoryColor}20` : '#f3f4f6' }}
+        >
+          {envelope.categoryIcon || '📦'}
+        </span>
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-gray-900 truncate">{envelope.categoryName}</div>
+          <div className="text-xs text-gray-600">
+            {formatMoney(envelope.budgetAmount)} assigned
+            {envelope.carriedIn !== 0 && ` · ${formatMoney(envelope.carriedIn)} carried over`}
+            {' · '}
+            {formatMoney(envelope.totalSpent)} spent
+          </div>
+        </div>
+        <div className={`text-right font-semibold ${available < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+          {formatMoney(available)}
+          <div className="text-xs font-normal text-gray-500">available</div>
+        </div>
+      </div>
+      <form onSubmit={handleAssign} className="mt-2 flex items-center gap-2 pl-[3.25rem]">
+        <div className="relative w-32">
+          <span className="absolute left-2 top-1/2 -translate-y-1/2 text-sm text-gray-500">$</span>
+          <input
+            type="number"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg pl-6 pr-2 py-1 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            placeholder="+/− amount"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={assign.isPending || !amount}
+          className="text-sm text-purple-600 hover:text-purple-700 font-medium disabled:opacity-50"
+        >
+          Assign
+        </button>
+        <button
+          type="button"
+          onClick={onMove}
+          disabled={envelope.budgetAmount <= 0}
+          className="text-sm text-gray-600 hover:text-gray-900 font-medium disabled:opacity-50"
+        >
+          Move…
+        </button>
+      </form>
+    </li>
+  );
+}
+
+function MoveEnvelopeModal({
+  from,
+  envelopes,
+  period,
+  onClose,
+}: {
+  from: BudgetSpending;
+  envelopes: BudgetSpending[];
+  period: string;
+  onClose: () => void;
+}) {
+  const move = useMoveEnvelope();
+  const [toCategoryId, setToCategoryId] = useState<string | null>(null);
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+
+  const others = envelopes.filter((envelope) => envelope.categoryId !== from.categoryId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amountNum = parseFloat(amount);
+    if (!toCategoryId || isNaN(amountNum) || amountNum <= 0) {
+      toast.error('Choose an envelope and an amount greater than 0');
+      return;
+    }
+
+    try {
+      await move.mutateAsync({
+        period,
+        fromCategoryId: from.categoryId,
+        toCategoryId,
+        amount: amountNum,
+        note: note.trim() || undefined,
+      });
+      onClose();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to move money');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="border-b border-gray-200 px-6 py-4">
+          <h2 className="text-xl font-bold text-gray-900">Move from {from.categoryName}</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Up to {formatMoney(from.budgetAmount)} assigned this period can be moved.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {others.length > 0 ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <select
+                value={toCategoryId ?? ''}
+                onChange={(e) => setToCategoryId(e.target.value || null)}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                <option value="">Select an envelope...</option>
+                {others.map((envelope) => (
+                  <option key={envelope.categoryId} value={envelope.categoryId}>
+                    {envelope.categoryName} ({formatMoney(envelope.available - envelope.totalSpent)} available)
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : (
+            <CategoryPicker
+              value={toCategoryId}
+              onChange={setToCategoryId}
+              categoryType="EXPENSE"
+              label="To"
+              allowUncategorized={false}
+            />
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                max={from.budgetAmount}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full border border-gray-300 rounded-lg pl-8 pr-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Note (optional)</label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={200}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              placeholder="Birthday dinner ran over"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-3 px-6 py-4 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={move.isPending}
+            className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+          >
+            {move.isPending ? 'Moving...' : 'Move'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+// Zero-based budgeting: assign the period's income to envelopes until
+// nothing is left, and move money between them as plans change
+export default function EnvelopeView({ period, periodNoun }: EnvelopeViewProps) {
+  const { data: summary, isLoading } = useEnvelopes(period);
+  const { data: ledger } = useEnvelopeLedger(period);
+  const assign = useAssignEnvelope();
+
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [amount, setAmount] = useState('');
+  const [movingFrom, setMovingFrom] = useState<BudgetSpending | null>(null);
+  const [showLedger, setShowLedger] = useState(false);
+
+  const handleAddEnvelope = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amountNum = parseFloat(amount);
+    if (!categoryId || isNaN(amountNum) || amountNum <= 0) {
+      toast.error('Choose a category and an amount greater than 0');
+      return;
+    }
+
+    try {
+      await assign.mutateAsync({ period, categoryId, amount: amountNum });
+      setCategoryId(null);
+      setAmount('');
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to assign money');
+    }
+  };
+
+  if (isLoading || !summary) {
+    return <div className="text-gray-500">Loading envelopes...</div>;
+  }
+
+  const { toBeAssigned } = summary;
+
+  return (
+    <div className="space-y-6">
+      {/* To be assigned */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <div className="text-2xl font-bold text-gray-900">{formatMoney(summary.income)}</div>
+            <div className="text-xs text-gray-600">Income this {periodNoun}</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-purple-600">{formatMoney(summary.assigned)}</div>
+            <div className="text-xs text-gray-600">Assigned</div>
+            {summary.allowances > 0 && (
+              <div className="text-xs text-gray-500 mt-0.5">
+                incl. {formatMoney(summary.allowances)} personal budgets
+              </div>
+            )}
+          </div>
+          <div>
+            <div
+              className={`text-2xl font-bold ${
+                toBeAssigned === 0 ? 'text-green-600' : toBeAssigned > 0 ? 'text-yellow-600' : 'text-red-600'
+              }`}
+            >
+              {formatMoney(toBeAssigned)}
+            </div>
+            <div className="text-xs text-gray-600">To be assigned</div>
+          </div>
+        </div>
+        <p className="text-sm text-gray-600 mt-4">
+          {toBeAssigned === 0
+            ? 'Every dollar has a job.'
+            : toBeAssigned > 0
+            ? `Assign the rest of this ${periodNoun}'s income to envelopes until this reaches zero.`
+            : `You've assigned more than came in. Take money out of an envelope until this reaches zero.`}
+        </p>
+      </div>
+
+      {/* Envelopes */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-5">
+        <h3 className="text-sm font-medium text-gray-700">Envelopes</h3>
+        {summary.envelopes.length === 0 ? (
+          <p className="mt-2 text-sm text-gray-500">No envelopes yet. Assign money to a category below.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {summary.envelopes.map((envelope) => (
+              <EnvelopeRow
+                key={envelope.categoryId}
+                envelope={envelope}
+                period={period}
+                onMove={() => setMovingFrom(envelope)}
+              />
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleAddEnvelope} className="space-y-2 pt-4 mt-2 border-t border-gray-200">
+          <CategoryPicker
+            value={categoryId}
+            onChange={setCategoryId}
+            categoryType="EXPENSE"
+            label="Assign to a new envelope"
+            allowUncategorized={false}
+            placeholder="Select a category..."
+          />
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full border border-gray-300 rounded-lg pl-8 pr-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                placeholder="0.00"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={assign.isPending}
+              className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+            >
+              Assign
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {/* Ledger */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-5">
+        <button
+          type="button"
+          onClick={() => setShowLedger(!showLedger)}
+          className="text-sm font-medium text-gray-700 hover:text-gray-900"
+        >
+          {showLedger ? 'Hide assignments' : 'Show assignments'}
+        </button>
+        {showLedger &&
+          (ledger && ledger.length > 0 ? (
+            <ul className="mt-2 divide-y divide-gray-100">
+              {ledger.map((entry) => (
+                <li key={entry.id} className="py-2 text-sm">
+                  <div className="text-gray-900">{describeAssignment(entry)}</div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(entry.createdAt).toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}
+                    {entry.note && ` · ${entry.note}`}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-2 text-sm text-gray-500">Nothing assigned this {periodNoun} yet</p>
+          ))}
+      </div>
+
+      {movingFrom && (
+        <MoveEnvelopeModal
+          from={movingFrom}
+          envelopes={summary.envelopes}
+          period={period}
+          onClose={() => setMovingFrom(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,12 @@ import { toast } from 'sonner';
 import { useAccounts } from '../hooks/useAccounts';
 import { useImportPreview, useImportExecute } from '../hooks/useImportTransactions';
 import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
-import type { ImportPreviewRow, ImportPreviewResponse } from '@otter-money/shared';
+import type {
+  ImportExecuteResponse,
+  ImportFileFormat,
+  ImportPreviewRow,
+  ImportPreviewResponse,
+} from '@otter-money/shared';
 
 interface ImportWizardModalProps {
   isOpen: boolean;
@@ -13,6 +18,14 @@ interface ImportWizardModalProps {
 
 type Step = 'upload' | 'account' | 'preview' | 'importing' | 'results';
 
+// Format by file extension; .txt could be anything, so the server works it out
+function getFileFormat(fileName: string): ImportFileFormat | undefined {
+  if (/\.(ofx|qfx)$/i.test(fileName)) return 'ofx';
+  if (/\.qif$/i.test(fileName)) return 'qif';
+  if (/\.csv$/i.test(fileName)) return 'csv';
+  return undefined;
+}
+
 export function ImportWizardModal({ isOpen, onClose }: ImportWizardModalProps) {
   const [step, setStep] = useState<Step>('upload');
   const [csvContent, setCsvContent] = useState('');
@@ -22,13 +35,7 @@ export function ImportWizardModal({ isOpen, onClose }: ImportWizardModalProps) {
   const [previewData, setPreviewData] = useState<ImportPreviewResponse | null>(null);
   const [skippedRows, setSkippedRows] = useState<Set<number>>(new Set());
   const [activeTab, setActiveTab] = useState<'create' | 'update' | 'unchanged' | 'skip'>('create');
-  const [importResult, setImportResult] = useState<{
-    created: number;
-    updated: number;
-    skipped: number;
-    rulesApplied: number;
-    skippedDetails: { rowNumber: number; reason: string }[];
-  } | null>(null);
+  const [importResult, setImportResult] = useState<ImportExecuteResponse | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -57,8 +64,8 @@ export function ImportWizardModal({ isOpen, onClose }: ImportWizardModalProps) {
   }, [reset, onClose]);
 
   const handleFile = useCallback((file: File) => {
-    if (!file.name.match(/\.(csv|txt)$/i)) {
-      toast.error('Please select a CSV file');
+    if (!file.name.match(/\.(csv|txt|ofx|qfx|qif)$/i)) {
+      toast.error('Please select a CSV, OFX, QFX or QIF file');
       return;
     }
     if (file.size > 10 * 1024 * 1024) {
@@ -113,6 +120,7 @@ export function ImportWizardModal({ isOpen, onClose }: ImportWizardModalProps) {
       const result = await importPreview.mutateAsync({
         csvContent,
         defaultAccountId: defaultAccountId || null,
+        format: getFileFormat(fileName),
       });
       setPreviewData(result);
 
@@ -130,7 +138,7 @@ export function ImportWizardModal({ isOpen, onClose }: ImportWizardModalProps) {
       toast.error(err.message || 'Failed to preview import');
       setStep('account');
     }
-  }, [csvContent, defaultAccountId, importPreview]);
+  }, [csvContent, fileName, defaultAccountId, importPreview]);
 
   const handleExecute = useCallback(async () => {
     setStep('importing');
@@ -139,6 +147,7 @@ export function ImportWizardModal({ isOpen, onClose }: ImportWizardModalProps) {
         csvContent,
         defaultAccountId: defaultAccountId || null,
         skipRowNumbers: Array.from(skippedRows),
+        format: getFileFormat(fileName),
       });
       setImportResult(result);
       setStep('results');
@@ -147,7 +156,7 @@ export function ImportWizardModal({ isOpen, onClose }: ImportWizardModalProps) {
       toast.error(err.message || 'Import failed');
       setStep('preview');
     }
-  }, [csvContent, defaultAccountId, skippedRows, importExecute]);
+  }, [csvContent, fileName, defaultAccountId, skippedRows, importExecute]);
 
   const toggleRowSkip = useCallback((rowNumber: number) => {
     setSkippedRows((prev) => {
@@ -228,7 +237,7 @@ export function ImportWizardModal({ isOpen, onClose }: ImportWizardModalProps) {
           {step === 'upload' && (
             <div className="space-y-4">
               <p className="text-sm text-gray-600">
-                Upload a CSV file to import transactions. Use the Otter Money export format, or any CSV with Date, Amount, and Description columns.
+                Upload a file to import transactions: a CSV (the Otter Money export format, or any CSV with Date, Amount, and Description columns), or an OFX, QFX or QIF file downloaded from your bank.
               </p>
 
               {/* Drag and drop zone */}
@@ -260,7 +269,7 @@ export function ImportWizardModal({ isOpen, onClose }: ImportWizardModalProps) {
                     <svg className="w-10 h-10 text-gray-400 mb-2" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
                     </svg>
-                    <p className="text-sm font-medium text-gray-700">Drop your CSV file here</p>
+                    <p className="text-sm font-medium text-gray-700">Drop your file here</p>
                     <p className="text-xs text-gray-500 mt-1">or click to browse</p>
                   </>
                 )}
@@ -269,7 +278,7 @@ export function ImportWizardModal({ isOpen, onClose }: ImportWizardModalProps) {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".csv,.txt"
+                accept=".csv,.txt,.ofx,.qfx,.qif"
                 onChange={handleFileInput}
                 className="hidden"
               />
@@ -288,7 +297,9 @@ export function ImportWizardModal({ isOpen, onClose }: ImportWizardModalProps) {
           {step === 'account' && (
             <div className="space-y-4">
               <p className="text-sm text-gray-600">
-                Select a default account for transactions that don't specify one. If your CSV has an "Account" column, matched accounts will be used automatically — rows with unrecognized accounts will be skipped.
+                {getFileFormat(fileName) === 'ofx' || getFileFormat(fileName) === 'qif'
+                  ? 'Select the account this statement belongs to.'
+                  : 'Select a default account for transactions that don\'t specify one. If your CSV has an "Account" column, matched accounts will be used automatically — rows with unrecognized accounts will be skipped.'}
               </p>
 
               <div>
@@ -358,6 +369,38 @@ export function ImportWizardModal({ isOpen, onClose }: ImportWizardModalProps) {
                 </div>
               </div>
 
+              {/* Statement balance */}
+              {previewData.reconciliation && (
+                <div
+                  className={clsx(
+                    'rounded-lg border p-3 text-sm',
+                    previewData.reconciliation.difference === 0
+                      ? 'bg-green-50 border-green-200 text-green-800'
+                      : 'bg-yellow-50 border-yellow-200 text-yellow-900'
+                  )}
+                >
+                  {previewData.reconciliation.difference === 0 ? (
+                    <p>
+                      {previewData.reconciliation.accountName} will match the statement balance of{' '}
+                      {formatAmount(previewData.reconciliation.statementBalance)} on {previewData.reconciliation.asOf}.
+                    </p>
+                  ) : (
+                    <>
+                      <p>
+                        The statement shows {formatAmount(previewData.reconciliation.statementBalance)} on{' '}
+                        {previewData.reconciliation.asOf}, but {previewData.reconciliation.accountName} will be at{' '}
+                        {formatAmount(previewData.reconciliation.expectedBalance)}.
+                      </p>
+                      <p className="text-xs mt-1">
+                        {previewData.reconciliation.willAdjust
+                          ? `A balance adjustment of ${formatAmount(previewData.reconciliation.difference)} will be added.`
+                          : 'The balance of a connected account comes from your bank, so it won\'t be adjusted.'}
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
+
               {/* Tabs */}
               <div className="flex border-b border-gray-200">
                 {(['create', 'update', 'unchanged', 'skip'] as const).map((tab) => {
@@ -462,6 +505,16 @@ export function ImportWizardModal({ isOpen, onClose }: ImportWizardModalProps) {
                 </div>
               </div>
 
+              {!!importResult.balanceAdjustment && (
+                <div className="rounded-lg bg-gray-50 border border-gray-200 p-3 text-center">
+                  <p className="text-sm text-gray-700">
+                    Added a balance adjustment of{' '}
+                    <span className="font-semibold">{formatAmount(importResult.balanceAdjustment)}</span> to match the
+                    statement
+                  </p>
+                </div>
+              )}
+
               {importResult.rulesApplied > 0 && (
                 <div className="rounded-lg bg-purple-50 border border-purple-200 p-3 text-center">
                   <p className="text-sm text-purple-700">
@@ -553,6 +606,12 @@ function PreviewRowItem({
                 <span>{row.parsed.category}</span>
               </>
             )}
+            {row.parsed.tags && (
+              <>
+                <span>&middot;</span>
+                <span className="truncate">{row.parsed.tags.map((tag) => `#${tag}`).join(' ')}</span>
+              </>
+            )}
           </div>
           {isSkipped && row.skipReason && (
             <p className="text-xs text-orange-600 mt-1">{row.skipReason}</p>
@@ -1,6 +1,9 @@
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useState } from 'react';
 import { Outlet, NavLink, useLocation } from 'react-router-dom';
 import { clsx } from 'clsx';
+import { toast } from 'sonner';
+import { useAuthStore } from '../stores/auth';
+import { api } from '../utils/api';
 
 const navItems = [
   { to: '/', label: 'Home', icon: HomeIcon },
@@ -10,6 +13,38 @@ const navItems = [
   { to: '/settings', label: 'Settings', icon: SettingsIcon },
 ];
 
+function VerifyEmailBanner() {
+  const user = useAuthStore((state) => state.user);
+  const [isSending, setIsSending] = useState(false);
+
+  if (!user || user.emailVerified !== false) return null;
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      await api.post('/auth/resend-verification');
+      toast.success(`Verification email sent to ${user.email}`);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to send email');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="mx-4 mt-4 flex items-center justify-between gap-3 rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm">
+      <p className="text-yellow-800">Please verify your email address.</p>
+      <button
+        onClick={handleResend}
+        disabled={isSending}
+        className="shrink-0 font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+      >
+        {isSending ? 'Sending...' : 'Resend email'}
+      </button>
+    </div>
+  );
+}
+
 export default function Layout() {
   const location = useLocation();
   const scrollPositions = useRef<Map<string, number>>(new Map());
@@ -99,6 +134,7 @@ export default function Layout() {
       <div className="flex min-w-0 flex-1 flex-col overflow-x-hidden md:ml-[72px] md:mr-[72px]">
         <main className="flex-1 pb-20 md:pb-6">
           <div className="md:mx-auto md:max-w-2xl lg:max-w-3xl">
+            <VerifyEmailBanner />
             <Outlet />
           </div>
         </main>
@@ -0,0 +1,404 @@
+import { Plus, X } from 'lucide-react';
+import { MAX_RULE_GROUP_DEPTH } from '@otter-money/shared';
+import type { RuleConditionField, RuleConditions } from '@otter-money/shared';
+import { CategoryPicker } from './CategoryPicker';
+
+type ConditionKind = 'text' | 'regex' | 'amount' | 'date' | 'daysOfMonth' | 'daysOfWeek' | 'category' | 'flag';
+
+interface ConditionOption {
+  field: RuleConditionField;
+  label: string;
+  kind: ConditionKind;
+  placeholder?: string;
+  hint?: string;
+}
+
+const CONDITION_OPTIONS: ConditionOption[] = [
+  { field: 'merchantContains', label: 'Merchant contains', kind: 'text', placeholder: 'e.g., Starbucks' },
+  { field: 'merchantExactly', label: 'Merchant is exactly', kind: 'text', placeholder: 'e.g., Starbucks' },
+  {
+    field: 'merchantMatchesRegex',
+    label: 'Merchant matches pattern',
+    kind: 'regex',
+    placeholder: 'e.g., ^(uber|lyft)\\b',
+    hint: 'Case-insensitive regular expression',
+  },
+  { field: 'descriptionContains', label: 'Description contains', kind: 'text', placeholder: 'e.g., subscription' },
+  { field: 'descriptionExactly', label: 'Description is exactly', kind: 'text', placeholder: 'e.g., Netflix Subscription' },
+  { field: 'descriptionStartsWith', label: 'Description starts with', kind: 'text', placeholder: 'e.g., ACH' },
+  { field: 'descriptionEndsWith', label: 'Description ends with', kind: 'text', placeholder: 'e.g., PAYROLL' },
+  { field: 'amountExactly', label: 'Amount is exactly', kind: 'amount', placeholder: 'e.g., 4.99' },
+  { field: 'amountMin', label: 'Amount at least', kind: 'amount', placeholder: 'e.g., 10' },
+  { field: 'amountMax', label: 'Amount at most', kind: 'amount', placeholder: 'e.g., 100' },
+  { field: 'dateFrom', label: 'On or after', kind: 'date' },
+  { field: 'dateTo', label: 'On or before', kind: 'date' },
+  { field: 'daysOfMonth', label: 'Day of month', kind: 'daysOfMonth' },
+  { field: 'daysOfWeek', label: 'Day of week', kind: 'daysOfWeek' },
+  { field: 'categoryIs', label: 'Currently in category', kind: 'category' },
+  { field: 'isUncategorized', label: 'Is uncategorized', kind: 'flag' },
+];
+
+// Conditions the editor shows but can't build (set through the API)
+const READ_ONLY_LABELS: Partial<Record<RuleConditionField, (conditions: RuleConditions) => string>> = {
+  accountIds: (c) => `Specific accounts (${c.accountIds?.length ?? 0})`,
+  accountTypes: (c) => `Account types: ${c.accountTypes?.join(', ')}`,
+  ownerIds: (c) => `Specific partners (${c.ownerIds?.length ?? 0})`,
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAYS_OF_MONTH = Array.from({ length: 31 }, (_, i) => i + 1);
+
+const EMPTY_VALUES: Record<ConditionKind, unknown> = {
+  text: '',
+  regex: '',
+  amount: undefined,
+  date: '',
+  daysOfMonth: [],
+  daysOfWeek: [],
+  category: undefined,
+  flag: true,
+};
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+// A condition that has been added but not filled in yet stays on the group
+// (with an empty value) so its row remains on screen until removed.
+function hasField(conditions: RuleConditions, field: RuleConditionField) {
+  return Object.prototype.hasOwnProperty.call(conditions, field);
+}
+
+function isEmptyValue(value: unknown) {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (typeof value === 'number' && Number.isNaN(value)) ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function regexError(pattern: string): string | null {
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch {
+    return 'Not a valid regular expression';
+  }
+}
+
+/**
+ * Drop conditions that were added but left empty, and groups left with
+ * nothing in them, so the result can be sent to the API.
+ */
+export function pruneConditions(conditions: RuleConditions): RuleConditions {
+  const pruned: RuleConditions = { operator: conditions.operator || 'AND' };
+
+  for (const [field, value] of Object.entries(conditions)) {
+    if (field === 'operator' || field === 'negate' || field === 'groups') continue;
+    if (!isEmptyValue(value)) Object.assign(pruned, { [field]: value });
+  }
+
+  const negate = (conditions.negate ?? []).filter((field) => hasField(pruned, field));
+  if (negate.length > 0) pruned.negate = negate;
+
+  const groups = (conditions.groups ?? []).map(pruneConditions).filter(hasAnyCondition);
+  if (groups.length > 0) pruned.groups = groups;
+
+  return pruned;
+}
+
+export function hasAnyCondition(conditions: RuleConditions): boolean {
+  return (
+    Object.keys(conditions).some(
+      (field) => !['operator', 'negate', 'groups'].includes(field) && !isEmptyValue(conditions[field as RuleConditionField])
+    ) || (conditions.groups ?? []).some(hasAnyCondition)
+  );
+}
+
+// Problems the API would reject, checked before sending
+export function validateConditions(conditions: RuleConditions): string | null {
+  if (conditions.merchantMatchesRegex) {
+    const error = regexError(conditions.merchantMatchesRegex);
+    if (error) return `Merchant pattern: ${error}`;
+  }
+  if (conditions.dateFrom && conditions.dateTo && conditions.dateFrom > conditions.dateTo) {
+    return 'The start date must be on or before the end date';
+  }
+  for (const group of conditions.groups ?? []) {
+    const error = validateConditions(group);
+    if (error) return error;
+  }
+  return null;
+}
+
+function toggleNumber(values: number[] | undefined, value: number) {
+  const current = values ?? [];
+  return current.includes(value)
+    ? current.filter((v) => v !== value)
+    : [...current, value].sort((a, b) => a - b);
+}
+
+function ConditionInput({
+  option,
+  value,
+  onChange,
+}: {
+  option: ConditionOption;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}) {
+  switch (option.kind) {
+    case 'text':
+    case 'regex': {
+      const error = option.kind === 'regex' && value ? regexError(value as string) : null;
+      return (
+        <>
+          <input
+            type="text"
+            value={(value as string) ?? ''}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={option.placeholder}
+            className={option.kind === 'regex' ? `${inputClassName} font-mono` : inputClassName}
+          />
+          {error ? (
+            <p className="text-xs text-red-600 mt-1">{error}</p>
+          ) : (
+            <p className="text-xs text-gray-500 mt-1">{option.hint ?? 'Case-insensitive'}</p>
+          )}
+        </>
+      );
+    }
+    case 'amount':
+      return (
+        <input
+          type="number"
+          step="0.01"
+          value={value === undefined ? '' : (value as number)}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+          placeholder={option.placeholder}
+          className={inputClassName}
+        />
+      );
+    case 'date':
+      return (
+        <input
+          type="date"
+          value={(value as string) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          className={inputClassName}
+        />
+      );
+    case 'daysOfMonth':
+      return (
+        <div className="grid grid-cols-7 gap-1">
+          {DAYS_OF_MONTH.map((day) => (
+            <DayButton
+              key={day}
+              label={String(day)}
+              selected={((value as number[]) ?? []).includes(day)}
+              onClick={() => onChange(toggleNumber(value as number[], day))}
+            />
+          ))}
+        </div>
+      );
+    case 'daysOfWeek':
+      return (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAYS.map((name, day) => (
+            <DayButton
+              key={name}
+              label={name}
+              selected={((value as number[]) ?? []).includes(day)}
+              onClick={() => onChange(toggleNumber(value as number[], day))}
+            />
+          ))}
+        </div>
+      );
+    case 'category':
+      return (
+        <CategoryPicker
+          value={(value as string) ?? null}
+          onChange={(categoryId) => onChange(categoryId ?? undefined)}
+          allowUncategorized={false}
+          placeholder="Select a category..."
+        />
+      );
+    case 'flag':
+      return null;
+  }
+}
+
+function DayButton({ label, selected, onClick }: { label: string; selected: boolean; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`px-2 py-1 rounded text-sm border transition-colors ${
+        selected
+          ? 'bg-purple-600 border-purple-600 text-white'
+          : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
+
+interface RuleConditionsEditorProps {
+  value: RuleConditions;
+  onChange: (conditions: RuleConditions) => void;
+  onRemove?: () => void;
+  depth?: number;
+}
+
+// One condition group: its conditions, its operator and any nested groups
+export function RuleConditionsEditor({ value, onChange, onRemove, depth = 1 }: RuleConditionsEditorProps) {
+  const negated = value.negate ?? [];
+  const groups = value.groups ?? [];
+  const activeOptions = CONDITION_OPTIONS.filter((option) => hasField(value, option.field));
+  const availableOptions = CONDITION_OPTIONS.filter((option) => !hasField(value, option.field));
+  const readOnlyFields = (Object.keys(READ_ONLY_LABELS) as RuleConditionField[]).filter(
+    (field) => !isEmptyValue(value[field])
+  );
+
+  const setField = (field: RuleConditionField, fieldValue: unknown) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
+  const addField = (field: RuleConditionField) => {
+    const option = CONDITION_OPTIONS.find((o) => o.field === field);
+    if (option) setField(field, EMPTY_VALUES[option.kind]);
+  };
+
+  const removeField = (field: RuleConditionField) => {
+    const next = { ...value, negate: negated.filter((f) => f !== field) };
+    delete next[field];
+    onChange(next);
+  };
+
+  const toggleNegate = (field: RuleConditionField) => {
+    onChange({
+      ...value,
+      negate: negated.includes(field) ? negated.filter((f) => f !== field) : [...negated, field],
+    });
+  };
+
+  const setGroups = (nextGroups: RuleConditions[]) => {
+    onChange({ ...value, groups: nextGroups });
+  };
+
+  return (
+    <div className={depth > 1 ? 'border-l-2 border-purple-200 pl-3 py-1' : ''}>
+      <div className="flex items-center gap-2 mb-3">
+        <select
+          value={value.operator || 'AND'}
+          onChange={(e) => onChange({ ...value, operator: e.target.value as 'AND' | 'OR' })}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        >
+          <option value="AND">All of these match (AND)</option>
+          <option value="OR">Any of these match (OR)</option>
+        </select>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="ml-auto text-xs text-red-600 hover:text-red-700 font-medium"
+          >
+            Remove group
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {activeOptions.map((option) => (
+          <div key={option.field}>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">{option.label}</label>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-1 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={negated.includes(option.field)}
+                    onChange={() => toggleNegate(option.field)}
+                    className="h-3.5 w-3.5 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                  />
+                  Not
+                </label>
+                <button
+                  type="button"
+                  onClick={() => removeField(option.field)}
+                  className="text-gray-400 hover:text-gray-600"
+                  aria-label={`Remove ${option.label.toLowerCase()}`}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+            <ConditionInput
+              option={option}
+              value={value[option.field]}
+              onChange={(fieldValue) => setField(option.field, fieldValue)}
+            />
+          </div>
+        ))}
+
+        {readOnlyFields.map((field) => (
+          <div key={field} className="flex items-center justify-between text-sm text-gray-700">
+            <span>
+              {negated.includes(field) && 'Not '}
+              {READ_ONLY_LABELS[field]!(value)}
+            </span>
+            <button
+              type="button"
+              onClick={() => removeField(field)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Remove condition"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+
+        {groups.map((group, index) => (
+          <RuleConditionsEditor
+            key={index}
+            value={group}
+            onChange={(next) => setGroups(groups.map((g, i) => (i === index ? next : g)))}
+            onRemove={() => setGroups(groups.filter((_, i) => i !== index))}
+            depth={depth + 1}
+          />
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 mt-3">
+        {availableOptions.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => addField(e.target.value as RuleConditionField)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            aria-label="Add condition"
+          >
+            <option value="">+ Add condition</option>
+            {availableOptions.map((option) => (
+              <option key={option.field} value={option.field}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        )}
+        {depth < MAX_RULE_GROUP_DEPTH && (
+          <button
+            type="button"
+            onClick={() => setGroups([...groups, { operator: value.operator === 'OR' ? 'AND' : 'OR' }])}
+            className="flex items-center gap-1 text-sm text-purple-600 hover:text-purple-700 font-medium"
+          >
+            <Plus className="h-4 w-4" />
+            Add group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import { useEffect, useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { toast } from 'sonner';
+import { useApplyRulesToTransactions, useRuleDryRun } from '../hooks/useRules';
+import { CategoryIcon } from './CategoryIcon';
+import type { Category, RuleDryRunChange } from '@otter-money/shared';
+
+// Most changes listed (and applicable) from one preview
+const DRY_RUN_LIMIT = 500;
+
+interface RuleDryRunModalProps {
+  ruleLabel: (ruleId: string) => string;
+  onClose: () => void;
+}
+
+// Other changes rules would make, besides the category
+const CHANGE_LABELS: Record<string, (to: unknown) => string> = {
+  merchantName: (to) => `Rename to "${to}"`,
+  notes: () => 'Add note',
+  transferStatus: () => 'Mark as transfer',
+  excludeFromBudget: () => 'Hide from budgets',
+  attributedToId: () => 'Attribute to partner',
+  recurringTransactionId: () => 'Link to recurring bill',
+};
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+}
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function CategoryBadge({ category }: { category: Pick<Category, 'name' | 'icon' | 'color'> | null }) {
+  if (!category) return <span className="text-gray-400">Uncategorized</span>;
+  return (
+    <span className="inline-flex items-center gap-1" style={{ color: category.color || '#6b7280' }}>
+      <CategoryIcon icon={category.icon} size={12} />
+      {category.name}
+    </span>
+  );
+}
+
+function ChangeRow({
+  change,
+  selected,
+  onToggle,
+  ruleLabel,
+}: {
+  change: RuleDryRunChange;
+  selected: boolean;
+  onToggle: () => void;
+  ruleLabel: string;
+}) {
+  const categoryChanged = change.changes.categoryId !== undefined;
+  const otherChanges = Object.entries(change.changes)
+    .filter(([field]) => field !== 'categoryId' && CHANGE_LABELS[field])
+    .map(([field, { to }]) => CHANGE_LABELS[field](to));
+
+  return (
+    <li className="flex items-start gap-3 py-2">
+      <input type="checkbox" checked={selected} onChange={onToggle} className="mt-1" />
+      <div className="flex-1 min-w-0">
+        <div className="flex justify-between gap-2 text-sm">
+          <span className="truncate text-gray-900">{change.merchantName || change.description}</span>
+          <span className="shrink-0 text-gray-700">{formatCurrency(change.amount)}</span>
+        </div>
+        <p className="text-xs text-gray-500">
+          {formatDate(change.date)} · {change.accountName}
+        </p>
+        {categoryChanged && (
+          <p className="flex flex-wrap items-center gap-1 text-sm mt-1">
+            <span className="line-through decoration-gray-400">
+              <CategoryBadge category={change.currentCategory} />
+            </span>
+            <ArrowRight className="h-3 w-3 text-gray-400" />
+            <CategoryBadge category={change.newCategory} />
+          </p>
+        )}
+        {otherChanges.length > 0 && <p className="text-xs text-gray-600 mt-0.5">{otherChanges.join(', ')}</p>}
+        <p className="text-xs text-gray-400 mt-0.5">
+          Rule: {ruleLabel}
+          {change.matchedRuleIds.length > 1 && ` (+${change.matchedRuleIds.length - 1} more matched)`}
+        </p>
+      </div>
+    </li>
+  );
+}
+
+// Preview what running every enabled rule over existing transactions would change, and apply chosen changes
+export default function RuleDryRunModal({ ruleLabel, onClose }: RuleDryRunModalProps) {
+  const dryRun = useRuleDryRun();
+  const applyRules = useApplyRulesToTransactions();
+
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [uncategorizedOnly, setUncategorizedOnly] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const result = dryRun.data;
+
+  const runPreview = async () => {
+    try {
+      const data = await dryRun.mutateAsync({
+        startDate: startDate || undefined,
+        endDate: endDate || undefined,
+        uncategorizedOnly,
+        limit: DRY_RUN_LIMIT,
+      });
+      setSelectedIds(new Set(data.changes.map((change) => change.transactionId)));
+    } catch (err: any) {
+      console.error('Failed to preview rules:', err);
+      toast.error(err.message || 'Failed to preview rules. Please try again.');
+    }
+  };
+
+  // Preview straight away when opened
+  useEffect(() => {
+    runPreview();
+  }, []);
+
+  const toggleSelected = (transactionId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(transactionId)) {
+      next.delete(transactionId);
+    } else {
+      next.add(transactionId);
+    }
+    setSelectedIds(next);
+  };
+
+  const allSelected = !!result && result.changes.length > 0 && selectedIds.size === result.changes.length;
+
+  const handleApply = async () => {
+    try {
+      const data = await applyRules.mutateAsync([...selectedIds]);
+      toast.success(data.message);
+      onClose();
+    } catch (err: any) {
+      console.error('Failed to apply rules:', err);
+      toast.error(err.message || 'Failed to apply rules. Please try again.');
+    }
+  };
+
+  const conflicts = result?.overlaps.filter((overlap) => overlap.conflicting) ?? [];
+  const otherOverlapCount = (result?.overlaps.length ?? 0) - conflicts.length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-2xl font-bold text-gray-900 mb-1">Preview Rules</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            See what your enabled rules would change on existing transactions before applying them.
+          </p>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="text-sm text-gray-700">
+              From
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="input mt-1 block"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              To
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="input mt-1 block"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={uncategorizedOnly}
+                onChange={(e) => setUncategorizedOnly(e.target.checked)}
+              />
+              Uncategorized only
+            </label>
+            <button
+              type="button"
+              onClick={runPreview}
+              disabled={dryRun.isPending}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              {dryRun.isPending ? 'Checking...' : 'Refresh'}
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          {dryRun.isPending && !result ? (
+            <div className="animate-pulse space-y-2">
+              <div className="h-10 bg-gray-200 rounded" />
+              <div className="h-10 bg-gray-200 rounded" />
+              <div className="h-10 bg-gray-200 rounded" />
+            </div>
+          ) : result ? (
+            <>
+              {(result.shadowedRules.length > 0 || conflicts.length > 0) && (
+                <div className="mb-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3 space-y-1 text-sm text-yellow-900">
+                  {result.shadowedRules.map((shadowed) => (
+                    <p key={shadowed.ruleId}>
+                      <span className="font-medium">{ruleLabel(shadowed.ruleId)}</span> never applies:{' '}
+                      {shadowed.shadowedBy.map(ruleLabel).join(', ')} always match
+                      {shadowed.shadowedBy.length === 1 ? 'es' : ''} first
+                    </p>
+                  ))}
+                  {conflicts.map((overlap) => (
+                    <p key={overlap.ruleIds.join(':')}>
+                      <span className="font-medium">{ruleLabel(overlap.ruleIds[0])}</span> and{' '}
+                      <span className="font-medium">{ruleLabel(overlap.ruleIds[1])}</span> both match{' '}
+                      {overlap.count} transaction{overlap.count === 1 ? '' : 's'} with different categories; the first wins
+                    </p>
+                  ))}
+                </div>
+              )}
+              {otherOverlapCount > 0 && (
+                <p className="mb-4 text-xs text-gray-500">
+                  {otherOverlapCount} other pair{otherOverlapCount === 1 ? '' : 's'} of rules match the same
+                  transactions without conflicting.
+                </p>
+              )}
+
+              {result.changes.length === 0 ? (
+                <p className="py-4 text-center text-sm text-gray-500">
+                  Rules wouldn't change any of the {result.scannedCount} transactions checked
+                </p>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm text-gray-700">
+                      {result.totalChanges} of {result.scannedCount} transactions would change
+                      {result.totalChanges > result.changes.length && ` (showing the newest ${result.changes.length})`}
+                    </p>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setSelectedIds(
+                          allSelected ? new Set() : new Set(result.changes.map((change) => change.transactionId))
+                        )
+                      }
+                      className="text-xs text-purple-600 hover:text-purple-700 font-medium"
+                    >
+                      {allSelected ? 'Select none' : 'Select all'}
+                    </button>
+                  </div>
+                  <ul className="divide-y divide-gray-100">
+                    {result.changes.map((change) => (
+                      <ChangeRow
+                        key={change.transactionId}
+                        change={change}
+                        selected={selectedIds.has(change.transactionId)}
+                        onToggle={() => toggleSelected(change.transactionId)}
+                        ruleLabel={ruleLabel(change.winningRuleId)}
+                      />
+                    ))}
+                  </ul>
+                </>
+              )}
+            </>
+          ) : null}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={selectedIds.size === 0 || applyRules.isPending}
+            className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+          >
+            {applyRules.isPending ? 'Applying...' : `Apply ${selectedIds.size} Selected`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
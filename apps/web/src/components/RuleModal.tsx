@@ -1,7 +1,15 @@
 import { useState } from 'react';
 import { useCreateRule, useUpdateRule, useTestRule } from '../hooks/useRules';
+import { useHouseholdMembers } from '../hooks/useHousehold';
+import { useRecurringTransactions } from '../hooks/useRecurring';
 import { CategoryPicker } from './CategoryPicker';
-import type { CategorizationRuleWithCategory, RuleConditions } from '@otter-money/shared';
+import {
+  RuleConditionsEditor,
+  hasAnyCondition,
+  pruneConditions,
+  validateConditions,
+} from './RuleConditionsEditor';
+import type { CategorizationRuleWithCategory, RuleActions, RuleConditions } from '@otter-money/shared';
 
 interface RuleModalProps {
   rule: CategorizationRuleWithCategory | null;
@@ -13,61 +21,57 @@ export default function RuleModal({ rule, prefillData, onClose }: RuleModalProps
   const createRule = useCreateRule();
   const updateRule = useUpdateRule();
   const testRule = useTestRule();
+  const { data: members } = useHouseholdMembers();
+  const { data: recurring } = useRecurringTransactions({ status: 'CONFIRMED' });
 
   const [categoryId, setCategoryId] = useState<string | null>(rule?.categoryId || prefillData?.categoryId || null);
   const [priority, setPriority] = useState(rule?.priority || 0);
   const [isEnabled, setIsEnabled] = useState(rule?.isEnabled ?? true);
 
-  // Conditions
-  const [merchantContains, setMerchantContains] = useState(rule?.conditions.merchantContains || prefillData?.merchant || '');
-  const [descriptionContains, setDescriptionContains] = useState(rule?.conditions.descriptionContains || '');
-  const [merchantExactly, setMerchantExactly] = useState(rule?.conditions.merchantExactly || '');
-  const [descriptionExactly, setDescriptionExactly] = useState(rule?.conditions.descriptionExactly || '');
-  const [amountMin, setAmountMin] = useState(rule?.conditions.amountMin?.toString() || '');
-  const [amountMax, setAmountMax] = useState(rule?.conditions.amountMax?.toString() || '');
-  const [amountExactly, setAmountExactly] = useState(rule?.conditions.amountExactly?.toString() || '');
-  const [operator, setOperator] = useState<'AND' | 'OR'>(rule?.conditions.operator || 'AND');
+  // Conditions, starting new rules with a merchant condition
+  const [conditions, setConditions] = useState<RuleConditions>(
+    rule?.conditions || { operator: 'AND', merchantContains: prefillData?.merchant || '' }
+  );
+
+  // Actions besides setting the category
+  const [actions, setActions] = useState<RuleActions>(rule?.actions || {});
 
   const [testResult, setTestResult] = useState<{ matchCount: number } | null>(null);
   const [error, setError] = useState('');
 
-  const buildConditions = (): RuleConditions => {
-    const conditions: RuleConditions = { operator };
-
-    if (merchantContains) conditions.merchantContains = merchantContains;
-    if (descriptionContains) conditions.descriptionContains = descriptionContains;
-    if (merchantExactly) conditions.merchantExactly = merchantExactly;
-    if (descriptionExactly) conditions.descriptionExactly = descriptionExactly;
+  const buildConditions = (): RuleConditions => pruneConditions(conditions);
 
-    if (amountExactly) {
-      conditions.amountExactly = parseFloat(amountExactly);
-    } else {
-      if (amountMin) conditions.amountMin = parseFloat(amountMin);
-      if (amountMax) conditions.amountMax = parseFloat(amountMax);
-    }
-
-    return conditions;
-  };
+  const hasConditions = () => hasAnyCondition(conditions);
 
-  const hasConditions = () => {
-    return (
-      merchantContains ||
-      descriptionContains ||
-      merchantExactly ||
-      descriptionExactly ||
-      amountMin ||
-      amountMax ||
-      amountExactly
-    );
+  // Drop actions left empty or switched off
+  const buildActions = (): RuleActions => {
+    const built: RuleActions = {};
+    if (actions.renameMerchant?.trim()) built.renameMerchant = actions.renameMerchant.trim();
+    if (actions.appendNote?.trim()) built.appendNote = actions.appendNote.trim();
+    if (actions.markAsTransfer) built.markAsTransfer = true;
+    if (actions.excludeFromBudget) built.excludeFromBudget = true;
+    if (actions.recurringTransactionId) built.recurringTransactionId = actions.recurringTransactionId;
+    if (actions.attributedToId) built.attributedToId = actions.attributedToId;
+    return built;
   };
 
-  const handleTest = async () => {
+  const checkConditions = (): boolean => {
     if (!hasConditions()) {
       setError('Please add at least one condition');
-      return;
+      return false;
+    }
+    const problem = validateConditions(conditions);
+    if (problem) {
+      setError(problem);
+      return false;
     }
+    return true;
+  };
 
+  const handleTest = async () => {
     setError('');
+    if (!checkConditions()) return;
+
     try {
       const result = await testRule.mutateAsync({
         conditions: buildConditions(),
@@ -83,28 +87,27 @@ export default function RuleModal({ rule, prefillData, onClose }: RuleModalProps
     e.preventDefault();
     setError('');
 
-    if (!categoryId) {
-      setError('Please select a category');
+    const ruleActions = buildActions();
+    if (!categoryId && Object.keys(ruleActions).length === 0) {
+      setError('Please select a category or at least one action');
       return;
     }
 
-    if (!hasConditions()) {
-      setError('Please add at least one condition');
-      return;
-    }
+    if (!checkConditions()) return;
 
     try {
-      const conditions = buildConditions();
+      const ruleConditions = buildConditions();
 
       if (rule) {
         await updateRule.mutateAsync({
           ruleId: rule.id,
-          updates: { categoryId, conditions, priority, isEnabled },
+          updates: { categoryId, conditions: ruleConditions, actions: ruleActions, priority, isEnabled },
         });
       } else {
         await createRule.mutateAsync({
           categoryId,
-          conditions,
+          conditions: ruleConditions,
+          actions: ruleActions,
           priority,
           isEnabled,
         });
@@ -126,14 +129,126 @@ export default function RuleModal({ rule, prefillData, onClose }: RuleModalProps
 
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* Category Selection */}
-            <CategoryPicker
-              value={categoryId}
-              onChange={setCategoryId}
-              categoryType="EXPENSE"
-              label="Category"
-              allowUncategorized={false}
-              placeholder="Select a category..."
-            />
+            <div>
+              <CategoryPicker
+                value={categoryId}
+                onChange={setCategoryId}
+                categoryType="EXPENSE"
+                label="Category"
+                allowUncategorized={false}
+                placeholder="Don't change the category"
+              />
+              {categoryId && (
+                <button
+                  type="button"
+                  onClick={() => setCategoryId(null)}
+                  className="text-xs text-purple-600 hover:text-purple-700 mt-1"
+                >
+                  Don't change the category
+                </button>
+              )}
+            </div>
+
+            {/* Other Actions */}
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-1">Also</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                When several rules match, each action comes from the highest-priority rule that
+                sets it. Notes from every matching rule are added.
+              </p>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Rename Merchant To
+                  </label>
+                  <input
+                    type="text"
+                    value={actions.renameMerchant || ''}
+                    onChange={(e) => setActions({ ...actions, renameMerchant: e.target.value })}
+                    placeholder="e.g., Amazon"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Add Note</label>
+                  <input
+                    type="text"
+                    value={actions.appendNote || ''}
+                    onChange={(e) => setActions({ ...actions, appendNote: e.target.value })}
+                    placeholder="e.g., Reimbursable"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Attribute To
+                  </label>
+                  <select
+                    value={actions.attributedToId || ''}
+                    onChange={(e) =>
+                      setActions({ ...actions, attributedToId: e.target.value || undefined })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  >
+                    <option value="">Account owner (no change)</option>
+                    {members?.map((member) => (
+                      <option key={member.id} value={member.id}>
+                        {member.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Link To Recurring Bill
+                  </label>
+                  <select
+                    value={actions.recurringTransactionId || ''}
+                    onChange={(e) =>
+                      setActions({ ...actions, recurringTransactionId: e.target.value || undefined })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  >
+                    <option value="">None</option>
+                    {recurring?.map((bill) => (
+                      <option key={bill.id} value={bill.id}>
+                        {bill.merchantName}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="markAsTransfer"
+                    checked={!!actions.markAsTransfer}
+                    onChange={(e) => setActions({ ...actions, markAsTransfer: e.target.checked })}
+                    className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="markAsTransfer" className="ml-2 text-sm font-medium text-gray-700">
+                    Mark as a transfer (not spending or income)
+                  </label>
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="excludeFromBudget"
+                    checked={!!actions.excludeFromBudget}
+                    onChange={(e) => setActions({ ...actions, excludeFromBudget: e.target.checked })}
+                    className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="excludeFromBudget" className="ml-2 text-sm font-medium text-gray-700">
+                    Hide from budgets
+                  </label>
+                </div>
+              </div>
+            </div>
 
             {/* Priority */}
             <div>
@@ -171,135 +286,13 @@ export default function RuleModal({ rule, prefillData, onClose }: RuleModalProps
 
             {/* Conditions */}
             <div>
-              <h3 className="font-semibold text-gray-900 mb-3">Conditions</h3>
+              <h3 className="font-semibold text-gray-900 mb-1">Conditions</h3>
               <p className="text-sm text-gray-600 mb-4">
-                Add at least one condition. Multiple conditions are combined with {operator}.
+                Add at least one condition. Use groups to mix AND and OR, e.g. (merchant contains
+                AMAZON and amount at most 20) or description contains KINDLE.
               </p>
 
-              {/* Operator */}
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Condition Operator
-                </label>
-                <select
-                  value={operator}
-                  onChange={(e) => setOperator(e.target.value as 'AND' | 'OR')}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                >
-                  <option value="AND">AND (all must match)</option>
-                  <option value="OR">OR (any can match)</option>
-                </select>
-              </div>
-
-              {/* Merchant Contains */}
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Merchant Contains
-                </label>
-                <input
-                  type="text"
-                  value={merchantContains}
-                  onChange={(e) => setMerchantContains(e.target.value)}
-                  placeholder="e.g., Starbucks"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                />
-                <p className="text-xs text-gray-500 mt-1">Case-insensitive substring match</p>
-              </div>
-
-              {/* Merchant Exactly */}
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Merchant Exactly
-                </label>
-                <input
-                  type="text"
-                  value={merchantExactly}
-                  onChange={(e) => setMerchantExactly(e.target.value)}
-                  placeholder="e.g., Starbucks"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                />
-                <p className="text-xs text-gray-500 mt-1">Case-insensitive exact match</p>
-              </div>
-
-              {/* Description Contains */}
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Description Contains
-                </label>
-                <input
-                  type="text"
-                  value={descriptionContains}
-                  onChange={(e) => setDescriptionContains(e.target.value)}
-                  placeholder="e.g., subscription"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                />
-                <p className="text-xs text-gray-500 mt-1">Case-insensitive substring match</p>
-              </div>
-
-              {/* Description Exactly */}
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Description Exactly
-                </label>
-                <input
-                  type="text"
-                  value={descriptionExactly}
-                  onChange={(e) => setDescriptionExactly(e.target.value)}
-                  placeholder="e.g., Netflix Subscription"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                />
-                <p className="text-xs text-gray-500 mt-1">Case-insensitive exact match</p>
-              </div>
-
-              {/* Amount Exactly */}
-              <div className="mb-4">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Amount Exactly
-                </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={amountExactly}
-                  onChange={(e) => setAmountExactly(e.target.value)}
-                  placeholder="e.g., 4.99"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                />
-              </div>
-
-              {/* Amount Range */}
-              <div className="grid grid-cols-2 gap-4 mb-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Amount Min
-                  </label>
-                  <input
-                    type="number"
-                    step="0.01"
-                    value={amountMin}
-                    onChange={(e) => setAmountMin(e.target.value)}
-                    placeholder="e.g., 10"
-                    disabled={!!amountExactly}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:bg-gray-100"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Amount Max
-                  </label>
-                  <input
-                    type="number"
-                    step="0.01"
-                    value={amountMax}
-                    onChange={(e) => setAmountMax(e.target.value)}
-                    placeholder="e.g., 100"
-                    disabled={!!amountExactly}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:bg-gray-100"
-                  />
-                </div>
-              </div>
-              <p className="text-xs text-gray-500 -mt-2 mb-4">
-                Uses absolute dollar amounts (e.g., min 10 max 100 matches $10–$100)
-              </p>
+              <RuleConditionsEditor value={conditions} onChange={setConditions} />
             </div>
 
             {/* Test Button */}
@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import type { AccountWithOwner, AccountType } from '@otter-money/shared';
+import { useHouseholdMembers } from '../hooks/useHousehold';
+import {
+  useConnectSimplefin,
+  useMapSimplefinAccounts,
+  useSimplefinAccounts,
+  type SimplefinAccountMapping,
+  type SimplefinBridgeAccount,
+} from '../hooks/useSimplefin';
+import { accountTypeLabels } from './AccountIcon';
+import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
+
+interface SimplefinSetupModalProps {
+  // Skip the token step when a connection already exists (linking more accounts)
+  isConnected: boolean;
+  accounts: AccountWithOwner[];
+  onClose: () => void;
+}
+
+const accountTypes: AccountType[] = [
+  'CHECKING',
+  'SAVINGS',
+  'CREDIT',
+  'INVESTMENT',
+  'LOAN',
+  'MORTGAGE',
+  'ASSET',
+  'OTHER',
+];
+
+// Per bridge account choice: skip it, create a new account, or link a manual one
+interface MappingDraft {
+  target: 'skip' | 'new' | string;
+  type: AccountType;
+  ownerId: string | null;
+}
+
+export function SimplefinSetupModal({ isConnected, accounts, onClose }: SimplefinSetupModalProps) {
+  const [setupToken, setSetupToken] = useState('');
+  const [drafts, setDrafts] = useState<Record<string, MappingDraft>>({});
+
+  const connect = useConnectSimplefin();
+  const mapAccounts = useMapSimplefinAccounts();
+  const { data: members } = useHouseholdMembers();
+  const { data: bridge, isLoading: bridgeLoading } = useSimplefinAccounts(isConnected);
+
+  useBodyScrollLock(true);
+
+  const unlinked = (bridge?.accounts || []).filter((a) => !a.linkedAccountId);
+  const manualAccounts = accounts.filter((a) => a.connectionType === 'MANUAL');
+
+  // Unlinked bridge accounts default to a new account of the guessed type
+  const getDraft = (account: SimplefinBridgeAccount): MappingDraft =>
+    drafts[account.id] ?? { target: 'new', type: account.suggestedType, ownerId: null };
+
+  const updateDraft = (account: SimplefinBridgeAccount, changes: Partial<MappingDraft>) => {
+    setDrafts((prev) => ({ ...prev, [account.id]: { ...getDraft(account), ...changes } }));
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount);
+  };
+
+  const handleConnect = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await connect.mutateAsync(setupToken.trim());
+      setSetupToken('');
+    } catch (err) {
+      toast.error((err as Error).message || 'Failed to connect SimpleFin');
+    }
+  };
+
+  const handleMap = async () => {
+    const mappings: SimplefinAccountMapping[] = unlinked
+      .filter((a) => getDraft(a).target !== 'skip')
+      .map((a) => {
+        const draft = getDraft(a);
+        return draft.target === 'new'
+          ? { simplefinAccountId: a.id, type: draft.type, ownerId: draft.ownerId }
+          : { simplefinAccountId: a.id, existingAccountId: draft.target };
+      });
+
+    if (mappings.length === 0) {
+      onClose();
+      return;
+    }
+
+    try {
+      const result = await mapAccounts.mutateAsync(mappings);
+      toast.success(
+        `SimpleFin connected! ${result.accountsCreated + result.accountsLinked} account${
+          result.accountsCreated + result.accountsLinked !== 1 ? 's' : ''
+        }, ${result.sync.added + result.sync.matched} transactions synced.`
+      );
+      onClose();
+    } catch (err) {
+      toast.error((err as Error).message || 'Failed to link accounts');
+    }
+  };
+
+  const showTokenStep = !isConnected && !connect.isSuccess;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end sm:items-center justify-center">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} aria-hidden="true" />
+
+      <div className="relative w-full max-w-md rounded-t-2xl sm:rounded-2xl bg-white p-5 max-h-[90vh] overflow-y-auto">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">SimpleFin Bridge</h2>
+
+        {showTokenStep ? (
+          <form onSubmit={handleConnect} className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Create a setup token in SimpleFin Bridge and paste it below. Each token can only be
+              used once.
+            </p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Setup Token</label>
+              <textarea
+                value={setupToken}
+                onChange={(e) => setSetupToken(e.target.value)}
+                className="input font-mono text-xs"
+                rows={3}
+                required
+              />
+            </div>
+            <div className="flex gap-2">
+              <button type="button" onClick={onClose} className="btn-secondary flex-1">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={connect.isPending || !setupToken.trim()}
+                className="btn-primary flex-1"
+              >
+                {connect.isPending ? 'Connecting...' : 'Connect'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Choose how each account should appear in Otter Money.
+            </p>
+
+            {bridge?.errors.map((error) => (
+              <p key={error} className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-2">
+                {error}
+              </p>
+            ))}
+
+            {bridgeLoading ? (
+              <div className="py-6 text-center text-gray-500 text-sm">Loading accounts...</div>
+            ) : unlinked.length === 0 ? (
+              <div className="py-4 text-center text-gray-400 text-sm">
+                All SimpleFin accounts are already linked
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {unlinked.map((account) => {
+                  const draft = getDraft(account);
+
+                  return (
+                    <div key={account.id} className="border border-gray-200 rounded-xl p-3 space-y-2">
+                      <div className="flex items-baseline justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">{account.name}</p>
+                          {account.institutionName && (
+                            <p className="text-[11px] text-gray-400">{account.institutionName}</p>
+                          )}
+                        </div>
+                        <span className="text-sm text-gray-700 flex-shrink-0">
+                          {formatCurrency(account.balance)}
+                        </span>
+                      </div>
+
+                      <select
+                        value={draft.target}
+                        onChange={(e) => updateDraft(account, { target: e.target.value })}
+                        className="input text-sm"
+                      >
+                        <option value="new">Create new account</option>
+                        {manualAccounts.map((a) => (
+                          <option key={a.id} value={a.id}>
+                            Link to {a.name}
+                          </option>
+                        ))}
+                        <option value="skip">Don't import</option>
+                      </select>
+
+                      {draft.target === 'new' && (
+                        <div className="flex gap-2">
+                          <select
+                            value={draft.type}
+                            onChange={(e) => updateDraft(account, { type: e.target.value as AccountType })}
+                            className="input text-sm flex-1"
+                          >
+                            {accountTypes.map((type) => (
+                              <option key={type} value={type}>
+                                {accountTypeLabels[type]}
+                              </option>
+                            ))}
+                          </select>
+                          <select
+                            value={draft.ownerId ?? 'joint'}
+                            onChange={(e) =>
+                              updateDraft(account, {
+                                ownerId: e.target.value === 'joint' ? null : e.target.value,
+                              })
+                            }
+                            className="input text-sm flex-1"
+                          >
+                            <option value="joint">Joint</option>
+                            {members?.map((member) => (
+                              <option key={member.id} value={member.id}>
+                                {member.name}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <button type="button" onClick={onClose} className="btn-secondary flex-1">
+                {unlinked.length === 0 ? 'Close' : 'Later'}
+              </button>
+              {unlinked.length > 0 && (
+                <button
+                  onClick={handleMap}
+                  disabled={mapAccounts.isPending}
+                  className="btn-primary flex-1"
+                >
+                  {mapAccounts.isPending ? 'Importing...' : 'Import Accounts'}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,42 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { clsx } from 'clsx';
 import { useNavigate } from 'react-router-dom';
+import { Camera, FileText, Paperclip } from 'lucide-react';
+import { toast } from 'sonner';
 import { useAccounts } from '../hooks/useAccounts';
 import {
   useCreateTransaction,
   useUpdateTransaction,
   useDeleteTransaction,
+  useSplitTransaction,
+  useRemoveSplit,
+  useConfirmTransfer,
+  useUnlinkTransfer,
+  useTransactionAttachments,
+  useAttachmentFileUrl,
+  useUploadAttachment,
+  useDeleteAttachment,
 } from '../hooks/useTransactions';
+import { useHouseholdMembers } from '../hooks/useHousehold';
+import { useTags, useCreateTag } from '../hooks/useTags';
 import { CategoryPicker } from './CategoryPicker';
 import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
-import type { CategoryType } from '@otter-money/shared';
+import {
+  ATTACHMENT_CONTENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_TRANSACTION,
+} from '@otter-money/shared';
+import type { Attachment, CategoryType, Tag, TransferStatus } from '@otter-money/shared';
+
+type TagChip = Pick<Tag, 'id' | 'name' | 'color'>;
+
+interface TransactionSplit {
+  id: string;
+  amount: number;
+  categoryId: string | null;
+  notes: string | null;
+  attributedToId: string | null;
+}
 
 interface Transaction {
   id: string;
@@ -20,7 +47,17 @@ interface Transaction {
   merchantName?: string | null;
   categoryId?: string | null;
   notes?: string | null;
+  excludeFromBudget?: boolean;
+  tags?: TagChip[];
   isManual: boolean;
+  isAdjustment?: boolean;
+  parentId?: string | null;
+  splits?: TransactionSplit[];
+  transferStatus?: TransferStatus;
+  transferPair?: {
+    id: string;
+    account: { id: string; name: string };
+  } | null;
   account: {
     id: string;
     name: string;
@@ -57,18 +94,30 @@ export function TransactionModal({
   const [merchantName, setMerchantName] = useState('');
   const [categoryId, setCategoryId] = useState<string | null>(null);
   const [notes, setNotes] = useState('');
+  const [excludeFromBudget, setExcludeFromBudget] = useState(false);
+  const [tags, setTags] = useState<TagChip[]>([]);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showSplitEditor, setShowSplitEditor] = useState(false);
 
   // Data hooks
   const { data: accounts } = useAccounts();
   const createTransaction = useCreateTransaction();
   const updateTransaction = useUpdateTransaction();
   const deleteTransaction = useDeleteTransaction();
+  const confirmTransfer = useConfirmTransfer();
+  const unlinkTransfer = useUnlinkTransfer();
 
   const isLoading =
     createTransaction.isPending ||
     updateTransaction.isPending ||
-    deleteTransaction.isPending;
+    deleteTransaction.isPending ||
+    confirmTransfer.isPending ||
+    unlinkTransfer.isPending;
+
+  const isSplit = !!transaction?.splits?.length;
+  // Tags and receipts belong to the whole transaction, never to a single split line
+  const isSplitLine = !!transaction?.parentId;
+  const canSplit = isEditing && !transaction.parentId && !transaction.isAdjustment;
 
   useBodyScrollLock(isOpen);
 
@@ -87,7 +136,10 @@ export function TransactionModal({
       setMerchantName(transaction.merchantName || '');
       setCategoryId(transaction.categoryId || null);
       setNotes(transaction.notes || '');
+      setExcludeFromBudget(transaction.excludeFromBudget ?? false);
+      setTags(transaction.tags ?? []);
       setShowDeleteConfirm(false);
+      setShowSplitEditor(false);
     } else if (isOpen && !transaction) {
       setAccountId(defaultAccountId || accounts?.[0]?.id || '');
       setDate(new Date().toISOString().split('T')[0]);
@@ -97,7 +149,9 @@ export function TransactionModal({
       setMerchantName('');
       setCategoryId(null);
       setNotes('');
+      setTags([]);
       setShowDeleteConfirm(false);
+      setShowSplitEditor(false);
     }
   }, [isOpen, transaction, defaultAccountId, accounts]);
 
@@ -117,6 +171,8 @@ export function TransactionModal({
           merchantName: merchantName || null,
           categoryId,
           notes: notes || null,
+          excludeFromBudget,
+          ...(!isSplitLine && { tagIds: tags.map((tag) => tag.id) }),
         });
       } else {
         await createTransaction.mutateAsync({
@@ -127,6 +183,7 @@ export function TransactionModal({
           merchantName: merchantName || undefined,
           categoryId,
           notes: notes || undefined,
+          tagIds: tags.length > 0 ? tags.map((tag) => tag.id) : undefined,
         });
       }
 
@@ -136,6 +193,28 @@ export function TransactionModal({
     }
   };
 
+  const handleConfirmTransfer = async () => {
+    if (!transaction) return;
+
+    try {
+      await confirmTransfer.mutateAsync(transaction.id);
+      onClose();
+    } catch (err) {
+      console.error('Failed to confirm transfer:', err);
+    }
+  };
+
+  const handleUnlinkTransfer = async () => {
+    if (!transaction) return;
+
+    try {
+      await unlinkTransfer.mutateAsync(transaction.id);
+      onClose();
+    } catch (err) {
+      console.error('Failed to unlink transfer:', err);
+    }
+  };
+
   const handleDelete = async () => {
     if (!transaction) return;
 
@@ -174,6 +253,60 @@ export function TransactionModal({
           </button>
         </div>
 
+        {/* Transfer pair */}
+        {isEditing && transaction.transferPair && (
+          <div className="mb-4 rounded-lg bg-gray-50 p-3">
+            <p className="text-sm text-gray-700">
+              {transaction.transferStatus === 'CONFIRMED' ? 'Transfer' : 'Looks like a transfer'}
+              {transaction.amount < 0 ? ' to ' : ' from '}
+              <span className="font-medium">{transaction.transferPair.account.name}</span>
+            </p>
+            {transaction.transferStatus === 'CONFIRMED' && (
+              <p className="mt-0.5 text-xs text-gray-500">Not counted in spending or income.</p>
+            )}
+            <div className="mt-2 flex gap-2">
+              {transaction.transferStatus === 'SUGGESTED' && (
+                <button
+                  type="button"
+                  onClick={handleConfirmTransfer}
+                  disabled={isLoading}
+                  className="btn-primary flex-1 text-sm"
+                >
+                  {confirmTransfer.isPending ? 'Confirming...' : 'Confirm Transfer'}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleUnlinkTransfer}
+                disabled={isLoading}
+                className="btn-secondary flex-1 text-sm"
+              >
+                {unlinkTransfer.isPending
+                  ? 'Unlinking...'
+                  : transaction.transferStatus === 'SUGGESTED'
+                    ? 'Not a Transfer'
+                    : 'Unlink'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Marked as a transfer by a rule, with no other leg */}
+        {isEditing && !transaction.transferPair && transaction.transferStatus === 'CONFIRMED' && (
+          <div className="mb-4 rounded-lg bg-gray-50 p-3">
+            <p className="text-sm text-gray-700">Marked as a transfer</p>
+            <p className="mt-0.5 text-xs text-gray-500">Not counted in spending or income.</p>
+            <button
+              type="button"
+              onClick={handleUnlinkTransfer}
+              disabled={isLoading}
+              className="btn-secondary mt-2 w-full text-sm"
+            >
+              {unlinkTransfer.isPending ? 'Updating...' : 'Not a Transfer'}
+            </button>
+          </div>
+        )}
+
         {/* Form */}
         <form onSubmit={handleSubmit} className="space-y-4">
           {/* Transaction Type Toggle */}
@@ -259,9 +392,15 @@ export function TransactionModal({
                 onChange={(e) => setAmount(e.target.value)}
                 className="input pl-7"
                 placeholder="0.00"
+                disabled={isSplit}
                 required
               />
             </div>
+            {isSplit && (
+              <p className="mt-1 text-xs text-gray-500">
+                Remove the split to change the amount.
+              </p>
+            )}
           </div>
 
           {/* Description */}
@@ -295,14 +434,46 @@ export function TransactionModal({
             />
           </div>
 
-          {/* Category */}
-          <CategoryPicker
-            value={categoryId}
-            onChange={setCategoryId}
-            categoryType={isExpense ? 'EXPENSE' : 'INCOME'}
-            label="Category"
-            allowUncategorized={true}
-          />
+          {/* Category (split transactions are categorized per line) */}
+          {!isSplit && (
+            <CategoryPicker
+              value={categoryId}
+              onChange={setCategoryId}
+              categoryType={isExpense ? 'EXPENSE' : 'INCOME'}
+              label="Category"
+              allowUncategorized={true}
+            />
+          )}
+
+          {/* Split */}
+          {canSplit && !showDeleteConfirm && (
+            showSplitEditor ? (
+              <SplitEditor
+                transaction={transaction}
+                onDone={() => setShowSplitEditor(false)}
+              />
+            ) : (
+              <div className="rounded-lg border border-gray-200 p-3">
+                {isSplit && (
+                  <ul className="mb-2 space-y-1 text-sm text-gray-700">
+                    {transaction.splits!.map((split) => (
+                      <li key={split.id} className="flex justify-between gap-2">
+                        <span className="truncate">{split.notes || 'Split line'}</span>
+                        <span className="whitespace-nowrap">${Math.abs(split.amount).toFixed(2)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setShowSplitEditor(true)}
+                  className="w-full text-sm font-medium text-primary hover:text-primary-600"
+                >
+                  {isSplit ? 'Edit Split' : 'Split Transaction'}
+                </button>
+              </div>
+            )
+          )}
 
           {/* Notes */}
           <div>
@@ -319,6 +490,25 @@ export function TransactionModal({
             />
           </div>
 
+          {/* Tags */}
+          {!isSplitLine && <TagEditor value={tags} onChange={setTags} />}
+
+          {/* Receipts and documents */}
+          {isEditing && !isSplitLine && <AttachmentsSection transactionId={transaction.id} />}
+
+          {/* Budget exclusion */}
+          {isEditing && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={excludeFromBudget}
+                onChange={(e) => setExcludeFromBudget(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+              />
+              Exclude from budgets and spending reports
+            </label>
+          )}
+
           {/* Create Rule button */}
           {isEditing && !showDeleteConfirm && (
             <button
@@ -399,6 +589,424 @@ export function TransactionModal({
   );
 }
 
+interface SplitLineDraft {
+  amount: string;
+  categoryId: string | null;
+  notes: string;
+  attributedToId: string;
+}
+
+function SplitEditor({
+  transaction,
+  onDone,
+}: {
+  transaction: Transaction;
+  onDone: () => void;
+}) {
+  const { data: members } = useHouseholdMembers();
+  const splitTransaction = useSplitTransaction();
+  const removeSplit = useRemoveSplit();
+
+  const isSplit = !!transaction.splits?.length;
+  const sign = transaction.amount < 0 ? -1 : 1;
+  const totalCents = Math.round(Math.abs(transaction.amount) * 100);
+
+  const [lines, setLines] = useState<SplitLineDraft[]>(() =>
+    isSplit
+      ? transaction.splits!.map((split) => ({
+          amount: Math.abs(split.amount).toFixed(2),
+          categoryId: split.categoryId,
+          notes: split.notes || '',
+          attributedToId: split.attributedToId || '',
+        }))
+      : [
+          {
+            amount: Math.abs(transaction.amount).toFixed(2),
+            categoryId: transaction.categoryId || null,
+            notes: '',
+            attributedToId: '',
+          },
+          { amount: '', categoryId: null, notes: '', attributedToId: '' },
+        ]
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const allocatedCents = lines.reduce(
+    (sum, line) => sum + Math.round((parseFloat(line.amount) || 0) * 100),
+    0
+  );
+  const remainingCents = totalCents - allocatedCents;
+  const isBalanced =
+    remainingCents === 0 && lines.length >= 2 && lines.every((line) => parseFloat(line.amount) > 0);
+
+  const updateLine = (index: number, changes: Partial<SplitLineDraft>) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    try {
+      await splitTransaction.mutateAsync({
+        id: transaction.id,
+        isEdit: isSplit,
+        splits: lines.map((line) => ({
+          amount: sign * Math.abs(parseFloat(line.amount)),
+          categoryId: line.categoryId,
+          notes: line.notes || null,
+          attributedToId: line.attributedToId || null,
+        })),
+      });
+      onDone();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save split');
+    }
+  };
+
+  const handleRemove = async () => {
+    setError(null);
+    try {
+      await removeSplit.mutateAsync(transaction.id);
+      onDone();
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove split');
+    }
+  };
+
+  const isSaving = splitTransaction.isPending || removeSplit.isPending;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-gray-200 p-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-900">Split Transaction</h3>
+        <span
+          className={clsx(
+            'text-xs font-medium',
+            remainingCents === 0 ? 'text-success' : 'text-error'
+          )}
+        >
+          {remainingCents === 0
+            ? 'Fully allocated'
+            : `$${(Math.abs(remainingCents) / 100).toFixed(2)} ${remainingCents > 0 ? 'left' : 'over'}`}
+        </span>
+      </div>
+
+      {lines.map((line, index) => (
+        <div key={index} className="space-y-2 rounded-lg bg-gray-50 p-2">
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={line.amount}
+                onChange={(e) => updateLine(index, { amount: e.target.value })}
+                className="input pl-7"
+                placeholder="0.00"
+                aria-label={`Line ${index + 1} amount`}
+              />
+            </div>
+            {lines.length > 2 && (
+              <button
+                type="button"
+                onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                className="p-2 text-gray-400 hover:text-error"
+                aria-label={`Remove line ${index + 1}`}
+              >
+                <XIcon className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+          <CategoryPicker
+            value={line.categoryId}
+            onChange={(categoryId) => updateLine(index, { categoryId })}
+            categoryType={transaction.amount < 0 ? 'EXPENSE' : 'INCOME'}
+            allowUncategorized={true}
+          />
+          <div className="flex gap-2">
+            <select
+              value={line.attributedToId}
+              onChange={(e) => updateLine(index, { attributedToId: e.target.value })}
+              className="input flex-1"
+              aria-label={`Line ${index + 1} partner`}
+            >
+              <option value="">Account owner</option>
+              {members?.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {member.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={line.notes}
+              onChange={(e) => updateLine(index, { notes: e.target.value })}
+              className="input flex-1"
+              placeholder="Note"
+              aria-label={`Line ${index + 1} note`}
+            />
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() =>
+          setLines((current) => [
+            ...current,
+            {
+              amount: remainingCents > 0 ? (remainingCents / 100).toFixed(2) : '',
+              categoryId: null,
+              notes: '',
+              attributedToId: '',
+            },
+          ])
+        }
+        className="w-full text-sm font-medium text-primary hover:text-primary-600"
+      >
+        + Add Line
+      </button>
+
+      {error && <p className="text-sm text-error">{error}</p>}
+
+      <div className="flex gap-2">
+        {isSplit ? (
+          <button
+            type="button"
+            onClick={handleRemove}
+            disabled={isSaving}
+            className="btn-secondary flex-1"
+          >
+            {removeSplit.isPending ? 'Removing...' : 'Remove Split'}
+          </button>
+        ) : (
+          <button type="button" onClick={onDone} className="btn-secondary flex-1">
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || !isBalanced}
+          className="btn-primary flex-1"
+        >
+          {splitTransaction.isPending ? 'Saving...' : 'Save Split'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function TagEditor({
+  value,
+  onChange,
+}: {
+  value: TagChip[];
+  onChange: (tags: TagChip[]) => void;
+}) {
+  const { data: allTags } = useTags();
+  const createTag = useCreateTag();
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedIds = new Set(value.map((tag) => tag.id));
+  const available = (allTags ?? []).filter((tag) => !selectedIds.has(tag.id));
+
+  // Add an existing tag by name, or create it when the household doesn't have one yet
+  const addTag = async () => {
+    const name = input.trim();
+    if (!name) return;
+    setError(null);
+
+    const existing = allTags?.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+    try {
+      const tag = existing ?? (await createTag.mutateAsync({ name }));
+      if (!selectedIds.has(tag.id)) {
+        onChange([...value, { id: tag.id, name: tag.name, color: tag.color }]);
+      }
+      setInput('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add tag');
+    }
+  };
+
+  return (
+    <div>
+      <label htmlFor="tag-input" className="block text-sm font-medium text-gray-700">
+        Tags (optional)
+      </label>
+      {value.length > 0 && (
+        <div className="mt-1 flex flex-wrap gap-1.5">
+          {value.map((tag) => (
+            <span
+              key={tag.id}
+              className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700"
+              style={tag.color ? { backgroundColor: `${tag.color}20`, color: tag.color } : undefined}
+            >
+              #{tag.name}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((t) => t.id !== tag.id))}
+                className="text-gray-400 hover:text-gray-600"
+                aria-label={`Remove tag ${tag.name}`}
+              >
+                <XIcon className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="mt-1 flex gap-2">
+        <input
+          id="tag-input"
+          type="text"
+          list="tag-options"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              addTag();
+            }
+          }}
+          className="input flex-1"
+          placeholder="e.g., vacation-2025, reimbursable"
+          maxLength={50}
+        />
+        <datalist id="tag-options">
+          {available.map((tag) => (
+            <option key={tag.id} value={tag.name} />
+          ))}
+        </datalist>
+        <button
+          type="button"
+          onClick={addTag}
+          disabled={!input.trim() || createTag.isPending}
+          className="btn-secondary text-sm"
+        >
+          Add
+        </button>
+      </div>
+      {error && <p className="mt-1 text-xs text-error">{error}</p>}
+    </div>
+  );
+}
+
+function AttachmentsSection({ transactionId }: { transactionId: string }) {
+  const { data: attachments } = useTransactionAttachments(transactionId);
+  const uploadAttachment = useUploadAttachment();
+  const cameraInput = useRef<HTMLInputElement>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const canAdd = (attachments?.length ?? 0) < MAX_ATTACHMENTS_PER_TRANSACTION;
+
+  const handleFiles = async (files: FileList | null) => {
+    for (const file of Array.from(files ?? [])) {
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        toast.error(`${file.name} is larger than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`);
+        continue;
+      }
+      try {
+        await uploadAttachment.mutateAsync({ transactionId, file });
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : `Failed to attach ${file.name}`);
+      }
+    }
+  };
+
+  // On iOS and Android the camera input opens the camera directly; the file
+  // input offers the photo library and files
+  const fileInputProps = {
+    type: 'file',
+    className: 'hidden',
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => {
+      handleFiles(e.target.files);
+      e.target.value = '';
+    },
+  } as const;
+
+  return (
+    <div>
+      <p className="block text-sm font-medium text-gray-700">Receipts</p>
+      {!!attachments?.length && (
+        <div className="mt-1 grid grid-cols-4 gap-2">
+          {attachments.map((attachment) => (
+            <AttachmentThumbnail key={attachment.id} attachment={attachment} />
+          ))}
+        </div>
+      )}
+      {canAdd && (
+        <div className="mt-1 flex gap-2">
+          <button
+            type="button"
+            onClick={() => cameraInput.current?.click()}
+            disabled={uploadAttachment.isPending}
+            className="btn-secondary flex flex-1 items-center justify-center gap-1.5 text-sm"
+          >
+            <Camera className="h-4 w-4" />
+            Take Photo
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInput.current?.click()}
+            disabled={uploadAttachment.isPending}
+            className="btn-secondary flex flex-1 items-center justify-center gap-1.5 text-sm"
+          >
+            <Paperclip className="h-4 w-4" />
+            {uploadAttachment.isPending ? 'Uploading...' : 'Attach File'}
+          </button>
+          <input ref={cameraInput} accept="image/*" capture="environment" {...fileInputProps} />
+          <input ref={fileInput} accept={ATTACHMENT_CONTENT_TYPES.join(',')} multiple {...fileInputProps} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AttachmentThumbnail({ attachment }: { attachment: Attachment }) {
+  const { data: fileUrl } = useAttachmentFileUrl(attachment.transactionId, attachment.id);
+  const deleteAttachment = useDeleteAttachment();
+  const isImage = attachment.contentType.startsWith('image/') && attachment.contentType !== 'image/heic';
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Remove ${attachment.fileName}?`)) return;
+    try {
+      await deleteAttachment.mutateAsync({ transactionId: attachment.transactionId, attachmentId: attachment.id });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove attachment');
+    }
+  };
+
+  return (
+    <div className="relative aspect-square">
+      <button
+        type="button"
+        onClick={() => fileUrl && window.open(fileUrl, '_blank')}
+        className="h-full w-full overflow-hidden rounded-lg border border-gray-200 bg-gray-50"
+        title={attachment.fileName}
+      >
+        {isImage && fileUrl ? (
+          <img src={fileUrl} alt={attachment.fileName} className="h-full w-full object-cover" />
+        ) : (
+          <span className="flex h-full flex-col items-center justify-center gap-1 p-1 text-gray-500">
+            <FileText className="h-6 w-6" />
+            <span className="w-full truncate text-[10px]">{attachment.fileName}</span>
+          </span>
+        )}
+      </button>
+      <button
+        type="button"
+        onClick={handleDelete}
+        disabled={deleteAttachment.isPending}
+        className="absolute -right-1.5 -top-1.5 rounded-full bg-white p-0.5 text-gray-400 shadow hover:text-gray-600"
+        aria-label={`Remove ${attachment.fileName}`}
+      >
+        <XIcon className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
+
 function XIcon({ className }: { className: string }) {
   return (
     <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2}>
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Copy, Download } from 'lucide-react';
+import type { TwoFactorSetup as TwoFactorSetupData } from '@otter-money/shared';
+import { useStartTwoFactorSetup, useEnableTwoFactor } from '../hooks/useTwoFactor';
+import { useAuthStore } from '../stores/auth';
+
+// Recovery codes are shown once, right after they're generated
+export function RecoveryCodes({ codes }: { codes: string[] }) {
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Failed to copy');
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([`Otter Money recovery codes\n\n${text}\n`], { type: 'text/plain' });
+    const blobUrl = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = blobUrl;
+    a.download = 'otter-money-recovery-codes.txt';
+    a.click();
+    URL.revokeObjectURL(blobUrl);
+  };
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator app. They won't be shown again.
+      </p>
+      <ul className="mt-3 grid grid-cols-2 gap-2 rounded-lg bg-gray-50 p-3 font-mono text-sm text-gray-900">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="mt-3 flex gap-2">
+        <button onClick={handleCopy} className="btn-secondary flex items-center gap-1.5 text-sm">
+          <Copy className="h-4 w-4" />
+          Copy
+        </button>
+        <button onClick={handleDownload} className="btn-secondary flex items-center gap-1.5 text-sm">
+          <Download className="h-4 w-4" />
+          Download
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Enrollment: scan the QR code, confirm a code, then save the recovery codes
+export function TwoFactorSetup({ onDone, onCancel }: { onDone: () => void; onCancel?: () => void }) {
+  const startSetup = useStartTwoFactorSetup();
+  const enable = useEnableTwoFactor();
+  const updateUser = useAuthStore((state) => state.updateUser);
+
+  const [setup, setSetup] = useState<TwoFactorSetupData | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const handleStart = async () => {
+    try {
+      setSetup(await startSetup.mutateAsync());
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to start setup');
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const result = await enable.mutateAsync(code);
+      setRecoveryCodes(result.recoveryCodes);
+    } catch (error) {
+      toast.error((error as Error).message || 'Invalid code');
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="font-medium text-gray-900">Two-factor authentication is on</p>
+        <RecoveryCodes codes={recoveryCodes} />
+        <button
+          onClick={() => {
+            updateUser({ twoFactorEnabled: true });
+            onDone();
+          }}
+          className="btn-primary w-full"
+        >
+          I've saved my codes
+        </button>
+      </div>
+    );
+  }
+
+  if (!setup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Use an authenticator app like 1Password, Google Authenticator or Authy to get a code
+          each time you sign in.
+        </p>
+        <div className="flex gap-2">
+          <button onClick={handleStart} disabled={startSetup.isPending} className="btn-primary">
+            {startSetup.isPending ? 'Starting...' : 'Set up authenticator'}
+          </button>
+          {onCancel && (
+            <button onClick={onCancel} className="btn-secondary">
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleEnable} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+      </p>
+      <img
+        src={setup.qrCode}
+        alt="Authenticator QR code"
+        className="mx-auto h-44 w-44 rounded-lg border border-gray-200"
+      />
+      <div className="text-center">
+        <p className="text-xs text-gray-500">Can't scan it? Enter this key instead:</p>
+        <p className="mt-1 break-all font-mono text-sm text-gray-900">{setup.secret}</p>
+        <a href={setup.otpauthUrl} className="mt-1 inline-block text-sm text-primary hover:text-primary-600 md:hidden">
+          Open in authenticator app
+        </a>
+      </div>
+      <div>
+        <label htmlFor="totpCode" className="block text-sm font-medium text-gray-700">
+          Code
+        </label>
+        <input
+          id="totpCode"
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="input mt-1 tracking-widest"
+          placeholder="123456"
+          maxLength={6}
+          required
+        />
+      </div>
+      <div className="flex gap-2">
+        <button type="submit" disabled={enable.isPending} className="btn-primary">
+          {enable.isPending ? 'Verifying...' : 'Turn on'}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="btn-secondary">
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,32 @@
+import { useInfiniteQuery } from '@tanstack/react-query';
+import type { AuditEntityType, AuditEvent } from '@otter-money/shared';
+import { api } from '../utils/api';
+
+export interface ActivityFilters {
+  entityType?: AuditEntityType;
+  actorId?: string;
+}
+
+const PAGE_SIZE = 25;
+
+// Query keys
+export const activityKeys = {
+  all: ['activity'] as const,
+  list: (filters: ActivityFilters) => [...activityKeys.all, 'list', filters] as const,
+};
+
+// Hooks
+export function useActivity(filters: ActivityFilters = {}) {
+  return useInfiniteQuery({
+    queryKey: activityKeys.list(filters),
+    queryFn: ({ pageParam }) =>
+      api.get<AuditEvent[]>('/household/activity', {
+        ...filters,
+        limit: PAGE_SIZE,
+        offset: pageParam,
+      }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) =>
+      lastPage.length === PAGE_SIZE ? allPages.length * PAGE_SIZE : undefined,
+  });
+}
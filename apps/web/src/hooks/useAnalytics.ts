@@ -96,6 +96,23 @@ export interface SpendingByPartnerResponse {
   };
 }
 
+export interface TagSpending {
+  tagId: string;
+  tagName: string;
+  tagColor: string | null;
+  expense: number;
+  income: number;
+  netCashFlow: number;
+  transactionCount: number;
+}
+
+export interface SpendingByTagResponse {
+  byTag: TagSpending[];
+  startDate: string;
+  endDate: string;
+  period: string | null;
+}
+
 // Query keys
 export const analyticsKeys = {
   all: ['analytics'] as const,
@@ -107,6 +124,8 @@ export const analyticsKeys = {
     [...analyticsKeys.all, 'comparison', period1, period2] as const,
   byPartner: (period: string) =>
     [...analyticsKeys.all, 'by-partner', period] as const,
+  byTag: (period?: string, startDate?: string, endDate?: string, ownerId?: string) =>
+    [...analyticsKeys.all, 'by-tag', period, startDate, endDate, ownerId] as const,
 };
 
 // Hook: Get spending breakdown by category
@@ -186,29 +205,28 @@ export function useSpendingByPartner(period: string) {
   });
 }
 
-// Helper function to get current period
-export function getCurrentPeriod(): string {
-  const now = new Date();
-  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-}
-
-// Helper function to get previous period
-export function getPrevPeriod(period: string): string {
-  const [year, month] = period.split('-').map(Number);
-  const date = new Date(year, month - 2, 1);
-  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-}
+// Hook: Get spending by tag
+export function useSpendingByTag(
+  period?: string,
+  startDate?: string,
+  endDate?: string,
+  ownerId?: string
+) {
+  return useQuery({
+    queryKey: analyticsKeys.byTag(period, startDate, endDate, ownerId),
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (period) params.append('period', period);
+      if (startDate) params.append('startDate', startDate);
+      if (endDate) params.append('endDate', endDate);
+      if (ownerId) params.append('ownerId', ownerId);
 
-// Helper function to get next period
-export function getNextPeriod(period: string): string {
-  const [year, month] = period.split('-').map(Number);
-  const date = new Date(year, month, 1);
-  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+      return api.get<SpendingByTagResponse>(
+        `/analytics/spending/by-tag?${params.toString()}`
+      );
+    },
+  });
 }
 
-// Helper function to format period for display
-export function formatPeriod(period: string): string {
-  const [year, month] = period.split('-').map(Number);
-  const date = new Date(year, month - 1, 1);
-  return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-}
+// Period helpers, shared with the API. Analytics periods are calendar months.
+export { getCurrentPeriod, getPrevPeriod, getNextPeriod, formatPeriod } from '@otter-money/shared';
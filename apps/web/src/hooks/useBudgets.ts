@@ -1,10 +1,14 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getCurrentPeriod } from '@otter-money/shared';
+import type { AuditEvent, BudgetAssignment, BudgetTemplateItem } from '@otter-money/shared';
 import { api } from '../utils/api';
+import { useAuthStore } from '../stores/auth';
 
 export interface Budget {
   id: string;
   householdId: string;
   categoryId: string;
+  ownerId: string | null; // Partner's personal budget; null = joint
   category: {
     id: string;
     name: string;
@@ -13,8 +17,11 @@ export interface Budget {
     color: string | null;
   };
   amount: number;
-  period: string; // YYYY-MM format
+  period: string; // YYYY-MM, or another cadence's period (see @otter-money/shared periods)
   rollover: boolean;
+  rolloverCap: number | null;
+  rolloverReset: boolean;
+  fromTemplate: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -26,12 +33,18 @@ export interface SpendingByPartner {
 }
 
 export interface BudgetSpending {
+  budgetId: string;
   categoryId: string;
+  ownerId: string | null;
   categoryName: string;
   categoryType: string;
   categoryIcon: string | null;
   categoryColor: string | null;
   budgetAmount: number;
+  rollover: boolean;
+  carriedIn: number; // Negative when last period was overspent
+  carriedOut: number;
+  available: number; // budgetAmount + carriedIn
   totalSpent: number;
   byPartner: SpendingByPartner[];
   percentUsed: number;
@@ -47,19 +60,57 @@ export interface SpendingResponse {
 
 export interface CreateBudgetRequest {
   categoryId: string;
+  ownerId?: string | null; // A partner's personal budget; joint when left out
   amount: number;
   period: string;
   rollover?: boolean;
+  rolloverCap?: number | null;
+  rolloverReset?: boolean;
 }
 
 export interface UpdateBudgetRequest {
   amount?: number;
   rollover?: boolean;
+  rolloverCap?: number | null;
+  rolloverReset?: boolean;
 }
 
 export interface CopyBudgetRequest {
   fromPeriod: string;
   toPeriod: string;
+  mode?: 'replace' | 'merge'; // merge keeps budgets already set in toPeriod
+}
+
+export interface EnvelopeSummary {
+  period: string;
+  income: number;
+  assigned: number;
+  allowances: number; // Partners' personal budgets, included in assigned
+  toBeAssigned: number; // Negative when more is assigned than came in
+  envelopes: BudgetSpending[];
+  members: Array<{ id: string; name: string }>;
+}
+
+export interface AssignEnvelopeRequest {
+  period: string;
+  categoryId: string;
+  amount: number; // Negative takes money back out of the envelope
+  note?: string;
+}
+
+export interface MoveEnvelopeRequest {
+  period: string;
+  fromCategoryId: string;
+  toCategoryId: string;
+  amount: number;
+  note?: string;
+}
+
+export interface SaveTemplateItemRequest {
+  categoryId: string;
+  amount: number;
+  rollover?: boolean;
+  rolloverCap?: number | null;
 }
 
 // Query keys
@@ -67,51 +118,42 @@ export const budgetKeys = {
   all: ['budgets'] as const,
   lists: () => [...budgetKeys.all, 'list'] as const,
   list: (period: string) => [...budgetKeys.lists(), period] as const,
-  spending: (period: string) => [...budgetKeys.all, 'spending', period] as const,
+  allSpending: () => [...budgetKeys.all, 'spending'] as const,
+  spending: (period: string) => [...budgetKeys.allSpending(), period] as const,
+  // Built from spending, so refreshed along with it
+  envelopes: (period: string) => [...budgetKeys.allSpending(), 'envelopes', period] as const,
+  ledger: (period: string) => [...budgetKeys.all, 'ledger', period] as const,
+  template: () => [...budgetKeys.all, 'template'] as const,
+  templateHistory: () => [...budgetKeys.template(), 'history'] as const,
 };
 
-// Helper to get current period
-export function getCurrentPeriod(): string {
-  const now = new Date();
-  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-}
+// Period helpers, shared with the API
+export { getCurrentPeriod, getNextPeriod, getPrevPeriod, formatPeriod } from '@otter-money/shared';
 
-// Helper to get next/prev period
-export function getNextPeriod(period: string): string {
-  const [year, month] = period.split('-').map(Number);
-  const date = new Date(year, month - 1 + 1, 1);
-  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-}
-
-export function getPrevPeriod(period: string): string {
-  const [year, month] = period.split('-').map(Number);
-  const date = new Date(year, month - 1 - 1, 1);
-  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-}
-
-// Helper to format period for display
-export function formatPeriod(period: string): string {
-  const [year, month] = period.split('-').map(Number);
-  const date = new Date(year, month - 1, 1);
-  return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+// The household's current budget period, in its budget cadence (monthly by default)
+export function useCurrentBudgetPeriod(): string {
+  const household = useAuthStore((state) => state.household);
+  return getCurrentPeriod(household?.budgetCadence, household?.budgetPaydayAnchor);
 }
 
 // Hooks
 export function useBudgets(period?: string) {
-  const currentPeriod = period || getCurrentPeriod();
+  const currentPeriod = useCurrentBudgetPeriod();
+  const budgetPeriod = period || currentPeriod;
 
   return useQuery({
-    queryKey: budgetKeys.list(currentPeriod),
-    queryFn: () => api.get<Budget[]>(`/budgets?period=${currentPeriod}`),
+    queryKey: budgetKeys.list(budgetPeriod),
+    queryFn: () => api.get<Budget[]>(`/budgets?period=${budgetPeriod}`),
   });
 }
 
 export function useBudgetSpending(period?: string) {
-  const currentPeriod = period || getCurrentPeriod();
+  const currentPeriod = useCurrentBudgetPeriod();
+  const budgetPeriod = period || currentPeriod;
 
   return useQuery({
-    queryKey: budgetKeys.spending(currentPeriod),
-    queryFn: () => api.get<SpendingResponse>(`/budgets/spending?period=${currentPeriod}`),
+    queryKey: budgetKeys.spending(budgetPeriod),
+    queryFn: () => api.get<SpendingResponse>(`/budgets/spending?period=${budgetPeriod}`),
   });
 }
 
@@ -122,7 +164,8 @@ export function useCreateBudget() {
     mutationFn: (data: CreateBudgetRequest) => api.post<Budget>('/budgets', data),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: budgetKeys.list(variables.period) });
-      queryClient.invalidateQueries({ queryKey: budgetKeys.spending(variables.period) });
+      // Rollover carries into later months, so any month's spending can change
+      queryClient.invalidateQueries({ queryKey: budgetKeys.allSpending() });
     },
   });
 }
@@ -135,7 +178,7 @@ export function useUpdateBudget() {
       api.patch<Budget>(`/budgets/${id}`, data),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: budgetKeys.list(variables.period) });
-      queryClient.invalidateQueries({ queryKey: budgetKeys.spending(variables.period) });
+      queryClient.invalidateQueries({ queryKey: budgetKeys.allSpending() });
     },
   });
 }
@@ -148,7 +191,7 @@ export function useDeleteBudget() {
       api.delete<{ message: string }>(`/budgets/${id}`),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: budgetKeys.list(variables.period) });
-      queryClient.invalidateQueries({ queryKey: budgetKeys.spending(variables.period) });
+      queryClient.invalidateQueries({ queryKey: budgetKeys.allSpending() });
     },
   });
 }
@@ -161,7 +204,94 @@ export function useCopyBudget() {
       api.post<{ message: string; count: number }>('/budgets/copy', data),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: budgetKeys.list(variables.toPeriod) });
-      queryClient.invalidateQueries({ queryKey: budgetKeys.spending(variables.toPeriod) });
+      queryClient.invalidateQueries({ queryKey: budgetKeys.allSpending() });
+    },
+  });
+}
+
+export function useBudgetTemplate() {
+  return useQuery({
+    queryKey: budgetKeys.template(),
+    queryFn: () => api.get<BudgetTemplateItem[]>('/budgets/template'),
+  });
+}
+
+export function useBudgetTemplateHistory() {
+  return useQuery({
+    queryKey: budgetKeys.templateHistory(),
+    queryFn: () => api.get<AuditEvent[]>('/budgets/template/history', { limit: 20 }),
+  });
+}
+
+// Template changes also update this month's untouched budgets, so refresh everything
+export function useSaveTemplateItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: SaveTemplateItemRequest) => api.post<BudgetTemplateItem>('/budgets/template', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+    },
+  });
+}
+
+export function useDeleteTemplateItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (categoryId: string) =>
+      api.delete<{ message: string }>(`/budgets/template/${categoryId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+    },
+  });
+}
+
+export function useSaveTemplateFromPeriod() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (period: string) =>
+      api.post<BudgetTemplateItem[]>('/budgets/template/from-period', { period }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+    },
+  });
+}
+
+export function useEnvelopes(period: string) {
+  return useQuery({
+    queryKey: budgetKeys.envelopes(period),
+    queryFn: () => api.get<EnvelopeSummary>(`/budgets/envelopes?period=${period}`),
+  });
+}
+
+export function useEnvelopeLedger(period: string) {
+  return useQuery({
+    queryKey: budgetKeys.ledger(period),
+    queryFn: () => api.get<BudgetAssignment[]>(`/budgets/envelopes/ledger?period=${period}`),
+  });
+}
+
+// Assignments change budget amounts, so refresh everything
+export function useAssignEnvelope() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: AssignEnvelopeRequest) => api.post<BudgetAssignment>('/budgets/envelopes/assign', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+    },
+  });
+}
+
+export function useMoveEnvelope() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: MoveEnvelopeRequest) => api.post<BudgetAssignment>('/budgets/envelopes/move', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
     },
   });
 }
@@ -0,0 +1,143 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../utils/api';
+import { goalKeys } from './useGoals';
+
+export interface CollegePlanAccount {
+  id: string;
+  name: string;
+  type: string;
+  ownerId: string | null;
+  currentBalance: number;
+}
+
+export interface CollegeProjection {
+  enrollmentDate: string;
+  monthsUntilEnrollment: number;
+  totalCostToday: number;
+  projectedCost: number;
+  targetAtEnrollment: number;
+  currentSavings: number;
+  projectedSavings: number;
+  requiredMonthlyContribution: number | null;
+  fundedPercent: number;
+}
+
+export interface CollegeCurvePoint {
+  date: string;
+  balance: number;
+}
+
+export interface CollegeProgress {
+  projected: CollegeCurvePoint[];
+  actual: CollegeCurvePoint[];
+  expectedToday: number;
+  aheadBy: number;
+  onTrack: boolean;
+}
+
+export interface CollegePlan {
+  id: string;
+  householdId: string;
+  childName: string;
+  birthYear: number;
+  enrollmentAge: number;
+  yearsOfSchool: number;
+  annualCost: number;
+  educationInflation: number;
+  expectedReturn: number;
+  goalId: string | null;
+  goal: { id: string; name: string; isCompleted: boolean } | null;
+  accounts: CollegePlanAccount[];
+  createdAt: string;
+  updatedAt: string;
+  projection: CollegeProjection;
+}
+
+export interface CollegePlanWithProgress extends CollegePlan {
+  progress: CollegeProgress;
+}
+
+export interface CreateCollegePlanRequest {
+  childName: string;
+  birthYear: number;
+  annualCost: number;
+  enrollmentAge?: number;
+  yearsOfSchool?: number;
+  educationInflation?: number;
+  expectedReturn?: number;
+  accountIds?: string[];
+}
+
+export type UpdateCollegePlanRequest = Partial<CreateCollegePlanRequest>;
+
+// Query keys
+export const collegePlanKeys = {
+  all: ['collegePlans'] as const,
+  lists: () => [...collegePlanKeys.all, 'list'] as const,
+  details: () => [...collegePlanKeys.all, 'detail'] as const,
+  detail: (id: string) => [...collegePlanKeys.details(), id] as const,
+};
+
+// Hooks
+export function useCollegePlans() {
+  return useQuery({
+    queryKey: collegePlanKeys.lists(),
+    queryFn: () => api.get<CollegePlan[]>('/college-plans'),
+  });
+}
+
+export function useCollegePlan(id: string | null) {
+  return useQuery({
+    queryKey: collegePlanKeys.detail(id || ''),
+    queryFn: () => api.get<CollegePlanWithProgress>(`/college-plans/${id}`),
+    enabled: !!id,
+  });
+}
+
+export function useCreateCollegePlan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateCollegePlanRequest) => api.post<CollegePlan>('/college-plans', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: collegePlanKeys.all });
+    },
+  });
+}
+
+export function useUpdateCollegePlan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...data }: UpdateCollegePlanRequest & { id: string }) =>
+      api.patch<CollegePlan>(`/college-plans/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: collegePlanKeys.all });
+      // A linked goal is refreshed with the plan
+      queryClient.invalidateQueries({ queryKey: goalKeys.all });
+    },
+  });
+}
+
+export function useDeleteCollegePlan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete<{ message: string }>(`/college-plans/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: collegePlanKeys.all });
+    },
+  });
+}
+
+export function useSyncCollegePlanGoal() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.post<CollegePlan>(`/college-plans/${id}/goal`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: collegePlanKeys.all });
+      queryClient.invalidateQueries({ queryKey: goalKeys.all });
+    },
+  });
+}
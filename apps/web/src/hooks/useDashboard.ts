@@ -1,6 +1,6 @@
 import { useQuery } from '@tanstack/react-query';
 import { api } from '../utils/api';
-import type { TransactionWithDetails } from '@otter-money/shared';
+import type { TransactionWithDetails, NetWorthDataPoint, NetWorthRange } from '@otter-money/shared';
 
 interface PartnerBreakdown {
   assets: number;
@@ -18,17 +18,11 @@ interface DashboardSummary {
   accountCount: number;
 }
 
-interface NetWorthDataPoint {
-  date: string;
-  total: number;
-  assets: number;
-  liabilities: number;
-}
-
 export const dashboardKeys = {
   all: ['dashboard'] as const,
   summary: () => [...dashboardKeys.all, 'summary'] as const,
-  netWorthHistory: () => [...dashboardKeys.all, 'networth', 'history'] as const,
+  netWorthHistory: (range: NetWorthRange) =>
+    [...dashboardKeys.all, 'networth', 'history', range] as const,
 };
 
 export function useDashboardSummary() {
@@ -38,9 +32,9 @@ export function useDashboardSummary() {
   });
 }
 
-export function useNetWorthHistory() {
+export function useNetWorthHistory(range: NetWorthRange = '6M') {
   return useQuery({
-    queryKey: dashboardKeys.netWorthHistory(),
-    queryFn: () => api.get<NetWorthDataPoint[]>('/dashboard/networth/history'),
+    queryKey: dashboardKeys.netWorthHistory(range),
+    queryFn: () => api.get<NetWorthDataPoint[]>('/dashboard/networth/history', { range }),
   });
 }
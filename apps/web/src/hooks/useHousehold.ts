@@ -1,6 +1,8 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '../utils/api';
-import type { HouseholdMember } from '@otter-money/shared';
+import { useAuthStore } from '../stores/auth';
+import { budgetKeys } from './useBudgets';
+import type { Household, HouseholdMember } from '@otter-money/shared';
 
 export const householdKeys = {
   all: ['household'] as const,
@@ -13,3 +15,18 @@ export function useHouseholdMembers() {
     queryFn: () => api.get<HouseholdMember[]>('/household/members'),
   });
 }
+
+// Organizer settings: budgeting style and how long each budget period is
+export function useUpdateBudgetSettings() {
+  const queryClient = useQueryClient();
+  const updateHousehold = useAuthStore((state) => state.updateHousehold);
+
+  return useMutation({
+    mutationFn: (data: Partial<Pick<Household, 'budgetMode' | 'budgetCadence' | 'budgetPaydayAnchor'>>) =>
+      api.patch('/household', data),
+    onSuccess: (_data, variables) => {
+      updateHousehold(variables);
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+    },
+  });
+}
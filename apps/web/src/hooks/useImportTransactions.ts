@@ -3,11 +3,11 @@ import { api } from '../utils/api';
 import { transactionKeys } from './useTransactions';
 import { accountKeys } from './useAccounts';
 import { dashboardKeys } from './useDashboard';
-import type { ImportPreviewResponse, ImportExecuteResponse } from '@otter-money/shared';
+import type { ImportPreviewResponse, ImportExecuteResponse, ImportFileFormat } from '@otter-money/shared';
 
 export function useImportPreview() {
   return useMutation({
-    mutationFn: (data: { csvContent: string; defaultAccountId?: string | null }) =>
+    mutationFn: (data: { csvContent: string; defaultAccountId?: string | null; format?: ImportFileFormat }) =>
       api.post<ImportPreviewResponse>('/transactions/import/preview', data),
   });
 }
@@ -19,6 +19,7 @@ export function useImportExecute() {
       csvContent: string;
       defaultAccountId?: string | null;
       skipRowNumbers?: number[];
+      format?: ImportFileFormat;
     }) => api.post<ImportExecuteResponse>('/transactions/import/execute', data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: transactionKeys.lists() });
@@ -1,18 +1,26 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuthStore } from '../stores/auth';
-import type { CategorizationRuleWithCategory, RuleConditions } from '@otter-money/shared';
+import type {
+  CategorizationRuleWithCategory,
+  RuleActions,
+  RuleConditions,
+  RuleDryRunResult,
+  RuleSuggestion,
+} from '@otter-money/shared';
 import { API_BASE } from '../utils/api';
 
 interface CreateRuleRequest {
-  categoryId: string;
+  categoryId: string | null;
   conditions: RuleConditions;
+  actions?: RuleActions;
   priority?: number;
   isEnabled?: boolean;
 }
 
 interface UpdateRuleRequest {
-  categoryId?: string;
+  categoryId?: string | null;
   conditions?: RuleConditions;
+  actions?: RuleActions;
   priority?: number;
   isEnabled?: boolean;
 }
@@ -161,6 +169,67 @@ export function useTestRule() {
   });
 }
 
+// Dry run all enabled rules over existing transactions
+export function useRuleDryRun() {
+  const { accessToken } = useAuthStore();
+
+  return useMutation({
+    mutationFn: async (options: {
+      startDate?: string;
+      endDate?: string;
+      uncategorizedOnly?: boolean;
+      limit?: number;
+    }) => {
+      const res = await fetch(`${API_BASE}/rules/dry-run`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify(options),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error?.message || 'Failed to preview rules');
+      }
+
+      const { data } = await res.json();
+      return data as RuleDryRunResult;
+    },
+  });
+}
+
+// Apply all enabled rules to specific transactions
+export function useApplyRulesToTransactions() {
+  const { accessToken } = useAuthStore();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (transactionIds: string[]) => {
+      const res = await fetch(`${API_BASE}/rules/apply-to-transactions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ transactionIds }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error?.message || 'Failed to apply rules');
+      }
+
+      const { data } = await res.json();
+      return data as { message: string; categorizedCount: number; totalCount: number };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+    },
+  });
+}
+
 // Apply rule retroactively
 export function useApplyRule() {
   const { accessToken } = useAuthStore();
@@ -189,3 +258,83 @@ export function useApplyRule() {
     },
   });
 }
+
+// Fetch rules suggested by repeated manual categorizations
+export function useRuleSuggestions() {
+  const { accessToken } = useAuthStore();
+
+  return useQuery<RuleSuggestion[]>({
+    queryKey: ['rules', 'suggestions'],
+    queryFn: async () => {
+      const res = await fetch(`${API_BASE}/rules/suggestions`, {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      });
+
+      if (!res.ok) {
+        throw new Error('Failed to fetch rule suggestions');
+      }
+
+      const { data } = await res.json();
+      return data;
+    },
+    enabled: !!accessToken,
+  });
+}
+
+// Accept a rule suggestion (creates the rule)
+export function useAcceptRuleSuggestion() {
+  const { accessToken } = useAuthStore();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (suggestionId: string) => {
+      const res = await fetch(`${API_BASE}/rules/suggestions/${suggestionId}/accept`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error?.message || 'Failed to create rule');
+      }
+
+      const { data } = await res.json();
+      return data as CategorizationRuleWithCategory;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rules'] });
+    },
+  });
+}
+
+// Dismiss a rule suggestion
+export function useDismissRuleSuggestion() {
+  const { accessToken } = useAuthStore();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (suggestionId: string) => {
+      const res = await fetch(`${API_BASE}/rules/suggestions/${suggestionId}/dismiss`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error?.message || 'Failed to dismiss suggestion');
+      }
+
+      const { data } = await res.json();
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rules', 'suggestions'] });
+    },
+  });
+}
@@ -0,0 +1,132 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../utils/api';
+import type { AccountType } from '@otter-money/shared';
+import { accountKeys } from './useAccounts';
+import { transactionKeys } from './useTransactions';
+import { dashboardKeys } from './useDashboard';
+
+export interface SimplefinStatus {
+  connected: boolean;
+  createdAt: string | null;
+  lastSyncedAt: string | null;
+  accounts: Array<{
+    id: string;
+    name: string;
+    type: AccountType;
+    connectionStatus: string;
+    lastSyncedAt: string | null;
+    currentBalance: number;
+  }>;
+}
+
+export interface SimplefinBridgeAccount {
+  id: string;
+  name: string;
+  institutionName: string | null;
+  currency: string;
+  balance: number;
+  availableBalance: number | null;
+  suggestedType: AccountType;
+  linkedAccountId: string | null;
+  linkedAccountName: string | null;
+}
+
+export interface SimplefinBridgeAccounts {
+  errors: string[];
+  accounts: SimplefinBridgeAccount[];
+}
+
+export interface SimplefinAccountMapping {
+  simplefinAccountId: string;
+  existingAccountId?: string | null;
+  name?: string;
+  type?: AccountType;
+  ownerId?: string | null;
+}
+
+export interface SimplefinSyncResult {
+  accountsSynced: number;
+  added: number;
+  matched: number;
+  modified: number;
+  removed: number;
+  errors: string[];
+}
+
+// Query keys
+export const simplefinKeys = {
+  all: ['simplefin'] as const,
+  status: () => [...simplefinKeys.all, 'status'] as const,
+  accounts: () => [...simplefinKeys.all, 'accounts'] as const,
+};
+
+function useInvalidateSynced() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: simplefinKeys.all });
+    queryClient.invalidateQueries({ queryKey: accountKeys.all });
+    queryClient.invalidateQueries({ queryKey: transactionKeys.all });
+    queryClient.invalidateQueries({ queryKey: dashboardKeys.all });
+  };
+}
+
+// Hooks
+export function useSimplefinStatus() {
+  return useQuery({
+    queryKey: simplefinKeys.status(),
+    queryFn: () => api.get<SimplefinStatus>('/simplefin/status'),
+  });
+}
+
+export function useSimplefinAccounts(enabled: boolean) {
+  return useQuery({
+    queryKey: simplefinKeys.accounts(),
+    queryFn: () => api.get<SimplefinBridgeAccounts>('/simplefin/accounts'),
+    enabled,
+  });
+}
+
+export function useConnectSimplefin() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (setupToken: string) =>
+      api.post<SimplefinBridgeAccounts>('/simplefin/connect', { setupToken }),
+    onSuccess: (data) => {
+      queryClient.setQueryData(simplefinKeys.accounts(), data);
+      queryClient.invalidateQueries({ queryKey: simplefinKeys.status() });
+    },
+  });
+}
+
+export function useMapSimplefinAccounts() {
+  const invalidate = useInvalidateSynced();
+
+  return useMutation({
+    mutationFn: (mappings: SimplefinAccountMapping[]) =>
+      api.post<{ accountsLinked: number; accountsCreated: number; sync: SimplefinSyncResult }>(
+        '/simplefin/accounts/map',
+        { mappings }
+      ),
+    onSuccess: invalidate,
+  });
+}
+
+export function useSyncSimplefin() {
+  const invalidate = useInvalidateSynced();
+
+  return useMutation({
+    mutationFn: () => api.post<SimplefinSyncResult>('/simplefin/sync'),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDisconnectSimplefin() {
+  const invalidate = useInvalidateSynced();
+
+  return useMutation({
+    mutationFn: () =>
+      api.delete<{ accountsDisconnected: number; transactionsPreserved: number }>('/simplefin'),
+    onSuccess: invalidate,
+  });
+}
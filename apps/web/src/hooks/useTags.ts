@@ -0,0 +1,64 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../utils/api';
+import type { Tag, TagWithCount } from '@otter-money/shared';
+import { transactionKeys } from './useTransactions';
+
+interface CreateTagRequest {
+  name: string;
+  color?: string;
+}
+
+interface UpdateTagRequest {
+  name?: string;
+  color?: string | null;
+}
+
+// Query keys
+export const tagKeys = {
+  all: ['tags'] as const,
+  list: () => [...tagKeys.all, 'list'] as const,
+};
+
+export function useTags() {
+  return useQuery({
+    queryKey: tagKeys.list(),
+    queryFn: () => api.get<TagWithCount[]>('/tags'),
+  });
+}
+
+export function useCreateTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateTagRequest) => api.post<Tag>('/tags', data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+    },
+  });
+}
+
+export function useUpdateTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...data }: UpdateTagRequest & { id: string }) =>
+      api.patch<Tag>(`/tags/${id}`, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+      queryClient.invalidateQueries({ queryKey: transactionKeys.all });
+    },
+  });
+}
+
+export function useDeleteTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) =>
+      api.delete<{ message: string; transactionsAffected: number }>(`/tags/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+      queryClient.invalidateQueries({ queryKey: transactionKeys.all });
+    },
+  });
+}
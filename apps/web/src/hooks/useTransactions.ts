@@ -1,8 +1,10 @@
 import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { api, API_BASE } from '../utils/api';
-import type { TransactionWithDetails, AccountType } from '@otter-money/shared';
+import { api, apiFetch, API_BASE } from '../utils/api';
+import type { TransactionWithDetails, AccountType, TransactionSplitLine, Attachment } from '@otter-money/shared';
 import { accountKeys } from './useAccounts';
 import { dashboardKeys } from './useDashboard';
+import { budgetKeys } from './useBudgets';
+import { analyticsKeys } from './useAnalytics';
 
 // Extended transaction type with account owner
 export interface TransactionWithOwner extends TransactionWithDetails {
@@ -19,6 +21,7 @@ interface TransactionFilters {
   accountId?: string;
   categoryId?: string;
   ownerId?: string;
+  tagId?: string;
   startDate?: string;
   endDate?: string;
   search?: string;
@@ -35,6 +38,7 @@ interface CreateTransactionRequest {
   merchantName?: string;
   categoryId?: string | null;
   notes?: string;
+  tagIds?: string[];
 }
 
 interface UpdateTransactionRequest {
@@ -44,6 +48,8 @@ interface UpdateTransactionRequest {
   merchantName?: string | null;
   categoryId?: string | null;
   notes?: string | null;
+  excludeFromBudget?: boolean;
+  tagIds?: string[];
 }
 
 // Query keys
@@ -55,6 +61,9 @@ export const transactionKeys = {
   uncategorizedCount: () => [...transactionKeys.all, 'uncategorized-count'] as const,
   details: () => [...transactionKeys.all, 'detail'] as const,
   detail: (id: string) => [...transactionKeys.details(), id] as const,
+  attachments: (id: string) => [...transactionKeys.detail(id), 'attachments'] as const,
+  attachmentFile: (id: string, attachmentId: string) =>
+    [...transactionKeys.attachments(id), attachmentId, 'file'] as const,
 };
 
 // Hooks
@@ -66,6 +75,7 @@ export function useTransactions(filters: TransactionFilters = {}) {
       if (filters.accountId) params.accountId = filters.accountId;
       if (filters.categoryId) params.categoryId = filters.categoryId;
       if (filters.ownerId) params.ownerId = filters.ownerId;
+      if (filters.tagId) params.tagId = filters.tagId;
       if (filters.startDate) params.startDate = filters.startDate;
       if (filters.endDate) params.endDate = filters.endDate;
       if (filters.search) params.search = filters.search;
@@ -96,6 +106,7 @@ function buildParams(filters: TransactionFilters, offset?: number): URLSearchPar
   if (filters.accountId) params.accountId = filters.accountId;
   if (filters.categoryId) params.categoryId = filters.categoryId;
   if (filters.ownerId) params.ownerId = filters.ownerId;
+  if (filters.tagId) params.tagId = filters.tagId;
   if (filters.startDate) params.startDate = filters.startDate;
   if (filters.endDate) params.endDate = filters.endDate;
   if (filters.search) params.search = filters.search;
@@ -201,6 +212,70 @@ export function useDeleteTransaction() {
   });
 }
 
+export function useSplitTransaction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // Creates the split, or replaces the lines when the transaction is already split
+    mutationFn: ({ id, splits, isEdit }: { id: string; splits: TransactionSplitLine[]; isEdit: boolean }) =>
+      isEdit
+        ? api.patch<TransactionWithOwner>(`/transactions/${id}/split`, { splits })
+        : api.post<TransactionWithOwner>(`/transactions/${id}/split`, { splits }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: transactionKeys.all });
+      queryClient.setQueryData(transactionKeys.detail(data.id), data);
+      queryClient.invalidateQueries({ queryKey: dashboardKeys.all });
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+      queryClient.invalidateQueries({ queryKey: analyticsKeys.all });
+    },
+  });
+}
+
+export function useRemoveSplit() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete<TransactionWithOwner>(`/transactions/${id}/split`),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: transactionKeys.all });
+      queryClient.setQueryData(transactionKeys.detail(data.id), data);
+      queryClient.invalidateQueries({ queryKey: dashboardKeys.all });
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+      queryClient.invalidateQueries({ queryKey: analyticsKeys.all });
+    },
+  });
+}
+
+export function useConfirmTransfer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.post<TransactionWithOwner>(`/transactions/${id}/transfer/confirm`),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: transactionKeys.all });
+      queryClient.setQueryData(transactionKeys.detail(data.id), data);
+      queryClient.invalidateQueries({ queryKey: dashboardKeys.all });
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+      queryClient.invalidateQueries({ queryKey: analyticsKeys.all });
+    },
+  });
+}
+
+export function useUnlinkTransfer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.delete<TransactionWithOwner>(`/transactions/${id}/transfer`),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: transactionKeys.all });
+      queryClient.setQueryData(transactionKeys.detail(data.id), data);
+      queryClient.invalidateQueries({ queryKey: dashboardKeys.all });
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+      queryClient.invalidateQueries({ queryKey: analyticsKeys.all });
+    },
+  });
+}
+
 export function useBulkCategorize() {
   const queryClient = useQueryClient();
 
@@ -212,3 +287,58 @@ export function useBulkCategorize() {
     },
   });
 }
+
+export function useTransactionAttachments(transactionId: string | undefined) {
+  return useQuery({
+    queryKey: transactionKeys.attachments(transactionId!),
+    queryFn: () => api.get<Attachment[]>(`/transactions/${transactionId}/attachments`),
+    enabled: !!transactionId,
+  });
+}
+
+// The file itself, as an object URL for thumbnails and previews
+export function useAttachmentFileUrl(transactionId: string, attachmentId: string) {
+  return useQuery({
+    queryKey: transactionKeys.attachmentFile(transactionId, attachmentId),
+    queryFn: async () => {
+      const response = await fetch(`${API_BASE}/transactions/${transactionId}/attachments/${attachmentId}`, {
+        headers: getAuthHeader(),
+      });
+      if (!response.ok) throw new Error('Failed to load attachment');
+      return URL.createObjectURL(await response.blob());
+    },
+    staleTime: Infinity,
+    gcTime: 5 * 60 * 1000,
+  });
+}
+
+export function useUploadAttachment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ transactionId, file }: { transactionId: string; file: File }) =>
+      apiFetch<Attachment>(`/transactions/${transactionId}/attachments`, {
+        method: 'POST',
+        params: { fileName: file.name },
+        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+        body: file,
+      }),
+    onSuccess: (_data, { transactionId }) => {
+      // Exact, so thumbnails already loaded aren't fetched again
+      queryClient.invalidateQueries({ queryKey: transactionKeys.attachments(transactionId), exact: true });
+    },
+  });
+}
+
+export function useDeleteAttachment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ transactionId, attachmentId }: { transactionId: string; attachmentId: string }) =>
+      api.delete<{ message: string }>(`/transactions/${transactionId}/attachments/${attachmentId}`),
+    onSuccess: (_data, { transactionId, attachmentId }) => {
+      queryClient.removeQueries({ queryKey: transactionKeys.attachmentFile(transactionId, attachmentId) });
+      queryClient.invalidateQueries({ queryKey: transactionKeys.attachments(transactionId), exact: true });
+    },
+  });
+}
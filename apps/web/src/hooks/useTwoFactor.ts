@@ -0,0 +1,77 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { TwoFactorSetup, TwoFactorStatus } from '@otter-money/shared';
+import { api } from '../utils/api';
+import { useAuthStore } from '../stores/auth';
+
+// Query keys
+export const twoFactorKeys = {
+  all: ['twoFactor'] as const,
+  status: () => [...twoFactorKeys.all, 'status'] as const,
+};
+
+// Hooks
+export function useTwoFactorStatus() {
+  return useQuery({
+    queryKey: twoFactorKeys.status(),
+    queryFn: () => api.get<TwoFactorStatus>('/auth/two-factor'),
+  });
+}
+
+export function useStartTwoFactorSetup() {
+  return useMutation({
+    mutationFn: () => api.post<TwoFactorSetup>('/auth/two-factor/setup'),
+  });
+}
+
+// The auth store is updated by the caller once the recovery codes have been saved
+export function useEnableTwoFactor() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (code: string) =>
+      api.post<{ recoveryCodes: string[] }>('/auth/two-factor/enable', { code }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: twoFactorKeys.all });
+    },
+  });
+}
+
+export function useDisableTwoFactor() {
+  const queryClient = useQueryClient();
+  const updateUser = useAuthStore((state) => state.updateUser);
+
+  return useMutation({
+    mutationFn: (data: { password: string; code?: string; recoveryCode?: string }) =>
+      api.post<{ success: boolean }>('/auth/two-factor/disable', data),
+    onSuccess: () => {
+      updateUser({ twoFactorEnabled: false });
+      queryClient.invalidateQueries({ queryKey: twoFactorKeys.all });
+    },
+  });
+}
+
+export function useRegenerateRecoveryCodes() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (code: string) =>
+      api.post<{ recoveryCodes: string[] }>('/auth/two-factor/recovery-codes', { code }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: twoFactorKeys.all });
+    },
+  });
+}
+
+// Organizer setting: everyone in the household must use 2FA
+export function useSetRequireTwoFactor() {
+  const queryClient = useQueryClient();
+  const updateHousehold = useAuthStore((state) => state.updateHousehold);
+
+  return useMutation({
+    mutationFn: (requireTwoFactor: boolean) => api.patch('/household', { requireTwoFactor }),
+    onSuccess: (_data, requireTwoFactor) => {
+      updateHousehold({ requireTwoFactor });
+      queryClient.invalidateQueries({ queryKey: twoFactorKeys.all });
+    },
+  });
+}
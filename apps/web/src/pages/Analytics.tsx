@@ -5,6 +5,7 @@ import {
   useSpendingTrends,
   useSpendingComparison,
   useSpendingByPartner,
+  useSpendingByTag,
   getCurrentPeriod,
   getPrevPeriod,
 } from '../hooks/useAnalytics';
@@ -39,6 +40,7 @@ export default function Analytics() {
     getPrevPeriod(selectedPeriod)
   );
   const { data: partnerData } = useSpendingByPartner(selectedPeriod);
+  const { data: tagData } = useSpendingByTag(selectedPeriod, undefined, undefined, selectedPartnerId);
 
   const members = Array.isArray(membersData) ? membersData : [];
 
@@ -202,6 +204,37 @@ export default function Analytics() {
             </div>
           </div>
 
+          {/* Tag Breakdown (tags cut across categories) */}
+          {tagData && tagData.byTag.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Spending by Tag</h3>
+              <div className="space-y-3">
+                {tagData.byTag.map((tag) => (
+                  <div key={tag.tagId} className="flex items-center justify-between p-3">
+                    <div className="min-w-0 flex-1">
+                      <div className="font-medium" style={{ color: tag.tagColor || undefined }}>
+                        #{tag.tagName}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {tag.transactionCount} transaction{tag.transactionCount !== 1 ? 's' : ''}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="font-semibold text-gray-900">
+                        ${tag.expense.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
+                      </div>
+                      {tag.income > 0 && (
+                        <div className="text-xs text-green-600">
+                          +${tag.income.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Partner Breakdown (if multiple members) */}
           {members.length > 1 && !selectedPartnerId && (
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
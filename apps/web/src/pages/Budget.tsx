@@ -1,29 +1,47 @@
 import { useState } from 'react';
 import { toast } from 'sonner';
+import { BUDGET_CADENCE_CONFIG, getPeriodCadence } from '@otter-money/shared';
 import {
   useBudgets,
   useBudgetSpending,
   useDeleteBudget,
   useCopyBudget,
-  getCurrentPeriod,
+  useCurrentBudgetPeriod,
   getNextPeriod,
   getPrevPeriod,
   formatPeriod,
   type Budget as BudgetType,
 } from '../hooks/useBudgets';
 import BudgetModal from '../components/BudgetModal';
+import BudgetTemplateModal from '../components/BudgetTemplateModal';
+import EnvelopeView from '../components/EnvelopeView';
+import { useHouseholdMembers } from '../hooks/useHousehold';
+import { useAuthStore } from '../stores/auth';
+
+// "+ $40" / "− $25"
+function formatCarryOver(amount: number): string {
+  return `${amount >= 0 ? '+' : '−'} $${Math.abs(amount).toLocaleString()}`;
+}
 
 export default function Budget() {
-  const [selectedPeriod, setSelectedPeriod] = useState(getCurrentPeriod());
+  const currentPeriod = useCurrentBudgetPeriod();
+  // Follows the current period (and the household's cadence) until another is picked
+  const [pickedPeriod, setPickedPeriod] = useState<string | null>(null);
+  const selectedPeriod = pickedPeriod ?? currentPeriod;
+  const periodNoun = BUDGET_CADENCE_CONFIG[getPeriodCadence(selectedPeriod)].noun;
+  const isEnvelopeMode = useAuthStore((state) => state.household?.budgetMode === 'ENVELOPE');
   const [showModal, setShowModal] = useState(false);
   const [editingBudget, setEditingBudget] = useState<BudgetType | null>(null);
+  const [showTemplate, setShowTemplate] = useState(false);
+  // Partner whose personal budgets are shown; null = the combined view
+  const [viewOwnerId, setViewOwnerId] = useState<string | null>(null);
 
-  const { data: budgets, isLoading: loadingBudgets } = useBudgets(selectedPeriod);
+  const { data: allBudgets, isLoading: loadingBudgets } = useBudgets(selectedPeriod);
   const { data: spendingData, isLoading: loadingSpending } = useBudgetSpending(selectedPeriod);
+  const { data: householdMembers } = useHouseholdMembers();
   const deleteBudget = useDeleteBudget();
   const copyBudget = useCopyBudget();
 
-  const currentPeriod = getCurrentPeriod();
   const isCurrentPeriod = selectedPeriod === currentPeriod;
 
   const handleCreateBudget = () => {
@@ -47,11 +65,15 @@ export default function Budget() {
     }
   };
 
+  // With budgets already set this period, only the missing categories are copied
   const handleCopyFromPrevious = async () => {
     const prevPeriod = getPrevPeriod(selectedPeriod);
-    const confirmMessage = `Copy all budgets from ${formatPeriod(prevPeriod)} to ${formatPeriod(
-      selectedPeriod
-    )}?\n\nThis will replace any existing budgets for ${formatPeriod(selectedPeriod)}.`;
+    const merge = !!allBudgets && allBudgets.length > 0;
+    const confirmMessage = merge
+      ? `Add budgets from ${formatPeriod(prevPeriod)} for categories that don't have one in ${formatPeriod(
+          selectedPeriod
+        )}?`
+      : `Copy all budgets from ${formatPeriod(prevPeriod)} to ${formatPeriod(selectedPeriod)}?`;
 
     if (!confirm(confirmMessage)) return;
 
@@ -59,6 +81,7 @@ export default function Budget() {
       const result = await copyBudget.mutateAsync({
         fromPeriod: prevPeriod,
         toPeriod: selectedPeriod,
+        mode: merge ? 'merge' : 'replace',
       });
       toast.success(result.message);
     } catch (err: any) {
@@ -68,15 +91,15 @@ export default function Budget() {
   };
 
   const handlePrevPeriod = () => {
-    setSelectedPeriod(getPrevPeriod(selectedPeriod));
+    setPickedPeriod(getPrevPeriod(selectedPeriod));
   };
 
   const handleNextPeriod = () => {
-    setSelectedPeriod(getNextPeriod(selectedPeriod));
+    setPickedPeriod(getNextPeriod(selectedPeriod));
   };
 
   const handleCurrentPeriod = () => {
-    setSelectedPeriod(currentPeriod);
+    setPickedPeriod(null);
   };
 
   if (loadingBudgets || loadingSpending) {
@@ -87,8 +110,13 @@ export default function Budget() {
     );
   }
 
-  const spending = spendingData?.data || [];
   const members = spendingData?.members || [];
+  const viewOwner = householdMembers?.find((m) => m.id === viewOwnerId);
+  const ownerName = (ownerId: string) => members.find((m) => m.id === ownerId)?.name ?? 'Partner';
+
+  // The combined view has joint and personal budgets alike
+  const budgets = viewOwnerId ? allBudgets?.filter((b) => b.ownerId === viewOwnerId) : allBudgets;
+  const spending = (spendingData?.data || []).filter((s) => !viewOwnerId || s.ownerId === viewOwnerId);
 
   console.log('[Budget Page] Spending data received:', spending);
   console.log('[Budget Page] Members:', members);
@@ -96,9 +124,11 @@ export default function Budget() {
 
   // Calculate overall totals
   const totalBudgeted = spending.reduce((sum, s) => sum + s.budgetAmount, 0);
+  const totalCarriedIn = spending.reduce((sum, s) => sum + s.carriedIn, 0);
+  const totalAvailable = totalBudgeted + totalCarriedIn;
   const totalSpent = spending.reduce((sum, s) => sum + s.totalSpent, 0);
-  const totalRemaining = Math.max(0, totalBudgeted - totalSpent);
-  const overallPercentUsed = totalBudgeted > 0 ? (totalSpent / totalBudgeted) * 100 : 0;
+  const totalRemaining = Math.max(0, totalAvailable - totalSpent);
+  const overallPercentUsed = totalAvailable > 0 ? (totalSpent / totalAvailable) * 100 : 0;
 
   return (
     <div className="max-w-6xl mx-auto p-4 pb-20">
@@ -108,12 +138,25 @@ export default function Budget() {
           <h1 className="text-2xl font-bold text-gray-900">Budget</h1>
           <p className="text-sm text-gray-600 mt-1">Track household spending by category</p>
         </div>
-        <button
-          onClick={handleCreateBudget}
-          className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
-        >
-          + Add Budget
-        </button>
+        <div className="flex gap-2">
+          {/* Envelopes are filled from income, so the template and copying don't apply */}
+          {!isEnvelopeMode && (
+            <button
+              onClick={() => setShowTemplate(true)}
+              className="border border-purple-600 text-purple-600 px-4 py-2 rounded-lg hover:bg-purple-50 transition-colors"
+            >
+              Template
+            </button>
+          )}
+          {(!isEnvelopeMode || viewOwnerId) && (
+            <button
+              onClick={handleCreateBudget}
+              className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+            >
+              + Add Budget
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Period selector */}
@@ -147,237 +190,331 @@ export default function Budget() {
         </div>
 
         {/* Quick actions */}
-        {budgets && budgets.length === 0 && (
+        {allBudgets && !isEnvelopeMode && (
           <div className="mt-4 pt-4 border-t border-gray-200">
             <button
               onClick={handleCopyFromPrevious}
               disabled={copyBudget.isPending}
               className="text-sm text-purple-600 hover:text-purple-700 font-medium disabled:opacity-50"
             >
-              {copyBudget.isPending ? 'Copying...' : 'Copy from previous month'}
+              {copyBudget.isPending
+                ? 'Copying...'
+                : allBudgets.length === 0
+                ? `Copy from previous ${periodNoun}`
+                : `Add missing budgets from previous ${periodNoun}`}
             </button>
           </div>
         )}
       </div>
 
-      {/* Overall summary */}
-      {spending.length > 0 && (
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
-          <h3 className="text-sm font-medium text-gray-700 mb-4">Overall Budget</h3>
-          <div className="grid grid-cols-3 gap-4 mb-4">
-            <div>
-              <div className="text-2xl font-bold text-gray-900">
-                ${totalBudgeted.toLocaleString()}
-              </div>
-              <div className="text-xs text-gray-600">Budgeted</div>
-            </div>
-            <div>
-              <div className="text-2xl font-bold text-purple-600">
-                ${totalSpent.toLocaleString()}
-              </div>
-              <div className="text-xs text-gray-600">Spent</div>
-            </div>
-            <div>
-              <div className="text-2xl font-bold text-green-600">
-                ${totalRemaining.toLocaleString()}
-              </div>
-              <div className="text-xs text-gray-600">Remaining</div>
-            </div>
-          </div>
-
-          {/* Overall progress bar */}
-          <div className="relative h-3 bg-gray-200 rounded-full overflow-hidden">
-            <div
-              className={`absolute inset-y-0 left-0 rounded-full transition-all ${
-                overallPercentUsed > 100
-                  ? 'bg-red-500'
-                  : overallPercentUsed >= 90
-                  ? 'bg-yellow-500'
-                  : 'bg-purple-600'
-              }`}
-              style={{ width: `${Math.min(overallPercentUsed, 100)}%` }}
-            />
-          </div>
-          <div className="text-xs text-gray-600 mt-1 text-right">
-            {overallPercentUsed.toFixed(1)}% used
-          </div>
-        </div>
-      )}
-
-      {/* Budget list */}
-      {!budgets || budgets.length === 0 ? (
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
-          <div className="text-gray-400 text-5xl mb-4">💰</div>
-          <h3 className="text-lg font-semibold text-gray-900 mb-2">
-            No budgets for {formatPeriod(selectedPeriod)}
-          </h3>
-          <p className="text-gray-600 mb-4">
-            Create budgets to track your household spending by category
-          </p>
-          <div className="flex gap-3 justify-center">
+      {/* Combined and per-partner views */}
+      {householdMembers && householdMembers.length > 1 && (
+        <div className="flex gap-2 mb-6">
+          {[{ id: null, name: 'Together' }, ...householdMembers].map((member) => (
             <button
-              onClick={handleCreateBudget}
-              className="bg-purple-600 text-white px-6 py-2 rounded-lg hover:bg-purple-700 transition-colors"
-            >
-              Create Budget
-            </button>
-            <button
-              onClick={handleCopyFromPrevious}
-              disabled={copyBudget.isPending}
-              className="border border-purple-600 text-purple-600 px-6 py-2 rounded-lg hover:bg-purple-50 transition-colors disabled:opacity-50"
+              key={member.id ?? 'together'}
+              onClick={() => setViewOwnerId(member.id)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                viewOwnerId === member.id
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-50'
+              }`}
             >
-              {copyBudget.isPending ? 'Copying...' : 'Copy from Previous Month'}
+              {member.name}
             </button>
-          </div>
+          ))}
         </div>
-      ) : (
-        <div className="space-y-4">
-          {budgets.map((budget) => {
-            // Find spending data for this budget (may not exist if no transactions yet)
-            const spendingItem = spending.find((s) => s.categoryId === budget.categoryId);
-
-            // If no spending data, create default values
-            const item = spendingItem || {
-              categoryId: budget.categoryId,
-              categoryName: budget.category.name,
-              categoryType: budget.category.type,
-              categoryIcon: budget.category.icon,
-              categoryColor: budget.category.color,
-              budgetAmount: budget.amount,
-              totalSpent: 0,
-              byPartner: members.map(m => ({ userId: m.id, userName: m.name, spent: 0 })),
-              percentUsed: 0,
-              remaining: budget.amount,
-              status: 'on-track' as const,
-            };
-
-            return (
-              <div
-                key={item.categoryId}
-                className="bg-white rounded-lg shadow-sm border border-gray-200 p-5"
-              >
-                {/* Category header */}
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex items-center gap-3">
-                    <span
-                      className="text-2xl flex items-center justify-center w-12 h-12 rounded-full"
-                      style={{
-                        backgroundColor: item.categoryColor
-                          ? `${item.categoryColor}20`
-                          : '#f3f4f6',
-                      }}
-                    >
-                      {item.categoryIcon || '📦'}
-                    </span>
-                    <div>
-                      <h3 className="font-semibold text-gray-900">{item.categoryName}</h3>
-                      <div className="text-sm text-gray-600">
-                        ${item.totalSpent.toLocaleString()} of ${item.budgetAmount.toLocaleString()}
-                      </div>
-                    </div>
-                  </div>
+      )}
 
-                  <div className="flex gap-2">
-                    <button
-                      onClick={() => handleEditBudget(budget)}
-                      className="text-sm text-purple-600 hover:text-purple-700 font-medium"
-                    >
-                      Edit
-                    </button>
-                    <button
-                      onClick={() => handleDeleteBudget(budget.id)}
-                      className="text-sm text-red-600 hover:text-red-700 font-medium"
-                      disabled={deleteBudget.isPending}
-                    >
-                      Delete
-                    </button>
+      {isEnvelopeMode && !viewOwnerId ? (
+        <EnvelopeView period={selectedPeriod} periodNoun={periodNoun} />
+      ) : (
+        <>
+          {/* Overall summary */}
+          {spending.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+              <h3 className="text-sm font-medium text-gray-700 mb-4">Overall Budget</h3>
+              <div className="grid grid-cols-3 gap-4 mb-4">
+                <div>
+                  <div className="text-2xl font-bold text-gray-900">
+                    ${totalBudgeted.toLocaleString()}
                   </div>
+                  <div className="text-xs text-gray-600">Budgeted</div>
+                  {totalCarriedIn !== 0 && (
+                    <div className={`text-xs mt-0.5 ${totalCarriedIn > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatCarryOver(totalCarriedIn)} carried over
+                    </div>
+                  )}
                 </div>
-
-                {/* Progress bar */}
-                <div className="mb-3">
-                  <div className="relative h-3 bg-gray-200 rounded-full overflow-hidden">
-                    <div
-                      className={`absolute inset-y-0 left-0 rounded-full transition-all ${
-                        item.status === 'exceeded'
-                          ? 'bg-red-500'
-                          : item.status === 'warning'
-                          ? 'bg-yellow-500'
-                          : 'bg-purple-600'
-                      }`}
-                      style={{ width: `${Math.min(item.percentUsed, 100)}%` }}
-                    />
+                <div>
+                  <div className="text-2xl font-bold text-purple-600">
+                    ${totalSpent.toLocaleString()}
                   </div>
-                  <div className="flex justify-between items-center mt-1">
-                    <span className="text-xs text-gray-600">{item.percentUsed.toFixed(1)}% used</span>
-                    <span
-                      className={`text-xs font-medium ${
-                        item.status === 'exceeded'
-                          ? 'text-red-600'
-                          : item.status === 'warning'
-                          ? 'text-yellow-600'
-                          : 'text-green-600'
-                      }`}
-                    >
-                      ${item.remaining.toLocaleString()} remaining
-                    </span>
+                  <div className="text-xs text-gray-600">Spent</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-green-600">
+                    ${totalRemaining.toLocaleString()}
                   </div>
+                  <div className="text-xs text-gray-600">Remaining</div>
                 </div>
+              </div>
 
-                {/* Partner breakdown */}
-                {members.length > 1 && (
-                  <div className="mt-4 pt-4 border-t border-gray-200">
-                    <div className="text-xs font-medium text-gray-700 mb-2">Spending by partner:</div>
-                    <div className="grid grid-cols-2 gap-3">
-                      {item.byPartner.map((partner) => (
-                        <div key={partner.userId} className="flex justify-between items-center">
-                          <span className="text-sm text-gray-600">{partner.userName}</span>
-                          <span className="text-sm font-medium text-gray-900">
-                            ${partner.spent.toLocaleString()}
-                          </span>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
+              {/* Overall progress bar */}
+              <div className="relative h-3 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className={`absolute inset-y-0 left-0 rounded-full transition-all ${
+                    overallPercentUsed > 100
+                      ? 'bg-red-500'
+                      : overallPercentUsed >= 90
+                      ? 'bg-yellow-500'
+                      : 'bg-purple-600'
+                  }`}
+                  style={{ width: `${Math.min(overallPercentUsed, 100)}%` }}
+                />
+              </div>
+              <div className="text-xs text-gray-600 mt-1 text-right">
+                {overallPercentUsed.toFixed(1)}% used
+              </div>
+            </div>
+          )}
+
+          {/* Budget list */}
+          {!budgets || budgets.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+              <div className="text-gray-400 text-5xl mb-4">💰</div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                {viewOwner
+                  ? `No personal budgets for ${viewOwner.name} in ${formatPeriod(selectedPeriod)}`
+                  : `No budgets for ${formatPeriod(selectedPeriod)}`}
+              </h3>
+              <p className="text-gray-600 mb-4">
+                {viewOwner
+                  ? `Give ${viewOwner.name} an allowance, like fun money, that only their own spending counts toward`
+                  : 'Create budgets to track your household spending by category'}
+              </p>
+              <div className="flex gap-3 justify-center">
+                <button
+                  onClick={handleCreateBudget}
+                  className="bg-purple-600 text-white px-6 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+                >
+                  Create Budget
+                </button>
+                {!viewOwnerId && (
+                  <button
+                    onClick={handleCopyFromPrevious}
+                    disabled={copyBudget.isPending}
+                    className="border border-purple-600 text-purple-600 px-6 py-2 rounded-lg hover:bg-purple-50 transition-colors disabled:opacity-50"
+                  >
+                    {copyBudget.isPending ? 'Copying...' : `Copy from previous ${periodNoun}`}
+                  </button>
                 )}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {budgets.map((budget) => {
+                // Find spending data for this budget (may not exist if no transactions yet)
+                const spendingItem = spending.find((s) => s.budgetId === budget.id);
+
+                // If no spending data, create default values
+                const item = spendingItem || {
+                  budgetId: budget.id,
+                  categoryId: budget.categoryId,
+                  ownerId: budget.ownerId,
+                  categoryName: budget.category.name,
+                  categoryType: budget.category.type,
+                  categoryIcon: budget.category.icon,
+                  categoryColor: budget.category.color,
+                  budgetAmount: budget.amount,
+                  rollover: budget.rollover,
+                  carriedIn: 0,
+                  carriedOut: 0,
+                  available: budget.amount,
+                  totalSpent: 0,
+                  byPartner: members.map(m => ({ userId: m.id, userName: m.name, spent: 0 })),
+                  percentUsed: 0,
+                  remaining: budget.amount,
+                  status: 'on-track' as const,
+                };
+
+                return (
+                  <div
+                    key={item.budgetId}
+                    className="bg-white rounded-lg shadow-sm border border-gray-200 p-5"
+                  >
+                    {/* Category header */}
+                    <div className="flex items-start justify-between mb-4">
+                      <div className="flex items-center gap-3">
+                        <span
+                          className="text-2xl flex items-center justify-center w-12 h-12 rounded-full"
+                          style={{
+                            backgroundColor: item.categoryColor
+                              ? `${item.categoryColor}20`
+                              : '#f3f4f6',
+                          }}
+                        >
+                          {item.categoryIcon || '📦'}
+                        </span>
+                        <div>
+                          <h3 className="font-semibold text-gray-900">
+                            {item.categoryName}
+                            {budget.ownerId && !viewOwnerId && (
+                              <span className="ml-2 align-middle text-xs font-normal text-purple-700 bg-purple-50 rounded px-1.5 py-0.5">
+                                {ownerName(budget.ownerId)}
+                              </span>
+                            )}
+                            {budget.fromTemplate && (
+                              <span className="ml-2 align-middle text-xs font-normal text-gray-500 bg-gray-100 rounded px-1.5 py-0.5">
+                                Template
+                              </span>
+                            )}
+                          </h3>
+                          <div className="text-sm text-gray-600">
+                            ${item.totalSpent.toLocaleString()} of ${item.available.toLocaleString()}
+                          </div>
+                          {item.carriedIn !== 0 && (
+                            <div className={`text-xs ${item.carriedIn > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              ${item.budgetAmount.toLocaleString()} budget {formatCarryOver(item.carriedIn)} from last {periodNoun}
+                            </div>
+                          )}
+                        </div>
+                      </div>
 
-                {/* Status badge */}
-                {item.status === 'exceeded' && (
-                  <div className="mt-3 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
-                    <div className="text-sm text-red-800">
-                      ⚠️ Budget exceeded by ${(item.totalSpent - item.budgetAmount).toLocaleString()}
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleEditBudget(budget)}
+                          className="text-sm text-purple-600 hover:text-purple-700 font-medium"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDeleteBudget(budget.id)}
+                          className="text-sm text-red-600 hover:text-red-700 font-medium"
+                          disabled={deleteBudget.isPending}
+                        >
+                          Delete
+                        </button>
+                      </div>
                     </div>
-                  </div>
-                )}
-                {item.status === 'warning' && (
-                  <div className="mt-3 bg-yellow-50 border border-yellow-200 rounded-lg px-3 py-2">
-                    <div className="text-sm text-yellow-800">
-                      ⚡ Approaching budget limit
+
+                    {/* Progress bar */}
+                    <div className="mb-3">
+                      <div className="relative h-3 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className={`absolute inset-y-0 left-0 rounded-full transition-all ${
+                            item.status === 'exceeded'
+                              ? 'bg-red-500'
+                              : item.status === 'warning'
+                              ? 'bg-yellow-500'
+                              : 'bg-purple-600'
+                          }`}
+                          style={{ width: `${Math.min(item.percentUsed, 100)}%` }}
+                        />
+                      </div>
+                      <div className="flex justify-between items-center mt-1">
+                        <span className="text-xs text-gray-600">{item.percentUsed.toFixed(1)}% used</span>
+                        <span
+                          className={`text-xs font-medium ${
+                            item.status === 'exceeded'
+                              ? 'text-red-600'
+                              : item.status === 'warning'
+                              ? 'text-yellow-600'
+                              : 'text-green-600'
+                          }`}
+                        >
+                          ${item.remaining.toLocaleString()} remaining
+                        </span>
+                      </div>
+                      {item.rollover && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {item.carriedOut >= 0
+                            ? `$${item.carriedOut.toLocaleString()} rolls over to next ${periodNoun}`
+                            : `$${Math.abs(item.carriedOut).toLocaleString()} overspent comes out of next ${periodNoun}`}
+                        </div>
+                      )}
                     </div>
+
+                    {/* Partner breakdown (a personal budget only counts its owner's spending) */}
+                    {members.length > 1 && !budget.ownerId && (
+                      <div className="mt-4 pt-4 border-t border-gray-200">
+                        <div className="text-xs font-medium text-gray-700 mb-2">Spending by partner:</div>
+                        <div className="grid grid-cols-2 gap-3">
+                          {item.byPartner.map((partner) => (
+                            <div key={partner.userId} className="flex justify-between items-center">
+                              <span className="text-sm text-gray-600">{partner.userName}</span>
+                              <span className="text-sm font-medium text-gray-900">
+                                ${partner.spent.toLocaleString()}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Status badge */}
+                    {item.status === 'exceeded' && (
+                      <div className="mt-3 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
+                        <div className="text-sm text-red-800">
+                          ⚠️ Budget exceeded by ${(item.totalSpent - item.available).toLocaleString()}
+                        </div>
+                      </div>
+                    )}
+                    {item.status === 'warning' && (
+                      <div className="mt-3 bg-yellow-50 border border-yellow-200 rounded-lg px-3 py-2">
+                        <div className="text-sm text-yellow-800">
+                          ⚡ Approaching budget limit
+                        </div>
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
-            );
-          })}
-        </div>
+                );
+              })}
+            </div>
+          )}
+        </>
       )}
 
       {/* Info box */}
       <div className="mt-6 bg-purple-50 border border-purple-200 rounded-lg p-4">
         <h4 className="font-semibold text-purple-900 mb-2">How budgets work:</h4>
-        <ul className="text-sm text-purple-800 space-y-1">
-          <li>• Budgets are shared across your household</li>
-          <li>• Both partners' spending counts toward the budget</li>
-          <li>• Only expense categories can have budgets</li>
-          <li>• Budgets are set monthly and reset each period</li>
-        </ul>
+        {isEnvelopeMode && !viewOwnerId ? (
+          <ul className="text-sm text-purple-800 space-y-1">
+            <li>• Each {periodNoun}'s income is yours to assign to envelopes until nothing is left</li>
+            <li>• Both partners' spending comes out of the same envelopes, except what's covered by a personal budget</li>
+            <li>• Personal budgets (allowances) are set in each partner's view and count as assigned</li>
+            <li>• Move money between envelopes whenever plans change; every move is kept in the assignments list</li>
+            <li>• What's left in an envelope (or overspent) carries into the next {periodNoun}</li>
+            <li>• The household organizer can switch back to regular budgets in Settings</li>
+          </ul>
+        ) : (
+          <ul className="text-sm text-purple-800 space-y-1">
+            <li>• Joint budgets are shared across your household, and both partners' spending counts toward them</li>
+            <li>
+              • Personal budgets belong to one partner and only count spending from their own accounts and splits
+              attributed to them
+            </li>
+            <li>• A partner's spending in a category they have a personal budget for doesn't count toward the joint one</li>
+            <li>• Only expense categories can have budgets</li>
+            <li>
+              • Budgets are set each {periodNoun}; with rollover on, what's left (or overspent) carries into the next
+            </li>
+            <li>• Budgets in your template are created automatically at the start of each {periodNoun}</li>
+            <li>• The household organizer can change the budget period in Settings</li>
+          </ul>
+        )}
       </div>
 
+      {showTemplate && (
+        <BudgetTemplateModal period={selectedPeriod} onClose={() => setShowTemplate(false)} />
+      )}
+
       {/* Modal */}
       {showModal && (
         <BudgetModal
           budget={editingBudget}
           period={selectedPeriod}
+          ownerId={viewOwnerId}
           onClose={() => {
             setShowModal(false);
             setEditingBudget(null);
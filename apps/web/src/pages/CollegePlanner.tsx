@@ -0,0 +1,395 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { toast } from 'sonner';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import {
+  useCollegePlans,
+  useCollegePlan,
+  useDeleteCollegePlan,
+  useSyncCollegePlanGoal,
+  type CollegePlan,
+  type CollegeProgress,
+} from '../hooks/useCollegePlans';
+import { formatCurrency, formatTargetDate } from '../hooks/useGoals';
+import CollegePlanModal from '../components/CollegePlanModal';
+
+export default function CollegePlanner() {
+  const [showModal, setShowModal] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<CollegePlan | null>(null);
+  const [expandedPlanId, setExpandedPlanId] = useState<string | null>(null);
+
+  const { data: plans, isLoading } = useCollegePlans();
+  const deletePlan = useDeleteCollegePlan();
+  const syncGoal = useSyncCollegePlanGoal();
+
+  const handleCreatePlan = () => {
+    setEditingPlan(null);
+    setShowModal(true);
+  };
+
+  const handleEditPlan = (plan: CollegePlan) => {
+    setEditingPlan(plan);
+    setShowModal(true);
+  };
+
+  const handleDeletePlan = async (plan: CollegePlan) => {
+    const message = plan.goalId
+      ? `Delete the college plan for ${plan.childName}? Its goal will be kept.`
+      : `Delete the college plan for ${plan.childName}?`;
+    if (!confirm(message)) return;
+
+    try {
+      await deletePlan.mutateAsync(plan.id);
+    } catch (err) {
+      console.error('Failed to delete college plan:', err);
+      toast.error('Failed to delete plan. Please try again.');
+    }
+  };
+
+  const handleSyncGoal = async (plan: CollegePlan) => {
+    try {
+      await syncGoal.mutateAsync(plan.id);
+      toast.success(plan.goalId ? 'Goal updated' : 'Goal created');
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to save goal');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-gray-500">Loading college plans...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto p-4 pb-20">
+      {/* Header */}
+      <Link to="/goals" className="text-sm text-gray-500 hover:text-gray-700">
+        ← Back to Goals
+      </Link>
+      <div className="flex justify-between items-start mt-2 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">College Planner</h1>
+          <p className="text-sm text-gray-600 mt-1">Plan and track education savings for your kids</p>
+        </div>
+        <button
+          onClick={handleCreatePlan}
+          className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+        >
+          + New Plan
+        </button>
+      </div>
+
+      {!plans || plans.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+          <div className="text-gray-400 text-5xl mb-4">🎓</div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">No college plans yet</h3>
+          <p className="text-gray-600 mb-4">
+            See what school will cost and how much to save each month
+          </p>
+          <button
+            onClick={handleCreatePlan}
+            className="bg-purple-600 text-white px-6 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+          >
+            Plan for a Child
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {plans.map((plan) => (
+            <CollegePlanCard
+              key={plan.id}
+              plan={plan}
+              isExpanded={expandedPlanId === plan.id}
+              onToggle={() => setExpandedPlanId(expandedPlanId === plan.id ? null : plan.id)}
+              onEdit={() => handleEditPlan(plan)}
+              onDelete={() => handleDeletePlan(plan)}
+              onSyncGoal={() => handleSyncGoal(plan)}
+              isSyncingGoal={syncGoal.isPending && syncGoal.variables === plan.id}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Info box */}
+      <div className="mt-6 bg-purple-50 border border-purple-200 rounded-lg p-4">
+        <h4 className="font-semibold text-purple-900 mb-2">How the planner works:</h4>
+        <ul className="text-sm text-purple-800 space-y-1">
+          <li>• School costs grow with education inflation until each year starts</li>
+          <li>• Savings grow at the expected return, with contributions at the end of each month</li>
+          <li>• Progress compares your linked accounts with the plan's path since it was created</li>
+          <li>• Turn a plan into a goal to see it alongside your other goals</li>
+        </ul>
+      </div>
+
+      {showModal && (
+        <CollegePlanModal
+          plan={editingPlan}
+          onClose={() => {
+            setShowModal(false);
+            setEditingPlan(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface CollegePlanCardProps {
+  plan: CollegePlan;
+  isExpanded: boolean;
+  onToggle: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+  onSyncGoal: () => void;
+  isSyncingGoal: boolean;
+}
+
+function CollegePlanCard({
+  plan,
+  isExpanded,
+  onToggle,
+  onEdit,
+  onDelete,
+  onSyncGoal,
+  isSyncingGoal,
+}: CollegePlanCardProps) {
+  const { projection } = plan;
+  const yearsUntil = Math.floor(projection.monthsUntilEnrollment / 12);
+  const monthsUntil = projection.monthsUntilEnrollment % 12;
+  const funded = Math.min(projection.fundedPercent, 100);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="p-5">
+        <div className="flex items-start justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <span className="text-2xl flex items-center justify-center w-12 h-12 rounded-full bg-purple-50">
+              🎓
+            </span>
+            <div>
+              <h3 className="font-semibold text-gray-900">{plan.childName}</h3>
+              <div className="text-sm text-gray-600">
+                Starts school {formatTargetDate(projection.enrollmentDate)}
+                {projection.monthsUntilEnrollment > 0 && (
+                  <span>
+                    {' '}
+                    ({yearsUntil > 0 ? `${yearsUntil}y ` : ''}
+                    {monthsUntil}m away)
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={onEdit}
+              className="text-sm text-purple-600 hover:text-purple-700 font-medium"
+            >
+              Edit
+            </button>
+            <button
+              onClick={onDelete}
+              className="text-sm text-red-600 hover:text-red-700 font-medium"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+
+        {/* Key numbers */}
+        <div className="grid grid-cols-3 gap-4 mb-4">
+          <div>
+            <div className="text-lg font-bold text-purple-600">
+              {projection.requiredMonthlyContribution === null
+                ? '—'
+                : formatCurrency(projection.requiredMonthlyContribution)}
+            </div>
+            <div className="text-xs text-gray-600">Needed / month</div>
+          </div>
+          <div>
+            <div className="text-lg font-bold text-gray-900">
+              {formatCurrency(projection.targetAtEnrollment)}
+            </div>
+            <div className="text-xs text-gray-600">Target at enrollment</div>
+          </div>
+          <div>
+            <div className="text-lg font-bold text-gray-900">
+              {formatCurrency(projection.currentSavings)}
+            </div>
+            <div className="text-xs text-gray-600">Saved so far</div>
+          </div>
+        </div>
+
+        {/* Funded bar */}
+        <div className="mb-3">
+          <div className="relative h-3 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className={`absolute inset-y-0 left-0 rounded-full transition-all ${
+                funded >= 100 ? 'bg-green-500' : 'bg-purple-600'
+              }`}
+              style={{ width: `${funded}%` }}
+            />
+          </div>
+          <div className="flex justify-between items-center mt-1">
+            <span className="text-xs text-gray-600">
+              {projection.fundedPercent.toFixed(0)}% funded by current savings
+            </span>
+            <span className="text-xs text-gray-500">
+              {formatCurrency(projection.projectedCost)} total cost
+            </span>
+          </div>
+        </div>
+
+        {/* Accounts & goal */}
+        <div className="flex flex-wrap gap-3 mb-3">
+          {plan.accounts.length === 0 ? (
+            <div className="text-xs bg-amber-50 rounded-full px-3 py-1 text-amber-700">
+              No savings accounts linked
+            </div>
+          ) : (
+            plan.accounts.map((account) => (
+              <div
+                key={account.id}
+                className="text-xs bg-gray-100 rounded-full px-3 py-1 text-gray-700"
+              >
+                {account.name}
+              </div>
+            ))
+          )}
+          {plan.goal && (
+            <div className="text-xs bg-purple-100 rounded-full px-3 py-1 text-purple-700">
+              🎯 {plan.goal.name}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 mt-2">
+          <button
+            onClick={onToggle}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+          >
+            {isExpanded ? 'Hide Progress' : 'Show Progress'}
+          </button>
+          <button
+            onClick={onSyncGoal}
+            disabled={isSyncingGoal}
+            className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors font-medium disabled:opacity-50"
+          >
+            {isSyncingGoal ? 'Saving...' : plan.goalId ? 'Update Goal' : 'Make a Goal'}
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && <CollegeProgressChart planId={plan.id} />}
+    </div>
+  );
+}
+
+function CollegeProgressChart({ planId }: { planId: string }) {
+  const { data: plan, isLoading } = useCollegePlan(planId);
+
+  if (isLoading || !plan) {
+    return (
+      <div className="border-t border-gray-100 p-5 text-sm text-gray-500">Loading progress...</div>
+    );
+  }
+
+  const { progress } = plan;
+  const chartData = buildChartData(progress);
+
+  return (
+    <div className="border-t border-gray-100 p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-sm font-medium text-gray-700">Progress</h4>
+        <span
+          className={`text-xs font-medium rounded-full px-3 py-1 ${
+            progress.onTrack ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'
+          }`}
+        >
+          {progress.onTrack
+            ? `On track${progress.aheadBy > 0 ? ` · ${formatCurrency(progress.aheadBy)} ahead` : ''}`
+            : `${formatCurrency(Math.abs(progress.aheadBy))} behind`}
+        </span>
+      </div>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 5, right: 5, bottom: 5, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" />
+            <XAxis
+              dataKey="dateLabel"
+              tick={{ fontSize: 12, fill: '#9CA3AF' }}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis
+              tick={{ fontSize: 12, fill: '#9CA3AF' }}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(val) => `$${(val / 1000).toFixed(0)}k`}
+            />
+            <Tooltip
+              formatter={(value: number) => formatCurrency(value)}
+              labelFormatter={(_, payload) =>
+                payload?.[0] ? formatTargetDate(payload[0].payload.date) : ''
+              }
+            />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Line
+              type="monotone"
+              dataKey="projected"
+              name="Plan"
+              stroke="#C4B5FD"
+              strokeDasharray="5 5"
+              dot={false}
+              connectNulls
+            />
+            <Line
+              type="monotone"
+              dataKey="actual"
+              name="Actual"
+              stroke="#9F6FBA"
+              strokeWidth={2}
+              dot={false}
+              connectNulls
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+// Merge both curves into one row per date
+function buildChartData(progress: CollegeProgress) {
+  const rows = new Map<string, { date: string; projected?: number; actual?: number }>();
+  for (const point of progress.projected) {
+    rows.set(point.date, { date: point.date, projected: point.balance });
+  }
+  for (const point of progress.actual) {
+    rows.set(point.date, { ...rows.get(point.date), date: point.date, actual: point.balance });
+  }
+
+  return Array.from(rows.values())
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((row) => ({
+      ...row,
+      dateLabel: new Date(row.date).toLocaleDateString('en-US', {
+        month: 'short',
+        year: '2-digit',
+        timeZone: 'UTC',
+      }),
+    }));
+}
@@ -1,8 +1,10 @@
+import { useState } from 'react';
 import { Link } from 'react-router-dom';
+import type { NetWorthRange } from '@otter-money/shared';
 import { toast } from 'sonner';
 import { useAuthStore } from '../stores/auth';
 import { useDashboardSummary, useNetWorthHistory } from '../hooks/useDashboard';
-import { useBudgetSpending, getCurrentPeriod } from '../hooks/useBudgets';
+import { useBudgetSpending } from '../hooks/useBudgets';
 import { useSpendingBreakdown, useSpendingTrends, getCurrentPeriod as getAnalyticsPeriod } from '../hooks/useAnalytics';
 import { AreaChart, Area, XAxis, YAxis, ResponsiveContainer, Tooltip } from 'recharts';
 import { TrendsSummary } from '../components/SpendingTrendsChart';
@@ -10,11 +12,14 @@ import UpcomingBillsWidget from '../components/UpcomingBillsWidget';
 import GoalsWidget from '../components/GoalsWidget';
 import { CategoryIcon } from '../components/CategoryIcon';
 
+const NET_WORTH_RANGES: NetWorthRange[] = ['1M', '6M', '1Y', 'ALL'];
+
 export default function Dashboard() {
   const { user, household } = useAuthStore();
+  const [netWorthRange, setNetWorthRange] = useState<NetWorthRange>('6M');
   const { data: summary, isLoading } = useDashboardSummary();
-  const { data: netWorthHistory } = useNetWorthHistory();
-  const { data: budgetData, isLoading: budgetLoading } = useBudgetSpending(getCurrentPeriod());
+  const { data: netWorthHistory } = useNetWorthHistory(netWorthRange);
+  const { data: budgetData, isLoading: budgetLoading } = useBudgetSpending();
   const { data: spendingBreakdown } = useSpendingBreakdown(getAnalyticsPeriod());
   const { data: trendsData } = useSpendingTrends(3);
 
@@ -34,11 +39,12 @@ export default function Dashboard() {
     }).format(amount);
   };
 
-  // Format date for chart
+  // Format date for chart - "YYYY-MM" for monthly points, "YYYY-MM-DD" for daily/weekly
   const formatChartDate = (dateStr: string) => {
-    const [, month] = dateStr.split('-');
+    const [, month, day] = dateStr.split('-');
     const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    return monthNames[parseInt(month) - 1];
+    const monthName = monthNames[parseInt(month) - 1];
+    return day ? `${monthName} ${parseInt(day)}` : monthName;
   };
 
   return (
@@ -55,7 +61,22 @@ export default function Dashboard() {
 
       {/* Net Worth Card */}
       <div className="card mb-4 bg-primary text-white">
-        <p className="text-sm opacity-80">Household Net Worth</p>
+        <div className="flex items-center justify-between">
+          <p className="text-sm opacity-80">Household Net Worth</p>
+          <div className="flex gap-1">
+            {NET_WORTH_RANGES.map((range) => (
+              <button
+                key={range}
+                onClick={() => setNetWorthRange(range)}
+                className={`rounded-full px-2 py-0.5 text-xs font-medium transition-colors ${
+                  netWorthRange === range ? 'bg-white text-primary' : 'text-white/70 hover:bg-white/10'
+                }`}
+              >
+                {range}
+              </button>
+            ))}
+          </div>
+        </div>
         {isLoading ? (
           <div className="mt-1 h-9 w-32 animate-pulse rounded bg-white/20" />
         ) : (
@@ -78,6 +99,7 @@ export default function Dashboard() {
                 <XAxis
                   dataKey="date"
                   tickFormatter={formatChartDate}
+                  minTickGap={24}
                   axisLine={false}
                   tickLine={false}
                   tick={{ fill: 'white', fontSize: 10, opacity: 0.7 }}
@@ -90,7 +112,10 @@ export default function Dashboard() {
                     borderRadius: '8px',
                     color: 'white',
                   }}
-                  formatter={(value: number) => [formatCurrency(value), 'Net Worth']}
+                  formatter={(value: number, _name, item) => [
+                    formatCurrency(value),
+                    item.payload?.isEstimated ? 'Net Worth (est.)' : 'Net Worth',
+                  ]}
                   labelFormatter={(label) => formatChartDate(label)}
                 />
                 <Area
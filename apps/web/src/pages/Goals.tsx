@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { toast } from 'sonner';
 import {
   useGoals,
@@ -78,12 +79,20 @@ export default function Goals() {
           <h1 className="text-2xl font-bold text-gray-900">Goals</h1>
           <p className="text-sm text-gray-600 mt-1">Track your household savings goals</p>
         </div>
-        <button
-          onClick={handleCreateGoal}
-          className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
-        >
-          + New Goal
-        </button>
+        <div className="flex items-center gap-3">
+          <Link
+            to="/goals/college"
+            className="text-sm text-purple-600 hover:text-purple-700 font-medium"
+          >
+            🎓 College Planner
+          </Link>
+          <button
+            onClick={handleCreateGoal}
+            className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+          >
+            + New Goal
+          </button>
+        </div>
       </div>
 
       {/* Overall progress summary */}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { Link, useParams } from 'react-router-dom';
-import { useAuthStore } from '../stores/auth';
+import { useAuthStore, getDeviceName } from '../stores/auth';
 import { API_BASE } from '../utils/api';
 
 export default function JoinHousehold() {
@@ -27,6 +27,7 @@ export default function JoinHousehold() {
           email,
           password,
           inviteCode,
+          deviceName: getDeviceName(),
         }),
       });
 
@@ -36,7 +37,7 @@ export default function JoinHousehold() {
       }
 
       const { data } = await response.json();
-      setAuth(data.user, data.household, data.accessToken);
+      setAuth(data.user, data.household, data.accessToken, data.refreshToken);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to join household');
     } finally {
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { useAuthStore } from '../stores/auth';
+import type { AuthResponse, LoginResponse } from '@otter-money/shared';
+import { useAuthStore, getDeviceName } from '../stores/auth';
 import { API_BASE } from '../utils/api';
 
 export default function Login() {
@@ -10,6 +11,11 @@ export default function Login() {
   const [error, setError] = useState('');
   const { setAuth } = useAuthStore();
 
+  // Second step for accounts with two-factor authentication
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -19,7 +25,7 @@ export default function Login() {
       const response = await fetch(`${API_BASE}/auth/login`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, password }),
+        body: JSON.stringify({ email, password, deviceName: getDeviceName() }),
       });
 
       if (!response.ok) {
@@ -27,8 +33,12 @@ export default function Login() {
         throw new Error(data.error?.message || 'Login failed');
       }
 
-      const { data } = await response.json();
-      setAuth(data.user, data.household, data.accessToken);
+      const { data } = (await response.json()) as { data: LoginResponse };
+      if ('twoFactorRequired' in data) {
+        setChallengeToken(data.challengeToken);
+        return;
+      }
+      setAuth(data.user, data.household, data.accessToken, data.refreshToken);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
@@ -36,6 +46,114 @@ export default function Login() {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(`${API_BASE}/auth/login/two-factor`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          challengeToken,
+          ...(useRecoveryCode ? { recoveryCode: code } : { code }),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        // The challenge expired or ran out of attempts: start over with the password
+        if (response.status === 401 || response.status === 429) {
+          setChallengeToken(null);
+          setCode('');
+        }
+        throw new Error(data.error?.message || 'Verification failed');
+      }
+
+      const { data } = (await response.json()) as { data: AuthResponse };
+      setAuth(data.user, data.household, data.accessToken, data.refreshToken);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (challengeToken) {
+    return (
+      <div className="flex h-viewport flex-col items-center justify-center overflow-y-auto overscroll-y-none bg-primary-50 px-4">
+        <div className="mb-8 text-center">
+          <img
+            src="/images/logo-512x-trans.png"
+            alt="Otter Money"
+            className="mx-auto h-24 w-24"
+          />
+          <h1 className="mt-4 text-2xl font-bold text-gray-900">Two-factor authentication</h1>
+          <p className="mt-1 text-gray-600">
+            {useRecoveryCode
+              ? 'Enter one of your recovery codes'
+              : 'Enter the code from your authenticator app'}
+          </p>
+        </div>
+
+        <form onSubmit={handleTwoFactorSubmit} className="w-full max-w-sm space-y-4">
+          {error && (
+            <div className="rounded-lg bg-error-50 p-3 text-sm text-error-600">{error}</div>
+          )}
+
+          <div>
+            <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+              {useRecoveryCode ? 'Recovery code' : 'Code'}
+            </label>
+            <input
+              id="code"
+              name="code"
+              type="text"
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="input mt-1 tracking-widest"
+              placeholder={useRecoveryCode ? 'abcde-12345' : '123456'}
+              autoFocus
+              required
+            />
+          </div>
+
+          <button type="submit" disabled={isLoading} className="btn-primary w-full">
+            {isLoading ? 'Verifying...' : 'Verify'}
+          </button>
+        </form>
+
+        <div className="mt-6 text-center text-sm">
+          <button
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode('');
+              setError('');
+            }}
+            className="font-medium text-primary hover:text-primary-600"
+          >
+            {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+          </button>
+          <p className="mt-2">
+            <button
+              onClick={() => {
+                setChallengeToken(null);
+                setCode('');
+                setError('');
+              }}
+              className="text-gray-600 hover:text-gray-900"
+            >
+              Back to sign in
+            </button>
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex h-viewport flex-col items-center justify-center overflow-y-auto overscroll-y-none bg-primary-50 px-4">
       {/* Logo */}
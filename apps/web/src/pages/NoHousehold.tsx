@@ -1,9 +1,9 @@
 import { useState } from 'react';
-import { useAuthStore } from '../stores/auth';
+import { useAuthStore, signOut } from '../stores/auth';
 import { API_BASE } from '../utils/api';
 
 export default function NoHousehold() {
-  const { user, accessToken, setAuth, logout } = useAuthStore();
+  const { user, accessToken, setAuth } = useAuthStore();
   const [mode, setMode] = useState<'choice' | 'join'>('choice');
   const [inviteCode, setInviteCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -76,7 +76,7 @@ export default function NoHousehold() {
   };
 
   const handleLogout = () => {
-    logout();
+    signOut();
   };
 
   return (
@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { useAuthStore } from '../stores/auth';
+import { useAuthStore, getDeviceName } from '../stores/auth';
 import { API_BASE } from '../utils/api';
 
 export default function Register() {
@@ -26,6 +26,7 @@ export default function Register() {
           email,
           password,
           householdName: householdName || undefined,
+          deviceName: getDeviceName(),
         }),
       });
 
@@ -35,7 +36,7 @@ export default function Register() {
       }
 
       const { data } = await response.json();
-      setAuth(data.user, data.household, data.accessToken);
+      setAuth(data.user, data.household, data.accessToken, data.refreshToken);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Registration failed');
     } finally {
@@ -1,19 +1,43 @@
 import { useState, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { toast } from 'sonner';
-import { useRules, useDeleteRule, useUpdateRule, useApplyRule } from '../hooks/useRules';
+import {
+  useRules,
+  useDeleteRule,
+  useUpdateRule,
+  useApplyRule,
+  useRuleSuggestions,
+  useAcceptRuleSuggestion,
+  useDismissRuleSuggestion,
+} from '../hooks/useRules';
+import { useCategories } from '../hooks/useCategories';
+import { useHouseholdMembers } from '../hooks/useHousehold';
 import RuleModal from '../components/RuleModal';
+import RuleDryRunModal from '../components/RuleDryRunModal';
 import { CategoryIcon } from '../components/CategoryIcon';
-import type { CategorizationRuleWithCategory } from '@otter-money/shared';
+import type {
+  CategorizationRuleWithCategory,
+  RuleConditionField,
+  RuleConditions,
+  RuleSuggestion,
+} from '@otter-money/shared';
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 export default function Rules() {
   const [searchParams, setSearchParams] = useSearchParams();
   const { data: rules, isLoading } = useRules();
+  const { data: categories } = useCategories();
+  const { data: members } = useHouseholdMembers();
   const deleteRule = useDeleteRule();
   const updateRule = useUpdateRule();
   const applyRule = useApplyRule();
+  const { data: suggestions } = useRuleSuggestions();
+  const acceptSuggestion = useAcceptRuleSuggestion();
+  const dismissSuggestion = useDismissRuleSuggestion();
 
   const [showModal, setShowModal] = useState(false);
+  const [showDryRun, setShowDryRun] = useState(false);
   const [editingRule, setEditingRule] = useState<CategorizationRuleWithCategory | null>(null);
   const [applyingRuleId, setApplyingRuleId] = useState<string | null>(null);
   const [prefillData, setPrefillData] = useState<{ merchant?: string; categoryId?: string } | null>(null);
@@ -84,36 +108,112 @@ export default function Rules() {
     }
   };
 
-  const getConditionsSummary = (rule: CategorizationRuleWithCategory): string => {
+  const handleAcceptSuggestion = async (suggestion: RuleSuggestion) => {
+    try {
+      await acceptSuggestion.mutateAsync(suggestion.id);
+      toast.success(
+        suggestion.matchCount > 0
+          ? `Rule created. Use Apply Now to update ${suggestion.matchCount} past transactions.`
+          : 'Rule created'
+      );
+    } catch (err: any) {
+      console.error('Failed to accept suggestion:', err);
+      toast.error(err.message || 'Failed to create rule. Please try again.');
+    }
+  };
+
+  const handleDismissSuggestion = async (suggestionId: string) => {
+    try {
+      await dismissSuggestion.mutateAsync(suggestionId);
+    } catch (err: any) {
+      console.error('Failed to dismiss suggestion:', err);
+      toast.error(err.message || 'Failed to dismiss suggestion. Please try again.');
+    }
+  };
+
+  const describeConditions = (c: RuleConditions): string[] => {
     const parts: string[] = [];
-    const c = rule.conditions;
+    const negated = new Set(c.negate ?? []);
+    const add = (field: RuleConditionField, text: string) =>
+      parts.push(negated.has(field) ? `NOT ${text}` : text);
 
-    if (c.merchantContains) parts.push(`Merchant contains "${c.merchantContains}"`);
-    if (c.merchantExactly) parts.push(`Merchant is "${c.merchantExactly}"`);
-    if (c.descriptionContains) parts.push(`Description contains "${c.descriptionContains}"`);
-    if (c.descriptionExactly) parts.push(`Description is "${c.descriptionExactly}"`);
+    if (c.merchantContains) add('merchantContains', `Merchant contains "${c.merchantContains}"`);
+    if (c.merchantExactly) add('merchantExactly', `Merchant is "${c.merchantExactly}"`);
+    if (c.merchantMatchesRegex) add('merchantMatchesRegex', `Merchant matches /${c.merchantMatchesRegex}/`);
+    if (c.descriptionContains) add('descriptionContains', `Description contains "${c.descriptionContains}"`);
+    if (c.descriptionExactly) add('descriptionExactly', `Description is "${c.descriptionExactly}"`);
+    if (c.descriptionStartsWith) add('descriptionStartsWith', `Description starts with "${c.descriptionStartsWith}"`);
+    if (c.descriptionEndsWith) add('descriptionEndsWith', `Description ends with "${c.descriptionEndsWith}"`);
 
     if (c.amountExactly !== undefined) {
-      parts.push(`Amount = $${Math.abs(c.amountExactly).toFixed(2)}`);
+      add('amountExactly', `Amount = $${Math.abs(c.amountExactly).toFixed(2)}`);
     } else {
-      if (c.amountMin !== undefined) parts.push(`Amount >= $${Math.abs(c.amountMin).toFixed(2)}`);
-      if (c.amountMax !== undefined) parts.push(`Amount <= $${Math.abs(c.amountMax).toFixed(2)}`);
+      if (c.amountMin !== undefined) add('amountMin', `Amount >= $${Math.abs(c.amountMin).toFixed(2)}`);
+      if (c.amountMax !== undefined) add('amountMax', `Amount <= $${Math.abs(c.amountMax).toFixed(2)}`);
     }
 
+    if (c.dateFrom) add('dateFrom', `On or after ${c.dateFrom}`);
+    if (c.dateTo) add('dateTo', `On or before ${c.dateTo}`);
+    if (c.daysOfMonth && c.daysOfMonth.length > 0) {
+      add('daysOfMonth', `Day of month ${c.daysOfMonth.join(', ')}`);
+    }
+    if (c.daysOfWeek && c.daysOfWeek.length > 0) {
+      add('daysOfWeek', `On ${c.daysOfWeek.map((day) => WEEKDAY_NAMES[day]).join(', ')}`);
+    }
+
+    if (c.categoryIs) {
+      const category = categories?.find((cat) => cat.id === c.categoryIs);
+      add('categoryIs', `Category is ${category ? category.name : 'a specific category'}`);
+    }
+    if (c.isUncategorized) add('isUncategorized', 'Uncategorized');
+
     if (c.accountIds && c.accountIds.length > 0) {
-      parts.push(`Specific accounts (${c.accountIds.length})`);
+      add('accountIds', `Specific accounts (${c.accountIds.length})`);
     }
     if (c.accountTypes && c.accountTypes.length > 0) {
-      parts.push(`Account types: ${c.accountTypes.join(', ')}`);
+      add('accountTypes', `Account types: ${c.accountTypes.join(', ')}`);
     }
     if (c.ownerIds && c.ownerIds.length > 0) {
-      parts.push(`Specific partners (${c.ownerIds.length})`);
+      add('ownerIds', `Specific partners (${c.ownerIds.length})`);
+    }
+
+    for (const group of c.groups ?? []) {
+      const groupParts = describeConditions(group);
+      if (groupParts.length > 0) parts.push(`(${groupParts.join(` ${group.operator || 'AND'} `)})`);
     }
 
-    const operator = c.operator || 'AND';
+    return parts;
+  };
+
+  const getConditionsSummary = (rule: CategorizationRuleWithCategory): string => {
+    const parts = describeConditions(rule.conditions);
+    const operator = rule.conditions.operator || 'AND';
     return parts.length > 0 ? parts.join(` ${operator} `) : 'No conditions';
   };
 
+  const getActionsSummary = (rule: CategorizationRuleWithCategory): string => {
+    const a = rule.actions;
+    if (!a) return '';
+
+    const parts: string[] = [];
+    if (a.renameMerchant) parts.push(`rename to "${a.renameMerchant}"`);
+    if (a.appendNote) parts.push(`add note "${a.appendNote}"`);
+    if (a.attributedToId) {
+      const member = members?.find((m) => m.id === a.attributedToId);
+      parts.push(`attribute to ${member ? member.name : 'a partner'}`);
+    }
+    if (a.recurringTransactionId) parts.push('link to a recurring bill');
+    if (a.markAsTransfer) parts.push('mark as transfer');
+    if (a.excludeFromBudget) parts.push('hide from budgets');
+    return parts.join(', ');
+  };
+
+  const getRuleLabel = (ruleId: string): string => {
+    const rule = rules?.find((r) => r.id === ruleId);
+    if (!rule) return 'Deleted rule';
+    return `${rule.category?.name ?? 'Category unchanged'}: ${getConditionsSummary(rule)}`;
+  };
+
   if (isLoading) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -131,14 +231,61 @@ export default function Rules() {
             Automatically categorize transactions based on conditions
           </p>
         </div>
-        <button
-          onClick={handleCreateRule}
-          className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
-        >
-          + New Rule
-        </button>
+        <div className="flex gap-2">
+          {rules && rules.length > 0 && (
+            <button
+              onClick={() => setShowDryRun(true)}
+              className="border border-purple-600 text-purple-600 px-4 py-2 rounded-lg hover:bg-purple-50 transition-colors"
+            >
+              Preview Changes
+            </button>
+          )}
+          <button
+            onClick={handleCreateRule}
+            className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+          >
+            + New Rule
+          </button>
+        </div>
       </div>
 
+      {suggestions && suggestions.length > 0 && (
+        <div className="mb-6 space-y-2">
+          <h2 className="text-sm font-semibold text-gray-700">Suggested rules</h2>
+          {suggestions.map((suggestion) => (
+            <div
+              key={suggestion.id}
+              className="flex items-center justify-between gap-4 bg-purple-50 border border-purple-200 rounded-lg p-4"
+            >
+              <div>
+                <p className="text-sm text-gray-900">{suggestion.message} — create a rule?</p>
+                <p className="text-xs text-gray-600 mt-0.5">
+                  {suggestion.matchCount > 0
+                    ? `Would also recategorize ${suggestion.matchCount} past transaction${suggestion.matchCount === 1 ? '' : 's'}`
+                    : 'All past transactions from this merchant are already in this category'}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => handleAcceptSuggestion(suggestion)}
+                  disabled={acceptSuggestion.isPending}
+                  className="px-3 py-1 text-sm bg-purple-600 text-white rounded hover:bg-purple-700 transition-colors disabled:opacity-50"
+                >
+                  Create rule
+                </button>
+                <button
+                  onClick={() => handleDismissSuggestion(suggestion.id)}
+                  disabled={dismissSuggestion.isPending}
+                  className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded transition-colors disabled:opacity-50"
+                >
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {!rules || rules.length === 0 ? (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
           <div className="text-gray-400 text-5xl mb-4">🤖</div>
@@ -165,16 +312,22 @@ export default function Rules() {
               <div className="flex items-start justify-between">
                 <div className="flex-1">
                   <div className="flex items-center gap-3 mb-2">
-                    <span
-                      className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium"
-                      style={{
-                        backgroundColor: rule.category.color ? `${rule.category.color}20` : '#f3f4f6',
-                        color: rule.category.color || '#6b7280',
-                      }}
-                    >
-                      <CategoryIcon icon={rule.category.icon} size={14} />
-                      {rule.category.name}
-                    </span>
+                    {rule.category ? (
+                      <span
+                        className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium"
+                        style={{
+                          backgroundColor: rule.category.color ? `${rule.category.color}20` : '#f3f4f6',
+                          color: rule.category.color || '#6b7280',
+                        }}
+                      >
+                        <CategoryIcon icon={rule.category.icon} size={14} />
+                        {rule.category.name}
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-600">
+                        Category unchanged
+                      </span>
+                    )}
                     <span className="text-xs text-gray-500">Priority: {rule.priority}</span>
                     {!rule.isEnabled && (
                       <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded">
@@ -184,6 +337,9 @@ export default function Rules() {
                   </div>
 
                   <p className="text-sm text-gray-700 mb-1">{getConditionsSummary(rule)}</p>
+                  {getActionsSummary(rule) && (
+                    <p className="text-xs text-gray-500">Then: {getActionsSummary(rule)}</p>
+                  )}
 
                   <div className="flex gap-2 mt-3">
                     <button
@@ -228,9 +384,12 @@ export default function Rules() {
           <li>• The first matching rule determines the category</li>
           <li>• Rules automatically apply to new transactions</li>
           <li>• Use "Apply Now" to categorize existing transactions</li>
+          <li>• Use "Preview Changes" to see what all rules would change before applying them</li>
         </ul>
       </div>
 
+      {showDryRun && <RuleDryRunModal ruleLabel={getRuleLabel} onClose={() => setShowDryRun(false)} />}
+
       {showModal && (
         <RuleModal
           rule={editingRule}
@@ -1,14 +1,26 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
-import { useAuthStore } from '../stores/auth';
+import { useAuthStore, signOut } from '../stores/auth';
 import { useCategoriesTreeByType, useCreateCategory, useUpdateCategory, useDeleteCategory, useCategoryDeletionImpact, useRestoreDefaultCategories, useCategoriesFlat } from '../hooks/useCategories';
 import { CategoryIcon, CATEGORY_ICON_OPTIONS } from '../components/CategoryIcon';
 import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
-import { ChevronDown, ChevronRight, Trash2, Plus, Pencil, X, Check } from 'lucide-react';
+import { clsx } from 'clsx';
+import { ChevronDown, ChevronRight, Trash2, Plus, Pencil, X, Check, Smartphone, Monitor, ShieldCheck } from 'lucide-react';
 import { ImportWizardModal } from '../components/ImportWizardModal';
-import type { CategoryType, CategoryTreeNode } from '@otter-money/shared';
-import { API_BASE, APP_URL } from '../utils/api';
+import { useSessions, useRevokeSession, useRevokeOtherSessions } from '../hooks/useSessions';
+import {
+  useTwoFactorStatus,
+  useDisableTwoFactor,
+  useRegenerateRecoveryCodes,
+  useSetRequireTwoFactor,
+} from '../hooks/useTwoFactor';
+import { TwoFactorSetup, RecoveryCodes } from '../components/TwoFactorSetup';
+import { ActivityFeed } from '../components/ActivityFeed';
+import { useUpdateBudgetSettings } from '../hooks/useHousehold';
+import { BUDGET_CADENCE_CONFIG } from '@otter-money/shared';
+import type { BudgetCadence, BudgetMode, CategoryType, CategoryTreeNode } from '@otter-money/shared';
+import { api, API_BASE, APP_URL } from '../utils/api';
 
 interface HouseholdMember {
   id: string;
@@ -16,6 +28,7 @@ interface HouseholdMember {
   email: string;
   avatarUrl: string | null;
   householdRole: 'ORGANIZER' | 'PARTNER';
+  twoFactorEnabled: boolean;
   isCurrentUser: boolean;
 }
 
@@ -32,7 +45,7 @@ interface DissolveImpact {
 
 export default function Settings() {
   const navigate = useNavigate();
-  const { user, household, accessToken, logout, updateUser, updateHousehold } = useAuthStore();
+  const { user, household, accessToken, updateUser, updateHousehold } = useAuthStore();
   const [members, setMembers] = useState<HouseholdMember[]>([]);
   const [inviteUrl, setInviteUrl] = useState('');
   const [copied, setCopied] = useState(false);
@@ -58,6 +71,7 @@ export default function Settings() {
   const [isExporting, setIsExporting] = useState(false);
 
   const isOrganizer = user?.householdRole === 'ORGANIZER';
+  const isUnverified = user?.emailVerified === false;
   const anyModalOpen = showRemoveConfirm || showLeaveConfirm || showDissolveConfirm;
   useBodyScrollLock(anyModalOpen);
 
@@ -70,9 +84,12 @@ export default function Settings() {
           fetch(`${API_BASE}/household/members`, {
             headers: { Authorization: `Bearer ${accessToken}` },
           }),
-          fetch(`${API_BASE}/household/invite`, {
-            headers: { Authorization: `Bearer ${accessToken}` },
-          }),
+          // Invite links need a verified email
+          isUnverified
+            ? null
+            : fetch(`${API_BASE}/household/invite`, {
+                headers: { Authorization: `Bearer ${accessToken}` },
+              }),
         ]);
 
         if (membersRes.ok) {
@@ -80,7 +97,7 @@ export default function Settings() {
           setMembers(data);
         }
 
-        if (inviteRes.ok) {
+        if (inviteRes?.ok) {
           const { data } = await inviteRes.json();
           setInviteUrl(`${APP_URL}/join/${data.inviteCode}`);
         }
@@ -92,7 +109,7 @@ export default function Settings() {
     };
 
     fetchData();
-  }, [accessToken]);
+  }, [accessToken, isUnverified]);
 
   const handleExportAll = async () => {
     setIsExporting(true);
@@ -256,15 +273,7 @@ export default function Settings() {
   };
 
   const handleLogout = async () => {
-    try {
-      await fetch(`${API_BASE}/auth/logout`, {
-        method: 'POST',
-        headers: { Authorization: `Bearer ${accessToken}` },
-      });
-    } catch {
-      // Ignore errors
-    }
-    logout();
+    await signOut();
     navigate('/login');
   };
 
@@ -299,9 +308,17 @@ export default function Settings() {
                 </span>
               )}
             </div>
-            <p className="text-sm text-gray-500">{user?.email}</p>
+            <div className="flex items-center gap-2">
+              <p className="text-sm text-gray-500">{user?.email}</p>
+              {isUnverified && (
+                <span className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-800">
+                  Unverified
+                </span>
+              )}
+            </div>
           </div>
         </div>
+        <ChangeEmailForm />
       </section>
 
       {/* Household */}
@@ -323,7 +340,12 @@ export default function Settings() {
                   </div>
                   <div>
                     <p className="font-medium text-gray-900">{partner?.name}</p>
-                    <p className="text-sm text-gray-500">{partner?.email}</p>
+                    <p className="text-sm text-gray-500">
+                      {partner?.email}
+                      {household?.requireTwoFactor && !partner?.twoFactorEnabled && (
+                        <span className="ml-2 text-xs text-yellow-700">2FA not set up</span>
+                      )}
+                    </p>
                   </div>
                 </div>
                 {isOrganizer && partner && (
@@ -339,6 +361,12 @@ export default function Settings() {
           ) : (
             <div>
               <label className="text-sm font-medium text-gray-500">Invite Your Partner</label>
+              {isUnverified ? (
+                <p className="mt-1 text-sm text-gray-600">
+                  Verify your email address to invite your partner. Check your inbox for the link.
+                </p>
+              ) : (
+              <>
               <p className="mt-1 text-sm text-gray-600">
                 Share this link with your partner so they can join your household.
               </p>
@@ -362,11 +390,25 @@ export default function Settings() {
                   {isRegenerating ? 'Regenerating...' : 'Generate new invite link'}
                 </button>
               )}
+              </>
+              )}
             </div>
           )}
         </div>
       </section>
 
+      {/* Budgeting */}
+      <BudgetSettingsSection isOrganizer={isOrganizer} />
+
+      {/* Two-Factor Authentication */}
+      <TwoFactorSection isOrganizer={isOrganizer} />
+
+      {/* Signed-in Devices */}
+      <SessionsSection />
+
+      {/* Household Activity */}
+      <ActivityFeed />
+
       {/* Categories */}
       <CategoriesSection />
 
@@ -600,6 +642,498 @@ export default function Settings() {
   );
 }
 
+function formatLastActive(dateStr: string): string {
+  const diffMinutes = Math.floor((Date.now() - new Date(dateStr).getTime()) / (1000 * 60));
+  if (diffMinutes < 5) return 'Active now';
+  if (diffMinutes < 60) return `Active ${diffMinutes} minutes ago`;
+  if (diffMinutes < 60 * 24) return `Active ${Math.floor(diffMinutes / 60)} hours ago`;
+  return `Active ${new Date(dateStr).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+}
+
+// Devices signed in to this account, with sign-out per device
+function ChangeEmailForm() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newEmail, setNewEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await api.post('/auth/change-email', { newEmail, password });
+      toast.success(`Check ${newEmail} to confirm the change`);
+      setIsOpen(false);
+      setNewEmail('');
+      setPassword('');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to change email');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="mt-4 text-sm text-primary hover:text-primary-600"
+      >
+        Change email
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 space-y-3 border-t border-gray-100 pt-4">
+      <div>
+        <label htmlFor="newEmail" className="block text-sm font-medium text-gray-700">
+          New email
+        </label>
+        <input
+          id="newEmail"
+          type="email"
+          value={newEmail}
+          onChange={(e) => setNewEmail(e.target.value)}
+          className="input mt-1"
+          required
+        />
+      </div>
+      <div>
+        <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700">
+          Current password
+        </label>
+        <input
+          id="currentPassword"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="input mt-1"
+          autoComplete="current-password"
+          required
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        We'll send a link to the new address. Your email changes once you follow it.
+      </p>
+      <div className="flex gap-2">
+        <button type="submit" disabled={isSubmitting} className="btn-primary">
+          {isSubmitting ? 'Sending...' : 'Send confirmation'}
+        </button>
+        <button type="button" onClick={() => setIsOpen(false)} className="btn-secondary">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// Budgeting style and how long each budget period is. Biweekly periods start on a payday.
+function BudgetSettingsSection({ isOrganizer }: { isOrganizer: boolean }) {
+  const household = useAuthStore((state) => state.household);
+  const updateSettings = useUpdateBudgetSettings();
+
+  const savedMode = household?.budgetMode ?? 'STANDARD';
+  const savedCadence = household?.budgetCadence ?? 'MONTHLY';
+  const [mode, setMode] = useState<BudgetMode>(savedMode);
+  const [cadence, setCadence] = useState<BudgetCadence>(savedCadence);
+  const [payday, setPayday] = useState(household?.budgetPaydayAnchor ?? '');
+
+  useEffect(() => {
+    setMode(savedMode);
+    setCadence(savedCadence);
+    setPayday(household?.budgetPaydayAnchor ?? '');
+  }, [savedMode, savedCadence, household?.budgetPaydayAnchor]);
+
+  const isDirty =
+    mode !== savedMode ||
+    cadence !== savedCadence ||
+    (cadence === 'BIWEEKLY' && payday !== (household?.budgetPaydayAnchor ?? ''));
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (cadence === 'BIWEEKLY' && !payday) {
+      toast.error('Choose a payday');
+      return;
+    }
+    try {
+      await updateSettings.mutateAsync({
+        budgetMode: mode,
+        budgetCadence: cadence,
+        budgetPaydayAnchor: cadence === 'BIWEEKLY' ? payday : household?.budgetPaydayAnchor ?? null,
+      });
+      toast.success('Budget settings updated');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update budget settings');
+    }
+  };
+
+  return (
+    <section className="card">
+      <h2 className="mb-4 text-lg font-semibold text-gray-900">Budgeting</h2>
+      {isOrganizer ? (
+        <form onSubmit={handleSave} className="space-y-3">
+          <div>
+            <label htmlFor="budgetMode" className="block text-sm font-medium text-gray-700">
+              Style
+            </label>
+            <select
+              id="budgetMode"
+              value={mode}
+              onChange={(e) => setMode(e.target.value as BudgetMode)}
+              className="input mt-1"
+            >
+              <option value="STANDARD">Budgets: set a limit for each category</option>
+              <option value="ENVELOPE">Envelopes: assign every dollar of income</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="budgetCadence" className="block text-sm font-medium text-gray-700">
+              Budget every
+            </label>
+            <select
+              id="budgetCadence"
+              value={cadence}
+              onChange={(e) => setCadence(e.target.value as BudgetCadence)}
+              className="input mt-1"
+            >
+              {(Object.keys(BUDGET_CADENCE_CONFIG) as BudgetCadence[]).map((value) => (
+                <option key={value} value={value}>
+                  {BUDGET_CADENCE_CONFIG[value].label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {cadence === 'BIWEEKLY' && (
+            <div>
+              <label htmlFor="budgetPayday" className="block text-sm font-medium text-gray-700">
+                A recent payday
+              </label>
+              <input
+                id="budgetPayday"
+                type="date"
+                value={payday}
+                onChange={(e) => setPayday(e.target.value)}
+                className="input mt-1"
+                required
+              />
+              <p className="mt-1 text-xs text-gray-500">Each pay period starts on a payday and lasts two weeks.</p>
+            </div>
+          )}
+          <p className="text-sm text-gray-500">
+            Changing the period keeps budgets already set for earlier ones. Rollover starts over with the new period.
+          </p>
+          <button type="submit" disabled={!isDirty || updateSettings.isPending} className="btn-primary">
+            {updateSettings.isPending ? 'Saving...' : 'Save'}
+          </button>
+        </form>
+      ) : (
+        <p className="text-gray-900">
+          {savedMode === 'ENVELOPE' ? 'Envelopes' : 'Budgets'}, {BUDGET_CADENCE_CONFIG[savedCadence].label.toLowerCase()}
+        </p>
+      )}
+    </section>
+  );
+}
+
+// Two-factor authentication: enroll, replace recovery codes, turn off, and
+// (organizer) require it for the household
+function TwoFactorSection({ isOrganizer }: { isOrganizer: boolean }) {
+  const { data: status, isLoading } = useTwoFactorStatus();
+  const disable = useDisableTwoFactor();
+  const regenerate = useRegenerateRecoveryCodes();
+  const setRequired = useSetRequireTwoFactor();
+
+  const [mode, setMode] = useState<'idle' | 'setup' | 'regenerate' | 'disable'>('idle');
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+
+  const reset = () => {
+    setMode('idle');
+    setCode('');
+    setPassword('');
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { recoveryCodes } = await regenerate.mutateAsync(code);
+      setNewCodes(recoveryCodes);
+      reset();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to create new codes');
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // Accept a recovery code in the same field, for someone without their phone
+    const isRecoveryCode = !/^\d{6}$/.test(code.trim());
+    try {
+      await disable.mutateAsync(
+        isRecoveryCode ? { password, recoveryCode: code } : { password, code: code.trim() }
+      );
+      toast.success('Two-factor authentication turned off');
+      reset();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to turn off two-factor authentication');
+    }
+  };
+
+  const handleToggleRequired = async () => {
+    if (!status) return;
+    const next = !status.requiredByHousehold;
+    if (next && !confirm('Everyone in your household will need to set up two-factor authentication. Continue?')) {
+      return;
+    }
+    try {
+      await setRequired.mutateAsync(next);
+      toast.success(next ? 'Two-factor authentication is now required' : 'Two-factor authentication is now optional');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update household');
+    }
+  };
+
+  return (
+    <section className="card">
+      <h2 className="mb-4 text-lg font-semibold text-gray-900">Two-Factor Authentication</h2>
+      {isLoading || !status ? (
+        <div className="animate-pulse space-y-2">
+          <div className="h-10 bg-gray-200 rounded" />
+        </div>
+      ) : mode === 'setup' ? (
+        <TwoFactorSetup onDone={reset} onCancel={reset} />
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <ShieldCheck className={clsx('h-5 w-5', status.enabled ? 'text-success-600' : 'text-gray-400')} />
+            <div>
+              <p className="font-medium text-gray-900">{status.enabled ? 'On' : 'Off'}</p>
+              <p className="text-sm text-gray-500">
+                {status.enabled
+                  ? `${status.recoveryCodesRemaining} recovery code${status.recoveryCodesRemaining !== 1 ? 's' : ''} left`
+                  : 'Sign in with a password only'}
+              </p>
+            </div>
+          </div>
+
+          {newCodes && (
+            <div className="space-y-3 border-t border-gray-100 pt-4">
+              <RecoveryCodes codes={newCodes} />
+              <button onClick={() => setNewCodes(null)} className="text-sm text-primary hover:text-primary-600">
+                Done
+              </button>
+            </div>
+          )}
+
+          {!status.enabled && (
+            <button onClick={() => setMode('setup')} className="btn-primary">
+              Turn on
+            </button>
+          )}
+
+          {status.enabled && mode === 'idle' && !newCodes && (
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              <button onClick={() => setMode('regenerate')} className="text-sm text-primary hover:text-primary-600">
+                New recovery codes
+              </button>
+              {status.requiredByHousehold ? (
+                <p className="text-sm text-gray-500">Required by your household</p>
+              ) : (
+                <button onClick={() => setMode('disable')} className="text-sm text-error-600 hover:text-error-700">
+                  Turn off
+                </button>
+              )}
+            </div>
+          )}
+
+          {mode === 'regenerate' && (
+            <form onSubmit={handleRegenerate} className="space-y-3 border-t border-gray-100 pt-4">
+              <p className="text-sm text-gray-600">
+                Your current recovery codes will stop working.
+              </p>
+              <div>
+                <label htmlFor="regenerateCode" className="block text-sm font-medium text-gray-700">
+                  Authenticator code
+                </label>
+                <input
+                  id="regenerateCode"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="input mt-1 tracking-widest"
+                  placeholder="123456"
+                  maxLength={6}
+                  required
+                />
+              </div>
+              <div className="flex gap-2">
+                <button type="submit" disabled={regenerate.isPending} className="btn-primary">
+                  {regenerate.isPending ? 'Creating...' : 'Create new codes'}
+                </button>
+                <button type="button" onClick={reset} className="btn-secondary">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+
+          {mode === 'disable' && (
+            <form onSubmit={handleDisable} className="space-y-3 border-t border-gray-100 pt-4">
+              <div>
+                <label htmlFor="disablePassword" className="block text-sm font-medium text-gray-700">
+                  Current password
+                </label>
+                <input
+                  id="disablePassword"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="input mt-1"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="disableCode" className="block text-sm font-medium text-gray-700">
+                  Authenticator or recovery code
+                </label>
+                <input
+                  id="disableCode"
+                  type="text"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="input mt-1"
+                  required
+                />
+              </div>
+              <div className="flex gap-2">
+                <button type="submit" disabled={disable.isPending} className="rounded-lg bg-error-600 px-4 py-2 font-medium text-white hover:bg-error-700 disabled:opacity-50">
+                  {disable.isPending ? 'Turning off...' : 'Turn off'}
+                </button>
+                <button type="button" onClick={reset} className="btn-secondary">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+
+          {isOrganizer && (
+            <label className="flex items-start gap-3 border-t border-gray-100 pt-4">
+              <input
+                type="checkbox"
+                checked={status.requiredByHousehold}
+                onChange={handleToggleRequired}
+                disabled={setRequired.isPending || (!status.enabled && !status.requiredByHousehold)}
+                className="mt-1 h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">Require for everyone in the household</span>
+                <span className="block text-sm text-gray-500">
+                  {status.enabled
+                    ? 'Members without two-factor authentication must set it up before using the app.'
+                    : 'Turn it on for yourself first.'}
+                </span>
+              </span>
+            </label>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function SessionsSection() {
+  const { data: sessions, isLoading } = useSessions();
+  const revokeSession = useRevokeSession();
+  const revokeOthers = useRevokeOtherSessions();
+
+  const handleRevoke = async (id: string, deviceName: string) => {
+    if (!confirm(`Sign out of ${deviceName}?`)) return;
+    try {
+      await revokeSession.mutateAsync(id);
+      toast.success(`Signed out of ${deviceName}`);
+    } catch {
+      toast.error('Failed to sign out of that device');
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!confirm('Sign out of all other devices?')) return;
+    try {
+      const { revoked } = await revokeOthers.mutateAsync();
+      toast.success(`Signed out of ${revoked} device${revoked !== 1 ? 's' : ''}`);
+    } catch {
+      toast.error('Failed to sign out of other devices');
+    }
+  };
+
+  const otherCount = sessions?.filter((s) => !s.isCurrent).length || 0;
+
+  return (
+    <section className="card">
+      <h2 className="mb-4 text-lg font-semibold text-gray-900">Signed-in Devices</h2>
+      {isLoading ? (
+        <div className="animate-pulse space-y-2">
+          <div className="h-10 bg-gray-200 rounded" />
+          <div className="h-10 bg-gray-200 rounded" />
+        </div>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-100">
+            {sessions?.map((session) => {
+              const isMobile = /iOS|Android|iPhone|iPad/.test(session.deviceName);
+              const Icon = isMobile ? Smartphone : Monitor;
+              return (
+                <li key={session.id} className="flex items-center justify-between py-3">
+                  <div className="flex items-center gap-3">
+                    <Icon className="h-5 w-5 text-gray-400" />
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {session.deviceName}
+                        {session.isCurrent && (
+                          <span className="ml-2 rounded-full bg-primary-100 px-2 py-0.5 text-xs font-medium text-primary">
+                            This device
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {session.isCurrent ? 'Active now' : formatLastActive(session.lastUsedAt)}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.isCurrent && (
+                    <button
+                      onClick={() => handleRevoke(session.id, session.deviceName)}
+                      disabled={revokeSession.isPending}
+                      className="text-sm text-error-600 hover:text-error-700 disabled:opacity-50"
+                    >
+                      Sign out
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          {otherCount > 0 && (
+            <button
+              onClick={handleRevokeOthers}
+              disabled={revokeOthers.isPending}
+              className="mt-3 text-sm text-primary hover:text-primary-600 disabled:opacity-50"
+            >
+              {revokeOthers.isPending ? 'Signing out...' : 'Sign out of all other devices'}
+            </button>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
+
 // Categories management section with tree view
 function CategoriesSection() {
   const { data: expenseTree, isLoading: expenseLoading } = useCategoriesTreeByType('EXPENSE');
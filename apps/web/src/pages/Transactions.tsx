@@ -4,6 +4,7 @@ import { useInfiniteTransactions, useUncategorizedCount, TransactionWithOwner }
 import { useAccounts } from '../hooks/useAccounts';
 import { useCategories } from '../hooks/useCategories';
 import { useHouseholdMembers } from '../hooks/useHousehold';
+import { useTags } from '../hooks/useTags';
 import { TransactionModal } from '../components/TransactionModal';
 import { ImportWizardModal } from '../components/ImportWizardModal';
 import { CategoryIcon } from '../components/CategoryIcon';
@@ -19,6 +20,7 @@ export default function Transactions() {
   const [accountFilter, setAccountFilter] = useState('');
   const [categoryFilter, setCategoryFilter] = useState('');
   const [ownerFilter, setOwnerFilter] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
   const [showFilters, setShowFilters] = useState(false);
 
   // Modal state
@@ -40,11 +42,13 @@ export default function Transactions() {
     accountId: accountFilter || undefined,
     categoryId: categoryFilter || undefined,
     ownerId: ownerFilter || undefined,
+    tagId: tagFilter || undefined,
     limit: PAGE_SIZE,
   });
   const { data: accounts } = useAccounts();
   const { data: categories } = useCategories();
   const { data: members } = useHouseholdMembers();
+  const { data: tags } = useTags();
   const { data: uncategorizedCount } = useUncategorizedCount();
 
   const transactions = useMemo(
@@ -138,6 +142,7 @@ export default function Transactions() {
       if (accountFilter) params.set('accountId', accountFilter);
       if (categoryFilter) params.set('categoryId', categoryFilter);
       if (ownerFilter) params.set('ownerId', ownerFilter);
+      if (tagFilter) params.set('tagId', tagFilter);
       if (search) params.set('search', search);
 
       const queryString = params.toString();
@@ -162,9 +167,9 @@ export default function Transactions() {
     } finally {
       setIsExporting(false);
     }
-  }, [accountFilter, categoryFilter, ownerFilter, search]);
+  }, [accountFilter, categoryFilter, ownerFilter, tagFilter, search]);
 
-  const activeFiltersCount = [accountFilter, categoryFilter, ownerFilter].filter(Boolean).length;
+  const activeFiltersCount = [accountFilter, categoryFilter, ownerFilter, tagFilter].filter(Boolean).length;
 
   if (error) {
     return (
@@ -241,7 +246,7 @@ export default function Transactions() {
 
         {/* Filters */}
         {showFilters && (
-          <div className="mt-3 grid grid-cols-3 gap-2">
+          <div className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-2">
             <select
               value={accountFilter}
               onChange={(e) => setAccountFilter(e.target.value)}
@@ -282,6 +287,20 @@ export default function Transactions() {
                 </option>
               ))}
             </select>
+
+            <select
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              className="input text-sm"
+            >
+              <option value="">All Tags</option>
+              <option value="untagged">Untagged</option>
+              {tags?.map((tag) => (
+                <option key={tag.id} value={tag.id}>
+                  #{tag.name}
+                </option>
+              ))}
+            </select>
           </div>
         )}
       </header>
@@ -360,6 +379,21 @@ export default function Transactions() {
                               Adjustment
                             </span>
                           )}
+                          {tx.transferStatus === 'CONFIRMED' && (
+                            <span className="text-xs text-gray-400 bg-gray-100 px-1.5 py-0.5 rounded">
+                              Transfer
+                            </span>
+                          )}
+                          {tx.transferStatus === 'SUGGESTED' && (
+                            <span className="text-xs text-primary bg-primary-50 px-1.5 py-0.5 rounded">
+                              Transfer?
+                            </span>
+                          )}
+                          {!!tx.splits?.length && (
+                            <span className="text-xs text-gray-400 bg-gray-100 px-1.5 py-0.5 rounded">
+                              Split
+                            </span>
+                          )}
                         </div>
                         <div className="flex items-center gap-2 text-xs text-gray-500">
                           <span className="truncate">{tx.account.name}</span>
@@ -369,12 +403,24 @@ export default function Transactions() {
                               <OwnerBadge name={tx.account.owner.name} />
                             </>
                           )}
-                          {tx.category && (
+                          {tx.splits?.length ? (
+                            <>
+                              <span>•</span>
+                              <span className="truncate">
+                                {tx.splits.map((split) => split.category?.name || 'Uncategorized').join(', ')}
+                              </span>
+                            </>
+                          ) : tx.category && (
                             <>
                               <span>•</span>
                               <span className="truncate">{tx.category.name}</span>
                             </>
                           )}
+                          {tx.tags?.map((tag) => (
+                            <span key={tag.id} className="shrink-0" style={tag.color ? { color: tag.color } : undefined}>
+                              #{tag.name}
+                            </span>
+                          ))}
                         </div>
                       </div>
 
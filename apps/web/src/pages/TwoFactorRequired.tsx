@@ -0,0 +1,34 @@
+import { useAuthStore, signOut } from '../stores/auth';
+import { TwoFactorSetup } from '../components/TwoFactorSetup';
+
+// Shown instead of the app when the household requires 2FA and this user
+// hasn't set it up yet
+export default function TwoFactorRequired() {
+  const { household } = useAuthStore();
+
+  return (
+    <div className="flex min-h-viewport flex-col items-center justify-center bg-primary-50 px-4 py-8">
+      <div className="mb-8 text-center">
+        <img
+          src="/images/logo-512x-trans.png"
+          alt="Otter Money"
+          className="mx-auto h-24 w-24"
+        />
+        <h1 className="mt-4 text-2xl font-bold text-gray-900">Set up two-factor authentication</h1>
+        <p className="mt-2 max-w-sm text-gray-600">
+          {household?.name || 'Your household'} requires two-factor authentication for everyone.
+          Set it up to continue.
+        </p>
+      </div>
+
+      <div className="card w-full max-w-sm">
+        {/* Once the codes are saved the auth store updates and the app takes over */}
+        <TwoFactorSetup onDone={() => {}} />
+      </div>
+
+      <button onClick={signOut} className="mt-6 text-sm text-gray-600 hover:text-gray-900">
+        Sign out
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import type { User } from '@otter-money/shared';
+import { useAuthStore } from '../stores/auth';
+import { API_BASE } from '../utils/api';
+
+// Opened from verification and change-of-email links, signed in or not
+export default function VerifyEmail() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const { user, isAuthenticated, updateUser } = useAuthStore();
+
+  const [status, setStatus] = useState<'verifying' | 'success' | 'error'>(token ? 'verifying' : 'error');
+  const [error, setError] = useState(token ? '' : 'This verification link is invalid.');
+  const [email, setEmail] = useState('');
+  const hasRun = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use, so don't submit twice in StrictMode
+    if (!token || hasRun.current) return;
+    hasRun.current = true;
+
+    const verify = async () => {
+      try {
+        const response = await fetch(`${API_BASE}/auth/verify-email`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body.error?.message || 'Verification failed');
+        }
+
+        const verified = body.data.user as User;
+        setEmail(verified.email);
+        if (user?.id === verified.id) {
+          updateUser({ email: verified.email, emailVerified: true });
+        }
+        setStatus('success');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Verification failed');
+        setStatus('error');
+      }
+    };
+
+    verify();
+  }, [token, user?.id, updateUser]);
+
+  return (
+    <div className="flex min-h-viewport flex-col items-center justify-center bg-primary-50 px-4">
+      <div className="mb-8 text-center">
+        <img
+          src="/images/logo-512x-trans.png"
+          alt="Otter Money"
+          className="mx-auto h-24 w-24"
+        />
+        {status === 'verifying' && (
+          <h1 className="mt-4 text-2xl font-bold text-gray-900">Verifying your email...</h1>
+        )}
+        {status === 'success' && (
+          <>
+            <h1 className="mt-4 text-2xl font-bold text-gray-900">Email verified</h1>
+            <p className="mt-2 max-w-sm text-gray-600">
+              {email} is confirmed. You're all set.
+            </p>
+          </>
+        )}
+        {status === 'error' && (
+          <>
+            <h1 className="mt-4 text-2xl font-bold text-gray-900">Couldn't verify</h1>
+            <p className="mt-2 max-w-sm text-gray-600">{error}</p>
+            {isAuthenticated && (
+              <p className="mt-2 max-w-sm text-sm text-gray-500">
+                You can send a new link from Settings.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+
+      {status !== 'verifying' && (
+        <Link to={isAuthenticated ? '/' : '/login'} className="btn-primary">
+          {isAuthenticated ? 'Go to Otter Money' : 'Sign in'}
+        </Link>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,27 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { User, Household } from '@otter-money/shared';
+import { Capacitor } from '@capacitor/core';
+import type { User, Household, RefreshResponse } from '@otter-money/shared';
+import { API_BASE } from '../utils/api';
+
+const STORAGE_KEY = 'otter-money-auth';
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
 
 interface AuthState {
   user: User | null;
   household: Household | null;
   accessToken: string | null;
+  refreshToken: string | null;
   isAuthenticated: boolean;
-  setAuth: (user: User, household: Household | null, accessToken: string) => void;
+  setAuth: (
+    user: User,
+    household: Household | null,
+    accessToken: string,
+    refreshToken?: string
+  ) => void;
+  setTokens: (accessToken: string, refreshToken: string) => void;
   updateUser: (user: Partial<User>) => void;
   updateHousehold: (household: Partial<Household>) => void;
   logout: () => void;
@@ -19,14 +33,17 @@ export const useAuthStore = create<AuthState>()(
       user: null,
       household: null,
       accessToken: null,
+      refreshToken: null,
       isAuthenticated: false,
-      setAuth: (user, household, accessToken) =>
-        set({
+      setAuth: (user, household, accessToken, refreshToken) =>
+        set((state) => ({
           user,
           household,
           accessToken,
+          refreshToken: refreshToken ?? state.refreshToken,
           isAuthenticated: true,
-        }),
+        })),
+      setTokens: (accessToken, refreshToken) => set({ accessToken, refreshToken }),
       updateUser: (updates) =>
         set((state) => ({
           user: state.user ? { ...state.user, ...updates } : null,
@@ -40,17 +57,142 @@ export const useAuthStore = create<AuthState>()(
           user: null,
           household: null,
           accessToken: null,
+          refreshToken: null,
           isAuthenticated: false,
         }),
     }),
     {
-      name: 'otter-money-auth',
+      name: STORAGE_KEY,
       partialize: (state) => ({
         user: state.user,
         household: state.household,
         accessToken: state.accessToken,
+        refreshToken: state.refreshToken,
         isAuthenticated: state.isAuthenticated,
       }),
     }
   )
 );
+
+// Name shown in the sessions list. On the web the server names the device
+// from its user agent.
+export function getDeviceName(): string | undefined {
+  const platform = Capacitor.getPlatform();
+  if (platform === 'ios') return 'Otter Money for iOS';
+  if (platform === 'android') return 'Otter Money for Android';
+  return undefined;
+}
+
+let refreshPromise: Promise<string | null> | null = null;
+
+/**
+ * Swap the refresh token for a new access token. Concurrent callers share one
+ * request, since each refresh token only works once. Resolves to the new
+ * access token, or null if the session has ended (the user is logged out).
+ */
+export function refreshSession(): Promise<string | null> {
+  if (refreshPromise) return refreshPromise;
+
+  refreshPromise = (async () => {
+    const { refreshToken, setTokens, logout } = useAuthStore.getState();
+    if (!refreshToken) {
+      logout();
+      return null;
+    }
+
+    try {
+      const response = await fetch(`${API_BASE}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      // 409: another tab rotated the token moments ago. Give it time to save
+      // the new tokens, then use those.
+      if (response.status === 409) {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        await useAuthStore.persist.rehydrate();
+        const state = useAuthStore.getState();
+        return state.refreshToken !== refreshToken ? state.accessToken : null;
+      }
+
+      if (!response.ok) {
+        if (response.status === 401) logout();
+        return null;
+      }
+
+      const { data } = (await response.json()) as { data: RefreshResponse };
+      setTokens(data.accessToken, data.refreshToken);
+      return data.accessToken;
+    } catch {
+      // Offline: keep the session and try again on the next request
+      return null;
+    }
+  })().finally(() => {
+    refreshPromise = null;
+  });
+
+  return refreshPromise;
+}
+
+// Revoke this device's session, then clear local state
+export async function signOut(): Promise<void> {
+  const { refreshToken, logout } = useAuthStore.getState();
+  try {
+    await fetch(`${API_BASE}/auth/logout`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    });
+  } catch {
+    // Ignore errors: the session expires on its own
+  }
+  logout();
+}
+
+function getTokenExpiry(accessToken: string): number | null {
+  try {
+    const payload = JSON.parse(atob(accessToken.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+// Refresh shortly before the access token expires, so requests made with
+// plain fetch keep working too
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+function scheduleRefresh(accessToken: string | null) {
+  clearTimeout(refreshTimer);
+  if (!accessToken) return;
+
+  const expiresAt = getTokenExpiry(accessToken);
+  if (!expiresAt) return;
+
+  // Jitter so tabs sharing a token don't all refresh at once
+  const delay = expiresAt - Date.now() - REFRESH_MARGIN_MS - Math.random() * 30 * 1000;
+  refreshTimer = setTimeout(refreshSession, Math.max(0, delay));
+}
+
+if (typeof window !== 'undefined') {
+  scheduleRefresh(useAuthStore.getState().accessToken);
+  useAuthStore.subscribe((state, prev) => {
+    if (state.accessToken !== prev.accessToken) scheduleRefresh(state.accessToken);
+  });
+
+  // Timers don't run while the app is in the background
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState !== 'visible') return;
+    const { accessToken, refreshToken } = useAuthStore.getState();
+    const expiresAt = accessToken ? getTokenExpiry(accessToken) : null;
+    if (refreshToken && expiresAt && expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+      refreshSession();
+    }
+  });
+
+  // Pick up tokens rotated by another tab
+  window.addEventListener('storage', (e) => {
+    if (e.key === STORAGE_KEY) useAuthStore.persist.rehydrate();
+  });
+}
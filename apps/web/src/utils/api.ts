@@ -1,4 +1,4 @@
-import { useAuthStore } from '../stores/auth';
+import { useAuthStore, refreshSession } from '../stores/auth';
 
 export const API_BASE = import.meta.env.VITE_API_URL || '/api';
 export const APP_URL = import.meta.env.VITE_APP_URL || window.location.origin;
@@ -21,10 +21,11 @@ interface FetchOptions extends RequestInit {
 
 export async function apiFetch<T>(
   endpoint: string,
-  options: FetchOptions = {}
+  options: FetchOptions = {},
+  isRetry = false
 ): Promise<T> {
   const { params, ...fetchOptions } = options;
-  const { accessToken, logout } = useAuthStore.getState();
+  const { accessToken, refreshToken, logout } = useAuthStore.getState();
 
   // Build URL with query params
   let url = `${API_BASE}${endpoint}`;
@@ -55,14 +56,26 @@ export async function apiFetch<T>(
     headers,
   });
 
-  // Handle 401 - logout user
+  // Handle 401 - refresh the access token and retry once, else logout user
   if (response.status === 401) {
-    logout();
+    if (refreshToken && !isRetry) {
+      const newToken = await refreshSession();
+      if (newToken) return apiFetch<T>(endpoint, options, true);
+    } else {
+      logout();
+    }
     throw new ApiError('UNAUTHORIZED', 'Session expired', 401);
   }
 
   const data = await response.json();
 
+  // The household started requiring 2FA since this user signed in
+  if (response.status === 403 && data.error?.code === 'TWO_FACTOR_REQUIRED') {
+    const { updateUser, updateHousehold } = useAuthStore.getState();
+    updateHousehold({ requireTwoFactor: true });
+    updateUser({ twoFactorEnabled: false });
+  }
+
   if (!response.ok) {
     throw new ApiError(
       data.error?.code || 'UNKNOWN_ERROR',
@@ -31,6 +31,16 @@ export const ACCOUNT_TYPE_CONFIG = {
   OTHER: { label: 'Other', icon: 'circle' },
 } as const;
 
+// Budget period lengths, shortest first
+export const BUDGET_CADENCE_CONFIG = {
+  WEEKLY: { label: 'Weekly', noun: 'week' },
+  BIWEEKLY: { label: 'Every two weeks', noun: 'pay period' },
+  SEMIMONTHLY: { label: 'Twice a month', noun: 'half month' },
+  MONTHLY: { label: 'Monthly', noun: 'month' },
+  QUARTERLY: { label: 'Quarterly', noun: 'quarter' },
+  ANNUAL: { label: 'Yearly', noun: 'year' },
+} as const;
+
 // Default categories (legacy flat structure - kept for backwards compatibility)
 // New installations use DEFAULT_CATEGORIES_HIERARCHICAL instead
 export const DEFAULT_CATEGORIES = {
@@ -201,8 +211,26 @@ export const ERROR_CODES = {
   PLAID_ERROR: 'PLAID_ERROR',
   SIMPLEFIN_ERROR: 'SIMPLEFIN_ERROR',
   MARKETCHECK_ERROR: 'MARKETCHECK_ERROR',
+  WALLY_ERROR: 'WALLY_ERROR',
+  EMAIL_NOT_VERIFIED: 'EMAIL_NOT_VERIFIED',
+  TWO_FACTOR_REQUIRED: 'TWO_FACTOR_REQUIRED',
 } as const;
 
+// Deepest nesting of condition groups in a categorization rule (top level = 1)
+export const MAX_RULE_GROUP_DEPTH = 4;
+
+// Receipt and document attachments on transactions
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10 MB
+export const MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+export const ATTACHMENT_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+  'application/pdf',
+] as const;
+export type AttachmentContentType = (typeof ATTACHMENT_CONTENT_TYPES)[number];
+
 // Supported currencies
 export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD'] as const;
 export type Currency = (typeof CURRENCIES)[number];
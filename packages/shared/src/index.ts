@@ -1,3 +1,4 @@
 // Re-export all types
 export * from './types';
 export * from './constants';
+export * from './periods';
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatPeriod,
+  getPeriodCadence,
+  getPeriodDateRange,
+  getPeriodForDate,
+  isPeriodOfCadence,
+  isValidPeriod,
+  shiftPeriod,
+} from './periods';
+
+const date = (value: string) => new Date(`${value}T00:00:00Z`);
+
+describe('isValidPeriod', () => {
+  it('accepts a period of every cadence', () => {
+    for (const period of ['2026', '2026-Q4', '2026-10', '2026-10-H2', '2026-W42', '2026-10-09']) {
+      expect(isValidPeriod(period)).toBe(true);
+    }
+  });
+
+  it('rejects impossible months, weeks and dates', () => {
+    const invalid = ['2026-13', '2026-00', '2026-Q5', '2026-10-H3', '2026-W00', '2025-W53', '2026-02-30', ''];
+    for (const period of invalid) {
+      expect(isValidPeriod(period)).toBe(false);
+    }
+    // 2026 starts on a Thursday, so it has 53 ISO weeks
+    expect(isValidPeriod('2026-W53')).toBe(true);
+  });
+
+  it('reads the cadence from the name', () => {
+    expect(getPeriodCadence('2026-Q1')).toBe('QUARTERLY');
+    expect(getPeriodCadence('2026-01-H1')).toBe('SEMIMONTHLY');
+    expect(getPeriodCadence('2026-01-09')).toBe('BIWEEKLY');
+    expect(() => getPeriodCadence('nope')).toThrow('Invalid budget period');
+  });
+});
+
+describe('getPeriodDateRange', () => {
+  it('runs from the first day to the last millisecond', () => {
+    expect(getPeriodDateRange('2024-02')).toEqual({
+      start: date('2024-02-01'),
+      end: new Date(date('2024-03-01').getTime() - 1),
+    });
+    expect(getPeriodDateRange('2026-10-H2').start).toEqual(date('2026-10-16'));
+    expect(getPeriodDateRange('2026-10-09').end).toEqual(new Date(date('2026-10-23').getTime() - 1));
+  });
+});
+
+describe('getPeriodForDate', () => {
+  const day = date('2026-10-19');
+
+  it('names the period of each calendar cadence', () => {
+    expect(getPeriodForDate(day, 'ANNUAL')).toBe('2026');
+    expect(getPeriodForDate(day, 'QUARTERLY')).toBe('2026-Q4');
+    expect(getPeriodForDate(day)).toBe('2026-10');
+    expect(getPeriodForDate(day, 'SEMIMONTHLY')).toBe('2026-10-H2');
+    expect(getPeriodForDate(date('2026-10-15'), 'SEMIMONTHLY')).toBe('2026-10-H1');
+    expect(getPeriodForDate(day, 'WEEKLY')).toBe('2026-W43');
+  });
+
+  it('puts ISO weeks in the year their Thursday falls in', () => {
+    // Thursday 1 January 2026: the week starting Monday 29 December is 2026's first
+    expect(getPeriodForDate(date('2025-12-29'), 'WEEKLY')).toBe('2026-W01');
+    // Friday 1 January 2021 belongs to the last week of 2020
+    expect(getPeriodForDate(date('2021-01-01'), 'WEEKLY')).toBe('2020-W53');
+  });
+
+  it('lines biweekly periods up with the payday anchor, before and after it', () => {
+    expect(getPeriodForDate(day, 'BIWEEKLY', '2026-10-09')).toBe('2026-10-09');
+    expect(getPeriodForDate(date('2026-10-23'), 'BIWEEKLY', '2026-10-09')).toBe('2026-10-23');
+    expect(getPeriodForDate(date('2026-10-08'), 'BIWEEKLY', '2026-10-09')).toBe('2026-09-25');
+    expect(getPeriodForDate(day, 'BIWEEKLY', '2020-01-03')).toBe('2026-10-16');
+  });
+
+  it('needs a payday for biweekly periods', () => {
+    expect(() => getPeriodForDate(day, 'BIWEEKLY')).toThrow('payday');
+    expect(() => getPeriodForDate(day, 'BIWEEKLY', '2026-10')).toThrow('payday');
+  });
+});
+
+describe('isPeriodOfCadence', () => {
+  it('accepts only periods of the given cadence', () => {
+    expect(isPeriodOfCadence('2026-10', 'MONTHLY')).toBe(true);
+    expect(isPeriodOfCadence('2026-10', 'SEMIMONTHLY')).toBe(false);
+    expect(isPeriodOfCadence('2026-W43', 'WEEKLY')).toBe(true);
+    expect(isPeriodOfCadence('2026-Q4', 'ANNUAL')).toBe(false);
+    expect(isPeriodOfCadence('2026-13', 'MONTHLY')).toBe(false);
+  });
+
+  it('accepts only biweekly periods that start on a payday', () => {
+    expect(isPeriodOfCadence('2026-10-23', 'BIWEEKLY', '2026-10-09')).toBe(true);
+    expect(isPeriodOfCadence('2026-09-25', 'BIWEEKLY', '2026-10-09')).toBe(true);
+    expect(isPeriodOfCadence('2026-10-16', 'BIWEEKLY', '2026-10-09')).toBe(false);
+  });
+});
+
+describe('shiftPeriod', () => {
+  it('moves months and quarters across year ends', () => {
+    expect(shiftPeriod('2026-12', 1)).toBe('2027-01');
+    expect(shiftPeriod('2026-01', -13)).toBe('2024-12');
+    expect(shiftPeriod('2026-Q4', 1)).toBe('2027-Q1');
+    expect(shiftPeriod('2026-Q1', -5)).toBe('2024-Q4');
+    expect(shiftPeriod('2026', -2)).toBe('2024');
+  });
+
+  it('moves half months two to a month', () => {
+    expect(shiftPeriod('2026-10-H1', 1)).toBe('2026-10-H2');
+    expect(shiftPeriod('2026-10-H2', 1)).toBe('2026-11-H1');
+    expect(shiftPeriod('2026-01-H1', -1)).toBe('2025-12-H2');
+    expect(shiftPeriod('2026-01-H2', -3)).toBe('2025-12-H1');
+    expect(shiftPeriod('2026-10-H2', 0)).toBe('2026-10-H2');
+  });
+
+  it('moves weeks and pay periods by whole periods', () => {
+    expect(shiftPeriod('2020-W53', 1)).toBe('2021-W01');
+    expect(shiftPeriod('2026-W01', -1)).toBe('2025-W52');
+    expect(shiftPeriod('2026-10-09', 1)).toBe('2026-10-23');
+    expect(shiftPeriod('2026-10-09', -2)).toBe('2026-09-11');
+  });
+});
+
+describe('formatPeriod', () => {
+  it('spells out each cadence', () => {
+    expect(formatPeriod('2026')).toBe('2026');
+    expect(formatPeriod('2026-Q4')).toBe('Q4 2026');
+    expect(formatPeriod('2026-10')).toBe('October 2026');
+    expect(formatPeriod('2026-10-H1')).toBe('Oct 1–15, 2026');
+    expect(formatPeriod('2026-02-H2')).toBe('Feb 16–28, 2026');
+    expect(formatPeriod('2026-W43')).toBe('Oct 19 – Oct 25, 2026');
+    expect(formatPeriod('2026-12-25')).toBe('Dec 25, 2026 – Jan 7, 2027');
+  });
+
+  it('leaves anything else as it is', () => {
+    expect(formatPeriod('someday')).toBe('someday');
+  });
+});
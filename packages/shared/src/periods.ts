@@ -0,0 +1,248 @@
+/**
+ * Budget periods
+ * A period is named by a string that also says which cadence it belongs to:
+ *
+ *   2026         year
+ *   2026-Q4      quarter
+ *   2026-10      month
+ *   2026-10-H1   1st to 15th of a month (H2: 16th to the end)
+ *   2026-W42     ISO week, Monday to Sunday
+ *   2026-10-09   two weeks starting on that date (biweekly, anchored to a payday)
+ *
+ * Periods are calendar dates in UTC, the same way transaction dates are stored.
+ * Used by the API (budgets, analytics) and the web app alike.
+ */
+
+import type { BudgetCadence } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ParsedPeriod {
+  cadence: BudgetCadence;
+  start: Date; // First day
+  next: Date; // First day of the next period
+}
+
+function utcDate(year: number, monthIndex: number, day: number): Date {
+  return new Date(Date.UTC(year, monthIndex, day));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function toDateString(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+// Monday of ISO week 1 (the week with the year's first Thursday)
+function isoWeekOneStart(year: number): Date {
+  const jan4 = utcDate(year, 0, 4);
+  return addDays(jan4, -((jan4.getUTCDay() + 6) % 7));
+}
+
+function parsePeriod(period: string): ParsedPeriod | null {
+  let match = period.match(/^(\d{4})$/);
+  if (match) {
+    const year = Number(match[1]);
+    return { cadence: 'ANNUAL', start: utcDate(year, 0, 1), next: utcDate(year + 1, 0, 1) };
+  }
+
+  match = period.match(/^(\d{4})-Q([1-4])$/);
+  if (match) {
+    const [year, quarter] = [Number(match[1]), Number(match[2])];
+    return {
+      cadence: 'QUARTERLY',
+      start: utcDate(year, (quarter - 1) * 3, 1),
+      next: utcDate(year, quarter * 3, 1),
+    };
+  }
+
+  match = period.match(/^(\d{4})-(\d{2})(?:-H([12]))?$/);
+  if (match) {
+    const [year, month] = [Number(match[1]), Number(match[2])];
+    if (month < 1 || month > 12) return null;
+    if (!match[3]) {
+      return { cadence: 'MONTHLY', start: utcDate(year, month - 1, 1), next: utcDate(year, month, 1) };
+    }
+    return match[3] === '1'
+      ? { cadence: 'SEMIMONTHLY', start: utcDate(year, month - 1, 1), next: utcDate(year, month - 1, 16) }
+      : { cadence: 'SEMIMONTHLY', start: utcDate(year, month - 1, 16), next: utcDate(year, month, 1) };
+  }
+
+  match = period.match(/^(\d{4})-W(\d{2})$/);
+  if (match) {
+    const [year, week] = [Number(match[1]), Number(match[2])];
+    const start = addDays(isoWeekOneStart(year), (week - 1) * 7);
+    if (week < 1 || start >= isoWeekOneStart(year + 1)) return null;
+    return { cadence: 'WEEKLY', start, next: addDays(start, 7) };
+  }
+
+  match = period.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) {
+    const start = utcDate(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    if (toDateString(start) !== period) return null;
+    return { cadence: 'BIWEEKLY', start, next: addDays(start, 14) };
+  }
+
+  return null;
+}
+
+function parsePeriodOrThrow(period: string): ParsedPeriod {
+  const parsed = parsePeriod(period);
+  if (!parsed) {
+    throw new Error(`Invalid budget period "${period}"`);
+  }
+  return parsed;
+}
+
+export function isValidPeriod(period: string): boolean {
+  return parsePeriod(period) !== null;
+}
+
+export function getPeriodCadence(period: string): BudgetCadence {
+  return parsePeriodOrThrow(period).cadence;
+}
+
+/**
+ * First and last moment of a period, in UTC
+ */
+export function getPeriodDateRange(period: string): { start: Date; end: Date } {
+  const { start, next } = parsePeriodOrThrow(period);
+  return { start, end: new Date(next.getTime() - 1) };
+}
+
+/**
+ * The period of a cadence that contains a date. Biweekly periods need the
+ * date of any payday (YYYY-MM-DD) to line up with.
+ */
+export function getPeriodForDate(
+  date: Date,
+  cadence: BudgetCadence = 'MONTHLY',
+  paydayAnchor?: string | null
+): string {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = utcDate(year, month, date.getUTCDate());
+
+  switch (cadence) {
+    case 'ANNUAL':
+      return String(year);
+    case 'QUARTERLY':
+      return `${year}-Q${Math.floor(month / 3) + 1}`;
+    case 'MONTHLY':
+      return `${year}-${pad(month + 1)}`;
+    case 'SEMIMONTHLY':
+      return `${year}-${pad(month + 1)}-H${day.getUTCDate() <= 15 ? 1 : 2}`;
+    case 'WEEKLY': {
+      const monday = addDays(day, -((day.getUTCDay() + 6) % 7));
+      // The week belongs to the year its Thursday falls in
+      const isoYear = addDays(monday, 3).getUTCFullYear();
+      const week = Math.round((monday.getTime() - isoWeekOneStart(isoYear).getTime()) / (7 * DAY_MS)) + 1;
+      return `${isoYear}-W${pad(week)}`;
+    }
+    case 'BIWEEKLY': {
+      const anchor = paydayAnchor ? parsePeriod(paydayAnchor) : null;
+      if (!anchor || anchor.cadence !== 'BIWEEKLY') {
+        throw new Error('Biweekly periods need a payday date (YYYY-MM-DD)');
+      }
+      const offset = Math.floor((day.getTime() - anchor.start.getTime()) / (14 * DAY_MS));
+      return toDateString(addDays(anchor.start, offset * 14));
+    }
+  }
+}
+
+/**
+ * Whether a period is one of a cadence's periods: any valid period name of
+ * the wrong cadence fails, and so does a biweekly period that doesn't start
+ * on a payday.
+ */
+export function isPeriodOfCadence(
+  period: string,
+  cadence: BudgetCadence,
+  paydayAnchor?: string | null
+): boolean {
+  const parsed = parsePeriod(period);
+  if (!parsed || parsed.cadence !== cadence) return false;
+  return getPeriodForDate(parsed.start, cadence, paydayAnchor) === period;
+}
+
+/**
+ * The period containing today (in local time, like the rest of the app's "today")
+ */
+export function getCurrentPeriod(cadence: BudgetCadence = 'MONTHLY', paydayAnchor?: string | null): string {
+  const now = new Date();
+  return getPeriodForDate(utcDate(now.getFullYear(), now.getMonth(), now.getDate()), cadence, paydayAnchor);
+}
+
+/**
+ * Move a period forward (or back, with a negative count) by whole periods of
+ * the same cadence
+ */
+export function shiftPeriod(period: string, count: number): string {
+  const { cadence, start } = parsePeriodOrThrow(period);
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+
+  switch (cadence) {
+    case 'ANNUAL':
+      return String(year + count);
+    case 'QUARTERLY':
+      return getPeriodForDate(utcDate(year, month + count * 3, 1), cadence);
+    case 'MONTHLY':
+      return getPeriodForDate(utcDate(year, month + count, 1), cadence);
+    case 'SEMIMONTHLY': {
+      const half = (start.getUTCDate() === 1 ? 0 : 1) + count;
+      const months = Math.floor(half / 2);
+      return getPeriodForDate(utcDate(year, month + months, half - months * 2 === 0 ? 1 : 16), cadence);
+    }
+    case 'WEEKLY':
+      return getPeriodForDate(addDays(start, count * 7), cadence);
+    case 'BIWEEKLY':
+      return toDateString(addDays(start, count * 14));
+  }
+}
+
+export function getNextPeriod(period: string): string {
+  return shiftPeriod(period, 1);
+}
+
+export function getPrevPeriod(period: string): string {
+  return shiftPeriod(period, -1);
+}
+
+/**
+ * Human-readable period: "October 2026", "Q4 2026", "Oct 1–15, 2026",
+ * "Oct 12 – Oct 18, 2026"
+ */
+export function formatPeriod(period: string): string {
+  const parsed = parsePeriod(period);
+  if (!parsed) return period;
+
+  const { cadence, start, next } = parsed;
+  const last = addDays(next, -1);
+  const year = start.getUTCFullYear();
+  const format = (date: Date, options: Intl.DateTimeFormatOptions) =>
+    date.toLocaleDateString('en-US', { timeZone: 'UTC', ...options });
+
+  switch (cadence) {
+    case 'ANNUAL':
+      return String(year);
+    case 'QUARTERLY':
+      return `Q${Math.floor(start.getUTCMonth() / 3) + 1} ${year}`;
+    case 'MONTHLY':
+      return format(start, { month: 'long', year: 'numeric' });
+    case 'SEMIMONTHLY':
+      return `${format(start, { month: 'short' })} ${start.getUTCDate()}–${last.getUTCDate()}, ${year}`;
+    case 'WEEKLY':
+    case 'BIWEEKLY': {
+      const sameYear = last.getUTCFullYear() === year;
+      const from = format(start, sameYear ? { month: 'short', day: 'numeric' } : { dateStyle: 'medium' });
+      return `${from} – ${format(last, { dateStyle: 'medium' })}`;
+    }
+  }
+}
@@ -4,10 +4,20 @@
 
 export type HouseholdRole = 'ORGANIZER' | 'PARTNER';
 
+// How long each budget period is (see periods.ts)
+export type BudgetCadence = 'WEEKLY' | 'BIWEEKLY' | 'SEMIMONTHLY' | 'MONTHLY' | 'QUARTERLY' | 'ANNUAL';
+
+// ENVELOPE: zero-based, each period's income is assigned to categories
+export type BudgetMode = 'STANDARD' | 'ENVELOPE';
+
 export interface Household {
   id: string;
   name: string | null;
   inviteCode: string;
+  requireTwoFactor?: boolean;
+  budgetCadence?: BudgetCadence;
+  budgetPaydayAnchor?: string | null; // YYYY-MM-DD of any payday, for biweekly budgets
+  budgetMode?: BudgetMode;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -18,6 +28,7 @@ export interface User {
   name: string;
   avatarUrl: string | null;
   emailVerified: boolean;
+  twoFactorEnabled?: boolean;
   householdId: string | null;
   householdRole: HouseholdRole;
   createdAt: Date;
@@ -91,14 +102,74 @@ export interface Transaction {
   isAdjustment: boolean;
   isPending: boolean;
   notes: string | null;
-  parentId: string | null;
+  parentId: string | null; // Set on split lines
+  attributedToId: string | null; // Partner this counts towards, if not the account owner
+  transferPairId: string | null; // Other leg when this is a transfer between household accounts
+  transferStatus: TransferStatus;
+  excludeFromBudget: boolean; // Hidden from budgets and spending reports
   createdAt: Date;
   updatedAt: Date;
 }
 
+// CONFIRMED transfers are excluded from budgets, analytics and recurring detection
+export type TransferStatus = 'NONE' | 'SUGGESTED' | 'CONFIRMED' | 'DISMISSED';
+
+export interface TransferPairLeg {
+  id: string;
+  date: Date;
+  amount: number;
+  description: string;
+  merchantName: string | null;
+  account: Pick<Account, 'id' | 'name' | 'type'>;
+}
+
+export interface TransactionSplit extends Transaction {
+  category: Pick<Category, 'id' | 'name' | 'type' | 'icon' | 'color'> | null;
+  attributedTo: { id: string; name: string } | null;
+}
+
 export interface TransactionWithDetails extends Transaction {
   account: Pick<Account, 'id' | 'name' | 'type' | 'ownerId'>;
   category: Pick<Category, 'id' | 'name' | 'type' | 'icon' | 'color'> | null;
+  splits?: TransactionSplit[]; // Present (and non-empty) when the transaction has been split
+  transferPair?: TransferPairLeg | null;
+  tags?: Pick<Tag, 'id' | 'name' | 'color'>[];
+}
+
+// Free-form label across categories; names can't contain commas
+export interface Tag {
+  id: string;
+  householdId: string;
+  name: string;
+  color: string | null;
+  createdAt: Date;
+}
+
+export interface TagWithCount extends Tag {
+  transactionCount: number;
+}
+
+// Receipt photo or document on a transaction; the file is downloaded separately
+export interface Attachment {
+  id: string;
+  transactionId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  uploadedById: string | null;
+  createdAt: Date;
+}
+
+export interface TransactionSplitLine {
+  amount: number; // Same sign convention as the parent
+  categoryId?: string | null;
+  notes?: string | null;
+  attributedToId?: string | null;
+}
+
+// Lines must sum exactly to the parent amount
+export interface SplitTransactionRequest {
+  splits: TransactionSplitLine[];
 }
 
 // ============================================
@@ -145,13 +216,41 @@ export interface Budget {
   id: string;
   householdId: string;
   categoryId: string;
+  ownerId: string | null; // Partner with a personal budget (allowance); null = joint
+  amount: number;
+  period: string; // "2024-01" for a month; other cadences in periods.ts
+  rollover: boolean; // Carry what's left (or overspent) into the next period's budget
+  rolloverCap: number | null; // Most unspent budget carried forward; null = no limit
+  rolloverReset: boolean; // Nothing carries into this period
+  fromTemplate: boolean; // Created from the budget template and not edited since
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Standing budget created automatically each period
+export interface BudgetTemplateItem {
+  id: string;
+  categoryId: string;
+  category: Pick<Category, 'id' | 'name' | 'type' | 'icon' | 'color'>;
   amount: number;
-  period: string; // "2024-01" format
   rollover: boolean;
+  rolloverCap: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Envelope ledger entry. A null side is the period's "to be assigned" income.
+export interface BudgetAssignment {
+  id: string;
+  period: string;
+  fromCategory: Pick<Category, 'id' | 'name' | 'icon' | 'color'> | null;
+  toCategory: Pick<Category, 'id' | 'name' | 'icon' | 'color'> | null;
+  amount: number;
+  note: string | null;
+  actor: { id: string; name: string } | null;
+  createdAt: Date;
+}
+
 export interface BudgetWithSpending extends Budget {
   category: Pick<Category, 'id' | 'name' | 'icon' | 'color'>;
   spent: number;
@@ -284,12 +383,25 @@ export interface RuleConditions {
   descriptionContains?: string;
   merchantExactly?: string;
   descriptionExactly?: string;
+  descriptionStartsWith?: string;
+  descriptionEndsWith?: string;
+  merchantMatchesRegex?: string; // Regular expression, e.g. "^(uber|lyft)\\b"
 
   // Amount matching
   amountMin?: number;
   amountMax?: number;
   amountExactly?: number;
 
+  // Date matching
+  daysOfMonth?: number[]; // 1-31
+  daysOfWeek?: number[]; // 0 = Sunday ... 6 = Saturday
+  dateFrom?: string; // YYYY-MM-DD, inclusive
+  dateTo?: string; // YYYY-MM-DD, inclusive
+
+  // Current category
+  categoryIs?: string;
+  isUncategorized?: boolean;
+
   // Account filtering
   accountIds?: string[];
   accountTypes?: AccountType[];
@@ -297,22 +409,83 @@ export interface RuleConditions {
   // Owner filtering
   ownerIds?: string[];
 
+  // Conditions that must NOT match, e.g. ['merchantContains']
+  negate?: RuleConditionField[];
+
+  // Nested groups, each with its own operator. A group's result counts as one
+  // more condition of its parent, so "(A AND B) OR C" is
+  // { operator: 'OR', C, groups: [{ operator: 'AND', A, B }] }.
+  // Rules without groups are a single flat group.
+  groups?: RuleConditions[];
+
   // Combination logic (default: AND)
   operator?: 'AND' | 'OR';
 }
 
+export type RuleConditionField = Exclude<keyof RuleConditions, 'negate' | 'groups' | 'operator'>;
+
+// What a rule does besides setting the category
+export interface RuleActions {
+  renameMerchant?: string; // Clean display name for the merchant
+  appendNote?: string; // Added to the transaction's notes
+  markAsTransfer?: boolean; // Confirmed transfer: not counted as spending or income
+  recurringTransactionId?: string; // Link to a recurring bill
+  excludeFromBudget?: boolean; // Hide from budgets and spending reports
+  attributedToId?: string; // Partner the transaction counts towards
+}
+
 export interface CategorizationRule {
   id: string;
   householdId: string;
-  categoryId: string;
+  categoryId: string | null; // Null for rules that only run other actions
   conditions: RuleConditions;
+  actions: RuleActions | null;
   priority: number;
   isEnabled: boolean;
   createdAt: Date;
 }
 
 export interface CategorizationRuleWithCategory extends CategorizationRule {
+  category: Pick<Category, 'id' | 'name' | 'type' | 'icon' | 'color'> | null;
+}
+
+// A rule offered after the same merchant has been categorized the same way by hand several times
+export interface RuleSuggestion {
+  id: string;
+  merchantName: string;
+  categoryId: string;
   category: Pick<Category, 'id' | 'name' | 'type' | 'icon' | 'color'>;
+  count: number; // Times the merchant was put in the category by hand
+  conditions: RuleConditions; // Conditions of the rule accepting it would create
+  message: string;
+  matchCount: number; // Past transactions from the merchant not yet in the category
+  sampleMatches: TransactionWithDetails[];
+}
+
+// What running every enabled rule over a transaction would change
+export interface RuleDryRunChange {
+  transactionId: string;
+  date: string;
+  description: string;
+  merchantName: string | null;
+  amount: number;
+  accountName: string;
+  currentCategory: Pick<Category, 'id' | 'name' | 'type' | 'icon' | 'color'> | null;
+  newCategory: Pick<Category, 'id' | 'name' | 'type' | 'icon' | 'color'> | null; // Same as current when only other fields change
+  winningRuleId: string; // Rule whose category won, or the first rule that changed anything
+  matchedRuleIds: string[]; // Highest priority first
+  changes: Record<string, AuditChange>;
+}
+
+export interface RuleDryRunResult {
+  scannedCount: number;
+  totalChanges: number; // Changes may be cut off at the requested limit; this counts them all
+  changes: RuleDryRunChange[];
+  rules: { ruleId: string; matchCount: number; appliedCount: number }[];
+  // Rules that matched but never decided anything because higher-priority rules always did
+  shadowedRules: { ruleId: string; matchCount: number; shadowedBy: string[] }[];
+  // Pairs of rules matching the same transactions, higher priority first
+  overlaps: { ruleIds: [string, string]; count: number; conflicting: boolean }[];
 }
 
 // ============================================
@@ -360,6 +533,44 @@ export interface AuthResponse {
   user: User;
   household: Household | null;
   accessToken: string;
+  refreshToken: string;
+}
+
+// Returned by login instead of tokens when the user has 2FA on
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  requiredByHousehold: boolean;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+export interface RefreshResponse {
+  accessToken: string;
+  refreshToken: string;
+}
+
+// A signed-in device
+export interface UserSession {
+  id: string;
+  deviceName: string;
+  ipAddress: string | null;
+  lastUsedAt: string;
+  createdAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
 }
 
 // Dashboard
@@ -375,12 +586,17 @@ export interface DashboardSummary {
   goals: Goal[];
 }
 
+export type NetWorthRange = '1M' | '3M' | '6M' | '1Y' | 'ALL';
+
+export type NetWorthInterval = 'day' | 'week' | 'month';
+
 export interface NetWorthDataPoint {
-  date: string;
+  date: string; // "2024-01-15" for day/week points, "2024-01" for month points
   total: number;
   assets: number;
   liabilities: number;
-  byPartner?: Record<string, number>;
+  byPartner?: Record<string, number>; // userId or "joint" -> net worth
+  isEstimated?: boolean; // Includes balances reconstructed from transaction history
 }
 
 export interface SpendingByCategory {
@@ -508,7 +724,11 @@ export interface DetectionResult {
 // IMPORT / EXPORT
 // ============================================
 
+// CSV, OFX/QFX or QIF
+export type ImportFileFormat = 'csv' | 'ofx' | 'qif';
+
 export interface ImportPreviewParsed {
+  externalId?: string; // From the file's own transaction id (OFX FITID), saved for later imports
   date: string;
   amount: number;
   description: string;
@@ -518,6 +738,7 @@ export interface ImportPreviewParsed {
   accountId: string;
   accountName: string;
   notes?: string;
+  tags?: string[]; // Tag names; ones the household doesn't have yet are created on import
 }
 
 export interface ImportPreviewMatchedTransaction {
@@ -548,10 +769,23 @@ export interface ImportPreviewRow {
   warnings: string[];
 }
 
+// Statement balance from the file (OFX) compared with the account's balance on that date after the import
+export interface ImportBalanceReconciliation {
+  accountId: string;
+  accountName: string;
+  asOf: string;
+  statementBalance: number;
+  expectedBalance: number;
+  difference: number;
+  willAdjust: boolean; // Manual accounts get a balance adjustment; synced accounts keep the bank's balance
+}
+
 export interface ImportPreviewResponse {
+  format?: ImportFileFormat;
   totalRows: number;
   summary: { create: number; update: number; skip: number; unchanged: number };
   rows: ImportPreviewRow[];
+  reconciliation?: ImportBalanceReconciliation | null;
 }
 
 export interface ImportExecuteResponse {
@@ -560,6 +794,7 @@ export interface ImportExecuteResponse {
   skipped: number;
   rulesApplied: number;
   skippedDetails: { rowNumber: number; reason: string }[];
+  balanceAdjustment?: number | null; // Amount of the adjustment added to match the statement balance
 }
 
 // ============================================
@@ -630,3 +865,85 @@ export interface PlaidReconnectExecuteResponse {
   transactionsAdded: number;
   transactionsSkipped: number;
 }
+
+// ============================================
+// WALLY AI
+// ============================================
+
+export type WallyMessageRole = 'user' | 'assistant';
+
+export interface WallyToolCall {
+  name: string;
+  input: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export interface WallyMessage {
+  id: string;
+  conversationId: string;
+  role: WallyMessageRole;
+  content: string;
+  userId: string | null;
+  userName: string | null;
+  toolCalls: WallyToolCall[] | null;
+  createdAt: string;
+}
+
+export interface WallyConversation {
+  id: string;
+  householdId: string;
+  title: string | null;
+  createdById: string | null;
+  createdByName: string | null;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WallyConversationWithMessages extends WallyConversation {
+  messages: WallyMessage[];
+}
+
+// Server-sent events streamed while Wally answers a message
+export type WallyStreamEvent =
+  | { type: 'message'; message: WallyMessage } // The saved user message
+  | { type: 'tool'; name: string; input: Record<string, unknown> }
+  | { type: 'delta'; text: string }
+  | { type: 'done'; message: WallyMessage } // The saved assistant reply
+  | { type: 'error'; code: string; message: string };
+
+// ============================================
+// ACTIVITY (AUDIT LOG)
+// ============================================
+
+export type AuditEntityType =
+  | 'TRANSACTION'
+  | 'CATEGORY'
+  | 'RULE'
+  | 'BUDGET'
+  | 'BUDGET_TEMPLATE'
+  | 'GOAL'
+  | 'ACCOUNT'
+  | 'RECURRING'
+  | 'HOUSEHOLD'
+  | 'TAG';
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE';
+
+// Foreign keys are stored by name: { category: { from: 'Coffee', to: 'Dining' } }
+export interface AuditChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface AuditEvent {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string | null; // Null for changes to many records at once
+  entityName: string | null;
+  action: AuditAction;
+  summary: string | null;
+  changes: Record<string, AuditChange> | null;
+  actor: { id: string; name: string } | null;
+  createdAt: string;
+}
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "BalanceSnapshotSource" AS ENUM ('PLAID', 'MANUAL', 'VEHICLE', 'SCHEDULED');
+
+-- CreateTable
+CREATE TABLE "AccountBalanceSnapshot" (
+    "id" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "balance" DECIMAL(19,4) NOT NULL,
+    "source" "BalanceSnapshotSource" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AccountBalanceSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AccountBalanceSnapshot_date_idx" ON "AccountBalanceSnapshot"("date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccountBalanceSnapshot_accountId_date_key" ON "AccountBalanceSnapshot"("accountId", "date");
+
+-- AddForeignKey
+ALTER TABLE "AccountBalanceSnapshot" ADD CONSTRAINT "AccountBalanceSnapshot_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed today's balance for every existing account so history starts now
+INSERT INTO "AccountBalanceSnapshot" ("id", "accountId", "date", "balance", "source", "updatedAt")
+SELECT 'snap_' || "id", "id", CURRENT_DATE, "currentBalance", 'SCHEDULED', CURRENT_TIMESTAMP
+FROM "Account";
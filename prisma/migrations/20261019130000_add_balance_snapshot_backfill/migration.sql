@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "BalanceSnapshotSource" ADD VALUE 'BACKFILL';
+
+-- AlterTable
+ALTER TABLE "AccountBalanceSnapshot" ADD COLUMN     "isEstimated" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,14 @@
+-- DropForeignKey
+ALTER TABLE "Transaction" DROP CONSTRAINT "Transaction_parentId_fkey";
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "attributedToId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Transaction_parentId_idx" ON "Transaction"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Transaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_attributedToId_fkey" FOREIGN KEY ("attributedToId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
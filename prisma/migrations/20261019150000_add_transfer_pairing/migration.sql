@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "TransferStatus" AS ENUM ('NONE', 'SUGGESTED', 'CONFIRMED', 'DISMISSED');
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "transferPairId" TEXT,
+ADD COLUMN     "transferStatus" "TransferStatus" NOT NULL DEFAULT 'NONE';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transaction_transferPairId_key" ON "Transaction"("transferPairId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_transferPairId_fkey" FOREIGN KEY ("transferPairId") REFERENCES "Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "BalanceSnapshotSource" ADD VALUE 'SIMPLEFIN';
@@ -0,0 +1,25 @@
+-- DropForeignKey
+ALTER TABLE "Message" DROP CONSTRAINT "Message_conversationId_fkey";
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "createdById" TEXT,
+ADD COLUMN     "title" TEXT;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "toolCalls" JSONB,
+ADD COLUMN     "userId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Conversation_householdId_updatedAt_idx" ON "Conversation"("householdId", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "Message_conversationId_createdAt_idx" ON "Message"("conversationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Conversation" ADD CONSTRAINT "Conversation_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "CollegePlan" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "childName" TEXT NOT NULL,
+    "birthYear" INTEGER NOT NULL,
+    "enrollmentAge" INTEGER NOT NULL DEFAULT 18,
+    "yearsOfSchool" INTEGER NOT NULL DEFAULT 4,
+    "annualCost" DECIMAL(19,4) NOT NULL,
+    "educationInflation" DECIMAL(5,2) NOT NULL DEFAULT 5.00,
+    "expectedReturn" DECIMAL(5,2) NOT NULL DEFAULT 6.00,
+    "goalId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CollegePlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CollegePlanAccount" (
+    "id" TEXT NOT NULL,
+    "collegePlanId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CollegePlanAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CollegePlan_goalId_key" ON "CollegePlan"("goalId");
+
+-- CreateIndex
+CREATE INDEX "CollegePlan_householdId_idx" ON "CollegePlan"("householdId");
+
+-- CreateIndex
+CREATE INDEX "CollegePlanAccount_accountId_idx" ON "CollegePlanAccount"("accountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CollegePlanAccount_collegePlanId_accountId_key" ON "CollegePlanAccount"("collegePlanId", "accountId");
+
+-- AddForeignKey
+ALTER TABLE "CollegePlan" ADD CONSTRAINT "CollegePlan_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CollegePlan" ADD CONSTRAINT "CollegePlan_goalId_fkey" FOREIGN KEY ("goalId") REFERENCES "Goal"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CollegePlanAccount" ADD CONSTRAINT "CollegePlanAccount_collegePlanId_fkey" FOREIGN KEY ("collegePlanId") REFERENCES "CollegePlan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CollegePlanAccount" ADD CONSTRAINT "CollegePlanAccount_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "AuditEntityType" AS ENUM ('TRANSACTION', 'CATEGORY', 'RULE', 'BUDGET', 'GOAL', 'ACCOUNT', 'RECURRING', 'HOUSEHOLD');
+
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('CREATE', 'UPDATE', 'DELETE');
+
+-- CreateTable
+CREATE TABLE "AuditEvent" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "entityType" "AuditEntityType" NOT NULL,
+    "entityId" TEXT,
+    "entityName" TEXT,
+    "action" "AuditAction" NOT NULL,
+    "summary" TEXT,
+    "changes" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_householdId_createdAt_idx" ON "AuditEvent"("householdId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_householdId_entityType_entityId_idx" ON "AuditEvent"("householdId", "entityType", "entityId");
+
+-- AddForeignKey
+ALTER TABLE "AuditEvent" ADD CONSTRAINT "AuditEvent_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AuditEvent" ADD CONSTRAINT "AuditEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
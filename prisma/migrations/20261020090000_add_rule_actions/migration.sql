@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "CategorizationRule" ADD COLUMN     "actions" JSONB,
+ALTER COLUMN "categoryId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "excludeFromBudget" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "transferPaired" BOOLEAN NOT NULL DEFAULT false;
+
+-- Backfill: every leg that has a pair now was paired
+UPDATE "Transaction" SET "transferPaired" = true WHERE "transferPairId" IS NOT NULL;
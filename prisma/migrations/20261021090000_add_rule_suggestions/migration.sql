@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "RuleSuggestionStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DISMISSED');
+
+-- CreateTable
+CREATE TABLE "RuleSuggestion" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "merchantKey" TEXT NOT NULL,
+    "merchantName" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "status" "RuleSuggestionStatus" NOT NULL DEFAULT 'PENDING',
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RuleSuggestion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RuleSuggestion_householdId_merchantKey_categoryId_key" ON "RuleSuggestion"("householdId", "merchantKey", "categoryId");
+
+-- CreateIndex
+CREATE INDEX "RuleSuggestion_householdId_status_idx" ON "RuleSuggestion"("householdId", "status");
+
+-- AddForeignKey
+ALTER TABLE "RuleSuggestion" ADD CONSTRAINT "RuleSuggestion_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RuleSuggestion" ADD CONSTRAINT "RuleSuggestion_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Budget" ADD COLUMN     "rolloverCap" DECIMAL(19,4),
+ADD COLUMN     "rolloverReset" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,31 @@
+-- AlterEnum
+ALTER TYPE "AuditEntityType" ADD VALUE 'BUDGET_TEMPLATE';
+
+-- AlterTable
+ALTER TABLE "Household" ADD COLUMN     "budgetTemplateAppliedThrough" TEXT;
+
+-- AlterTable
+ALTER TABLE "Budget" ADD COLUMN     "fromTemplate" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "BudgetTemplateItem" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "amount" DECIMAL(19,4) NOT NULL,
+    "rollover" BOOLEAN NOT NULL DEFAULT false,
+    "rolloverCap" DECIMAL(19,4),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BudgetTemplateItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BudgetTemplateItem_householdId_categoryId_key" ON "BudgetTemplateItem"("householdId", "categoryId");
+
+-- AddForeignKey
+ALTER TABLE "BudgetTemplateItem" ADD CONSTRAINT "BudgetTemplateItem_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BudgetTemplateItem" ADD CONSTRAINT "BudgetTemplateItem_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
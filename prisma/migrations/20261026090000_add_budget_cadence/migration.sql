@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "BudgetCadence" AS ENUM ('WEEKLY', 'BIWEEKLY', 'SEMIMONTHLY', 'MONTHLY', 'QUARTERLY', 'ANNUAL');
+
+-- AlterTable
+ALTER TABLE "Household" RENAME COLUMN "budgetTemplateAppliedThrough" TO "budgetTemplatePeriod";
+ALTER TABLE "Household" ADD COLUMN     "budgetCadence" "BudgetCadence" NOT NULL DEFAULT 'MONTHLY',
+ADD COLUMN     "budgetPaydayAnchor" TEXT;
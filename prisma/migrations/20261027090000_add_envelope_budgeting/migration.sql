@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "BudgetMode" AS ENUM ('STANDARD', 'ENVELOPE');
+
+-- AlterTable
+ALTER TABLE "Household" ADD COLUMN     "budgetMode" "BudgetMode" NOT NULL DEFAULT 'STANDARD';
+
+-- CreateTable
+CREATE TABLE "BudgetAssignment" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "fromCategoryId" TEXT,
+    "toCategoryId" TEXT,
+    "amount" DECIMAL(19,4) NOT NULL,
+    "note" TEXT,
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BudgetAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BudgetAssignment_householdId_period_idx" ON "BudgetAssignment"("householdId", "period");
+
+-- AddForeignKey
+ALTER TABLE "BudgetAssignment" ADD CONSTRAINT "BudgetAssignment_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "Household"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BudgetAssignment" ADD CONSTRAINT "BudgetAssignment_fromCategoryId_fkey" FOREIGN KEY ("fromCategoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BudgetAssignment" ADD CONSTRAINT "BudgetAssignment_toCategoryId_fkey" FOREIGN KEY ("toCategoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BudgetAssignment" ADD CONSTRAINT "BudgetAssignment_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
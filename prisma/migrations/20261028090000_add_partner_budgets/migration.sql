@@ -0,0 +1,14 @@
+-- DropIndex
+DROP INDEX "Budget_householdId_categoryId_period_key";
+
+-- AlterTable
+ALTER TABLE "Budget" ADD COLUMN     "ownerId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Budget_householdId_categoryId_period_ownerId_key" ON "Budget"("householdId", "categoryId", "period", "ownerId");
+
+-- CreateIndex: one joint budget per category and period (not expressible in the Prisma schema)
+CREATE UNIQUE INDEX "Budget_joint_key" ON "Budget"("householdId", "categoryId", "period") WHERE "ownerId" IS NULL;
+
+-- AddForeignKey
+ALTER TABLE "Budget" ADD CONSTRAINT "Budget_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;